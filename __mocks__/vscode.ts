@@ -68,9 +68,11 @@ export const env = {
 
 export const window = {
   showErrorMessage: jest.fn(),
+  showWarningMessage: jest.fn(),
   showInformationMessage: jest.fn(),
   showQuickPick: jest.fn().mockResolvedValue(undefined),
   showInputBox: jest.fn().mockResolvedValue(undefined),
+  showSaveDialog: jest.fn().mockResolvedValue(undefined),
   showTextDocument: jest.fn().mockResolvedValue({
     selection: undefined,
     revealRange: jest.fn(),
@@ -96,6 +98,7 @@ export const window = {
   activeTextEditor: undefined,
   onDidChangeActiveTextEditor: jest.fn().mockReturnValue({ dispose: jest.fn() }),
   tabGroups: {
+    all: [] as Array<{ tabs: Array<{ input: unknown }> }>,
     onDidChangeTabs: jest.fn().mockReturnValue({ dispose: jest.fn() }),
     onDidChangeTabGroups: jest.fn().mockReturnValue({ dispose: jest.fn() }),
   },
@@ -115,6 +118,14 @@ export const window = {
   registerWebviewViewProvider: jest.fn().mockReturnValue({ dispose: jest.fn() }),
 };
 
+export class TabInputText {
+  constructor(public readonly uri: any) {}
+}
+
+export class TabInputTextDiff {
+  constructor(public readonly original: any, public readonly modified: any) {}
+}
+
 export class FileSystemError extends Error {
   static FileNotFound() {
     const err = new FileSystemError('File not found');
@@ -165,3 +176,34 @@ export const ConfigurationTarget = {
   Workspace: 2,
   WorkspaceFolder: 3,
 };
+
+export const SymbolKind = {
+  File: 0,
+  Module: 1,
+  Namespace: 2,
+  Package: 3,
+  Class: 4,
+  Method: 5,
+  Property: 6,
+  Field: 7,
+  Constructor: 8,
+  Enum: 9,
+  Interface: 10,
+  Function: 11,
+  Variable: 12,
+  Constant: 13,
+  String: 14,
+  Number: 15,
+  Boolean: 16,
+  Array: 17,
+  Object: 18,
+  Key: 19,
+  Null: 20,
+  EnumMember: 21,
+  Struct: 22,
+  Event: 23,
+  Operator: 24,
+  TypeParameter: 25,
+};
+
+export const Location = jest.fn((uri, range) => ({ uri, range }));
@@ -0,0 +1,86 @@
+import { combineBooleanResults, getBooleanQuery, parseBooleanQuery } from '../booleanQuery';
+import { SearchResult, buildSearchRegex } from '../utils';
+
+jest.mock('vscode');
+
+describe('booleanQuery', () => {
+  const makeResult = (file: string, line: number, preview: string, start: number, end: number): SearchResult => ({
+    uri: `file:///repo/${file}`,
+    fileName: file.split('/').pop() || '',
+    relativePath: file,
+    line,
+    character: start,
+    length: end - start,
+    preview,
+    previewMatchRange: { start, end },
+  });
+
+  const options = { matchCase: false, wholeWord: false, useRegex: false, fileMask: '' };
+
+  describe('parseBooleanQuery', () => {
+    test('splits positive and negative terms on AND / NOT', () => {
+      expect(parseBooleanQuery('FeatureFlag AND legacyCheckout NOT @deprecated')).toEqual({
+        positive: ['FeatureFlag', 'legacyCheckout'],
+        negative: ['@deprecated'],
+      });
+      expect(parseBooleanQuery('a.b AND NOT "x y"')).toEqual({ positive: ['a.b'], negative: ['x y'] });
+    });
+
+    test('keeps spaces inside terms and operators inside quotes', () => {
+      expect(parseBooleanQuery('if (ready) AND "A AND B"')).toEqual({ positive: ['if (ready)', 'A AND B'], negative: [] });
+    });
+
+    test('is undefined without an uppercase standalone operator', () => {
+      expect(parseBooleanQuery('foo and bar')).toBeUndefined();
+      expect(parseBooleanQuery('ANDROID NOTES')).toBeUndefined();
+      expect(parseBooleanQuery('"foo AND bar"')).toBeUndefined();
+    });
+
+    test('ignores dangling operators', () => {
+      expect(parseBooleanQuery('foo AND')).toEqual({ positive: ['foo'], negative: [] });
+    });
+
+    test('does not apply to multiline or structural searches', () => {
+      expect(getBooleanQuery('foo AND bar', { ...options, multiline: true })).toBeUndefined();
+      expect(getBooleanQuery('foo AND bar', { ...options, structural: true })).toBeUndefined();
+    });
+  });
+
+  describe('combineBooleanResults', () => {
+    test('keeps files hit by every positive term and no negative term', () => {
+      const flag = [makeResult('a.ts', 0, 'FeatureFlag', 0, 11), makeResult('b.ts', 0, 'FeatureFlag', 0, 11)];
+      const legacy = [makeResult('a.ts', 4, 'legacyCheckout', 0, 14), makeResult('b.ts', 1, 'legacyCheckout', 0, 14)];
+      const deprecated = [makeResult('b.ts', 9, '@deprecated', 0, 11)];
+
+      const combined = combineBooleanResults([flag, legacy], [deprecated], 100);
+
+      expect(combined.map((r) => [r.relativePath, r.line])).toEqual([['a.ts', 0], ['a.ts', 4]]);
+    });
+
+    test('merges hits of different terms on the same line', () => {
+      const preview = 'if (flag && legacy) {';
+      const combined = combineBooleanResults(
+        [[makeResult('a.ts', 2, preview, 12, 18)], [makeResult('a.ts', 2, preview, 4, 8)]],
+        [],
+        100
+      );
+
+      expect(combined).toHaveLength(1);
+      expect(combined[0].character).toBe(4);
+      expect(combined[0].matchCount).toBe(2);
+      expect(combined[0].previewMatchRanges).toEqual([{ start: 4, end: 8 }, { start: 12, end: 18 }]);
+    });
+
+    test('caps the combined results', () => {
+      const hits = [0, 1, 2].map((line) => makeResult('a.ts', line, 'foo', 0, 3));
+      expect(combineBooleanResults([hits], [], 2)).toHaveLength(2);
+    });
+  });
+
+  test('the search regex matches any positive term', () => {
+    const regex = buildSearchRegex('foo.bar AND baz NOT qux', { ...options, wholeWord: true });
+
+    expect('x foo.bar baz qux'.match(regex!)).toEqual(['foo.bar', 'baz']);
+    expect('fooxbar bazz'.match(regex!)).toBeNull();
+  });
+});
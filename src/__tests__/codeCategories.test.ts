@@ -0,0 +1,163 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { filterResultsByCodeContext } from '../codeContextFilter';
+import { CODE_CATEGORIES, CodeCategory, SearchResult } from '../utils';
+
+describe('Code categories', () => {
+  beforeEach(() => {
+    (vscode.workspace.fs.readFile as jest.Mock).mockReset();
+  });
+
+  // Each line has one `foo`; the categories that match sits in are given alongside
+  const cases: Array<{ fileName: string; lines: Array<[string, CodeCategory[]]> }> = [
+    {
+      fileName: 'app.tsx',
+      lines: [
+        ["import { foo } from './foo';", ['identifiers', 'imports']],
+        ['const x: foo = bar;', ['identifiers', 'types']],
+        ['const y = { key: foo };', ['identifiers']],
+        ['const z = cond ? foo : bar;', ['identifiers']],
+        ['function f(a: number): foo {', ['identifiers', 'types']],
+        ['}', []],
+        ['const el = <div className="x">hello foo</div>;', ['jsxText']],
+        ["const lazy = import('./foo');", ['imports']],
+        ['class Bar extends foo {}', ['identifiers', 'types']],
+        ['// foo', []],
+      ],
+    },
+    {
+      fileName: 'models.py',
+      lines: [
+        ['from foo import bar', ['identifiers', 'imports']],
+        ['def f(x: foo) -> int:', ['identifiers', 'types']],
+        ['    d = {"k": foo}', ['identifiers']],
+        ['    y = lambda v: foo', ['identifiers']],
+        ['z: foo = 1', ['identifiers', 'types']],
+      ],
+    },
+    {
+      fileName: 'Service.java',
+      lines: [
+        ['import com.foo.Bar;', ['identifiers', 'imports']],
+        ['private foo service = null;', ['identifiers', 'types']],
+        ['return foo;', ['identifiers']],
+        ['Object o = new foo();', ['identifiers', 'types']],
+      ],
+    },
+    {
+      fileName: 'main.go',
+      lines: [
+        ['var x foo', ['identifiers', 'types']],
+        ['return foo', ['identifiers']],
+        ['type foo struct {', ['identifiers', 'types']],
+        ['}', []],
+      ],
+    },
+    {
+      fileName: 'lib.rs',
+      lines: [
+        ['use crate::foo::Bar;', ['identifiers', 'imports']],
+        ['let p = Point { x: foo };', ['identifiers']],
+        ['fn run(a: foo) -> Bar {', ['identifiers', 'types']],
+        ['}', []],
+        ['impl foo for Bar {}', ['identifiers', 'types']],
+      ],
+    },
+  ];
+
+  for (const { fileName, lines } of cases) {
+    test(`finds identifiers, imports, types and JSX text in ${fileName}`, async () => {
+      const content = lines.map(([text]) => text).join('\n');
+      (vscode.workspace.fs.readFile as jest.Mock).mockResolvedValue(Buffer.from(content, 'utf8'));
+      const uri = vscode.Uri.file(`/tmp/${fileName}`).toString();
+
+      const results: SearchResult[] = [];
+      lines.forEach(([text], line) => {
+        const start = text.indexOf('foo');
+        if (start === -1) return;
+        results.push({
+          uri,
+          fileName,
+          relativePath: fileName,
+          line,
+          character: start,
+          length: 3,
+          preview: text,
+          previewMatchRange: { start, end: start + 3 },
+          previewMatchRanges: [{ start, end: start + 3 }],
+          matchRanges: [{ start, end: start + 3 }],
+        });
+      });
+
+      for (const category of CODE_CATEGORIES) {
+        const filtered = await filterResultsByCodeContext(results, {
+          matchCase: false,
+          wholeWord: false,
+          useRegex: false,
+          fileMask: '',
+          codeCategories: [category],
+        });
+        const expected = results
+          .filter((r) => lines[r.line][1].includes(category))
+          .map((r) => r.line);
+        assert.deepStrictEqual(filtered.map((r) => r.line), expected, `${fileName} ${category}`);
+      }
+    });
+  }
+
+  test('keeps matches in any of the selected categories', async () => {
+    const content = ["import { foo } from './foo';", 'const x: foo = 1;', 'foo();'].join('\n');
+    (vscode.workspace.fs.readFile as jest.Mock).mockResolvedValue(Buffer.from(content, 'utf8'));
+    const uri = vscode.Uri.file('/tmp/any.ts').toString();
+    const results: SearchResult[] = content.split('\n').map((text, line) => {
+      const start = text.indexOf('foo');
+      return {
+        uri,
+        fileName: 'any.ts',
+        relativePath: 'any.ts',
+        line,
+        character: start,
+        length: 3,
+        preview: text,
+        previewMatchRange: { start, end: start + 3 },
+        matchRanges: [{ start, end: start + 3 }],
+      };
+    });
+
+    const filtered = await filterResultsByCodeContext(results, {
+      matchCase: false,
+      wholeWord: false,
+      useRegex: false,
+      fileMask: '',
+      codeCategories: ['imports', 'types'],
+    });
+
+    assert.deepStrictEqual(filtered.map((r) => r.line), [0, 1]);
+  });
+
+  test('drops results in languages without a grammar when categories are selected', async () => {
+    const results: SearchResult[] = [
+      {
+        uri: 'file:///test/foo.yml',
+        fileName: 'foo.yml',
+        relativePath: 'foo.yml',
+        line: 0,
+        character: 0,
+        length: 3,
+        preview: 'foo: bar',
+        previewMatchRange: { start: 0, end: 3 },
+        matchRanges: [{ start: 0, end: 3 }],
+      },
+    ];
+
+    const filtered = await filterResultsByCodeContext(results, {
+      matchCase: false,
+      wholeWord: false,
+      useRegex: false,
+      fileMask: '',
+      codeCategories: ['identifiers'],
+    });
+
+    assert.strictEqual(filtered.length, 0);
+  });
+});
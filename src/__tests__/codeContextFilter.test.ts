@@ -274,4 +274,122 @@ describe('Code context filtering', () => {
 
     assert.strictEqual(filtered.length, 0);
   });
+
+  describe('languages beyond JavaScript, Python and Java', () => {
+    // Each line has one `foo`; the expected context of that match is given alongside
+    const cases: Array<{ fileName: string; lines: Array<[string, 'code' | 'comment' | 'string']> }> = [
+      {
+        fileName: 'main.go',
+        lines: [
+          ['foo := bar() // call', 'code'],
+          ['// foo', 'comment'],
+          ['s := `raw \\ foo', 'string'],
+          ['still raw foo`', 'string'],
+          ['r := \'x\'; foo()', 'code'],
+        ],
+      },
+      {
+        fileName: 'lib.rs',
+        lines: [
+          ['fn foo<\'a>(x: &\'a str) {}', 'code'],
+          ['/* outer /* inner */ foo */', 'comment'],
+          ['let s = r#"say "foo""#;', 'string'],
+          ['let c = \'\\n\'; foo(c);', 'code'],
+          ['let t = "foo";', 'string'],
+        ],
+      },
+      {
+        fileName: 'Program.cs',
+        lines: [
+          ['var path = @"C:\\dir\\"; foo();', 'code'],
+          ['var s = @"a ""foo"" b";', 'string'],
+          ['/* foo */ Run();', 'comment'],
+          ['var t = $"{d["k"]} {foo}";', 'code'],
+          ['var u = $"{d["k"]} foo";', 'string'],
+        ],
+      },
+      {
+        fileName: 'App.kt',
+        lines: [
+          ['/* a /* nested */ foo */', 'comment'],
+          ['val s = """', 'code'],
+          ['foo in raw string', 'string'],
+          ['"""; foo()', 'code'],
+          ['val t = "a ${foo("k")} b"', 'code'],
+          ['val u = "${m["k"]} foo $x"', 'string'],
+        ],
+      },
+      {
+        fileName: 'task.rb',
+        lines: [
+          ['=begin', 'comment'],
+          ['foo in block comment', 'comment'],
+          ['=end', 'comment'],
+          ['puts "#{x} foo" # note', 'string'],
+          ['foo(1) # call', 'code'],
+          ['sql = <<~SQL', 'code'],
+          ['  # foo is not a comment here', 'string'],
+          ['SQL', 'code'],
+          ['q = %q{foo # bar}', 'string'],
+          ['r = %q{a} # foo', 'comment'],
+        ],
+      },
+      {
+        fileName: 'query.sql',
+        lines: [
+          ['SELECT "foo" FROM t -- pick', 'code'],
+          ['WHERE name = \'it\'\'s foo\'', 'string'],
+          ['-- foo', 'comment'],
+          ['SELECT \'C:\\\', foo FROM t', 'code'],
+          ['SELECT `a--b`, foo FROM t', 'code'],
+          ['WHERE x = E\'it\\\'s foo\'', 'string'],
+          ['CREATE FUNCTION foo() AS $body$', 'code'],
+          ['  SELECT \'x\'; -- foo', 'string'],
+          ['$body$; SELECT $$ it\'s foo $$', 'string'],
+        ],
+      },
+    ];
+
+    for (const { fileName, lines } of cases) {
+      test(`classifies comments and strings in ${fileName}`, async () => {
+        const content = lines.map(([text]) => text).join('\n');
+        (vscode.workspace.fs.readFile as jest.Mock).mockResolvedValue(Buffer.from(content, 'utf8'));
+        const uri = vscode.Uri.file(`/tmp/${fileName}`).toString();
+
+        const results: SearchResult[] = [];
+        lines.forEach(([text], line) => {
+          const start = text.indexOf('foo');
+          if (start === -1) return;
+          results.push({
+            uri,
+            fileName,
+            relativePath: fileName,
+            line,
+            character: start,
+            length: 3,
+            preview: text,
+            previewMatchRange: { start, end: start + 3 },
+            previewMatchRanges: [{ start, end: start + 3 }],
+            matchRanges: [{ start, end: start + 3 }],
+          });
+        });
+
+        for (const context of ['code', 'comment', 'string'] as const) {
+          const filtered = await filterResultsByCodeContext(results, {
+            matchCase: false,
+            wholeWord: false,
+            useRegex: false,
+            fileMask: '',
+            includeCode: context === 'code',
+            includeComments: context === 'comment',
+            includeStrings: context === 'string',
+          });
+          const expected = results
+            .filter((r) => lines[r.line][1] === context)
+            .map((r) => r.line);
+          assert.deepStrictEqual(filtered.map((r) => r.line), expected, `${fileName} ${context}`);
+        }
+      });
+    }
+  });
 });
@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import { fuzzyMatchPath, rankFileNames } from '../fileNameSearch';
+
+describe('File name search', () => {
+  const files = [
+    'src/search.ts',
+    'src/sidebar/SidebarProvider.ts',
+    'src/__tests__/search.test.ts',
+    'src/services/SearchService.ts',
+    'README.md',
+  ].map((relativePath) => ({ filePath: `/ws/${relativePath}`, relativePath }));
+
+  const rank = (query: string): string[] => rankFileNames(files, query, 10).map((r) => r.relativePath);
+
+  test('matches query characters in order, ignoring case and spaces', () => {
+    assert.ok(fuzzyMatchPath('SbPr', 'src/sidebar/SidebarProvider.ts'));
+    assert.ok(fuzzyMatchPath('side prov', 'src/sidebar/SidebarProvider.ts'));
+    assert.strictEqual(fuzzyMatchPath('prs', 'src/search.ts'), undefined);
+  });
+
+  test('treats either path separator alike', () => {
+    assert.deepStrictEqual(fuzzyMatchPath('src\\sea', 'src/search.ts')?.positions, [0, 1, 2, 3, 4, 5, 6]);
+  });
+
+  test('prefers word starts and consecutive characters', () => {
+    const match = fuzzyMatchPath('sp', 'src/sidebar/SidebarProvider.ts');
+    assert.deepStrictEqual(match?.positions, [12, 19]);
+  });
+
+  test('ranks file name matches first, then shorter paths', () => {
+    assert.deepStrictEqual(rank('search'), [
+      'src/search.ts',
+      'src/__tests__/search.test.ts',
+      'src/services/SearchService.ts',
+    ]);
+    assert.deepStrictEqual(rank('readme'), ['README.md']);
+  });
+
+  test('maps matches to results with the path as preview', () => {
+    const [result] = rankFileNames(files, 'rdm', 1);
+    assert.strictEqual(result.uri, 'file:///ws/README.md');
+    assert.strictEqual(result.fileName, 'README.md');
+    assert.strictEqual(result.preview, 'README.md');
+    assert.strictEqual(result.matchCount, 1);
+    assert.deepStrictEqual(result.previewMatchRanges, [{ start: 0, end: 1 }, { start: 3, end: 4 }, { start: 7, end: 8 }]);
+  });
+});
@@ -0,0 +1,89 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { getChangedFiles, isValidGitRef, parseGitNameOnly, parseGitStatus } from '../gitChanges';
+
+jest.mock('child_process', () => ({
+  execFile: jest.fn(),
+}));
+
+const execFileMock = execFile as unknown as jest.Mock;
+
+function mockGit(outputs: Record<string, string>): void {
+  execFileMock.mockImplementation((_cmd: string, args: string[], _opts: unknown, callback: (err: Error | null, stdout: string) => void) => {
+    const key = args[0];
+    if (key in outputs) {
+      callback(null, outputs[key]);
+    } else {
+      callback(new Error(`unexpected git ${key}`), '');
+    }
+  });
+}
+
+describe('gitChanges', () => {
+  const repo = path.join(path.sep, 'repo');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (vscode.workspace as any).workspaceFolders = [{ name: 'repo', uri: { fsPath: repo }, index: 0 }];
+  });
+
+  afterEach(() => {
+    (vscode.workspace as any).workspaceFolders = [];
+  });
+
+  test('parseGitStatus skips deleted files and the original path of renames', () => {
+    const output = [' M src/a.ts', '?? notes.md', ' D gone.ts', 'R  src/new.ts', 'src/old.ts', 'A  src/b.ts', ''].join('\0');
+
+    expect(parseGitStatus(output)).toEqual(['src/a.ts', 'notes.md', 'src/new.ts', 'src/b.ts']);
+  });
+
+  test('parseGitNameOnly splits NUL-separated paths', () => {
+    expect(parseGitNameOnly('a.ts\0dir/b.ts\0')).toEqual(['a.ts', 'dir/b.ts']);
+  });
+
+  test('isValidGitRef accepts refs and rejects options and ranges', () => {
+    expect(isValidGitRef('main')).toBe(true);
+    expect(isValidGitRef('origin/release-1.2')).toBe(true);
+    expect(isValidGitRef('HEAD~3')).toBe(true);
+    expect(isValidGitRef('@{u}')).toBe(true);
+    expect(isValidGitRef('--output=/tmp/x')).toBe(false);
+    expect(isValidGitRef('main..feature')).toBe(false);
+    expect(isValidGitRef('main; rm -rf')).toBe(false);
+  });
+
+  test('lists uncommitted changes as absolute paths when there is no base', async () => {
+    mockGit({ 'rev-parse': `${repo}\n`, status: ' M src/a.ts\0?? b.ts\0' });
+
+    const files = await getChangedFiles('');
+
+    expect(files).toEqual([path.join(repo, 'src', 'a.ts'), path.join(repo, 'b.ts')]);
+    expect(execFileMock.mock.calls[1][1]).toEqual(['status', '--porcelain', '-z', '--untracked-files=all']);
+  });
+
+  test('diffs against the base ref when one is given', async () => {
+    mockGit({ 'rev-parse': `${repo}\n`, diff: 'src/a.ts\0' });
+
+    const files = await getChangedFiles('main');
+
+    expect(files).toEqual([path.join(repo, 'src', 'a.ts')]);
+    expect(execFileMock.mock.calls[1][1]).toEqual(['diff', '--name-only', '-z', '--diff-filter=d', 'main', '--']);
+  });
+
+  test('keeps only files inside a workspace folder that is a repository subdirectory', async () => {
+    (vscode.workspace as any).workspaceFolders = [{ name: 'api', uri: { fsPath: path.join(repo, 'api') }, index: 0 }];
+    mockGit({ 'rev-parse': `${repo}\n`, status: ' M api/a.ts\0 M web/b.ts\0' });
+
+    expect(await getChangedFiles()).toEqual([path.join(repo, 'api', 'a.ts')]);
+  });
+
+  test('skips folders that are not git repositories and ignores invalid bases', async () => {
+    mockGit({});
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(await getChangedFiles()).toEqual([]);
+    expect(await getChangedFiles('-x')).toEqual([]);
+    expect(warn).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+});
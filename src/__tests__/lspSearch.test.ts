@@ -9,7 +9,12 @@ import {
   mapLocationsToSearchResults,
   checkLspAvailability,
   lspReplaceAll,
+  executeWorkspaceSymbolSearch,
+  expandHierarchyNode,
+  resolveLspSymbol,
+  mergeReferenceResults,
 } from '../lspSearch';
+import { SearchResult } from '../utils';
 
 // Use OS-agnostic paths for testing
 const WORKSPACE_ROOT = path.join(os.tmpdir(), 'test-workspace');
@@ -80,6 +85,89 @@ describe('lspSearch', () => {
     });
   });
 
+  describe('resolveLspSymbol', () => {
+    const declaration = (name: string, relPath: string, line: number, containerName = '') => ({
+      name,
+      kind: vscode.SymbolKind.Function,
+      containerName,
+      location: {
+        uri: makeUri(relPath),
+        range: { start: { line, character: 0 }, end: { line: line + 3, character: 1 } },
+      },
+    });
+
+    beforeEach(() => {
+      (vscode.workspace.openTextDocument as jest.Mock).mockResolvedValue({
+        languageId: 'typescript',
+        lineAt: jest.fn().mockReturnValue({ text: 'export function renderRow(row) {' }),
+      });
+    });
+
+    test('uses the symbol at the cursor when no name is typed', async () => {
+      const mockUri = makeUri('src/file.ts');
+      (vscode.window as any).activeTextEditor = {
+        document: {
+          getWordRangeAtPosition: jest.fn().mockReturnValue({ start: { line: 2, character: 4 }, end: { line: 2, character: 9 } }),
+          getText: jest.fn().mockReturnValue('click'),
+          uri: mockUri,
+          languageId: 'typescript',
+        },
+        selection: { active: { line: 2, character: 6 } },
+      };
+
+      const symbol = await resolveLspSymbol('');
+      expect(symbol?.symbolName).toBe('click');
+      expect(vscode.commands.executeCommand).not.toHaveBeenCalled();
+    });
+
+    test('resolves a typed name to the position of its declaration', async () => {
+      (vscode.commands.executeCommand as jest.Mock).mockResolvedValue([
+        declaration('renderRow', 'src/rows.ts', 12),
+        declaration('renderRows', 'src/rows.ts', 30),
+      ]);
+
+      const symbol = await resolveLspSymbol('renderRow');
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith('vscode.executeWorkspaceSymbolProvider', 'renderRow');
+      expect(vscode.window.showQuickPick).not.toHaveBeenCalled();
+      expect(symbol).toMatchObject({
+        symbolName: 'renderRow',
+        position: { line: 12, character: 16 },
+        languageId: 'typescript',
+      });
+      expect(symbol?.uri.toString()).toBe(makeUri('src/rows.ts').toString());
+    });
+
+    test('asks which symbol was meant when several share the name, and remembers the pick', async () => {
+      const symbols = [
+        declaration('renderRow', 'src/table.ts', 4, 'Table'),
+        declaration('renderRow', 'src/grid.ts', 8, 'Grid'),
+      ];
+      (vscode.commands.executeCommand as jest.Mock).mockResolvedValue(symbols);
+      (vscode.window.showQuickPick as jest.Mock).mockImplementationOnce(async (items: any[]) => items[1]);
+
+      const symbol = await resolveLspSymbol('renderRow');
+      const items = (vscode.window.showQuickPick as jest.Mock).mock.calls[0][0];
+      expect(items.map((item: any) => item.description)).toEqual(['function · Table', 'function · Grid']);
+      expect(symbol?.position).toEqual({ line: 8, character: 16 });
+
+      const again = await resolveLspSymbol('renderRow');
+      expect(vscode.window.showQuickPick).toHaveBeenCalledTimes(1);
+      expect(again?.uri.toString()).toBe(makeUri('src/grid.ts').toString());
+    });
+
+    test('returns undefined when the list is dismissed and null when nothing matches', async () => {
+      (vscode.commands.executeCommand as jest.Mock).mockResolvedValue([
+        declaration('paint', 'src/a.ts', 1),
+        declaration('paint', 'src/b.ts', 1),
+      ]);
+      (vscode.window.showQuickPick as jest.Mock).mockResolvedValueOnce(undefined);
+      expect(await resolveLspSymbol('paint')).toBeUndefined();
+
+      (vscode.commands.executeCommand as jest.Mock).mockResolvedValue([declaration('painter', 'src/a.ts', 1)]);
+      expect(await resolveLspSymbol('paint')).toBeNull();
+    });
+  });
+
   describe('executeLspSearch', () => {
     const mockUri = makeUri('src/file.ts');
     const mockPosition = { line: 5, character: 10 };
@@ -94,6 +182,16 @@ describe('lspSearch', () => {
       );
     });
 
+    test('runs the reference provider for references + text', async () => {
+      (vscode.commands.executeCommand as jest.Mock).mockResolvedValue([]);
+      await executeLspSearch(mockUri as any, mockPosition as any, 'referencesAndText');
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+        'vscode.executeReferenceProvider',
+        mockUri,
+        mockPosition
+      );
+    });
+
     test('dispatches to correct VS Code command for definitions', async () => {
       (vscode.commands.executeCommand as jest.Mock).mockResolvedValue([]);
       await executeLspSearch(mockUri as any, mockPosition as any, 'definitions');
@@ -174,6 +272,234 @@ describe('lspSearch', () => {
     });
   });
 
+  describe('hierarchy modes', () => {
+    const mockUri = makeUri('src/file.ts');
+    const mockPosition = { line: 5, character: 10 };
+    const range = (line: number, character: number, length: number) => ({
+      start: { line, character },
+      end: { line, character: character + length },
+    });
+    const makeItem = (name: string, relPath: string, line: number) => ({
+      name,
+      detail: 'detail of ' + name,
+      uri: makeUri(relPath),
+      range: range(line, 0, 20),
+      selectionRange: range(line, 9, name.length),
+    });
+
+    beforeEach(() => {
+      (vscode.workspace.openTextDocument as jest.Mock).mockResolvedValue({
+        lineAt: jest.fn().mockReturnValue({ text: 'function render() { save(); }' }),
+      });
+    });
+
+    test('lists incoming calls as nodes with their call sites', async () => {
+      const root = makeItem('save', 'src/file.ts', 5);
+      const caller = makeItem('render', 'src/view.ts', 3);
+      (vscode.commands.executeCommand as jest.Mock).mockImplementation(async (command: string) => {
+        if (command === 'vscode.prepareCallHierarchy') return [root];
+        if (command === 'vscode.provideIncomingCalls') return [{ from: caller, fromRanges: [range(7, 20, 4), range(9, 2, 4)] }];
+        return undefined;
+      });
+
+      const results = await executeLspSearch(mockUri as any, mockPosition as any, 'incomingCalls');
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith('vscode.prepareCallHierarchy', mockUri, mockPosition);
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith('vscode.provideIncomingCalls', root);
+      expect(results.map((r) => [r.fileName, r.line, r.character])).toEqual([['view.ts', 7, 20], ['view.ts', 9, 2]]);
+      expect(results[0].hierarchy).toMatchObject({ depth: 1, name: 'render', detail: 'detail of render' });
+      expect(results[0].hierarchy?.parentId).toBeUndefined();
+      expect(results[1].hierarchy?.id).toBe(results[0].hierarchy?.id);
+    });
+
+    test('places outgoing call sites in the calling file', async () => {
+      const root = makeItem('render', 'src/view.ts', 3);
+      const callee = makeItem('save', 'src/store.ts', 1);
+      (vscode.commands.executeCommand as jest.Mock).mockImplementation(async (command: string) => {
+        if (command === 'vscode.prepareCallHierarchy') return [root];
+        if (command === 'vscode.provideOutgoingCalls') return [{ to: callee, fromRanges: [range(4, 20, 4)] }];
+        return undefined;
+      });
+
+      const results = await executeLspSearch(mockUri as any, mockPosition as any, 'outgoingCalls');
+      expect(results).toHaveLength(1);
+      expect(results[0]).toMatchObject({ fileName: 'view.ts', line: 4, character: 20, length: 4 });
+      expect(results[0].hierarchy?.name).toBe('save');
+    });
+
+    test('lists types at their declaration and expands a node one level deeper', async () => {
+      const root = makeItem('Dog', 'src/dog.ts', 0);
+      const animal = makeItem('Animal', 'src/animal.ts', 2);
+      const creature = makeItem('Creature', 'src/creature.ts', 4);
+      (vscode.commands.executeCommand as jest.Mock).mockImplementation(async (command: string, item?: { name: string }) => {
+        if (command === 'vscode.prepareTypeHierarchy') return [root];
+        if (command === 'vscode.provideSupertypes') return item?.name === 'Dog' ? [animal] : [creature];
+        return undefined;
+      });
+
+      const [result] = await executeLspSearch(mockUri as any, mockPosition as any, 'supertypes');
+      expect(result).toMatchObject({ fileName: 'animal.ts', line: 2, character: 9, length: 6 });
+      expect(result.hierarchy).toMatchObject({ depth: 1, name: 'Animal' });
+
+      const next = await expandHierarchyNode(result.hierarchy!.id);
+      expect(vscode.commands.executeCommand).toHaveBeenLastCalledWith('vscode.provideSupertypes', animal);
+      expect(next).toHaveLength(1);
+      expect(next![0]).toMatchObject({ fileName: 'creature.ts', line: 4 });
+      expect(next![0].hierarchy).toMatchObject({ depth: 2, name: 'Creature', parentId: result.hierarchy!.id });
+    });
+
+    test('returns undefined when expanding an unknown node', async () => {
+      expect(await expandHierarchyNode('no-such-node')).toBeUndefined();
+    });
+
+    test('returns empty array when no hierarchy item is at the position', async () => {
+      (vscode.commands.executeCommand as jest.Mock).mockResolvedValue([]);
+      expect(await executeLspSearch(mockUri as any, mockPosition as any, 'subtypes')).toEqual([]);
+    });
+  });
+
+  describe('executeWorkspaceSymbolSearch', () => {
+    const makeSymbol = (name: string, kind: number, relPath: string, line: number, character: number, endLine = line, endCharacter = character + name.length) => ({
+      name,
+      kind,
+      containerName: '',
+      location: {
+        uri: makeUri(relPath),
+        range: { start: { line, character }, end: { line: endLine, character: endCharacter } },
+      },
+    });
+
+    beforeEach(() => {
+      (vscode.workspace.openTextDocument as jest.Mock).mockResolvedValue({
+        lineAt: jest.fn().mockReturnValue({ text: 'export class UserService extends Base {' }),
+      });
+    });
+
+    test('queries the workspace symbol provider with the typed query', async () => {
+      (vscode.commands.executeCommand as jest.Mock).mockResolvedValue([]);
+      const results = await executeWorkspaceSymbolSearch('UserServ');
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith('vscode.executeWorkspaceSymbolProvider', 'UserServ');
+      expect(results).toEqual([]);
+    });
+
+    test('keeps only symbols of the selected kinds', async () => {
+      (vscode.commands.executeCommand as jest.Mock).mockResolvedValue([
+        makeSymbol('UserService', vscode.SymbolKind.Class, 'src/service.ts', 0, 13),
+        makeSymbol('userService', vscode.SymbolKind.Variable, 'src/app.ts', 4, 6),
+        makeSymbol('UserServiceOptions', vscode.SymbolKind.Interface, 'src/types.ts', 2, 17),
+      ]);
+
+      const results = await executeWorkspaceSymbolSearch('UserService', ['class', 'interface']);
+      expect(results.map((r) => r.fileName)).toEqual(['service.ts', 'types.ts']);
+    });
+
+    test('points results at the symbol name when the range covers the declaration', async () => {
+      (vscode.commands.executeCommand as jest.Mock).mockResolvedValue([
+        makeSymbol('UserService', vscode.SymbolKind.Class, 'src/service.ts', 0, 0, 12, 1),
+      ]);
+
+      const [result] = await executeWorkspaceSymbolSearch('UserService');
+      expect(result).toMatchObject({
+        line: 0,
+        character: 13,
+        length: 11,
+        previewMatchRange: { start: 13, end: 24 },
+      });
+    });
+
+    test('ranks exact and prefix matches first and drops duplicate declarations', async () => {
+      (vscode.commands.executeCommand as jest.Mock).mockResolvedValue([
+        makeSymbol('createUserService', vscode.SymbolKind.Function, 'src/factory.ts', 1, 16),
+        makeSymbol('UserServiceImpl', vscode.SymbolKind.Class, 'src/impl.ts', 3, 13),
+        makeSymbol('UserService', vscode.SymbolKind.Class, 'src/service.ts', 0, 13),
+        makeSymbol('UserService', vscode.SymbolKind.Class, 'src/service.ts', 0, 13),
+      ]);
+
+      const results = await executeWorkspaceSymbolSearch('userservice');
+      expect(results.map((r) => r.fileName)).toEqual(['service.ts', 'impl.ts', 'factory.ts']);
+    });
+
+    test('skips symbols in files the caller excludes and stops at the limit', async () => {
+      (vscode.commands.executeCommand as jest.Mock).mockResolvedValue([
+        makeSymbol('UserService', vscode.SymbolKind.Class, 'node_modules/lib/index.d.ts', 0, 13),
+        makeSymbol('UserService', vscode.SymbolKind.Class, 'src/service.ts', 0, 13),
+        makeSymbol('UserService', vscode.SymbolKind.Class, 'src/other.ts', 0, 13),
+      ]);
+
+      const results = await executeWorkspaceSymbolSearch(
+        'UserService',
+        [],
+        1,
+        (uri) => !uri.fsPath.includes('node_modules')
+      );
+      expect(results.map((r) => r.fileName)).toEqual(['service.ts']);
+    });
+
+    test('returns empty array when the provider fails', async () => {
+      (vscode.commands.executeCommand as jest.Mock).mockRejectedValue(new Error('No provider'));
+      expect(await executeWorkspaceSymbolSearch('UserService')).toEqual([]);
+    });
+  });
+
+  describe('mergeReferenceResults', () => {
+    const result = (relativePath: string, line: number, preview: string, starts: number[]): SearchResult => {
+      const ranges = starts.map((start) => ({ start, end: start + 4 }));
+      return {
+        uri: makeUri(relativePath).toString(),
+        fileName: path.basename(relativePath),
+        relativePath,
+        line,
+        character: starts[0],
+        length: 4,
+        preview,
+        matchCount: starts.length,
+        previewMatchRange: ranges[0],
+        previewMatchRanges: ranges,
+        matchRanges: ranges,
+      };
+    };
+
+    test('tags references as semantic and the other text matches as textual', () => {
+      const semantic = [result('src/a.ts', 2, 'user.name = name;', [5])];
+      const textual = [
+        result('src/a.ts', 2, 'user.name = name;', [5, 12]),
+        result('config.json', 0, '{ "name": 1 }', [3]),
+      ];
+
+      const merged = mergeReferenceResults(semantic, textual);
+
+      expect(merged.map((r) => [r.relativePath, r.line, r.character, r.origin])).toEqual([
+        ['config.json', 0, 3, 'textual'],
+        ['src/a.ts', 2, 5, 'semantic'],
+        ['src/a.ts', 2, 12, 'textual'],
+      ]);
+    });
+
+    test('splits text lines into one result per match', () => {
+      const [, second] = mergeReferenceResults([], [result('docs/a.md', 4, 'name and name', [0, 9])]);
+
+      expect(second).toMatchObject({
+        character: 9,
+        length: 4,
+        matchCount: 1,
+        matchRanges: [{ start: 9, end: 13 }],
+        previewMatchRange: { start: 9, end: 13 },
+      });
+    });
+
+    test('keeps preview ranges relative to a sliced preview', () => {
+      const text = result('src/long.ts', 0, '...x name y name', [40, 47]);
+      text.previewMatchRange = { start: 6, end: 10 };
+      text.previewMatchRanges = [{ start: 6, end: 10 }, { start: 13, end: 17 }];
+
+      const merged = mergeReferenceResults([], [text]);
+
+      expect(merged.map((r) => r.previewMatchRange)).toEqual([
+        { start: 6, end: 10 },
+        { start: 13, end: 16 },
+      ]);
+    });
+  });
+
   describe('mapLocationsToSearchResults', () => {
     test('handles errors for individual locations gracefully', async () => {
       const goodUri = makeUri('src/good.ts');
@@ -260,6 +586,13 @@ describe('lspSearch', () => {
       expect(mockDoc.save).toHaveBeenCalled();
     });
 
+    test('does not replace in hierarchy modes', async () => {
+      const result = await lspReplaceAll(mockUri as any, mockPosition as any, 'incomingCalls', 'newName');
+      expect(result.replacedCount).toBe(0);
+      expect(vscode.commands.executeCommand).not.toHaveBeenCalled();
+      expect(vscode.workspace.applyEdit).not.toHaveBeenCalled();
+    });
+
     test('returns zero replaced when applyEdit fails', async () => {
       const locationUri = makeUri('src/other.ts');
       const locations = [
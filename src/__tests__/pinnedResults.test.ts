@@ -0,0 +1,117 @@
+import * as vscode from 'vscode';
+import {
+  createPinnedResultSet,
+  isPinnedResultStale,
+  MAX_PINNED_RESULTS,
+  revalidatePinnedResultSet,
+} from '../pinnedResults';
+import { SearchResult } from '../utils';
+
+describe('pinnedResults', () => {
+  const makeResult = (uri: string, line: number, preview: string, start: number, end: number): SearchResult => ({
+    uri,
+    fileName: uri.split('/').pop() || '',
+    relativePath: uri.replace('file:///', ''),
+    line,
+    character: start,
+    length: end - start,
+    preview,
+    previewMatchRange: { start, end },
+  });
+
+  const makeDoc = (text: string) => {
+    const lines = text.split('\n');
+    return { lineCount: lines.length, lineAt: (line: number) => ({ text: lines[line] }) };
+  };
+
+  const options = { matchCase: false, wholeWord: false, useRegex: false, fileMask: '' };
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createPinnedResultSet', () => {
+    test('keeps the query and compact results, capped at the limit', () => {
+      const results = Array.from({ length: MAX_PINNED_RESULTS + 1 }, (_, i) => ({
+        ...makeResult('file:///a.ts', i, 'foo', 0, 3),
+        hierarchy: { id: 'h', name: 'foo' },
+        stale: true,
+      }));
+
+      const set = createPinnedResultSet({ query: 'foo', scope: 'project', searchMode: 'text', options, results });
+
+      expect(set?.query).toBe('foo');
+      expect(set?.id).toMatch(/^pin-/);
+      expect(set?.truncated).toBe(true);
+      expect(set?.results).toHaveLength(MAX_PINNED_RESULTS);
+      expect(set?.results[0]).not.toHaveProperty('hierarchy');
+      expect(set?.results[0].stale).toBeUndefined();
+    });
+
+    test('returns undefined without a query', () => {
+      expect(createPinnedResultSet({ query: '  ', scope: 'project', options, results: [] })).toBeUndefined();
+    });
+  });
+
+  describe('isPinnedResultStale', () => {
+    const result = makeResult('file:///a.ts', 0, 'const foo = 1;', 6, 9);
+
+    test('is fresh while the matched text is still at its column', () => {
+      expect(isPinnedResultStale(result, 'const foo = 2;', true)).toBe(false);
+    });
+
+    test('is stale when the match moved within the line, even with a copy left elsewhere', () => {
+      expect(isPinnedResultStale(result, '  const foo = 2;', true)).toBe(true);
+      expect(isPinnedResultStale(result, 'let x = foo + foo;', true)).toBe(true);
+    });
+
+    test('checks the pinned query again at each stored range', () => {
+      const wholeWord = /\bfoo\b/gi;
+      expect(isPinnedResultStale(result, 'const foo = 1;', true, wholeWord)).toBe(false);
+      expect(isPinnedResultStale(result, 'const foobar = 1;', true, wholeWord)).toBe(true);
+
+      const twoHits = { ...result, matchRanges: [{ start: 6, end: 9 }, { start: 12, end: 15 }] };
+      expect(isPinnedResultStale(twoHits, 'const foo = foo;', true, /foo/g)).toBe(false);
+      expect(isPinnedResultStale(twoHits, 'const foo = bar;', true, /foo/g)).toBe(true);
+    });
+
+    test('is stale when the text, the line or the file is gone', () => {
+      expect(isPinnedResultStale(result, 'const bar = 1;', true)).toBe(true);
+      expect(isPinnedResultStale(result, undefined, true)).toBe(true);
+      expect(isPinnedResultStale(result, 'const foo = 1;', false)).toBe(true);
+    });
+
+    test('only needs the file for results without matched text', () => {
+      const fileResult = { ...makeResult('file:///a.ts', 0, 'src/a.ts', 4, 5), length: 0 };
+      expect(isPinnedResultStale(fileResult, 'anything', true)).toBe(false);
+    });
+  });
+
+  describe('revalidatePinnedResultSet', () => {
+    test('marks results whose file or line changed', async () => {
+      (vscode.workspace.openTextDocument as jest.Mock).mockImplementation(async (uri: { toString(): string }) => {
+        if (uri.toString().includes('gone')) {
+          throw new Error('not found');
+        }
+        return makeDoc('foo();\nbar();');
+      });
+      const set = createPinnedResultSet({
+        query: 'foo',
+        scope: 'project',
+        options,
+        results: [
+          makeResult('file:///a.ts', 0, 'foo();', 0, 3),
+          makeResult('file:///a.ts', 1, 'foo(1);', 0, 3),
+          makeResult('file:///a.ts', 7, 'foo(2);', 0, 3),
+          makeResult('file:///gone.ts', 0, 'foo();', 0, 3),
+        ],
+      });
+
+      const revalidated = await revalidatePinnedResultSet(set!);
+
+      expect(revalidated.results.map((r) => !!r.stale)).toEqual([false, true, true, true]);
+      expect(revalidated.validatedAt).toEqual(expect.any(Number));
+      expect(vscode.workspace.openTextDocument).toHaveBeenCalledTimes(2);
+    });
+  });
+});
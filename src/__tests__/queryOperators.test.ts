@@ -0,0 +1,102 @@
+import { applyQueryOperators, buildOperatorFileMask, parseQueryOperators } from '../queryOperators';
+import { SearchOptions, buildSearchRegex } from '../utils';
+
+jest.mock('vscode');
+
+describe('queryOperators', () => {
+  const options: SearchOptions = { matchCase: false, wholeWord: false, useRegex: false, fileMask: '' };
+
+  describe('parseQueryOperators', () => {
+    test('takes the operators out of the query', () => {
+      const operators = parseQueryOperators('path:src/api lang:ts -path:__tests__ case:yes re:yes handler\\(');
+
+      expect(operators).toEqual({
+        query: 'handler\\(',
+        paths: ['src/api'],
+        excludedPaths: ['__tests__'],
+        languages: ['ts'],
+        excludedLanguages: [],
+        matchCase: true,
+        useRegex: true,
+        errors: [],
+      });
+    });
+
+    test('reads quoted values, toggles and scopes', () => {
+      expect(parseQueryOperators('foo path:"my docs/" word:no scope:open')).toMatchObject({
+        query: 'foo',
+        paths: ['my docs'],
+        wholeWord: false,
+        scope: 'openEditors',
+      });
+    });
+
+    test('is undefined for queries without operators', () => {
+      expect(parseQueryOperators('http://example.com')).toBeUndefined();
+      expect(parseQueryOperators('"use strict" AND foo')).toBeUndefined();
+      expect(parseQueryOperators('path:src\nfoo')).toBeUndefined();
+    });
+
+    test('reads a name without a value as text', () => {
+      expect(parseQueryOperators("path: '/api'")).toBeUndefined();
+      expect(parseQueryOperators('case: scope:')).toBeUndefined();
+      expect(parseQueryOperators('xpath:foo')).toBeUndefined();
+    });
+
+    test('searches a quoted operator as text, without the quotes', () => {
+      expect(parseQueryOperators('"path:src" lang:ts')).toMatchObject({ query: 'path:src', paths: [], languages: ['ts'] });
+      expect(parseQueryOperators('"case:yes"')).toMatchObject({ query: 'case:yes', errors: [] });
+      expect(parseQueryOperators('"path:src" AND foo')?.query).toBe('path:src AND foo');
+    });
+
+    test('reports operators it cannot use and leaves them out', () => {
+      const operators = parseQueryOperators('foo case:maybe scope:nowhere -re:yes path:""');
+
+      expect(operators?.query).toBe('foo');
+      expect(operators?.matchCase).toBeUndefined();
+      expect(operators?.errors).toHaveLength(4);
+    });
+  });
+
+  describe('buildOperatorFileMask', () => {
+    test('combines paths with languages and keeps the typed excludes', () => {
+      const operators = parseQueryOperators('x path:src/api lang:ts -path:__tests__ -lang:md')!;
+
+      expect(buildOperatorFileMask(operators, '*.js, !*.min.js')).toBe(
+        '**/src/api/**/*.ts, **/src/api/**/*.tsx, **/src/api/**/*.mts, **/src/api/**/*.cts, ' +
+        '!*.min.js, !**/__tests__/**, !**/__tests__, !*.md, !*.markdown'
+      );
+    });
+
+    test('keeps the typed includes when the operators only exclude', () => {
+      const operators = parseQueryOperators('x -path:vendor')!;
+
+      expect(buildOperatorFileMask(operators, '*.go')).toBe('*.go, !**/vendor/**, !**/vendor');
+    });
+  });
+
+  describe('applyQueryOperators', () => {
+    test('overrides the scope and toggles for that search only', () => {
+      const applied = applyQueryOperators('foo scope:changed case:yes lang:py', 'project', options);
+
+      expect(applied.query).toBe('foo');
+      expect(applied.scope).toBe('changedFiles');
+      expect(applied.options).toMatchObject({ matchCase: true, wholeWord: false, fileMask: '*.py, *.pyi' });
+      expect(options.matchCase).toBe(false);
+    });
+
+    test('leaves multiline queries alone', () => {
+      const applied = applyQueryOperators('case:yes foo', 'project', { ...options, multiline: true });
+
+      expect(applied.query).toBe('case:yes foo');
+      expect(applied.operators).toBeUndefined();
+    });
+  });
+
+  test('the search regex takes the query with its operators applied', () => {
+    const applied = applyQueryOperators('lang:ts re:yes case:yes fetch\\w+', 'project', options);
+    const regex = buildSearchRegex(applied.query, applied.options);
+
+    expect('fetchUser FetchAll'.match(regex!)).toEqual(['fetchUser']);
+  });
+});
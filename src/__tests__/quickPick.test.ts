@@ -21,6 +21,7 @@ const createContext = (): CommandContext => ({
   panelManager: {} as any,
   viewManager: { openView: jest.fn() } as any,
   sidebarProvider: {} as any,
+  stateStore: { recordReplaceTransaction: jest.fn(), getSavedSearches: jest.fn(() => []) } as any,
   getSidebarVisible: () => false,
   onSidebarVisibilityChange: () => {},
   getBottomVisible: () => false,
@@ -43,7 +44,8 @@ describe('quickPickCommand', () => {
 
     const created = (vscode.window.createQuickPick as jest.Mock).mock.results[0].value;
     expect(created.show).toHaveBeenCalled();
-    expect(created.buttons).toHaveLength(3);
+    // Match case, whole word and regex, then the four code categories
+    expect(created.buttons).toHaveLength(7);
   });
 
   it('runs search when value changes and opens selection', async () => {
@@ -140,6 +142,40 @@ describe('quickPickCommand', () => {
     expect(performSearchMock).toHaveBeenCalled();
   });
 
+  it('restricts the search to a code category when its button is triggered', async () => {
+    const onDidTriggerButton = jest.fn();
+    (vscode.window.createQuickPick as jest.Mock).mockReturnValueOnce({
+      title: '',
+      placeholder: '',
+      busy: false,
+      value: '',
+      items: [],
+      buttons: [],
+      selectedItems: [],
+      onDidChangeValue: jest.fn(),
+      onDidAccept: jest.fn(),
+      onDidHide: jest.fn(),
+      onDidTriggerButton,
+      show: jest.fn(),
+      hide: jest.fn(),
+      dispose: jest.fn()
+    });
+
+    performSearchMock.mockResolvedValue({ results: [], timedOut: false, cancelled: false, resultCapHit: false });
+    await quickPickCommand(createContext());
+
+    const created = (vscode.window.createQuickPick as jest.Mock).mock.results[0].value;
+    const triggerHandler = onDidTriggerButton.mock.calls[0][0];
+    created.value = 'rename';
+
+    triggerHandler(created.buttons[3]);
+    jest.runAllTimers();
+    await Promise.resolve();
+
+    expect(performSearchMock.mock.calls[0][2]).toEqual(expect.objectContaining({ codeCategories: ['identifiers'] }));
+    expect(created.placeholder).toContain('only:identifiers');
+  });
+
   it('adds overflow item and opens webview on accept', async () => {
     const onDidChangeValue = jest.fn();
     const onDidAccept = jest.fn();
@@ -259,6 +295,56 @@ describe('quickPickCommand', () => {
     expect(created.items).toHaveLength(2);
     expect(created.items.some((item: { label: string }) => item.label.includes('Show all results in Rifler'))).toBe(false);
   });
+
+  it('lists saved searches before a query is typed and runs the selected one', async () => {
+    const onDidAccept = jest.fn();
+    (vscode.window.createQuickPick as jest.Mock).mockReturnValueOnce({
+      title: '',
+      placeholder: '',
+      matchOnDescription: false,
+      matchOnDetail: false,
+      ignoreFocusOut: false,
+      busy: false,
+      value: '',
+      items: [],
+      buttons: [],
+      selectedItems: [],
+      onDidChangeValue: jest.fn(),
+      onDidAccept,
+      onDidHide: jest.fn(),
+      onDidTriggerButton: jest.fn(),
+      show: jest.fn(),
+      hide: jest.fn(),
+      dispose: jest.fn()
+    });
+
+    const saved = {
+      name: 'Open todos',
+      query: 'TODO',
+      scope: 'directory',
+      directoryPath: 'src',
+      options: { matchCase: true, wholeWord: false, useRegex: false, fileMask: '*.ts' }
+    };
+    const ctx = createContext();
+    (ctx.stateStore.getSavedSearches as jest.Mock).mockImplementation((location: string) =>
+      location === 'workspace' ? [saved] : []
+    );
+    await quickPickCommand(ctx);
+
+    const created = (vscode.window.createQuickPick as jest.Mock).mock.results[0].value;
+    expect(created.items).toHaveLength(1);
+    expect(created.items[0].label).toContain('Open todos');
+    expect(created.items[0].detail).toBe('directory: src · files: *.ts · Aa');
+
+    created.selectedItems = [created.items[0]];
+    await onDidAccept.mock.calls[0][0]();
+
+    expect(created.hide).toHaveBeenCalled();
+    expect(ctx.viewManager.openView).toHaveBeenCalledWith({
+      initialSearch: expect.objectContaining({ name: 'Open todos', query: 'TODO', directoryPath: 'src' }),
+      initialQueryFocus: false
+    });
+  });
 });
 
 describe('quickPickReplaceCommand', () => {
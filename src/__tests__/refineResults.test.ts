@@ -0,0 +1,85 @@
+import { refineSearchResults, validateRefineStep } from '../refineResults';
+import { SearchResult } from '../utils';
+
+jest.mock('vscode');
+
+describe('refineResults', () => {
+  const makeResult = (relativePath: string, line: number, preview = ''): SearchResult => ({
+    uri: `file:///repo/${relativePath}`,
+    fileName: relativePath.split('/').pop() || '',
+    relativePath,
+    line,
+    character: 0,
+    length: 3,
+    preview,
+    previewMatchRange: { start: 0, end: 3 },
+  });
+
+  const files: Record<string, string[]> = {
+    'file:///repo/src/api/users.ts': ['const user = await fetchUser();', 'log(user);', '', 'return user;'],
+    'file:///repo/src/ui/view.ts': ['const user = cache.get();', 'render(user);'],
+  };
+  const readLines = async (uri: string) => files[uri];
+
+  const results = [
+    makeResult('src/api/users.ts', 0),
+    makeResult('src/api/users.ts', 1),
+    makeResult('src/api/users.ts', 3),
+    makeResult('src/ui/view.ts', 0),
+  ];
+
+  test('keeps results whose line contains the text, ignoring case', async () => {
+    const refined = await refineSearchResults(results, { kind: 'text', pattern: 'AWAIT' }, readLines);
+
+    expect(refined).toEqual([results[0]]);
+  });
+
+  test('checks the lines around each match within the window', async () => {
+    const refined = await refineSearchResults(results, { kind: 'text', pattern: 'await', window: 1 }, readLines);
+
+    expect(refined).toEqual([results[0], results[1]]);
+  });
+
+  test('matches regexes and drops matching results when excluding', async () => {
+    const refined = await refineSearchResults(
+      results,
+      { kind: 'regex', pattern: '^(log|render)\\(', exclude: true },
+      readLines
+    );
+
+    expect(refined).toEqual([results[0], results[2], results[3]]);
+  });
+
+  test('filters on the relative path without reading files', async () => {
+    const reader = jest.fn(readLines);
+
+    const refined = await refineSearchResults(results, { kind: 'path', pattern: 'src/api' }, reader);
+
+    expect(refined).toEqual(results.slice(0, 3));
+    expect(reader).not.toHaveBeenCalled();
+  });
+
+  test('falls back to the preview when a file cannot be read', async () => {
+    const missing = makeResult('gone.ts', 0, 'await gone();');
+
+    const refined = await refineSearchResults([missing], { kind: 'text', pattern: 'await' }, readLines);
+
+    expect(refined).toEqual([missing]);
+  });
+
+  test('rejects empty patterns and invalid regexes', async () => {
+    expect(validateRefineStep({ kind: 'text', pattern: '' }).isValid).toBe(false);
+    expect(validateRefineStep({ kind: 'regex', pattern: '(' }).isValid).toBe(false);
+    await expect(refineSearchResults(results, { kind: 'regex', pattern: '(' }, readLines)).rejects.toThrow('Invalid regex');
+  });
+
+  test('rejects regexes prone to catastrophic backtracking before reading any file', async () => {
+    const reader = jest.fn(readLines);
+
+    expect(validateRefineStep({ kind: 'regex', pattern: '(a+)+$' }).isValid).toBe(false);
+    await expect(refineSearchResults(results, { kind: 'regex', pattern: '(a+)+$' }, reader)).rejects.toThrow('nested quantifiers');
+    expect(reader).not.toHaveBeenCalled();
+    // The same text is harmless as a plain text step
+    expect(validateRefineStep({ kind: 'text', pattern: '(a+)+$' }).isValid).toBe(true);
+  });
+});
@@ -0,0 +1,182 @@
+import * as vscode from 'vscode';
+import {
+  captureReplaceEdits,
+  completeReplaceTransaction,
+  findChangedFiles,
+  revertReplaceTransaction,
+  ReplaceTransaction,
+} from '../replaceHistory';
+import { undoLastReplaceCommand } from '../commands/undoLastReplace';
+import { CommandContext } from '../commands/types';
+
+jest.mock('vscode');
+
+// TextDocument backed by mutable text, so tests can simulate an applied edit
+const createTextDoc = (initial: string) => {
+  const doc = {
+    text: initial,
+    offsetAt: (pos: { line: number; character: number }) => {
+      const lines = doc.text.split('\n');
+      let offset = 0;
+      for (let i = 0; i < pos.line; i++) offset += lines[i].length + 1;
+      return offset + pos.character;
+    },
+    positionAt: (offset: number) => {
+      const lines = doc.text.split('\n');
+      let remaining = offset;
+      for (let line = 0; line < lines.length; line++) {
+        if (remaining <= lines[line].length) return { line, character: remaining };
+        remaining -= lines[line].length + 1;
+      }
+      return { line: lines.length - 1, character: lines[lines.length - 1].length };
+    },
+    getText: (range?: { start: { line: number; character: number }; end: { line: number; character: number } }) =>
+      range ? doc.text.slice(doc.offsetAt(range.start), doc.offsetAt(range.end)) : doc.text,
+    save: jest.fn().mockResolvedValue(true),
+  };
+  return doc;
+};
+
+const range = (line: number, start: number, end: number) => new vscode.Range(line, start, line, end);
+
+const recordTransaction = async (doc: ReturnType<typeof createTextDoc>, replacedText: string) => {
+  (vscode.workspace.openTextDocument as jest.Mock).mockResolvedValue(doc);
+  const captured = await captureReplaceEdits([
+    { uri: 'file:///a.ts', range: range(0, 8, 11), text: 'quux' },
+    { uri: 'file:///a.ts', range: range(0, 0, 3), text: 'quux' },
+  ]);
+  doc.text = replacedText;
+  return completeReplaceTransaction(captured, 'Replace "foo" with "quux"') as ReplaceTransaction;
+};
+
+describe('replaceHistory', () => {
+  const mockEdit = { replace: jest.fn() };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (vscode.WorkspaceEdit as unknown as jest.Mock).mockReturnValue(mockEdit);
+    (vscode.workspace.applyEdit as jest.Mock).mockResolvedValue(true);
+  });
+
+  test('records original text and the ranges of the applied replacements', async () => {
+    const doc = createTextDoc('foo bar foo');
+
+    const transaction = await recordTransaction(doc, 'quux bar quux');
+
+    expect(transaction.label).toBe('Replace "foo" with "quux"');
+    expect(transaction.files).toHaveLength(1);
+    expect(transaction.files[0].edits).toEqual([
+      {
+        originalRange: { startLine: 0, startCharacter: 0, endLine: 0, endCharacter: 3 },
+        appliedRange: { startLine: 0, startCharacter: 0, endLine: 0, endCharacter: 4 },
+        originalText: 'foo',
+        replacementText: 'quux',
+      },
+      {
+        originalRange: { startLine: 0, startCharacter: 8, endLine: 0, endCharacter: 11 },
+        appliedRange: { startLine: 0, startCharacter: 9, endLine: 0, endCharacter: 13 },
+        originalText: 'foo',
+        replacementText: 'quux',
+      },
+    ]);
+  });
+
+  test('skips recording when the documents cannot be read', async () => {
+    (vscode.workspace.openTextDocument as jest.Mock).mockResolvedValue({ save: jest.fn() });
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+    const captured = await captureReplaceEdits([{ uri: 'file:///a.ts', range: range(0, 0, 3), text: 'x' }]);
+
+    expect(captured).toBeUndefined();
+    expect(completeReplaceTransaction(captured, 'label')).toBeUndefined();
+    warnSpy.mockRestore();
+  });
+
+  test('detects files changed since the replace', async () => {
+    const doc = createTextDoc('foo bar foo');
+    const transaction = await recordTransaction(doc, 'quux bar quux');
+
+    expect(await findChangedFiles(transaction)).toEqual([]);
+
+    doc.text = 'quux bar quux // edited';
+    expect(await findChangedFiles(transaction)).toEqual(['file:///a.ts']);
+  });
+
+  test('reverts every edit in a single WorkspaceEdit and saves', async () => {
+    const doc = createTextDoc('foo bar foo');
+    const transaction = await recordTransaction(doc, 'quux bar quux');
+
+    const success = await revertReplaceTransaction(transaction.files);
+
+    expect(success).toBe(true);
+    expect(vscode.workspace.applyEdit).toHaveBeenCalledTimes(1);
+    expect(mockEdit.replace).toHaveBeenCalledWith(
+      expect.objectContaining({ fsPath: 'file:///a.ts' }),
+      expect.objectContaining({ start: { line: 0, character: 9 }, end: { line: 0, character: 13 } }),
+      'foo'
+    );
+    expect(doc.save).toHaveBeenCalled();
+  });
+
+  describe('undoLastReplaceCommand', () => {
+    const createContext = (transaction: ReplaceTransaction | undefined) => ({
+      stateStore: {
+        getLastReplaceTransaction: jest.fn().mockReturnValue(transaction),
+        removeReplaceTransaction: jest.fn(),
+      },
+    }) as unknown as CommandContext;
+
+    test('reports when there is nothing to undo', async () => {
+      await undoLastReplaceCommand(createContext(undefined));
+
+      expect(vscode.window.showInformationMessage).toHaveBeenCalledWith('Rifler: No replace to undo.');
+      expect(vscode.workspace.applyEdit).not.toHaveBeenCalled();
+    });
+
+    test('reverts the last transaction and drops it from the stack', async () => {
+      const doc = createTextDoc('foo bar foo');
+      const transaction = await recordTransaction(doc, 'quux bar quux');
+      const ctx = createContext(transaction);
+
+      await undoLastReplaceCommand(ctx);
+
+      expect(vscode.workspace.applyEdit).toHaveBeenCalledTimes(1);
+      expect(ctx.stateStore.removeReplaceTransaction).toHaveBeenCalledWith(transaction.id);
+      expect(vscode.window.showInformationMessage).toHaveBeenCalledWith('Rifler: Reverted 2 replacement(s) in 1 file(s).');
+    });
+
+    test('refuses to touch files changed since the replace', async () => {
+      const doc = createTextDoc('foo bar foo');
+      const transaction = await recordTransaction(doc, 'quux bar quux');
+      doc.text = 'something else';
+      const ctx = createContext(transaction);
+
+      await undoLastReplaceCommand(ctx);
+
+      expect(vscode.workspace.applyEdit).not.toHaveBeenCalled();
+      expect(ctx.stateStore.removeReplaceTransaction).not.toHaveBeenCalled();
+      expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(expect.stringContaining('changed since the replace'));
+    });
+
+    test('asks before reverting only the unchanged files', async () => {
+      const changedDoc = createTextDoc('quux changed');
+      const unchangedDoc = createTextDoc('foo bar foo');
+      const transaction = await recordTransaction(unchangedDoc, 'quux bar quux');
+      transaction.files.push({ uri: 'file:///b.ts', contentHash: 'stale', edits: [] });
+      (vscode.workspace.openTextDocument as jest.Mock).mockImplementation((uri: { fsPath: string }) =>
+        Promise.resolve(uri.fsPath === 'file:///b.ts' ? changedDoc : unchangedDoc)
+      );
+      (vscode.window.showWarningMessage as jest.Mock).mockResolvedValue('Undo Unchanged Files');
+
+      await undoLastReplaceCommand(createContext(transaction));
+
+      expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+        expect.stringContaining('1 of 2 file(s) changed'),
+        { modal: true },
+        'Undo Unchanged Files'
+      );
+      expect(mockEdit.replace).toHaveBeenCalledTimes(2);
+      expect(mockEdit.replace).not.toHaveBeenCalledWith(expect.objectContaining({ fsPath: 'file:///b.ts' }), expect.anything(), expect.anything());
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
-import { replaceOne, replaceAll } from '../replacer';
+import { replaceOne, replaceAll, buildReplacePreview, applyReplacePreview } from '../replacer';
 import * as search from '../search';
+import { filterResultsByCodeContext } from '../codeContextFilter';
 import { SearchScope, SearchOptions } from '../utils';
 
 // Mock vscode
@@ -18,6 +19,32 @@ describe('Replacer', () => {
     save: jest.fn().mockResolvedValue(true),
   };
 
+  // Minimal TextDocument backed by a string, enough for offset/position math
+  const createTextDoc = (text: string) => {
+    const lines = text.split('\n');
+    const offsetAt = (pos: { line: number; character: number }) => {
+      let offset = 0;
+      for (let i = 0; i < pos.line; i++) offset += lines[i].length + 1;
+      return offset + pos.character;
+    };
+    const positionAt = (offset: number) => {
+      let remaining = offset;
+      for (let line = 0; line < lines.length; line++) {
+        if (remaining <= lines[line].length) return { line, character: remaining };
+        remaining -= lines[line].length + 1;
+      }
+      return { line: lines.length - 1, character: lines[lines.length - 1].length };
+    };
+    return {
+      getText: (range?: { start: { line: number; character: number }; end: { line: number; character: number } }) =>
+        range ? text.slice(offsetAt(range.start), offsetAt(range.end)) : text,
+      lineAt: (line: number) => ({ text: lines[line] }),
+      offsetAt,
+      positionAt,
+      save: jest.fn().mockResolvedValue(true),
+    };
+  };
+
   beforeEach(() => {
     jest.clearAllMocks();
     (vscode.WorkspaceEdit as unknown as jest.Mock).mockReturnValue(mockEdit);
@@ -46,6 +73,63 @@ describe('Replacer', () => {
       expect(mockDoc.save).toHaveBeenCalled();
     });
 
+    test('should expand capture groups in regex mode', async () => {
+      const doc = createTextDoc('const a = foo.bar;');
+      (vscode.workspace.openTextDocument as unknown as jest.Mock).mockResolvedValue(doc);
+      const options: SearchOptions = { matchCase: true, wholeWord: false, useRegex: true, fileMask: '' };
+
+      await replaceOne('file:///test/file.ts', 0, 10, 7, '$2.$1', '(\\w+)\\.(\\w+)', options);
+
+      expect(mockEdit.replace).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ start: { line: 0, character: 10 }, end: { line: 0, character: 17 } }),
+        'bar.foo'
+      );
+    });
+
+    test('should keep replace text literal when regex mode is off', async () => {
+      const options: SearchOptions = { matchCase: true, wholeWord: false, useRegex: false, fileMask: '' };
+
+      await replaceOne('file:///test/file.ts', 0, 0, 3, '$1', 'foo', options);
+
+      expect(mockEdit.replace).toHaveBeenCalledWith(expect.anything(), expect.anything(), '$1');
+    });
+
+    test('should replace every submatch on the line', async () => {
+      await replaceOne('file:///test/file.ts', 2, 0, 3, 'baz', 'foo', undefined, [
+        { start: 0, end: 3 },
+        { start: 8, end: 11 },
+      ], 2);
+
+      expect(mockEdit.replace).toHaveBeenCalledTimes(2);
+      expect(mockEdit.replace).toHaveBeenNthCalledWith(
+        1,
+        expect.anything(),
+        expect.objectContaining({ start: { line: 2, character: 0 }, end: { line: 2, character: 3 } }),
+        'baz'
+      );
+      expect(mockEdit.replace).toHaveBeenNthCalledWith(
+        2,
+        expect.anything(),
+        expect.objectContaining({ start: { line: 2, character: 8 }, end: { line: 2, character: 11 } }),
+        'baz'
+      );
+    });
+
+    test('should substitute metavariables in structural mode', async () => {
+      const doc = createTextDoc('x();\nconsole.log(\n  a + b\n);');
+      (vscode.workspace.openTextDocument as unknown as jest.Mock).mockResolvedValue(doc);
+      const options: SearchOptions = { matchCase: false, wholeWord: false, useRegex: false, structural: true, fileMask: '' };
+
+      await replaceOne('file:///test/file.ts', 1, 0, 22, 'logger.debug($ARG)', 'console.log($ARG)', options);
+
+      expect(mockEdit.replace).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ start: { line: 1, character: 0 }, end: { line: 3, character: 1 } }),
+        'logger.debug(a + b)'
+      );
+    });
+
     test('should handle errors', async () => {
       (vscode.workspace.applyEdit as unknown as jest.Mock).mockRejectedValue(new Error('Failed'));
       
@@ -114,6 +198,146 @@ describe('Replacer', () => {
       expect(onRefresh).toHaveBeenCalled();
     });
 
+    test('should expand capture groups per match in regex mode', async () => {
+      const regexOptions: SearchOptions = { ...defaultOptions, useRegex: true };
+      const doc = createTextDoc('let x = getFoo();\nlet y = getBar();');
+      (vscode.workspace.openTextDocument as unknown as jest.Mock).mockResolvedValue(doc);
+      (search.performSearch as jest.Mock).mockResolvedValue({
+        results: [
+          { uri: 'file:///test/a.ts', line: 0, character: 8, length: 6, fileName: 'a.ts', relativePath: 'a.ts', preview: '', previewMatchRange: { start: 8, end: 14 } },
+          { uri: 'file:///test/a.ts', line: 1, character: 8, length: 6, fileName: 'a.ts', relativePath: 'a.ts', preview: '', previewMatchRange: { start: 8, end: 14 } },
+        ],
+        timedOut: false,
+        cancelled: false,
+        resultCapHit: false,
+      });
+
+      await replaceAll('get(?<name>\\w+)', 'fetch$<name>', 'project', regexOptions, undefined, undefined, jest.fn());
+
+      expect(mockEdit.replace).toHaveBeenNthCalledWith(1, expect.anything(), expect.anything(), 'fetchFoo');
+      expect(mockEdit.replace).toHaveBeenNthCalledWith(2, expect.anything(), expect.anything(), 'fetchBar');
+      // Document is opened once for expansion and reused for saving
+      expect(vscode.workspace.openTextDocument).toHaveBeenCalledTimes(1);
+    });
+
+    test('should expand multiline regex matches against the whole document', async () => {
+      const multilineOptions: SearchOptions = { ...defaultOptions, useRegex: true, multiline: true };
+      const doc = createTextDoc('start(\n  value\n)');
+      (vscode.workspace.openTextDocument as unknown as jest.Mock).mockResolvedValue(doc);
+      (search.performSearch as jest.Mock).mockResolvedValue({
+        results: [
+          { uri: 'file:///test/a.ts', line: 0, character: 0, length: 16, fileName: 'a.ts', relativePath: 'a.ts', preview: '', previewMatchRange: { start: 0, end: 6 } },
+        ],
+        timedOut: false,
+        cancelled: false,
+        resultCapHit: false,
+      });
+
+      await replaceAll('start\\(\\n\\s*(\\w+)\\n\\)', 'start($1)', 'project', multilineOptions, undefined, undefined, jest.fn());
+
+      expect(mockEdit.replace).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ start: { line: 0, character: 0 }, end: { line: 2, character: 1 } }),
+        'start(value)'
+      );
+    });
+
+    test('should replace every submatch using original line offsets', async () => {
+      (search.performSearch as jest.Mock).mockResolvedValue({
+        results: [{
+          uri: 'file:///test/a.ts',
+          line: 4,
+          character: 2,
+          length: 1,
+          fileName: 'a.ts',
+          relativePath: 'a.ts',
+          preview: 'a x b x c x',
+          previewMatchRange: { start: 2, end: 3 },
+          matchCount: 3,
+          matchRanges: [{ start: 2, end: 3 }, { start: 6, end: 7 }, { start: 10, end: 11 }]
+        }],
+        timedOut: false,
+        cancelled: false,
+        resultCapHit: false,
+      });
+
+      await replaceAll('x', 'longer', 'project', defaultOptions, undefined, undefined, jest.fn());
+
+      const ranges = mockEdit.replace.mock.calls.map((call) => call[1]);
+      expect(ranges).toEqual([
+        expect.objectContaining({ start: { line: 4, character: 2 }, end: { line: 4, character: 3 } }),
+        expect.objectContaining({ start: { line: 4, character: 6 }, end: { line: 4, character: 7 } }),
+        expect.objectContaining({ start: { line: 4, character: 10 }, end: { line: 4, character: 11 } }),
+      ]);
+      expect(vscode.window.showInformationMessage).toHaveBeenCalledWith('Replaced 3 occurrences.');
+    });
+
+    test('should rescan the line when submatches were truncated', async () => {
+      const doc = createTextDoc('ab ab ab ab');
+      (vscode.workspace.openTextDocument as unknown as jest.Mock).mockResolvedValue(doc);
+      (search.performSearch as jest.Mock).mockResolvedValue({
+        results: [{
+          uri: 'file:///test/a.ts',
+          line: 0,
+          character: 0,
+          length: 2,
+          fileName: 'a.ts',
+          relativePath: 'a.ts',
+          preview: 'ab ab ab ab',
+          previewMatchRange: { start: 0, end: 2 },
+          matchCount: 4,
+          matchRanges: [{ start: 0, end: 2 }, { start: 3, end: 5 }]
+        }],
+        timedOut: false,
+        cancelled: false,
+        resultCapHit: false,
+      });
+
+      await replaceAll('ab', 'c', 'project', defaultOptions, undefined, undefined, jest.fn());
+
+      expect(mockEdit.replace).toHaveBeenCalledTimes(4);
+      expect(mockEdit.replace).toHaveBeenLastCalledWith(
+        expect.anything(),
+        expect.objectContaining({ start: { line: 0, character: 9 }, end: { line: 0, character: 11 } }),
+        'c'
+      );
+    });
+
+    test('should not replace matches the code context filter dropped', async () => {
+      const text = 'foo(); // foo';
+      const doc = createTextDoc(text);
+      (vscode.workspace.openTextDocument as unknown as jest.Mock).mockResolvedValue(doc);
+      (vscode.workspace.fs.readFile as jest.Mock).mockResolvedValueOnce(Buffer.from(text, 'utf8'));
+      const options: SearchOptions = { ...defaultOptions, includeComments: false };
+      const results = await filterResultsByCodeContext([{
+        uri: 'file:///test/a.ts',
+        line: 0,
+        character: 0,
+        length: 3,
+        fileName: 'a.ts',
+        relativePath: 'a.ts',
+        preview: text,
+        previewMatchRange: { start: 0, end: 3 },
+        matchCount: 2,
+        matchRanges: [{ start: 0, end: 3 }, { start: 10, end: 13 }]
+      }], options);
+      (search.performSearch as jest.Mock).mockResolvedValue({
+        results,
+        timedOut: false,
+        cancelled: false,
+        resultCapHit: false,
+      });
+
+      await replaceAll('foo', 'bar', 'project', options, undefined, undefined, jest.fn());
+
+      expect(mockEdit.replace).toHaveBeenCalledTimes(1);
+      expect(mockEdit.replace).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ start: { line: 0, character: 0 }, end: { line: 0, character: 3 } }),
+        'bar'
+      );
+    });
+
     test('should show message if no results found', async () => {
       (search.performSearch as jest.Mock).mockResolvedValue({
         results: [],
@@ -220,6 +444,48 @@ describe('Replacer', () => {
       expect(onRefresh).not.toHaveBeenCalled();
     });
 
+    test('should apply the operators of the query once, for the search and the edits', async () => {
+      (search.performSearch as jest.Mock).mockResolvedValue({
+        results: [{
+          uri: 'file:///test/a.ts',
+          line: 0,
+          character: 4,
+          length: 8,
+          fileName: 'a.ts',
+          relativePath: 'a.ts',
+          preview: 'see path:src here',
+          previewMatchRange: { start: 4, end: 12 }
+        }],
+        timedOut: false,
+        cancelled: false,
+        resultCapHit: false,
+      });
+
+      await replaceAll('"path:src" lang:ts', 'dir', 'project', defaultOptions, undefined, undefined, jest.fn());
+
+      expect(search.performSearch).toHaveBeenCalledWith(
+        'path:src',
+        'project',
+        expect.objectContaining({ fileMask: '*.ts, *.tsx, *.mts, *.cts' }),
+        undefined,
+        undefined
+      );
+      expect(mockEdit.replace).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({
+        start: { line: 0, character: 4 },
+        end: { line: 0, character: 12 }
+      }), 'dir');
+    });
+
+    test('should not replace anything when an operator cannot be used', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      await replaceAll('foo case:maybe', 'bar', 'project', defaultOptions, undefined, undefined, jest.fn());
+
+      expect(search.performSearch).not.toHaveBeenCalled();
+      expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(expect.stringContaining('use case:yes or case:no'));
+      consoleSpy.mockRestore();
+    });
+
     test('should pass directory and module paths to performSearch', async () => {
       (search.performSearch as jest.Mock).mockResolvedValue({
         results: [],
@@ -236,4 +502,125 @@ describe('Replacer', () => {
       expect(search.performSearch).toHaveBeenCalledWith('query', 'module', defaultOptions, undefined, '/test/module');
     });
   });
+
+  describe('replace preview', () => {
+    const defaultOptions: SearchOptions = {
+      matchCase: false,
+      wholeWord: false,
+      useRegex: false,
+      fileMask: ''
+    };
+
+    const mockSearchResults = (results: Array<{ uri: string; line: number; character: number; length: number; matchRanges?: Array<{ start: number; end: number }> }>) => {
+      (search.performSearch as jest.Mock).mockResolvedValue({
+        results: results.map((r) => ({
+          ...r,
+          fileName: r.uri.split('/').pop(),
+          relativePath: r.uri.replace('file:///', ''),
+          preview: '',
+          previewMatchRange: { start: r.character, end: r.character + r.length },
+        })),
+        timedOut: false,
+        cancelled: false,
+        resultCapHit: false,
+      });
+    };
+
+    test('should describe pending edits per file without applying them', async () => {
+      const docs: Record<string, ReturnType<typeof createTextDoc>> = {
+        'file:///test/a.ts': createTextDoc('const oldName = oldName + 1;'),
+        'file:///test/b.ts': createTextDoc('export { oldName };'),
+      };
+      (vscode.workspace.openTextDocument as unknown as jest.Mock).mockImplementation((uri: { fsPath: string }) => Promise.resolve(docs[uri.fsPath]));
+      mockSearchResults([
+        { uri: 'file:///test/a.ts', line: 0, character: 6, length: 7, matchRanges: [{ start: 6, end: 13 }, { start: 16, end: 23 }] },
+        { uri: 'file:///test/b.ts', line: 0, character: 9, length: 7 },
+      ]);
+
+      const preview = await buildReplacePreview('oldName', 'newName', 'project', defaultOptions, undefined, undefined);
+
+      expect(vscode.workspace.applyEdit).not.toHaveBeenCalled();
+      expect(preview?.totalEdits).toBe(3);
+      expect(preview?.files.map((f) => f.uri)).toEqual(['file:///test/a.ts', 'file:///test/b.ts']);
+      expect(preview?.files[0].edits[1]).toEqual({
+        id: '0:1',
+        line: 0,
+        character: 16,
+        endLine: 0,
+        endCharacter: 23,
+        original: 'oldName',
+        replacement: 'newName',
+        prefix: 'const oldName = ',
+        suffix: ' + 1;',
+      });
+    });
+
+    test('should expand capture groups in the previewed replacement', async () => {
+      (vscode.workspace.openTextDocument as unknown as jest.Mock).mockResolvedValue(createTextDoc('x = getFoo();'));
+      mockSearchResults([{ uri: 'file:///test/a.ts', line: 0, character: 4, length: 6 }]);
+
+      const preview = await buildReplacePreview('get(\\w+)', 'fetch$1', 'project', { ...defaultOptions, useRegex: true }, undefined, undefined);
+
+      expect(preview?.files[0].edits[0]).toEqual(expect.objectContaining({ original: 'getFoo', replacement: 'fetchFoo' }));
+    });
+
+    test('should return undefined when nothing matches', async () => {
+      mockSearchResults([]);
+
+      const preview = await buildReplacePreview('missing', 'x', 'project', defaultOptions, undefined, undefined);
+
+      expect(preview).toBeUndefined();
+      expect(vscode.window.showInformationMessage).toHaveBeenCalledWith('No occurrences found to replace.');
+    });
+
+    test('should apply only accepted edits', async () => {
+      const doc = createTextDoc('const oldName = oldName + 1;');
+      (vscode.workspace.openTextDocument as unknown as jest.Mock).mockResolvedValue(doc);
+      mockSearchResults([
+        { uri: 'file:///test/a.ts', line: 0, character: 6, length: 7, matchRanges: [{ start: 6, end: 13 }, { start: 16, end: 23 }] },
+      ]);
+      const preview = await buildReplacePreview('oldName', 'newName', 'project', defaultOptions, undefined, undefined);
+      const onRefresh = jest.fn().mockResolvedValue(undefined);
+
+      await applyReplacePreview(preview!, ['0:1'], onRefresh);
+
+      expect(mockEdit.replace).toHaveBeenCalledTimes(1);
+      expect(mockEdit.replace).toHaveBeenCalledWith(
+        expect.objectContaining({ fsPath: 'file:///test/a.ts' }),
+        expect.objectContaining({ start: { line: 0, character: 16 }, end: { line: 0, character: 23 } }),
+        'newName'
+      );
+      expect(doc.save).toHaveBeenCalled();
+      expect(vscode.window.showInformationMessage).toHaveBeenCalledWith('Replaced 1 occurrences.');
+      expect(onRefresh).toHaveBeenCalled();
+    });
+
+    test('should skip edits whose text changed since the preview', async () => {
+      (vscode.workspace.openTextDocument as unknown as jest.Mock).mockResolvedValue(createTextDoc('const oldName = oldName + 1;'));
+      mockSearchResults([
+        { uri: 'file:///test/a.ts', line: 0, character: 6, length: 7, matchRanges: [{ start: 6, end: 13 }, { start: 16, end: 23 }] },
+      ]);
+      const preview = await buildReplacePreview('oldName', 'newName', 'project', defaultOptions, undefined, undefined);
+      (vscode.workspace.openTextDocument as unknown as jest.Mock).mockResolvedValue(createTextDoc('const oldName = renamed + 1;'));
+
+      await applyReplacePreview(preview!, ['0:0', '0:1'], jest.fn().mockResolvedValue(undefined));
+
+      expect(mockEdit.replace).toHaveBeenCalledTimes(1);
+      expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+        'Replaced 1 occurrences. Skipped 1 that changed since the preview.'
+      );
+    });
+
+    test('should not apply anything when no edit is accepted', async () => {
+      (vscode.workspace.openTextDocument as unknown as jest.Mock).mockResolvedValue(createTextDoc('oldName'));
+      mockSearchResults([{ uri: 'file:///test/a.ts', line: 0, character: 0, length: 7 }]);
+      const preview = await buildReplacePreview('oldName', 'newName', 'project', defaultOptions, undefined, undefined);
+      const onRefresh = jest.fn();
+
+      await applyReplacePreview(preview!, [], onRefresh);
+
+      expect(vscode.workspace.applyEdit).not.toHaveBeenCalled();
+      expect(onRefresh).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,146 @@
+import * as vscode from 'vscode';
+import {
+  formatResultsAsJson,
+  formatResultsAsCsv,
+  formatResultsAsMarkdown,
+  formatResultsAsSarif,
+  exportSearchResults,
+} from '../resultsExport';
+import { SearchOptions, SearchResult } from '../utils';
+
+jest.mock('vscode');
+
+const options: SearchOptions = {
+  matchCase: false,
+  wholeWord: false,
+  useRegex: false,
+  fileMask: '',
+  includeCode: true,
+  includeComments: false,
+  includeStrings: true,
+};
+
+const makeResult = (overrides: Partial<SearchResult>): SearchResult => ({
+  uri: 'file:///ws/src/a.ts',
+  fileName: 'a.ts',
+  relativePath: 'src/a.ts',
+  line: 0,
+  character: 0,
+  length: 3,
+  preview: 'foo',
+  previewMatchRange: { start: 0, end: 3 },
+  ...overrides,
+});
+
+const results: SearchResult[] = [
+  makeResult({
+    line: 4,
+    character: 6,
+    preview: 'const foo = foo();',
+    matchRanges: [{ start: 6, end: 9 }, { start: 12, end: 15 }],
+    matchCount: 2,
+  }),
+  makeResult({
+    uri: 'file:///ws/src/b.ts',
+    fileName: 'b.ts',
+    relativePath: 'src/b.ts',
+    line: 0,
+    character: 10,
+    preview: 'log("foo, `bar`")',
+  }),
+];
+
+describe('resultsExport', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('JSON export uses 1-based positions and records the code-context filters', () => {
+    const parsed = JSON.parse(formatResultsAsJson(results, { query: 'foo', options }));
+
+    expect(parsed.totalMatches).toBe(3);
+    expect(parsed.codeContext).toEqual({ includeCode: true, includeComments: false, includeStrings: true });
+    expect(parsed.results[0]).toEqual({
+      path: 'src/a.ts',
+      uri: 'file:///ws/src/a.ts',
+      line: 5,
+      column: 7,
+      preview: 'const foo = foo();',
+      matchRanges: [{ startColumn: 7, endColumn: 10 }, { startColumn: 13, endColumn: 16 }],
+    });
+  });
+
+  test('CSV export quotes fields containing commas and quotes', () => {
+    const lines = formatResultsAsCsv(results).trimEnd().split('\r\n');
+
+    expect(lines[0]).toBe('path,line,column,matchRanges,preview');
+    expect(lines[1]).toBe('src/a.ts,5,7,7-10;13-16,const foo = foo();');
+    expect(lines[2]).toBe('src/b.ts,1,11,11-14,"log(""foo, `bar`"")"');
+  });
+
+  test('Markdown export is a checklist grouped by file', () => {
+    const markdown = formatResultsAsMarkdown(results, { query: 'foo', options });
+
+    expect(markdown).toContain('3 matches in 2 files');
+    expect(markdown).toContain('Code context: code, strings');
+    expect(markdown).toContain('## src/a.ts\n\n- [ ] L5:7 `const foo = foo();`');
+    expect(markdown).toContain('## src/b.ts\n\n- [ ] L1:11 `` log("foo, `bar`") ``');
+  });
+
+  test('SARIF export emits one result per match range', () => {
+    const sarif = JSON.parse(formatResultsAsSarif(results, { query: 'foo', options }));
+
+    expect(sarif.version).toBe('2.1.0');
+    expect(sarif.runs[0].tool.driver.name).toBe('Rifler');
+    expect(sarif.runs[0].results).toHaveLength(3);
+    expect(sarif.runs[0].results[1].locations[0].physicalLocation).toEqual({
+      artifactLocation: { uri: 'src/a.ts', uriBaseId: '%SRCROOT%' },
+      region: { startLine: 5, startColumn: 13, endColumn: 16, snippet: { text: 'const foo = foo();' } },
+    });
+  });
+
+  test('exports context lines when the search collected them', () => {
+    const withContext = [makeResult({ line: 4, preview: 'foo()', contextBefore: ['// call'], contextAfter: ['done()'] })];
+
+    const parsed = JSON.parse(formatResultsAsJson(withContext, { query: 'foo', options }));
+    expect(parsed.results[0].contextBefore).toEqual(['// call']);
+    expect(parsed.results[0].contextAfter).toEqual(['done()']);
+
+    const csv = formatResultsAsCsv(withContext).trimEnd().split('\r\n');
+    expect(csv[0]).toBe('path,line,column,matchRanges,preview,contextBefore,contextAfter');
+    expect(csv[1]).toBe('src/a.ts,5,1,1-4,foo(),// call,done()');
+
+    const markdown = formatResultsAsMarkdown(withContext, { query: 'foo', options });
+    expect(markdown).toContain('  ```\n  4: // call\n  5: foo()\n  6: done()\n  ```');
+
+    const sarif = JSON.parse(formatResultsAsSarif(withContext, { query: 'foo', options }));
+    expect(sarif.runs[0].results[0].locations[0].physicalLocation.contextRegion).toEqual({
+      startLine: 4,
+      endLine: 6,
+      snippet: { text: '// call\nfoo()\ndone()' },
+    });
+  });
+
+  test('writes the chosen format to the chosen file', async () => {
+    const target = vscode.Uri.parse('/ws/out.csv');
+    (vscode.window.showQuickPick as jest.Mock).mockImplementation((items: Array<{ format: string }>) =>
+      Promise.resolve(items.find((item) => item.format === 'csv'))
+    );
+    (vscode.window.showSaveDialog as jest.Mock).mockResolvedValue(target);
+
+    await exportSearchResults(results, { query: 'foo', options });
+
+    expect(vscode.workspace.fs.writeFile).toHaveBeenCalledWith(target, expect.any(Uint8Array));
+    const written = new TextDecoder().decode((vscode.workspace.fs.writeFile as jest.Mock).mock.calls[0][1]);
+    expect(written).toBe(formatResultsAsCsv(results));
+  });
+
+  test('does nothing when the format picker is dismissed', async () => {
+    (vscode.window.showQuickPick as jest.Mock).mockResolvedValue(undefined);
+
+    await exportSearchResults(results, { query: 'foo', options });
+
+    expect(vscode.window.showSaveDialog).not.toHaveBeenCalled();
+    expect(vscode.workspace.fs.writeFile).not.toHaveBeenCalled();
+  });
+});
@@ -1,5 +1,7 @@
 import * as vscode from 'vscode';
-import { getRipgrepCommandCandidates } from '../rgSearch';
+import * as path from 'path';
+import { ContextCollector, getRipgrepCommandCandidates, toRelativePath } from '../rgSearch';
+import { SearchResult } from '../utils';
 
 describe('getRipgrepCommandCandidates', () => {
   const originalEnv = process.env;
@@ -44,3 +46,64 @@ describe('getRipgrepCommandCandidates', () => {
     expect(candidates).toContain('rg');
   });
 });
+
+describe('ContextCollector', () => {
+  const file = '/ws/a.ts';
+  const context = (lineNumber: number, text: string) => ({
+    type: 'context' as const,
+    data: { path: { text: file }, lines: { text: `${text}\n` }, line_number: lineNumber },
+  });
+  const match = (lineNumber: number, text: string) => ({
+    type: 'match' as const,
+    data: { path: { text: file }, lines: { text: `${text}\n` }, line_number: lineNumber, submatches: [{ start: 0, end: 4 }] },
+  });
+  const result = (line: number) => ({ line } as SearchResult);
+
+  test('splits context lines between the matches around them', () => {
+    const collector = new ContextCollector(2);
+    const first = result(2);
+    const second = result(5);
+
+    collector.addContext(context(1, 'a'));
+    collector.addContext(context(2, 'b'));
+    collector.addMatch(match(3, 'test one'), first);
+    collector.addContext(context(4, 'c'));
+    collector.addMatch(match(5, 'test two'), second);
+    collector.addContext(context(6, 'd'));
+    collector.addContext(context(7, 'e'));
+
+    expect(first.contextBefore).toEqual(['a', 'b']);
+    expect(first.contextAfter).toEqual(['c']);
+    expect(second.contextBefore).toEqual(['c']);
+    expect(second.contextAfter).toEqual(['d', 'e']);
+  });
+
+  test('starts after-context below the last line of a multiline match', () => {
+    const collector = new ContextCollector(1);
+    const multi = result(0);
+
+    collector.addMatch(match(1, 'test\nmore'), multi);
+    collector.addContext(context(3, 'after'));
+
+    expect(multi.contextBefore).toEqual([]);
+    expect(multi.contextAfter).toEqual(['after']);
+  });
+});
+
+describe('toRelativePath', () => {
+  const api = { name: 'api', uri: { fsPath: path.join(path.sep, 'repos', 'api') }, index: 0 } as vscode.WorkspaceFolder;
+  const web = { name: 'web', uri: { fsPath: path.join(path.sep, 'repos', 'web') }, index: 1 } as vscode.WorkspaceFolder;
+  const file = path.join(path.sep, 'repos', 'web', 'src', 'app.ts');
+
+  test('is relative to the workspace folder in single-root workspaces', () => {
+    expect(toRelativePath(file, [web])).toBe(path.join('src', 'app.ts'));
+  });
+
+  test('starts with the folder name in multi-root workspaces', () => {
+    expect(toRelativePath(file, [api, web])).toBe(path.join('web', 'src', 'app.ts'));
+  });
+
+  test('falls back to the file name outside workspace folders', () => {
+    expect(toRelativePath(path.join(path.sep, 'tmp', 'x.ts'), [api, web])).toBe('x.ts');
+  });
+});
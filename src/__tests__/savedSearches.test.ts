@@ -0,0 +1,211 @@
+import * as vscode from 'vscode';
+import {
+  describeSavedSearch,
+  normalizeSavedSearch,
+  parseSharedSavedSearches,
+  readSharedSavedSearches,
+  removeSharedSavedSearch,
+  writeSharedSavedSearch
+} from '../savedSearches';
+
+describe('savedSearches', () => {
+  const folder = { uri: { fsPath: '/repo', toString: () => 'file:///repo' }, name: 'repo', index: 0 };
+
+  afterEach(() => {
+    (vscode.workspace as any).workspaceFolders = [];
+    jest.clearAllMocks();
+  });
+
+  describe('normalizeSavedSearch', () => {
+    test('fills in default options', () => {
+      const search = normalizeSavedSearch({ name: ' Todos ', query: 'TODO' });
+
+      expect(search).toEqual({
+        name: 'Todos',
+        query: 'TODO',
+        scope: 'project',
+        directoryPath: undefined,
+        modulePath: undefined,
+        options: {
+          matchCase: false,
+          wholeWord: false,
+          useRegex: false,
+          multiline: false,
+          structural: false,
+          fileNames: false,
+          symbols: false,
+          fileMask: '',
+          includeCode: true,
+          includeComments: true,
+          includeStrings: true
+        }
+      });
+    });
+
+    test('rejects entries without a name or query', () => {
+      expect(normalizeSavedSearch({ name: 'x', query: '  ' })).toBeUndefined();
+      expect(normalizeSavedSearch({ query: 'TODO' })).toBeUndefined();
+      expect(normalizeSavedSearch('TODO')).toBeUndefined();
+    });
+
+    test('keeps only the path that matches the scope', () => {
+      const search = normalizeSavedSearch({
+        name: 'n',
+        query: 'q',
+        scope: 'module',
+        directoryPath: 'src',
+        modulePath: 'packages/core'
+      });
+
+      expect(search?.directoryPath).toBeUndefined();
+      expect(search?.modulePath).toBe('packages/core');
+    });
+
+    test('falls back to project scope for unknown scopes', () => {
+      expect(normalizeSavedSearch({ name: 'n', query: 'q', scope: 'galaxy' })?.scope).toBe('project');
+    });
+  });
+
+  describe('parseSharedSavedSearches', () => {
+    test('reads the searches property or a bare array', () => {
+      const entry = { name: 'Todos', query: 'TODO' };
+
+      expect(parseSharedSavedSearches(JSON.stringify({ searches: [entry] }))).toHaveLength(1);
+      expect(parseSharedSavedSearches(JSON.stringify([entry, { name: 'broken' }]))).toHaveLength(1);
+      expect(parseSharedSavedSearches('{}')).toEqual([]);
+    });
+  });
+
+  test('describeSavedSearch summarizes scope, mask, flags and excluded contexts', () => {
+    const search = normalizeSavedSearch({
+      name: 'n',
+      query: 'q',
+      options: { useRegex: true, wholeWord: true, fileMask: '*.py', includeComments: false }
+    })!;
+
+    expect(describeSavedSearch(search)).toBe('project · files: *.py · W .* · excluding comments');
+  });
+
+  describe('shared file', () => {
+    test('reads searches from every workspace folder and ignores invalid files', async () => {
+      (vscode.workspace as any).workspaceFolders = [folder, { ...folder, uri: { fsPath: '/other' }, index: 1 }];
+      (vscode.workspace.fs.readFile as jest.Mock)
+        .mockResolvedValueOnce(new TextEncoder().encode(JSON.stringify({ searches: [{ name: 'Todos', query: 'TODO' }] })))
+        .mockResolvedValueOnce(new TextEncoder().encode('{ not json'));
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const searches = await readSharedSavedSearches();
+
+      expect(searches.map((s) => s.name)).toEqual(['Todos']);
+      expect(searches[0].folder).toBe('file:///repo');
+      expect(warn).toHaveBeenCalled();
+      expect((vscode.Uri.joinPath as jest.Mock).mock.calls[0].slice(1)).toEqual(['.vscode', 'rifler-searches.json']);
+      warn.mockRestore();
+    });
+
+    test('replaces a search with the same name when writing', async () => {
+      (vscode.workspace as any).workspaceFolders = [folder];
+      (vscode.workspace.fs.readFile as jest.Mock).mockResolvedValueOnce(new TextEncoder().encode(JSON.stringify({
+        searches: [{ name: 'Todos', query: 'TODO' }, { name: 'Fixmes', query: 'FIXME' }]
+      })));
+
+      await writeSharedSavedSearch(normalizeSavedSearch({ name: 'todos', query: 'TODO|XXX' })!);
+
+      const written = (vscode.workspace.fs.writeFile as jest.Mock).mock.calls[0][1];
+      const content = JSON.parse(new TextDecoder().decode(written));
+      expect(content.searches.map((s: { name: string }) => s.name)).toEqual(['Fixmes', 'todos']);
+      expect(content.searches[1].query).toBe('TODO|XXX');
+    });
+
+    test('refuses to overwrite a file that does not parse', async () => {
+      (vscode.workspace as any).workspaceFolders = [folder];
+      (vscode.workspace.fs.readFile as jest.Mock).mockResolvedValueOnce(new TextEncoder().encode('{ "searches": [ '));
+
+      await expect(writeSharedSavedSearch(normalizeSavedSearch({ name: 'n', query: 'q' })!)).rejects.toThrow(
+        'fix it before saving'
+      );
+      expect(vscode.workspace.fs.writeFile).not.toHaveBeenCalled();
+    });
+
+    test('keeps entries and fields it does not read', async () => {
+      (vscode.workspace as any).workspaceFolders = [folder];
+      (vscode.workspace.fs.readFile as jest.Mock).mockResolvedValueOnce(new TextEncoder().encode(JSON.stringify({
+        version: 2,
+        searches: [
+          { name: 'Todos', query: 'TODO', owner: 'web-team', options: { ranking: 'recent' } },
+          { name: 'Future', pattern: { kind: 'ast' } }
+        ]
+      })));
+
+      await writeSharedSavedSearch(normalizeSavedSearch({ name: 'Todos', query: 'TODO|XXX' })!);
+
+      const written = (vscode.workspace.fs.writeFile as jest.Mock).mock.calls[0][1];
+      const content = JSON.parse(new TextDecoder().decode(written));
+      expect(content.version).toBe(2);
+      expect(content.searches[0]).toEqual({ name: 'Future', pattern: { kind: 'ast' } });
+      expect(content.searches[1]).toMatchObject({
+        name: 'Todos',
+        query: 'TODO|XXX',
+        owner: 'web-team',
+        options: { ranking: 'recent', useRegex: false }
+      });
+    });
+
+    test('removes a search from the file of the folder it was read from', async () => {
+      const other = { uri: { fsPath: '/other', toString: () => 'file:///other' }, name: 'other', index: 1 };
+      (vscode.workspace as any).workspaceFolders = [folder, other];
+      (vscode.workspace.fs.readFile as jest.Mock).mockResolvedValueOnce(new TextEncoder().encode(JSON.stringify([
+        { name: 'Todos', query: 'TODO' },
+        { name: 'Fixmes', query: 'FIXME' }
+      ])));
+
+      await removeSharedSavedSearch('todos', 'file:///other');
+
+      const [uri, written] = (vscode.workspace.fs.writeFile as jest.Mock).mock.calls[0];
+      expect(uri.fsPath).toBe('/other/.vscode/rifler-searches.json');
+      expect(JSON.parse(new TextDecoder().decode(written))).toEqual([{ name: 'Fixmes', query: 'FIXME' }]);
+    });
+
+    test('writes paths relative to the folder and selected folders by name', async () => {
+      const other = { uri: { fsPath: '/other', toString: () => 'file:///other' }, name: 'other', index: 1 };
+      (vscode.workspace as any).workspaceFolders = [folder, other];
+
+      await writeSharedSavedSearch(normalizeSavedSearch({
+        name: 'Src', query: 'q', scope: 'directory', directoryPath: '/repo/src/api'
+      })!);
+      await writeSharedSavedSearch(normalizeSavedSearch({
+        name: 'Both', query: 'q', scope: 'folders', options: { folders: ['/repo', '/other', '/closed'] }
+      })!);
+
+      const written = (vscode.workspace.fs.writeFile as jest.Mock).mock.calls
+        .map((call) => JSON.parse(new TextDecoder().decode(call[1])).searches[0]);
+      expect(written[0].directoryPath).toBe('src/api');
+      expect(written[1].options.folders).toEqual(['repo', 'other']);
+    });
+
+    test('resolves paths and folder names against the workspace when reading', async () => {
+      const other = { uri: { fsPath: '/other', toString: () => 'file:///other' }, name: 'other', index: 1 };
+      (vscode.workspace as any).workspaceFolders = [folder, other];
+      (vscode.workspace.fs.readFile as jest.Mock)
+        .mockResolvedValueOnce(new TextEncoder().encode(JSON.stringify([
+          { name: 'Src', query: 'q', scope: 'directory', directoryPath: 'src/api' },
+          { name: 'Both', query: 'q', scope: 'folders', options: { folders: ['other', 'missing', '/repo'] } }
+        ])))
+        .mockResolvedValueOnce(new TextEncoder().encode(JSON.stringify([
+          { name: 'Lib', query: 'q', scope: 'module', modulePath: 'lib' }
+        ])));
+
+      const searches = await readSharedSavedSearches();
+
+      expect(searches[0].directoryPath).toBe('/repo/src/api');
+      expect(searches[1].options.folders).toEqual(['/other', '/repo']);
+      expect(searches[2].modulePath).toBe('/other/lib');
+    });
+
+    test('refuses to write without a workspace folder', async () => {
+      await expect(writeSharedSavedSearch(normalizeSavedSearch({ name: 'n', query: 'q' })!)).rejects.toThrow(
+        'Open a folder to share saved searches'
+      );
+    });
+  });
+});
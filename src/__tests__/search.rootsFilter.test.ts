@@ -1,11 +1,18 @@
 import * as vscode from 'vscode';
-import { startRipgrepSearch } from '../rgSearch';
+import { startRipgrepFileList, startRipgrepSearch } from '../rgSearch';
 import { performSearch } from '../search';
 import { SearchOptions } from '../utils';
+import { getChangedFiles } from '../gitChanges';
+import * as path from 'path';
 
 jest.mock('vscode');
 jest.mock('../rgSearch', () => ({
   startRipgrepSearch: jest.fn(),
+  startRipgrepFileList: jest.fn(),
+  toRelativePath: jest.requireActual('../rgSearch').toRelativePath,
+}));
+jest.mock('../gitChanges', () => ({
+  getChangedFiles: jest.fn(),
 }));
 
 describe('Search roots filtering', () => {
@@ -66,4 +73,354 @@ describe('Search roots filtering', () => {
     expect(results.results).toHaveLength(1);
     expect(results.results[0].uri).toBe('/workspace/src/in.ts');
   });
+
+  test('streams batches through the same root filter before resolving', async () => {
+    const rootDir = '/workspace/src';
+    const makeResult = (uri: string) => ({
+      uri,
+      fileName: uri.split('/').pop(),
+      relativePath: uri.replace('/workspace/', ''),
+      line: 0,
+      character: 0,
+      length: 4,
+      preview: 'test',
+      previewMatchRange: { start: 0, end: 4 },
+      previewMatchRanges: [{ start: 0, end: 4 }],
+    });
+
+    (vscode.workspace.fs.stat as jest.Mock).mockResolvedValue({ type: vscode.FileType.Directory, size: 0, ctime: 0, mtime: 0 });
+    (startRipgrepSearch as unknown as jest.Mock).mockImplementation((params: { onBatch?: (batch: unknown[]) => void }) => {
+      const first = [makeResult('/workspace/src/a.ts'), makeResult('/workspace/other/b.ts')];
+      const second = [makeResult('/workspace/src/c.ts')];
+      params.onBatch?.(first);
+      params.onBatch?.(second);
+      return { promise: Promise.resolve([...first, ...second]), cancel: jest.fn() };
+    });
+
+    const events: string[] = [];
+    const outcome = await performSearch('test', 'directory', defaultOptions, rootDir, undefined, 100, true, 'req-1', (batch) => {
+      events.push(batch.map((r) => r.fileName).join(','));
+    });
+    events.push('done');
+
+    expect(events).toEqual(['a.ts', 'c.ts', 'done']);
+    expect(outcome.results.map((r) => r.fileName)).toEqual(['a.ts', 'c.ts']);
+  });
+
+  describe('continuing a stopped search', () => {
+    const makeResult = (uri: string, line: number) => ({
+      uri,
+      fileName: uri.split('/').pop(),
+      relativePath: uri.replace('/workspace/', ''),
+      line,
+      character: 0,
+      length: 4,
+      preview: 'test',
+      previewMatchRange: { start: 0, end: 4 },
+      previewMatchRanges: [{ start: 0, end: 4 }],
+    });
+    // A ripgrep run that only stops when the search times out
+    const runUntilTimeout = (found: unknown[], completedFiles: string[]) => () => {
+      let finish: (results: unknown[]) => void = () => undefined;
+      const promise = new Promise((resolve) => {
+        finish = resolve;
+      });
+      return { promise, cancel: () => finish(found), completedFiles: new Set(completedFiles) };
+    };
+    const fileList = (files: string[]) => ({ promise: Promise.resolve(files), cancel: jest.fn() });
+    let originalGetConfiguration: unknown;
+
+    beforeEach(() => {
+      (vscode.workspace.fs.stat as jest.Mock).mockResolvedValue({ type: vscode.FileType.Directory, size: 0, ctime: 0, mtime: 0 });
+      originalGetConfiguration = vscode.workspace.getConfiguration;
+      (vscode.workspace as any).getConfiguration = jest.fn(() => ({
+        get: (key: string, defaultValue?: unknown) => (key.startsWith('searchTimeout.') ? 10 : defaultValue),
+      }));
+    });
+
+    afterEach(() => {
+      (vscode.workspace as any).getConfiguration = originalGetConfiguration;
+    });
+
+    test('searches only the files it has not finished, by name', async () => {
+      const rootDir = '/workspace/src';
+      const rg = startRipgrepSearch as unknown as jest.Mock;
+      rg.mockImplementationOnce(runUntilTimeout(
+        [makeResult('/workspace/src/a.ts', 0), makeResult('/workspace/src/b.ts', 0)],
+        ['/workspace/src/a.ts']
+      ));
+
+      const first = await performSearch('test', 'directory', defaultOptions, rootDir, undefined, 10);
+      expect(first.timedOut).toBe(true);
+      expect(first.continuation).toBeDefined();
+
+      // The first continuation lists the files under the root and leaves out the finished ones
+      (startRipgrepFileList as jest.Mock).mockReturnValueOnce(fileList(['/workspace/src/a.ts', '/workspace/src/b.ts', '/workspace/src/c.ts']));
+      // b.ts was only partly searched, so it comes back with its first line again
+      rg.mockImplementationOnce(runUntilTimeout(
+        [makeResult('/workspace/src/b.ts', 0), makeResult('/workspace/src/b.ts', 5)],
+        ['/workspace/src/b.ts']
+      ));
+
+      const second = await performSearch('test', 'directory', defaultOptions, rootDir, undefined, 10, true, undefined, undefined, first.continuation);
+      expect(rg.mock.calls[1][0].roots).toEqual(['/workspace/src/b.ts', '/workspace/src/c.ts']);
+      expect(second.results.map((r) => `${r.fileName}:${r.line}`)).toEqual(['a.ts:0', 'b.ts:0', 'b.ts:5']);
+      expect(second.continuation?.pendingFiles).toEqual(['/workspace/src/c.ts']);
+
+      // From then on only the files left are searched, without listing the tree again
+      rg.mockReturnValueOnce({
+        promise: Promise.resolve([makeResult('/workspace/src/c.ts', 2)]),
+        cancel: jest.fn(),
+        completedFiles: new Set(['/workspace/src/c.ts']),
+      });
+
+      const third = await performSearch('test', 'directory', defaultOptions, rootDir, undefined, 10, true, undefined, undefined, second.continuation);
+      expect(startRipgrepFileList).toHaveBeenCalledTimes(1);
+      expect(rg.mock.calls[2][0].roots).toEqual(['/workspace/src/c.ts']);
+      expect(third.results.map((r) => `${r.fileName}:${r.line}`)).toEqual(['a.ts:0', 'b.ts:0', 'b.ts:5', 'c.ts:2']);
+      expect(third.continuation).toBeUndefined();
+    });
+
+    test('keeps the combined results within the cap', async () => {
+      const rootDir = '/workspace/src';
+      const rg = startRipgrepSearch as unknown as jest.Mock;
+      rg.mockImplementationOnce(runUntilTimeout([makeResult('/workspace/src/a.ts', 0)], ['/workspace/src/a.ts']));
+      const first = await performSearch('test', 'directory', defaultOptions, rootDir, undefined, 3);
+
+      (startRipgrepFileList as jest.Mock).mockReturnValueOnce(fileList(['/workspace/src/b.ts']));
+      rg.mockReturnValueOnce({
+        promise: Promise.resolve([makeResult('/workspace/src/b.ts', 0), makeResult('/workspace/src/b.ts', 1)]),
+        cancel: jest.fn(),
+        completedFiles: new Set(),
+      });
+
+      const second = await performSearch('test', 'directory', defaultOptions, rootDir, undefined, 3, true, undefined, undefined, first.continuation);
+      expect(rg.mock.calls[1][0].maxResults).toBe(2);
+      expect(second.results).toHaveLength(3);
+      expect(second.resultCapHit).toBe(true);
+      // There is no room left, so the search cannot go on
+      expect(second.continuation).toBeUndefined();
+    });
+  });
+
+  test('searches only the selected workspace folders when scope is folders', async () => {
+    (vscode.workspace as any).workspaceFolders = [
+      { name: 'api', uri: { fsPath: '/repos/api' }, index: 0 },
+      { name: 'web', uri: { fsPath: '/repos/web' }, index: 1 },
+      { name: 'jobs', uri: { fsPath: '/repos/jobs' }, index: 2 },
+    ];
+    (startRipgrepSearch as unknown as jest.Mock).mockReturnValue({
+      promise: Promise.resolve([]),
+      cancel: jest.fn(),
+      completedFiles: new Set(),
+    });
+
+    await performSearch('test', 'folders', { ...defaultOptions, folders: ['/repos/api', '/repos/jobs', '/elsewhere'] });
+
+    expect((startRipgrepSearch as unknown as jest.Mock).mock.calls[0][0].roots).toEqual(['/repos/api', '/repos/jobs']);
+  });
+
+  test('does not search anything when no folder is selected', async () => {
+    (vscode.workspace as any).workspaceFolders = [{ name: 'api', uri: { fsPath: '/repos/api' }, index: 0 }];
+
+    const outcome = await performSearch('test', 'folders', { ...defaultOptions, folders: [] });
+
+    expect(outcome.results).toEqual([]);
+    expect(startRipgrepSearch).not.toHaveBeenCalled();
+  });
+
+  test('searches the unsaved text of open editors without running ripgrep', async () => {
+    const fileUri = { scheme: 'file', fsPath: '/workspace/src/open.ts', toString: () => 'file:///workspace/src/open.ts' };
+    const otherUri = { scheme: 'untitled', fsPath: 'Untitled-1', toString: () => 'untitled:Untitled-1' };
+    (vscode.workspace as any).workspaceFolders = [{ name: 'workspace', uri: { fsPath: '/workspace' }, index: 0 }];
+    // The vscode mock is automocked here, so tab inputs are built without running the constructor
+    const tabInput = (uri: unknown) => Object.assign(Object.create(vscode.TabInputText.prototype), { uri });
+    (vscode.window.tabGroups as any).all = [
+      { tabs: [{ input: tabInput(fileUri) }, { input: tabInput(otherUri) }] },
+    ];
+    (vscode.workspace as any).textDocuments = [
+      { uri: fileUri, getText: () => 'saved line\nunsaved test edit\n' },
+    ];
+
+    try {
+      const outcome = await performSearch('test', 'openEditors', defaultOptions);
+
+      expect(startRipgrepSearch).not.toHaveBeenCalled();
+      expect(outcome.results).toHaveLength(1);
+      expect(outcome.results[0].line).toBe(1);
+      expect(outcome.results[0].relativePath).toBe(path.join('src', 'open.ts'));
+    } finally {
+      (vscode.window.tabGroups as any).all = [];
+    }
+  });
+
+  test('searches the files git reports as changed', async () => {
+    (getChangedFiles as jest.Mock).mockResolvedValue(['/workspace/src/changed.ts']);
+    (startRipgrepSearch as unknown as jest.Mock).mockReturnValue({
+      promise: Promise.resolve([]),
+      cancel: jest.fn(),
+      completedFiles: new Set(),
+    });
+
+    await performSearch('test', 'changedFiles', { ...defaultOptions, gitBase: 'main' });
+
+    expect(getChangedFiles).toHaveBeenCalledWith('main');
+    expect((startRipgrepSearch as unknown as jest.Mock).mock.calls[0][0].roots).toEqual(['/workspace/src/changed.ts']);
+  });
+
+  test('leaves out changed files that the mask, smart excludes or binary check would skip', async () => {
+    (vscode.workspace as any).workspaceFolders = [{ uri: { fsPath: '/workspace' }, name: 'workspace', index: 0 }];
+    (getChangedFiles as jest.Mock).mockResolvedValue([
+      '/workspace/src/changed.ts',
+      '/workspace/src/changed.py',
+      '/workspace/node_modules/lib/index.ts',
+      '/workspace/assets/logo.png',
+    ]);
+    (startRipgrepSearch as unknown as jest.Mock).mockReturnValue({
+      promise: Promise.resolve([]),
+      cancel: jest.fn(),
+      completedFiles: new Set(),
+    });
+
+    await performSearch('test', 'changedFiles', { ...defaultOptions, fileMask: '*.ts, *.png' });
+
+    expect((startRipgrepSearch as unknown as jest.Mock).mock.calls[0][0].roots).toEqual(['/workspace/src/changed.ts']);
+  });
+
+  test('does not run ripgrep when every changed file is filtered out', async () => {
+    (getChangedFiles as jest.Mock).mockResolvedValue(['/workspace/src/changed.py']);
+
+    const outcome = await performSearch('changed', 'changedFiles', { ...defaultOptions, fileMask: '*.ts' });
+
+    expect(startRipgrepSearch).not.toHaveBeenCalled();
+    expect(outcome.results).toEqual([]);
+  });
+
+  test('splits a long list of changed files across ripgrep runs', async () => {
+    const files = Array.from({ length: 400 }, (_, i) => `/workspace/src/${'nested/'.repeat(10)}file${i}.ts`);
+    (getChangedFiles as jest.Mock).mockResolvedValue(files);
+    const rg = startRipgrepSearch as unknown as jest.Mock;
+    rg.mockImplementation(({ roots }: { roots: string[] }) => ({
+      promise: Promise.resolve([]),
+      cancel: jest.fn(),
+      completedFiles: new Set(roots.slice(0, 1)),
+    }));
+
+    await performSearch('test', 'changedFiles', defaultOptions);
+
+    const batches = rg.mock.calls.map((call) => call[0].roots as string[]);
+    expect(batches.length).toBeGreaterThan(1);
+    expect(batches.flat()).toEqual(files);
+    for (const batch of batches) {
+      expect(batch.join(' ').length).toBeLessThan(20000);
+    }
+  });
+
+  test('a new search cancels the running search of its own session only', async () => {
+    (vscode.workspace as any).workspaceFolders = [{ uri: { fsPath: '/workspace' }, name: 'workspace', index: 0 }];
+    const runs: Array<{ cancel: jest.Mock; finish: () => void }> = [];
+    (startRipgrepSearch as unknown as jest.Mock).mockImplementation(() => {
+      let finish = (): void => {};
+      const promise = new Promise<never[]>((resolve) => {
+        finish = () => resolve([]);
+      });
+      const cancel = jest.fn(finish);
+      runs.push({ cancel, finish });
+      return { promise, cancel, completedFiles: new Set() };
+    });
+    const search = (session: string) =>
+      performSearch('test', 'project', { ...defaultOptions }, undefined, undefined, 100, true, undefined, undefined, undefined, session);
+
+    const auditSearch = search('audit');
+    const otherSearch = search('other');
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(runs).toHaveLength(2);
+    expect(runs[0].cancel).not.toHaveBeenCalled();
+
+    const nextOtherSearch = search('other');
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(runs).toHaveLength(3);
+    expect(runs[1].cancel).toHaveBeenCalled();
+    expect(runs[0].cancel).not.toHaveBeenCalled();
+
+    runs[0].finish();
+    runs[2].finish();
+    expect((await auditSearch).cancelled).toBe(false);
+    expect((await otherSearch).cancelled).toBe(true);
+    expect((await nextOtherSearch).cancelled).toBe(false);
+  });
+
+  test('replaces ripgrep hits for unsaved documents with matches from the buffer', async () => {
+    const rootDir = '/workspace/src';
+    const dirtyPath = '/workspace/src/dirty.ts';
+    const makeResult = (uri: string, line: number) => ({
+      uri,
+      fileName: uri.split('/').pop(),
+      relativePath: uri.replace('/workspace/', ''),
+      line,
+      character: 0,
+      length: 4,
+      preview: 'test',
+    });
+
+    (vscode.workspace.fs.stat as jest.Mock).mockResolvedValue({ type: vscode.FileType.Directory, size: 0, ctime: 0, mtime: 0 });
+    (vscode.workspace as any).workspaceFolders = [{ name: 'workspace', uri: { fsPath: '/workspace' }, index: 0 }];
+    (vscode.workspace as any).textDocuments = [
+      {
+        uri: { scheme: 'file', fsPath: dirtyPath, toString: () => `file://${dirtyPath}` },
+        isDirty: true,
+        getText: () => 'first\nsecond\nedited test line\n',
+      },
+    ];
+    (startRipgrepSearch as unknown as jest.Mock).mockImplementation((params: { onBatch?: (batch: unknown[]) => void }) => {
+      const disk = [makeResult(dirtyPath, 0), makeResult('/workspace/src/clean.ts', 3)];
+      params.onBatch?.(disk);
+      return { promise: Promise.resolve(disk), cancel: jest.fn(), completedFiles: new Set() };
+    });
+    const batches: any[][] = [];
+
+    const outcome = await performSearch('test', 'directory', defaultOptions, rootDir, undefined, 100, true, undefined, (batch) => batches.push(batch));
+
+    expect(batches.flat().map((r) => r.uri)).toEqual(['/workspace/src/clean.ts']);
+    expect(outcome.results.map((r) => [r.fileName, r.line])).toEqual([['dirty.ts', 2], ['clean.ts', 3]]);
+    expect(outcome.results[0].preview).toBe('edited test line');
+  });
+
+  test('searches each term of a boolean query with the same mask and combines them per file', async () => {
+    const rootDir = '/workspace/src';
+    const makeResult = (file: string, line: number, text: string) => ({
+      uri: `/workspace/src/${file}`,
+      fileName: file,
+      relativePath: `src/${file}`,
+      line,
+      character: 0,
+      length: text.length,
+      preview: text,
+      previewMatchRange: { start: 0, end: text.length },
+    });
+    const hits: Record<string, unknown[]> = {
+      FeatureFlag: [makeResult('a.ts', 0, 'FeatureFlag'), makeResult('b.ts', 0, 'FeatureFlag')],
+      legacyCheckout: [makeResult('a.ts', 3, 'legacyCheckout'), makeResult('b.ts', 1, 'legacyCheckout')],
+      '@deprecated': [makeResult('b.ts', 5, '@deprecated')],
+    };
+
+    (vscode.workspace.fs.stat as jest.Mock).mockResolvedValue({ type: vscode.FileType.Directory, size: 0, ctime: 0, mtime: 0 });
+    (startRipgrepSearch as unknown as jest.Mock).mockImplementation((params: { query: string }) => ({
+      promise: Promise.resolve(hits[params.query] ?? []),
+      cancel: jest.fn(),
+      completedFiles: new Set(),
+    }));
+
+    const outcome = await performSearch(
+      'FeatureFlag AND legacyCheckout NOT @deprecated',
+      'directory',
+      { ...defaultOptions, fileMask: '*.ts' },
+      rootDir
+    );
+
+    const calls = (startRipgrepSearch as unknown as jest.Mock).mock.calls.map(([params]) => [params.query, params.fileMask]);
+    expect(calls).toEqual([['FeatureFlag', '*.ts'], ['legacyCheckout', '*.ts'], ['@deprecated', '*.ts']]);
+    expect(outcome.results.map((r) => [r.fileName, r.line])).toEqual([['a.ts', 0], ['a.ts', 3]]);
+    expect(outcome.continuation).toBeUndefined();
+  });
 });
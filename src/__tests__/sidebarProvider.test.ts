@@ -1,7 +1,12 @@
 import * as vscode from 'vscode';
 import { RiflerSidebarProvider } from '../sidebar/SidebarProvider';
+import { StateStore } from '../state/StateStore';
 
 jest.mock('vscode');
+jest.mock('../webview/webviewUtils', () => ({
+  ...jest.requireActual('../webview/webviewUtils'),
+  getWebviewHtml: jest.fn(() => '')
+}));
 
 describe('RiflerSidebarProvider - current directory default', () => {
   const originalWorkspaceFolders = vscode.workspace.workspaceFolders;
@@ -63,3 +68,92 @@ describe('RiflerSidebarProvider - current directory default', () => {
     expect((provider as any)._view.description).toBe('');
   });
 });
+
+describe('RiflerSidebarProvider - shared message handlers', () => {
+  // A provider with a resolved view and a StateStore, recording what it posts to the webview
+  const createResolvedProvider = () => {
+    const stored = new Map<string, unknown>();
+    const memento = {
+      get: jest.fn((key: string, defaultValue?: unknown) => (stored.has(key) ? stored.get(key) : defaultValue)),
+      update: jest.fn(async (key: string, value: unknown) => {
+        stored.set(key, value);
+      }),
+      keys: () => [...stored.keys()]
+    };
+    (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+      inspect: jest.fn(() => undefined),
+      get: jest.fn((_key: string, defaultValue?: any) => defaultValue)
+    });
+    const context = {
+      extensionUri: vscode.Uri.parse('/tmp/ext'),
+      subscriptions: [],
+      workspaceState: memento,
+      globalState: memento
+    } as any;
+    const provider = new RiflerSidebarProvider(context, new StateStore(context));
+
+    const messages: any[] = [];
+    const view = {
+      webview: {
+        options: {},
+        html: '',
+        cspSource: '',
+        asWebviewUri: jest.fn((uri: unknown) => uri),
+        postMessage: jest.fn(async (msg: any) => {
+          messages.push(msg);
+          return true;
+        }),
+        onDidReceiveMessage: jest.fn()
+      },
+      visible: true,
+      onDidChangeVisibility: jest.fn(),
+      onDidDispose: jest.fn()
+    };
+    provider.resolveWebviewView(view as any, {} as any, {} as any);
+    const send = (message: Record<string, unknown>): Promise<void> => (provider as any)._handleMessage(message);
+    return { messages, send };
+  };
+
+  const result = {
+    uri: 'file:///tmp/a.ts',
+    fileName: 'a.ts',
+    relativePath: 'a.ts',
+    line: 0,
+    character: 6,
+    length: 3,
+    preview: 'const foo = 1;',
+    previewMatchRange: { start: 6, end: 9 }
+  };
+  const options = { matchCase: false, wholeWord: false, useRegex: false, fileMask: '' };
+
+  test('round-trips a pinned result set', async () => {
+    const { messages, send } = createResolvedProvider();
+    const lastSets = () => messages.filter((m) => m.type === 'pinnedResults').pop()?.sets;
+
+    await send({ type: 'pinResults', query: 'foo', scope: 'project', options, results: [result] });
+    expect(lastSets()).toHaveLength(1);
+    const [set] = lastSets();
+    expect(set.query).toBe('foo');
+
+    await send({ type: 'getPinnedResults' });
+    expect(lastSets()).toEqual([set]);
+
+    await send({ type: 'unpinResults', id: set.id });
+    expect(lastSets()).toEqual([]);
+  });
+
+  test('answers refine requests', async () => {
+    const { messages, send } = createResolvedProvider();
+    const other = { ...result, uri: 'file:///tmp/test/a.test.ts', fileName: 'a.test.ts', relativePath: 'test/a.test.ts' };
+
+    await send({
+      type: 'refineResults',
+      requestId: 'r-1',
+      results: [result, other],
+      step: { kind: 'path', pattern: 'test/', exclude: true }
+    });
+
+    const refined = messages.find((m) => m.type === 'refinedResults');
+    expect(refined).toEqual({ type: 'refinedResults', requestId: 'r-1', results: [result] });
+  });
+});
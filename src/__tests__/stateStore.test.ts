@@ -209,4 +209,245 @@ describe('StateStore Tests', () => {
       assert.strictEqual(callback2Triggered, true);
     });
   });
+
+  describe('Replace Transactions', () => {
+    const makeTransaction = (id: string) => ({
+      id,
+      label: `Replace ${id}`,
+      ts: Number(id),
+      files: [{ uri: 'file:///a.ts', contentHash: 'hash', edits: [] }]
+    });
+
+    test('should return the most recent transaction and persist it', () => {
+      const store = new StateStore(mockContext);
+      store.recordReplaceTransaction(makeTransaction('1'));
+      store.recordReplaceTransaction(makeTransaction('2'));
+
+      assert.strictEqual(store.getLastReplaceTransaction()?.id, '2');
+      expect(workspaceStateUpdate).toHaveBeenCalledWith('rifler.replaceTransactions', [
+        expect.objectContaining({ id: '2' }),
+        expect.objectContaining({ id: '1' })
+      ]);
+    });
+
+    test('should keep at most 10 transactions', () => {
+      const store = new StateStore(mockContext);
+      for (let i = 1; i <= 12; i++) {
+        store.recordReplaceTransaction(makeTransaction(String(i)));
+      }
+
+      const lastCall = workspaceStateUpdate.mock.calls.filter((c) => c[0] === 'rifler.replaceTransactions').pop();
+      assert.strictEqual(lastCall[1].length, 10);
+      assert.strictEqual(lastCall[1][9].id, '3');
+    });
+
+    test('should remove a transaction after it is undone', () => {
+      const store = new StateStore(mockContext);
+      store.recordReplaceTransaction(makeTransaction('1'));
+      store.recordReplaceTransaction(makeTransaction('2'));
+
+      store.removeReplaceTransaction('2');
+
+      assert.strictEqual(store.getLastReplaceTransaction()?.id, '1');
+    });
+
+    test('should restore persisted transactions', () => {
+      workspaceStateGet.mockImplementation((key: string, defaultValue?: any) =>
+        key === 'rifler.replaceTransactions' ? [makeTransaction('7')] : defaultValue
+      );
+
+      const store = new StateStore(mockContext);
+
+      assert.strictEqual(store.getLastReplaceTransaction()?.id, '7');
+    });
+  });
+
+  describe('Saved Searches', () => {
+    const makeSearch = (name: string, query = 'TODO') => ({
+      name,
+      query,
+      scope: 'project',
+      options: { matchCase: false, wholeWord: false, useRegex: false, fileMask: '*.ts' }
+    });
+
+    test('should save searches per location and persist them', () => {
+      const store = new StateStore(mockContext);
+
+      store.saveSearch(makeSearch('Todos'), 'workspace');
+
+      assert.deepStrictEqual(store.getSavedSearches('workspace').map((s) => s.name), ['Todos']);
+      assert.strictEqual(store.getSavedSearches('global').length, 0);
+      const lastCall = workspaceStateUpdate.mock.calls.filter((c) => c[0] === 'rifler.savedSearches').pop();
+      assert.strictEqual(lastCall[1][0].options.fileMask, '*.ts');
+    });
+
+    test('should replace a saved search with the same name', () => {
+      const store = new StateStore(mockContext);
+
+      store.saveSearch(makeSearch('Todos', 'TODO'), 'workspace');
+      store.saveSearch(makeSearch('todos', 'FIXME'), 'workspace');
+
+      const saved = store.getSavedSearches('workspace');
+      assert.strictEqual(saved.length, 1);
+      assert.strictEqual(saved[0].query, 'FIXME');
+    });
+
+    test('should remove a saved search by name', () => {
+      const store = new StateStore(mockContext);
+      store.saveSearch(makeSearch('A'), 'workspace');
+      store.saveSearch(makeSearch('B'), 'workspace');
+
+      store.removeSavedSearch('a', 'workspace');
+
+      assert.deepStrictEqual(store.getSavedSearches('workspace').map((s) => s.name), ['B']);
+    });
+
+    test('should load saved searches even when persistence is off', () => {
+      configGet.mockImplementation((key: string, defaultValue?: any) =>
+        key === 'persistenceScope' ? 'off' : defaultValue
+      );
+      workspaceStateGet.mockImplementation((key: string, defaultValue?: any) =>
+        key === 'rifler.savedSearches' ? [makeSearch('Kept'), { name: '', query: 'dropped' }] : defaultValue
+      );
+
+      const store = new StateStore(mockContext);
+
+      assert.deepStrictEqual(store.getSavedSearches('workspace').map((s) => s.name), ['Kept']);
+    });
+  });
+
+  describe('Search Sessions', () => {
+    const makeState = (query: string) => ({
+      query,
+      replaceText: '',
+      scope: 'project',
+      directoryPath: '',
+      modulePath: '',
+      filePath: '',
+      options: { matchCase: false, wholeWord: false, useRegex: false, fileMask: '' },
+      showReplace: false
+    });
+
+    test('should keep sessions per owner and persist them without results', () => {
+      const store = new StateStore(mockContext);
+
+      store.setSearchSessions('rifler.sidebarState', {
+        activeSessionId: 'b',
+        sessions: [
+          { id: 'a', name: 'Audit', state: { ...makeState('password'), results: [], lastPreview: {} } },
+          { id: 'b', name: 'Search 2', state: makeState('TODO') }
+        ]
+      });
+
+      const list = store.getSearchSessions('rifler.sidebarState');
+      assert.strictEqual(list.activeSessionId, 'b');
+      assert.deepStrictEqual(list.sessions.map((s) => s.name), ['Audit', 'Search 2']);
+      assert.strictEqual(store.getSearchSessions('panel').sessions.length, 0);
+      const lastCall = workspaceStateUpdate.mock.calls.filter((c) => c[0] === 'rifler.searchSessions').pop();
+      const persisted = lastCall[1]['rifler.sidebarState'].sessions[0].state;
+      assert.strictEqual(persisted.query, 'password');
+      assert.ok(!('results' in persisted));
+      assert.ok(!('lastPreview' in persisted));
+    });
+
+    test('should drop sessions without an id or name and an unknown active session', () => {
+      const store = new StateStore(mockContext);
+
+      store.setSearchSessions('panel', {
+        activeSessionId: 'missing',
+        sessions: [
+          { id: 'a', name: ' Audit ' },
+          { id: '', name: 'No id' },
+          { id: 'b', name: '' },
+          { id: 'a', name: 'Duplicate' }
+        ]
+      });
+
+      const list = store.getSearchSessions('panel');
+      assert.strictEqual(list.activeSessionId, undefined);
+      assert.deepStrictEqual(list.sessions, [{ id: 'a', name: 'Audit', state: undefined }]);
+    });
+
+    test('should restore persisted sessions', () => {
+      workspaceStateGet.mockImplementation((key: string, defaultValue?: any) =>
+        key === 'rifler.searchSessions'
+          ? { panel: { sessions: [{ id: 'p1', name: 'Audit', state: { ...makeState('secret'), results: [{}] } }] } }
+          : defaultValue
+      );
+
+      const store = new StateStore(mockContext);
+
+      const [session] = store.getSearchSessions('panel').sessions;
+      assert.strictEqual(session.state?.query, 'secret');
+      assert.strictEqual(session.state?.results, undefined);
+    });
+
+    test('should forget an owner when its last session is removed', () => {
+      const store = new StateStore(mockContext);
+      store.setSearchSessions('panel', { sessions: [{ id: 'a', name: 'Audit' }] });
+
+      store.setSearchSessions('panel', { sessions: [] });
+
+      const lastCall = workspaceStateUpdate.mock.calls.filter((c) => c[0] === 'rifler.searchSessions').pop();
+      assert.deepStrictEqual(lastCall[1], {});
+    });
+  });
+
+  describe('Pinned Result Sets', () => {
+    const makeResult = (line: number) => ({
+      uri: 'file:///a.ts',
+      fileName: 'a.ts',
+      relativePath: 'a.ts',
+      line,
+      character: 0,
+      length: 3,
+      preview: 'foo()',
+      previewMatchRange: { start: 0, end: 3 },
+      contextBefore: ['// above'],
+    });
+    const makeSet = (id: string) => ({
+      id,
+      query: 'foo',
+      scope: 'project',
+      options: { matchCase: false, wholeWord: false, useRegex: false, fileMask: '' },
+      pinnedAt: 1,
+      results: [makeResult(0), makeResult(4)],
+    });
+
+    test('should keep pinned results, newest first, apart from the sanitized search state', () => {
+      const store = new StateStore(mockContext);
+
+      store.savePinnedResultSet(makeSet('p1'));
+      store.savePinnedResultSet(makeSet('p2'));
+
+      assert.deepStrictEqual(store.getPinnedResultSets().map((set) => set.id), ['p2', 'p1']);
+      const lastCall = workspaceStateUpdate.mock.calls.filter((c) => c[0] === 'rifler.pinnedResults').pop();
+      assert.strictEqual(lastCall[1][0].results.length, 2);
+      assert.ok(!('contextBefore' in lastCall[1][0].results[0]));
+      assert.ok(!workspaceStateUpdate.mock.calls.some((c) => c[0] === 'rifler.persistedSearchState'));
+    });
+
+    test('should replace a revalidated set in place and remove sets by id', () => {
+      const store = new StateStore(mockContext);
+      store.savePinnedResultSet(makeSet('p1'));
+      store.savePinnedResultSet(makeSet('p2'));
+
+      store.savePinnedResultSet({ ...makeSet('p1'), validatedAt: 5 });
+      store.removePinnedResultSet('p2');
+
+      const sets = store.getPinnedResultSets();
+      assert.deepStrictEqual(sets.map((set) => set.id), ['p1']);
+      assert.strictEqual(sets[0].validatedAt, 5);
+    });
+
+    test('should restore persisted sets and skip invalid ones', () => {
+      workspaceStateGet.mockImplementation((key: string, defaultValue?: any) =>
+        key === 'rifler.pinnedResults' ? [makeSet('p1'), { id: 'p2', query: '' }, 'junk'] : defaultValue
+      );
+
+      const store = new StateStore(mockContext);
+
+      assert.deepStrictEqual(store.getPinnedResultSets().map((set) => set.id), ['p1']);
+    });
+  });
 });
@@ -0,0 +1,119 @@
+import * as assert from 'assert';
+import {
+  expandStructuralReplacement,
+  findStructuralMatches,
+  getStructuralAnchor,
+  matchStructuralAt,
+  searchStructuralInContent,
+  validateStructuralPattern,
+} from '../structuralSearch';
+
+describe('Structural search', () => {
+  const matchedText = (source: string, pattern: string): string[] =>
+    findStructuralMatches(source, pattern).map((m) => source.slice(m.start, m.end));
+
+  test('ignores whitespace, line breaks and comments', () => {
+    const source = 'console.log("a");\nconsole . log(\n  /* note */ b\n);\nconsole.error(c);';
+    assert.deepStrictEqual(matchedText(source, 'console.log($ARG)'), [
+      'console.log("a")',
+      'console . log(\n  /* note */ b\n)',
+    ]);
+  });
+
+  test('binds metavariables to balanced spans', () => {
+    const source = 'useEffect(() => { load(a, b); }, []);\nuseEffect(run, [dep]);';
+    const matches = findStructuralMatches(source, 'useEffect($FN, [])');
+    assert.strictEqual(matches.length, 1);
+    assert.deepStrictEqual(matches[0].bindings, { FN: '() => { load(a, b); }' });
+  });
+
+  test('single metavariables do not span top-level commas', () => {
+    assert.deepStrictEqual(matchedText('f(a, b); f(c);', 'f($X)'), ['f(c)']);
+  });
+
+  test('multi metavariables match any number of arguments', () => {
+    const source = 'f(); f(a); f(a, g(b, c));';
+    const matches = findStructuralMatches(source, 'f($$$ARGS)');
+    assert.deepStrictEqual(matches.map((m) => m.bindings.ARGS), ['', 'a', 'a, g(b, c)']);
+  });
+
+  test('repeated metavariables must match the same code', () => {
+    assert.deepStrictEqual(matchedText('a === a; a === b; x.y === x.y;', '$A === $A'), ['a === a', 'x.y === x.y']);
+  });
+
+  test('a trailing metavariable takes the rest of the expression', () => {
+    const matches = findStructuralMatches('const total = price * (1 + tax);\nnext();', 'const total = $VALUE');
+    assert.deepStrictEqual(matches.map((m) => m.bindings.VALUE), ['price * (1 + tax)']);
+  });
+
+  test('single metavariables stop at statement keywords and declarations', () => {
+    const bindings = (source: string) => findStructuralMatches(source, '$X + $Y').map((m) => m.bindings);
+    assert.deepStrictEqual(bindings('return a + b;'), [{ X: 'a', Y: 'b' }]);
+    assert.deepStrictEqual(bindings('if (ok) x + y;'), [{ X: 'x', Y: 'y' }]);
+    assert.deepStrictEqual(bindings('const v = await a + b;'), [{ X: 'await a', Y: 'b' }]);
+  });
+
+  test('single metavariables stop at assignment and looser operators', () => {
+    const source = 'a = b + c * d;';
+    const matches = findStructuralMatches(source, '$X + $Y');
+    assert.deepStrictEqual(matches.map((m) => m.bindings), [{ X: 'b', Y: 'c * d' }]);
+    const [match] = matches;
+    const replaced = source.slice(0, match.start) + expandStructuralReplacement('add($X, $Y)', match.bindings) + source.slice(match.end);
+    assert.strictEqual(replaced, 'a = add(b, c * d);');
+
+    assert.deepStrictEqual(matchedText('x * b + c;', '$X + $Y'), ['x * b + c']);
+    assert.deepStrictEqual(matchedText('a + b - c;', '$X + $Y'), ['a + b']);
+    assert.deepStrictEqual(matchedText('a - b + c;', '$X + $Y'), ['a - b + c']);
+    assert.deepStrictEqual(matchedText('ok && a + b;', '$X && $Y'), ['ok && a + b']);
+  });
+
+  test('matches do not start inside a member chain or end before a tighter operator', () => {
+    assert.deepStrictEqual(matchedText('obj.console.log(q);\nconsole.log(q);', 'console.log($ARG)'), ['console.log(q)']);
+    assert.deepStrictEqual(matchedText('a === a.b;', '$A === $A'), []);
+    assert.deepStrictEqual(findStructuralMatches('typeof a.b;', 'typeof $X').map((m) => m.bindings), [{ X: 'a.b' }]);
+  });
+
+  test('a trailing metavariable continues onto following lines', () => {
+    const source = 'const result = fetch(url)\n  .then(parse)\nlog(result)';
+    const matches = findStructuralMatches(source, 'const result = $VALUE');
+    assert.deepStrictEqual(matches.map((m) => m.bindings.VALUE), ['fetch(url)\n  .then(parse)']);
+  });
+
+  test('strings match by content regardless of quotes', () => {
+    assert.deepStrictEqual(matchedText("require('fs'); require(\"fs\"); require(`fs`);", "require('fs')"), [
+      "require('fs')",
+      'require("fs")',
+    ]);
+  });
+
+  test('does not match inside strings, comments or regex literals', () => {
+    const source = '// console.log(a)\nconst s = "console.log(a)";\nconst r = /console.log\\(a\\)/;';
+    assert.deepStrictEqual(matchedText(source, 'console.log($A)'), []);
+  });
+
+  test('validates patterns and picks the longest literal as anchor', () => {
+    assert.strictEqual(validateStructuralPattern('$A').isValid, false);
+    assert.strictEqual(validateStructuralPattern('$A + $B').isValid, false);
+    assert.strictEqual(validateStructuralPattern('console.log($A)').isValid, true);
+    assert.strictEqual(getStructuralAnchor("import $X from 'react-dom'"), 'react-dom');
+  });
+
+  test('reports matches as results on the line they start', () => {
+    const content = 'function f() {\n  console.log(a); console.log(\n    b);\n}';
+    const results = searchStructuralInContent(content, 'console.log($A)', '/test/file.ts', 100, 'file.ts');
+    assert.strictEqual(results.length, 1);
+    assert.strictEqual(results[0].line, 1);
+    assert.deepStrictEqual(results[0].matchRanges, [{ start: 2, end: 16 }, { start: 18, end: 37 }]);
+    assert.deepStrictEqual(results[0].previewMatchRanges, [{ start: 0, end: 14 }, { start: 16, end: 28 }]);
+    assert.strictEqual(results[0].preview, 'console.log(a); console.log(');
+  });
+
+  test('rematches at an offset and expands replacement templates', () => {
+    const source = 'foo(1);\nfoo(bar, baz);';
+    const match = matchStructuralAt(source, 8, 'foo($$$ARGS)');
+    assert.ok(match);
+    assert.strictEqual(source.slice(match.start, match.end), 'foo(bar, baz)');
+    assert.strictEqual(expandStructuralReplacement('qux($$$ARGS, $OTHER)', match.bindings), 'qux(bar, baz, $OTHER)');
+    assert.strictEqual(matchStructuralAt(source, 9, 'foo($$$ARGS)'), undefined);
+  });
+});
@@ -55,9 +55,11 @@ jest.mock('../../projectDetector', () => ({
 // Mock lspSearch
 jest.mock('../../lspSearch', () => ({
   getSymbolAtCursor: jest.fn(),
+  resolveLspSymbol: jest.fn(),
   executeLspSearch: jest.fn(),
   checkLspAvailability: jest.fn(),
   lspReplaceAll: jest.fn(),
+  mergeReferenceResults: jest.fn((references: unknown[], results: unknown[]) => [...references, ...results]),
 }));
 
 // Mock replacer
@@ -69,6 +71,8 @@ jest.mock('../../replacer', () => ({
 import { MessageHandler } from '../../messaging/handler';
 import { registerCommonHandlers } from '../../messaging/registerCommonHandlers';
 import { performSearch } from '../../search';
+import { replaceAll } from '../../replacer';
+import { checkLspAvailability, executeLspSearch, resolveLspSymbol } from '../../lspSearch';
 
 const performSearchMock = performSearch as jest.MockedFunction<typeof performSearch>;
 
@@ -269,6 +273,82 @@ describe('search_completed telemetry integration', () => {
       );
       expect(searchCompletedCalls).toHaveLength(1);
     });
+
+    it('should search the query with its operators applied', async () => {
+      await handler.handle({
+        type: 'runSearch',
+        query: 'fetch lang:py scope:changed',
+        scope: 'project',
+        options: { matchCase: false, wholeWord: false, useRegex: false, multiline: false, fileMask: '' },
+      });
+
+      expect(performSearchMock).toHaveBeenCalledTimes(1);
+      const [query, scope, options] = performSearchMock.mock.calls[0];
+      expect(query).toBe('fetch');
+      expect(scope).toBe('changedFiles');
+      expect(options.fileMask).toBe('*.py, *.pyi');
+    });
+
+    it('should report operators it cannot use instead of searching', async () => {
+      await handler.handle({
+        type: 'runSearch',
+        query: 'fetch case:maybe',
+        scope: 'project',
+        requestId: 's-1',
+        options: { matchCase: false, wholeWord: false, useRegex: false, multiline: false, fileMask: '' },
+      });
+
+      expect(performSearchMock).not.toHaveBeenCalled();
+      expect(postMessage).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'searchResults',
+        requestId: 's-1',
+        results: [],
+        queryError: 'case:maybe: use case:yes or case:no',
+      }));
+      expect(mockLogUsage).not.toHaveBeenCalledWith('search_completed', expect.anything());
+    });
+  });
+
+  describe('refresh after replace', () => {
+    it('should search the query with its operators applied, in the webview session', async () => {
+      (replaceAll as jest.Mock).mockImplementationOnce(async (...args: unknown[]) => {
+        await (args[6] as () => Promise<void>)();
+        return undefined;
+      });
+      await handler.handle({
+        type: 'replaceAll',
+        query: 'foo lang:ts',
+        replaceText: 'bar',
+        scope: 'project',
+        options: { matchCase: false, wholeWord: false, useRegex: false, multiline: false, fileMask: '' },
+      });
+
+      expect(performSearchMock).toHaveBeenCalledTimes(1);
+      const call = performSearchMock.mock.calls[0];
+      expect(call[0]).toBe('foo');
+      expect(call[2].fileMask).toBe('*.ts, *.tsx, *.mts, *.cts');
+      expect(call[10]).toMatch(/^webview-\d+$/);
+    });
+  });
+
+  describe('references with text matches', () => {
+    it('should search the text matches in the webview session', async () => {
+      (resolveLspSymbol as jest.Mock).mockResolvedValueOnce({
+        uri: 'file:///a.ts',
+        position: { line: 0, character: 0 },
+        symbolName: 'fetchUser',
+        languageId: 'typescript',
+      });
+      (checkLspAvailability as jest.Mock).mockResolvedValueOnce(true);
+      (executeLspSearch as jest.Mock).mockResolvedValueOnce([]);
+
+      await handler.handle({ type: 'lspSearch', lspMode: 'referencesAndText', query: 'fetchUser' });
+
+      expect(performSearchMock).toHaveBeenCalledTimes(1);
+      const call = performSearchMock.mock.calls[0];
+      expect(call[0]).toBe('fetchUser');
+      expect(call[10]).toMatch(/^webview-\d+$/);
+    });
   });
 
   describe('other telemetry events via registerCommonHandlers', () => {
@@ -1,10 +1,12 @@
 import * as vscode from 'vscode';
 import {
   buildSearchRegex,
+  expandReplacement,
   matchesFileMask,
   shouldExcludeDirectory,
   isBinaryExtension,
   searchInContent,
+  formatResultDetail,
   escapeHtml,
   escapeAttr,
   collectFiles,
@@ -95,6 +97,59 @@ describe('buildSearchRegex', () => {
   });
 });
 
+describe('expandReplacement', () => {
+  const execAt = (pattern: RegExp, subject: string): RegExpExecArray => {
+    const match = pattern.exec(subject);
+    if (!match) throw new Error('expected a match');
+    return match;
+  };
+
+  test('should expand numbered capture groups', () => {
+    const match = execAt(/(\w+)\.(\w+)/, 'call foo.bar()');
+    expect(expandReplacement('$2.$1', match, 'call foo.bar()')).toBe('bar.foo');
+  });
+
+  test('should expand named capture groups', () => {
+    const match = execAt(/(?<obj>\w+)\.(?<prop>\w+)/, 'foo.bar');
+    expect(expandReplacement('$<prop>_$<obj>', match, 'foo.bar')).toBe('bar_foo');
+  });
+
+  test('should expand whole match, prefix and suffix tokens', () => {
+    const subject = 'a-b-c';
+    const match = execAt(/b/, subject);
+    expect(expandReplacement('[$&]', match, subject)).toBe('[b]');
+    expect(expandReplacement('$`', match, subject)).toBe('a-');
+    expect(expandReplacement("$'", match, subject)).toBe('-c');
+  });
+
+  test('should treat $$ as a literal dollar sign', () => {
+    const match = execAt(/(x)/, 'x');
+    expect(expandReplacement('$$1', match, 'x')).toBe('$1');
+  });
+
+  test('should leave references to missing groups untouched', () => {
+    const match = execAt(/(x)/, 'x');
+    expect(expandReplacement('$2', match, 'x')).toBe('$2');
+    expect(expandReplacement('$<name>', match, 'x')).toBe('$<name>');
+  });
+
+  test('should fall back to a single digit when the two-digit group does not exist', () => {
+    const match = execAt(/(x)/, 'x');
+    expect(expandReplacement('$10', match, 'x')).toBe('x0');
+  });
+
+  test('should match String.prototype.replace output', () => {
+    const pattern = /(\d+)-(?<word>[a-z]+)/;
+    const subject = 'id 42-abc end';
+    const template = '<$2|$1|$<word>|$&|$$>';
+    const match = execAt(pattern, subject);
+    const expanded = subject.slice(0, match.index)
+      + expandReplacement(template, match, subject)
+      + subject.slice(match.index + match[0].length);
+    expect(expanded).toBe(subject.replace(pattern, template));
+  });
+});
+
 describe('matchesFileMask', () => {
   test('should match all files when mask is empty', () => {
     expect(matchesFileMask('test.ts', '')).toBe(true);
@@ -166,6 +221,14 @@ describe('matchesFileMask', () => {
     expect(matchesFileMask('types.d.ts', '*.ts, !*.d.ts')).toBe(false);
     expect(matchesFileMask('index.ts', '*.ts, !*.d.ts')).toBe(true);
   });
+
+  test('should match patterns with a slash against the whole path', () => {
+    expect(matchesFileMask('/repo/src/api/users.ts', '**/src/api/**')).toBe(true);
+    expect(matchesFileMask('C:\\repo\\src\\api\\users.ts', '**/src/api/**')).toBe(true);
+    expect(matchesFileMask('/repo/src/ui/users.ts', '**/src/api/**')).toBe(false);
+    expect(matchesFileMask('/repo/src/api/users.test.ts', '*.ts, !**/src/api/**')).toBe(false);
+    expect(matchesFileMask('/repo/src/api/users.ts', '*.ts')).toBe(true);
+  });
 });
 
 describe('shouldExcludeDirectory', () => {
@@ -282,6 +345,39 @@ describe('searchInContent', () => {
     
     expect(results).toHaveLength(0);
   });
+
+  test('should collect context lines that stop at neighbouring matches', () => {
+    const content = 'a\nb\ntest one\nc\ntest two\nd\ne\nf';
+    const regex = /test/gi;
+    const results = searchInContent(content, regex, '/path/to/file.ts', 5000, undefined, 2);
+
+    expect(results).toHaveLength(2);
+    expect(results[0].contextBefore).toEqual(['a', 'b']);
+    expect(results[0].contextAfter).toEqual(['c']);
+    expect(results[1].contextBefore).toEqual(['c']);
+    expect(results[1].contextAfter).toEqual(['d', 'e']);
+  });
+
+  test('should not add context fields when context is off', () => {
+    const results = searchInContent('a\ntest\nb', /test/gi, '/path/to/file.ts');
+
+    expect(results[0].contextBefore).toBeUndefined();
+    expect(results[0].contextAfter).toBeUndefined();
+  });
+});
+
+describe('formatResultDetail', () => {
+  test('joins context lines and the match on one line', () => {
+    const [result] = searchInContent('  a\n  test\n\n  b', /test/gi, '/path/to/file.ts', 5000, undefined, 2);
+
+    expect(formatResultDetail(result)).toBe('a ↵ test ↵ b');
+  });
+
+  test('returns the preview unchanged without context', () => {
+    const [result] = searchInContent('  a\n  test', /test/gi, '/path/to/file.ts');
+
+    expect(formatResultDetail(result)).toBe('test');
+  });
 });
 
 describe('escapeHtml', () => {
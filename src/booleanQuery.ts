@@ -0,0 +1,143 @@
+import type { SearchOptions, SearchResult } from './utils';
+
+/**
+ * A query of terms joined by `AND` / `NOT`, matched per file: a file qualifies when it
+ * contains every positive term and none of the negative ones.
+ */
+export interface BooleanQuery {
+  positive: string[];
+  negative: string[];
+}
+
+// Quoted strings, runs of non-space characters, and the whitespace between them
+const TOKEN_PATTERN = /"(?:[^"\\]|\\.)*"|[^\s"]+|"|\s+/g;
+
+function toTerm(text: string): string {
+  const trimmed = text.trim();
+  const quoted = /^"((?:[^"\\]|\\.)*)"$/.exec(trimmed);
+  return quoted ? quoted[1].replace(/\\(["\\])/g, '$1') : trimmed;
+}
+
+/**
+ * Parse `FeatureFlag AND legacyCheckout NOT @deprecated`. Operators are the uppercase words
+ * `AND` and `NOT` standing on their own; `AND NOT` reads as `NOT`. A term is everything
+ * between two operators, and a term in double quotes is taken literally, operators
+ * included. Returns undefined for a query without operators, so it is searched as before.
+ * Operators with nothing after them (while the query is still being typed) are ignored.
+ */
+export function parseBooleanQuery(query: string): BooleanQuery | undefined {
+  if (query.includes('\n')) {
+    return undefined;
+  }
+  const tokens = query.match(TOKEN_PATTERN) || [];
+  const positive: string[] = [];
+  const negative: string[] = [];
+  let current = '';
+  let negated = false;
+  let sawOperator = false;
+
+  const flush = (): void => {
+    const term = toTerm(current);
+    if (term) {
+      (negated ? negative : positive).push(term);
+    }
+    current = '';
+  };
+
+  for (const token of tokens) {
+    if (token === 'AND' || token === 'NOT') {
+      sawOperator = true;
+      flush();
+      negated = token === 'NOT';
+    } else {
+      current += token;
+    }
+  }
+  flush();
+
+  return sawOperator ? { positive, negative } : undefined;
+}
+
+/**
+ * The boolean query of a text search, or undefined when the query is a single pattern.
+ * Symbol, file name, structural and multiline searches take their query as is.
+ */
+export function getBooleanQuery(query: string, options: SearchOptions): BooleanQuery | undefined {
+  if (options.symbols || options.fileNames || options.structural || options.multiline) {
+    return undefined;
+  }
+  return parseBooleanQuery(query);
+}
+
+function lineKey(result: SearchResult): string {
+  return `${result.uri}:${result.line}`;
+}
+
+/** Two hits on the same line become one result, when their previews line up */
+function mergeLineHits(a: SearchResult, b: SearchResult): SearchResult | undefined {
+  if (a.preview !== b.preview) {
+    return undefined;
+  }
+  const byStart = (x: { start: number }, y: { start: number }) => x.start - y.start;
+  const previewRanges = [...(a.previewMatchRanges || [a.previewMatchRange]), ...(b.previewMatchRanges || [b.previewMatchRange])]
+    .sort(byStart);
+  const matchRanges = [
+    ...(a.matchRanges || [{ start: a.character, end: a.character + a.length }]),
+    ...(b.matchRanges || [{ start: b.character, end: b.character + b.length }]),
+  ].sort(byStart);
+  const first = b.character < a.character ? b : a;
+  return {
+    ...first,
+    matchCount: (a.matchCount ?? 1) + (b.matchCount ?? 1),
+    previewMatchRange: previewRanges[0],
+    previewMatchRanges: previewRanges,
+    matchRanges,
+  };
+}
+
+/**
+ * Combine the results of each term: keep the files that every positive term hit and no
+ * negative term hit, with the hits of all positive terms in them. Hits on the same line
+ * are merged; results are ordered by file, then position.
+ */
+export function combineBooleanResults(
+  positive: SearchResult[][],
+  negative: SearchResult[][],
+  maxResults: number
+): SearchResult[] {
+  if (positive.length === 0) {
+    return [];
+  }
+  const fileSets = positive.map((results) => new Set(results.map((r) => r.uri)));
+  const excluded = new Set(negative.flat().map((r) => r.uri));
+  const qualifies = (uri: string): boolean => !excluded.has(uri) && fileSets.every((files) => files.has(uri));
+
+  const byLine = new Map<string, SearchResult[]>();
+  for (const result of positive.flat()) {
+    if (!qualifies(result.uri)) continue;
+    const key = lineKey(result);
+    const hits = byLine.get(key);
+    if (!hits) {
+      byLine.set(key, [result]);
+      continue;
+    }
+    // Terms can overlap; the same hit found twice is kept once
+    if (hits.some((h) => h.character === result.character && h.length === result.length)) continue;
+    const merged = mergeLineHits(hits[0], result);
+    if (merged) {
+      hits[0] = merged;
+    } else {
+      hits.push(result);
+    }
+  }
+
+  return [...byLine.values()]
+    .flat()
+    .sort((a, b) =>
+      (a.relativePath || a.uri).localeCompare(b.relativePath || b.uri) ||
+      a.uri.localeCompare(b.uri) ||
+      a.line - b.line ||
+      a.character - b.character
+    )
+    .slice(0, maxResults);
+}
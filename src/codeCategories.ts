@@ -0,0 +1,503 @@
+import { CodeCategory } from './utils';
+
+type Range = { start: number; end: number };
+
+/** Comment and string ranges of a line, as found by the code-context parser */
+export type LexedLine = {
+  commentRanges: Range[];
+  stringRanges: Range[];
+};
+
+export type LineCategoryRanges = Record<CodeCategory, Range[]>;
+
+type ImportStatement = {
+  /** Line that starts an import statement */
+  start: RegExp;
+  /** Start line whose statement continues on the following lines */
+  opensBlock?: RegExp;
+  /** Line that ends a continued statement */
+  end?: RegExp;
+};
+
+type TypeRules = {
+  /** `name: Type` annotations */
+  colonAnnotations?: boolean;
+  /** `-> Type` return annotations */
+  arrowReturns?: boolean;
+  /** `cond ? a : b` is an expression, so its colon is not an annotation */
+  ternaries?: boolean;
+  /** Keywords followed by a type, such as `extends` or `as` */
+  typeKeywords: string[];
+  /** `Type name` declarations (Java, C#) or `name Type` (Go) */
+  declarationPairs?: 'typeFirst' | 'typeLast';
+};
+
+type CategoryState = {
+  inImport: boolean;
+  importEnd?: RegExp;
+  /** Open brackets; `object` frames hold `key: value` pairs rather than annotations */
+  frames: Array<{ kind: 'object' | 'other'; ternaries: number }>;
+  /** JSX nesting: elements hold text; expressions, attribute values and braces hold code */
+  jsx: Array<'element' | 'expression' | 'attribute' | 'brace'>;
+  inJsxTag: boolean;
+  jsxClosingTag: boolean;
+};
+
+const JS_IMPORTS: ImportStatement = {
+  start: /^\s*(?:import\b(?!\s*\()|export\b[^=]*\bfrom\s*['"])/,
+  opensBlock: /\{[^}]*$/,
+  end: /\}/
+};
+
+const IMPORT_STATEMENTS: Record<string, ImportStatement> = {
+  javascript: JS_IMPORTS,
+  javascriptreact: JS_IMPORTS,
+  typescript: JS_IMPORTS,
+  typescriptreact: JS_IMPORTS,
+  python: { start: /^\s*(?:import|from)\s+[\w.]/, opensBlock: /\([^)]*$/, end: /\)/ },
+  java: { start: /^\s*import\s/ },
+  kotlin: { start: /^\s*import\s/ },
+  go: { start: /^\s*import\b/, opensBlock: /\(\s*$/, end: /^\s*\)/ },
+  rust: { start: /^\s*(?:pub(?:\([^)]*\))?\s+)?use\s/, opensBlock: /^[^;]*$/, end: /;/ },
+  csharp: { start: /^\s*(?:global\s+)?using\s+(?:static\s+)?[\w.]+\s*(?:=\s*[^;(]+)?;/ },
+  ruby: { start: /^\s*(?:require|require_relative|load)\b/ }
+};
+
+/** `require('x')` and `import('x')` calls, which can appear anywhere in JavaScript */
+const INLINE_IMPORT_PATTERN = /\b(?:require|import)\s*\(\s*(['"`])[^'"`]*\1\s*\)/g;
+
+const TS_TYPE_RULES: TypeRules = {
+  colonAnnotations: true,
+  ternaries: true,
+  typeKeywords: ['extends', 'implements', 'satisfies', 'as', 'is', 'keyof', 'instanceof', 'new']
+};
+
+const TYPE_RULES: Record<string, TypeRules> = {
+  typescript: TS_TYPE_RULES,
+  typescriptreact: TS_TYPE_RULES,
+  python: { colonAnnotations: true, arrowReturns: true, typeKeywords: [] },
+  kotlin: { colonAnnotations: true, typeKeywords: ['is', 'as'] },
+  rust: { colonAnnotations: true, arrowReturns: true, typeKeywords: ['impl', 'dyn', 'as', 'for'] },
+  java: { typeKeywords: ['extends', 'implements', 'instanceof', 'new', 'throws'], declarationPairs: 'typeFirst' },
+  csharp: { typeKeywords: ['is', 'as', 'new'], declarationPairs: 'typeFirst' },
+  go: { typeKeywords: [], declarationPairs: 'typeLast' }
+};
+
+const JSX_LANGUAGES = new Set(['javascript', 'javascriptreact', 'typescriptreact']);
+
+const DECLARATION_PATTERN = /\b(?:class|interface|type|enum|struct|trait|record|object)\s+([A-Za-z_$][\w$]*)/g;
+
+/** Reserved words across the supported languages; never counted as identifiers or types */
+const KEYWORDS = new Set([
+  'abstract', 'and', 'as', 'assert', 'async', 'await', 'begin', 'break', 'case', 'catch', 'chan', 'class',
+  'const', 'continue', 'crate', 'def', 'default', 'defer', 'del', 'do', 'dyn', 'elif', 'else', 'elsif',
+  'end', 'ensure', 'enum', 'except', 'export', 'extends', 'false', 'fallthrough', 'final', 'finally',
+  'fn', 'for', 'from', 'fun', 'func', 'function', 'global', 'go', 'goto', 'if', 'impl', 'implements',
+  'import', 'in', 'instanceof', 'interface', 'internal', 'is', 'lambda', 'let', 'loop', 'mod', 'module',
+  'mut', 'namespace', 'new', 'nil', 'None', 'nonlocal', 'not', 'null', 'or', 'override', 'package',
+  'pass', 'private', 'protected', 'pub', 'public', 'raise', 'range', 'readonly', 'rescue', 'return',
+  'sealed', 'select', 'static', 'struct', 'super', 'switch', 'then', 'this', 'throw', 'throws', 'trait',
+  'True', 'False', 'true', 'try', 'typeof', 'undefined', 'unless', 'until', 'use', 'using', 'val', 'var',
+  'virtual', 'void', 'when', 'where', 'while', 'with', 'yield'
+]);
+
+const SQL_KEYWORDS = new Set([
+  'select', 'from', 'where', 'and', 'or', 'not', 'null', 'is', 'in', 'as', 'on', 'join', 'left', 'right',
+  'inner', 'outer', 'full', 'cross', 'group', 'by', 'order', 'having', 'limit', 'offset', 'insert',
+  'into', 'values', 'update', 'set', 'delete', 'create', 'alter', 'drop', 'table', 'index', 'view',
+  'primary', 'key', 'foreign', 'references', 'distinct', 'union', 'all', 'case', 'when', 'then', 'else',
+  'end', 'exists', 'between', 'like', 'asc', 'desc', 'with', 'default', 'constraint', 'unique'
+]);
+
+/** Words that can sit between parts of one type, like `keyof T` or `dyn Trait` */
+const TYPE_OPERATOR_WORDS = new Set(['keyof', 'typeof', 'readonly', 'infer', 'unique', 'dyn', 'impl', 'mut', 'const', 'extends']);
+
+/**
+ * Ranges of each code category on every line. This is a line-based heuristic in the spirit
+ * of the comment/string parser: it recognizes the common shapes of imports, type positions
+ * and JSX text rather than parsing the language.
+ */
+export function classifyCodeCategories(lines: string[], languageId: string, lexed: LexedLine[]): LineCategoryRanges[] {
+  const state: CategoryState = {
+    inImport: false,
+    frames: [{ kind: 'other', ternaries: 0 }],
+    jsx: [],
+    inJsxTag: false,
+    jsxClosingTag: false
+  };
+
+  return lines.map((line, index) => {
+    const context = lexed[index] || { commentRanges: [], stringRanges: [] };
+    const masked = maskLine(line, [...context.commentRanges, ...context.stringRanges]);
+    const jsxText = JSX_LANGUAGES.has(languageId) ? findJsxText(line, state) : [];
+    const imports = findImports(line, masked, languageId, state);
+    const types = imports.length > 0 ? [] : findTypePositions(masked, languageId, state);
+    const identifiers = findIdentifiers(masked, languageId).filter((range) => !overlapsAny(range, jsxText));
+    return { identifiers, imports, types, jsxText };
+  });
+}
+
+/** Whether a match starting at `pos` lies in one of the given categories */
+export function isInCategories(pos: number, ranges: LineCategoryRanges, categories: CodeCategory[]): boolean {
+  return categories.some((category) => ranges[category].some((range) => pos >= range.start && pos < range.end));
+}
+
+function maskLine(line: string, ranges: Range[]): string {
+  if (ranges.length === 0) {
+    return line;
+  }
+  const chars = line.split('');
+  for (const range of ranges) {
+    for (let i = range.start; i < Math.min(range.end, chars.length); i += 1) {
+      chars[i] = ' ';
+    }
+  }
+  return chars.join('');
+}
+
+function overlapsAny(range: Range, ranges: Range[]): boolean {
+  return ranges.some((other) => range.start < other.end && other.start < range.end);
+}
+
+function isKeyword(word: string, languageId: string): boolean {
+  return languageId === 'sql' ? SQL_KEYWORDS.has(word.toLowerCase()) : KEYWORDS.has(word);
+}
+
+function findIdentifiers(masked: string, languageId: string): Range[] {
+  const ranges: Range[] = [];
+  const pattern = /[A-Za-z_$][\w$]*/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(masked)) !== null) {
+    if (!isKeyword(match[0], languageId)) {
+      ranges.push({ start: match.index, end: match.index + match[0].length });
+    }
+  }
+  return ranges;
+}
+
+function findImports(line: string, masked: string, languageId: string, state: CategoryState): Range[] {
+  const statement = IMPORT_STATEMENTS[languageId];
+  const ranges: Range[] = [];
+  const wholeLine = (): Range => ({ start: line.length - line.trimStart().length, end: line.length });
+
+  if (state.inImport) {
+    ranges.push(wholeLine());
+    if (!state.importEnd || state.importEnd.test(masked)) {
+      state.inImport = false;
+    }
+  } else if (statement && statement.start.test(line)) {
+    ranges.push(wholeLine());
+    if (statement.opensBlock && statement.end && statement.opensBlock.test(masked)) {
+      state.inImport = true;
+      state.importEnd = statement.end;
+    }
+  } else if (IMPORT_STATEMENTS[languageId] === JS_IMPORTS) {
+    INLINE_IMPORT_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = INLINE_IMPORT_PATTERN.exec(line)) !== null) {
+      // The call itself has to be code; the specifier inside it is a string
+      if (masked[match.index] !== ' ') {
+        ranges.push({ start: match.index, end: match.index + match[0].length });
+      }
+    }
+  }
+
+  return ranges;
+}
+
+function findTypePositions(masked: string, languageId: string, state: CategoryState): Range[] {
+  const rules = TYPE_RULES[languageId];
+  const ranges: Range[] = [];
+
+  DECLARATION_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = DECLARATION_PATTERN.exec(masked)) !== null) {
+    const nameStart = match.index + match[0].length - match[1].length;
+    ranges.push({ start: nameStart, end: nameStart + match[1].length });
+    // C# base lists follow the declared name: class Foo : Bar, IBaz
+    const baseList = languageId === 'csharp' ? /^\s*(?:<[^>]*>)?\s*:/.exec(masked.slice(nameStart + match[1].length)) : null;
+    if (baseList) {
+      const from = nameStart + match[1].length + baseList[0].length;
+      ranges.push({ start: from, end: consumeType(masked, from, true) });
+    }
+  }
+
+  if (!rules) {
+    return ranges;
+  }
+
+  if (rules.typeKeywords.length > 0) {
+    const keywordPattern = new RegExp(`\\b(?:${rules.typeKeywords.join('|')})\\s+`, 'g');
+    while ((match = keywordPattern.exec(masked)) !== null) {
+      const from = match.index + match[0].length;
+      const end = consumeType(masked, from, /\b(?:extends|implements|throws)\s+$/.test(match[0]));
+      if (end > from) {
+        ranges.push({ start: from, end });
+      }
+    }
+  }
+
+  if (rules.arrowReturns) {
+    const arrowPattern = /->\s*/g;
+    while ((match = arrowPattern.exec(masked)) !== null) {
+      const from = match.index + match[0].length;
+      ranges.push({ start: from, end: consumeType(masked, from, false) });
+    }
+  }
+
+  if (rules.declarationPairs) {
+    ranges.push(...findDeclarationPairs(masked, rules.declarationPairs, languageId));
+  }
+
+  // Generic arguments: Foo<Bar, Baz>
+  const genericPattern = /[\w$]<([\w$.,\s<>[\]|&?]*)>/g;
+  while ((match = genericPattern.exec(masked)) !== null) {
+    const from = match.index + 2;
+    ranges.push({ start: from, end: from + match[1].length });
+  }
+
+  if (rules.colonAnnotations) {
+    ranges.push(...findColonAnnotations(masked, languageId, rules, state));
+  }
+
+  return ranges.filter((range) => range.end > range.start);
+}
+
+/**
+ * Walk the line tracking brackets so `key: value` pairs in object literals and the `:`
+ * of a ternary are not taken for type annotations.
+ */
+function findColonAnnotations(masked: string, languageId: string, rules: TypeRules, state: CategoryState): Range[] {
+  const ranges: Range[] = [];
+  const frames = state.frames;
+  const current = () => frames[frames.length - 1];
+
+  for (let i = 0; i < masked.length; i += 1) {
+    const ch = masked[i];
+    if (ch === '{' || ch === '(' || ch === '[') {
+      const kind = ch === '{'
+        ? (isObjectBrace(masked, i, languageId, current().kind) ? 'object' : 'other')
+        // Python brackets hold slices and subscripts, never annotations
+        : (ch === '[' && languageId === 'python' ? 'object' : 'other');
+      frames.push({ kind, ternaries: 0 });
+      continue;
+    }
+    if (ch === '}' || ch === ')' || ch === ']') {
+      if (frames.length > 1) frames.pop();
+      continue;
+    }
+    if (ch === '?' && rules.ternaries && !/[?.:]/.test(masked[i + 1] || '') && masked[i - 1] !== '?') {
+      current().ternaries += 1;
+      continue;
+    }
+    if (ch !== ':') {
+      continue;
+    }
+    if (masked[i + 1] === ':' || masked[i - 1] === ':') {
+      i += masked[i + 1] === ':' ? 1 : 0;
+      continue;
+    }
+    const frame = current();
+    if (frame.ternaries > 0) {
+      frame.ternaries -= 1;
+      continue;
+    }
+    if (frame.kind === 'object') {
+      continue;
+    }
+    const before = masked.slice(0, i).trimEnd();
+    const previousWord = /([A-Za-z_$][\w$]*)$/.exec(before)?.[1];
+    const annotates = previousWord
+      ? !isKeyword(previousWord, languageId)
+      : /[)?\]]$/.test(before);
+    if (!annotates || (languageId === 'python' && /\blambda\b/.test(before))) {
+      continue;
+    }
+    const end = consumeType(masked, i + 1, false);
+    if (end > i + 1) {
+      ranges.push({ start: i + 1, end });
+      i = end - 1;
+    }
+  }
+
+  return ranges;
+}
+
+function isObjectBrace(masked: string, index: number, languageId: string, enclosing: 'object' | 'other'): boolean {
+  if (languageId === 'python') {
+    return true;
+  }
+  const before = masked.slice(0, index).trimEnd();
+  if (languageId === 'rust') {
+    // Struct literals: Point { x: 1 }, but not fn/impl/struct bodies or control flow
+    return /\b[A-Z][\w]*$/.test(before) && !/\b(?:fn|impl|struct|enum|trait|union|if|while|match|for)\b|->/.test(before);
+  }
+  if (languageId !== 'typescript' && languageId !== 'typescriptreact' && languageId !== 'javascript' && languageId !== 'javascriptreact') {
+    return false;
+  }
+  if (/:$/.test(before)) {
+    // A value inside an object literal, otherwise an object type after an annotation
+    return enclosing === 'object';
+  }
+  if (/=$/.test(before)) {
+    return !/\btype\s+[\w$]+(?:<.*>)?\s*=$/.test(before);
+  }
+  return /(?:[(,[?|&]|\breturn|\byield)$/.test(before);
+}
+
+function findDeclarationPairs(masked: string, order: 'typeFirst' | 'typeLast', languageId: string): Range[] {
+  const ranges: Range[] = [];
+  const pattern = order === 'typeFirst'
+    ? /([A-Za-z_$][\w$.]*(?:<[^;=(){}]*>)?(?:\[\])*)\s+([A-Za-z_$][\w$]*)\s*(?=[=;,):(]|$)/g
+    : /\b([A-Za-z_]\w*)\s+(\*?(?:\[\])?\*?[A-Za-z_][\w.]*)\s*(?=[,)=;{]|$)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(masked)) !== null) {
+    const [, first, second] = match;
+    const firstWord = first.replace(/[<[].*$/, '');
+    if (isKeyword(firstWord, languageId) || isKeyword(second.replace(/^[*[\]]+/, ''), languageId)) {
+      // Let the next word start a pair: `return x` is not a declaration, but `final Foo x` is
+      pattern.lastIndex = match.index + first.length;
+      continue;
+    }
+    const typeText = order === 'typeFirst' ? first : second;
+    const typeStart = order === 'typeFirst' ? match.index : match.index + match[0].indexOf(second, first.length);
+    ranges.push({ start: typeStart, end: typeStart + typeText.length });
+  }
+  return ranges;
+}
+
+/**
+ * End of the type expression starting at `from`. Stops at the first `=`, `;`, `{` or closing
+ * bracket outside the type, and at a comma unless `commas` is set (base lists, `implements A, B`).
+ */
+function consumeType(masked: string, from: number, commas: boolean): number {
+  let depth = 0;
+  let end = from;
+  let lastWord = '';
+  let sawSpaceAfterWord = false;
+
+  for (let i = from; i < masked.length; i += 1) {
+    const ch = masked[i];
+    if (depth === 0) {
+      if (ch === ';' || ch === '{' || ch === ')' || ch === ']' || ch === '}' || (ch === ',' && !commas)) break;
+      if (ch === '=' && masked[i + 1] !== '>') break;
+      if (ch === ':' && masked[i + 1] !== ':' && masked[i - 1] !== ':') break;
+    }
+    if (ch === '<' || ch === '(' || ch === '[') {
+      depth += 1;
+    } else if ((ch === '>' && masked[i - 1] !== '=' && masked[i - 1] !== '-') || ch === ')' || ch === ']') {
+      depth = Math.max(0, depth - 1);
+    }
+
+    if (/[\w$]/.test(ch)) {
+      // Two words in a row end the type (`x: Foo bar`), except for operators like `keyof T`
+      if (depth === 0 && sawSpaceAfterWord && lastWord && !TYPE_OPERATOR_WORDS.has(lastWord)) break;
+      const word = /^[\w$]+/.exec(masked.slice(i))![0];
+      lastWord = word;
+      sawSpaceAfterWord = false;
+      i += word.length - 1;
+      end = i + 1;
+      continue;
+    }
+    if (ch === ' ' || ch === '\t') {
+      if (lastWord) sawSpaceAfterWord = true;
+      continue;
+    }
+    if (!/[.<>()[\]|&?*,:'"=-]/.test(ch) && depth === 0) break;
+    lastWord = '';
+    sawSpaceAfterWord = false;
+    end = i + 1;
+  }
+
+  return end;
+}
+
+/**
+ * Text between JSX tags. Tracks element and expression nesting across lines; quotes in
+ * text are plain characters, so this reads the raw line rather than the masked one.
+ */
+function findJsxText(line: string, state: CategoryState): Range[] {
+  const ranges: Range[] = [];
+  const jsx = state.jsx;
+  let textStart = -1;
+  const closeText = (end: number) => {
+    if (textStart !== -1 && line.slice(textStart, end).trim()) {
+      ranges.push({ start: textStart, end });
+    }
+    textStart = -1;
+  };
+
+  for (let i = 0; i < line.length; i += 1) {
+    const ch = line[i];
+    const top = jsx[jsx.length - 1];
+
+    if (state.inJsxTag) {
+      if (ch === '"' || ch === "'") {
+        const close = line.indexOf(ch, i + 1);
+        i = close === -1 ? line.length : close;
+      } else if (ch === '{') {
+        jsx.push('attribute');
+        state.inJsxTag = false;
+      } else if (ch === '/' && line[i + 1] === '>') {
+        state.inJsxTag = false;
+        i += 1;
+        // A self-closing tag opened nothing; the element pushed for it is dropped
+        jsx.pop();
+      } else if (ch === '>') {
+        state.inJsxTag = false;
+        if (state.jsxClosingTag) {
+          jsx.pop();
+        }
+      }
+      continue;
+    }
+
+    if (top === 'element') {
+      if (ch === '<') {
+        closeText(i);
+        state.inJsxTag = true;
+        state.jsxClosingTag = line[i + 1] === '/';
+        if (!state.jsxClosingTag) jsx.push('element');
+        if (line[i + 1] === '>') {
+          // Fragment: <>
+          state.inJsxTag = false;
+          i += 1;
+        }
+      } else if (ch === '{') {
+        closeText(i);
+        jsx.push('expression');
+      } else if (textStart === -1) {
+        textStart = i;
+      }
+      continue;
+    }
+
+    // Code, at the top level or inside a {...} expression
+    if (ch === '"' || ch === "'" || ch === '`') {
+      const close = line.indexOf(ch, i + 1);
+      i = close === -1 ? line.length : close;
+    } else if (ch === '/' && line[i + 1] === '/') {
+      break;
+    } else if (ch === '{' && jsx.length > 0) {
+      jsx.push('brace');
+    } else if (ch === '}' && top) {
+      jsx.pop();
+      // The end of an attribute value returns to the rest of the tag
+      state.inJsxTag = top === 'attribute';
+    } else if (ch === '<' && /[A-Za-z>]/.test(line[i + 1] || '') && startsJsx(line, i)) {
+      jsx.push('element');
+      state.inJsxTag = line[i + 1] !== '>';
+      state.jsxClosingTag = false;
+      i += line[i + 1] === '>' ? 1 : 0;
+    }
+  }
+
+  closeText(line.length);
+  return ranges;
+}
+
+function startsJsx(line: string, index: number): boolean {
+  const before = line.slice(0, index).trimEnd();
+  // `a < b` and `foo<T>()` compare or instantiate; JSX follows operators, brackets or `return`
+  return before === '' || /(?:[(,=:?&|{}[;>]|\breturn)$/.test(before);
+}
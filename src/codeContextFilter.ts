@@ -1,13 +1,31 @@
 import * as vscode from 'vscode';
-import { SearchOptions, SearchResult } from './utils';
+import { CODE_CATEGORIES, SearchOptions, SearchResult } from './utils';
+import { classifyCodeCategories, isInCategories } from './codeCategories';
+import { parseGrammarLineContexts } from './grammarContexts';
 
 type Range = { start: number; end: number };
 
 type LanguageConfig = {
   lineComment?: string;
   blockComment?: { start: string; end: string };
+  /** Block comments can contain other block comments (Rust, Kotlin) */
+  nestedBlockComments?: boolean;
+  /** Block comment markers only count at the start of a line (Ruby's =begin/=end) */
+  blockCommentAtLineStart?: boolean;
   stringDelims: string[];
   tripleStringDelims?: string[];
+  /** Strings where backslashes are not escapes, such as Go raw strings or C# verbatim strings */
+  rawStrings?: Array<{ start: string; end: string }>;
+  /** Plain strings have no backslash escapes; a doubled quote closes and reopens them (SQL) */
+  noStringEscapes?: boolean;
+  /** Prefixed strings that do take backslash escapes where plain ones do not (PostgreSQL E'...') */
+  escapedStrings?: Array<{ start: string; end: string }>;
+  /** PostgreSQL dollar quoting: $$...$$ or $tag$...$tag$ */
+  dollarQuotedStrings?: boolean;
+  /** Quoted names that are code, skipped so a comment marker inside them does not count */
+  quotedIdentifiers?: string[];
+  /** Single-character literals like 'a' or '\n', for languages where a lone quote has another meaning */
+  charLiterals?: boolean;
   supportsRegexLiteral?: boolean;
 };
 
@@ -17,48 +35,30 @@ type LineContext = {
 };
 
 type ParseState = {
-  inBlockComment: boolean;
+  blockCommentDepth: number;
   inString: boolean;
   stringDelim: string;
+  stringEscapes: boolean;
 };
 
-const SUPPORTED_LANGUAGES = new Set<string>([
-  'javascript',
-  'javascriptreact',
-  'typescript',
-  'typescriptreact',
-  'python',
-  'java'
-]);
+const C_STYLE_COMMENTS: Pick<LanguageConfig, 'lineComment' | 'blockComment'> = {
+  lineComment: '//',
+  blockComment: { start: '/*', end: '*/' }
+};
+
+const JAVASCRIPT_CONFIG: LanguageConfig = {
+  ...C_STYLE_COMMENTS,
+  stringDelims: ["'", '"', '`'],
+  supportsRegexLiteral: true
+};
 
 const LANGUAGE_CONFIGS: Record<string, LanguageConfig> = {
-  javascript: {
-    lineComment: '//',
-    blockComment: { start: '/*', end: '*/' },
-    stringDelims: ["'", '"', '`'],
-    supportsRegexLiteral: true
-  },
-  javascriptreact: {
-    lineComment: '//',
-    blockComment: { start: '/*', end: '*/' },
-    stringDelims: ["'", '"', '`'],
-    supportsRegexLiteral: true
-  },
-  typescript: {
-    lineComment: '//',
-    blockComment: { start: '/*', end: '*/' },
-    stringDelims: ["'", '"', '`'],
-    supportsRegexLiteral: true
-  },
-  typescriptreact: {
-    lineComment: '//',
-    blockComment: { start: '/*', end: '*/' },
-    stringDelims: ["'", '"', '`'],
-    supportsRegexLiteral: true
-  },
+  javascript: JAVASCRIPT_CONFIG,
+  javascriptreact: JAVASCRIPT_CONFIG,
+  typescript: JAVASCRIPT_CONFIG,
+  typescriptreact: JAVASCRIPT_CONFIG,
   java: {
-    lineComment: '//',
-    blockComment: { start: '/*', end: '*/' },
+    ...C_STYLE_COMMENTS,
     stringDelims: ["'", '"'],
     tripleStringDelims: ['"""']
   },
@@ -66,6 +66,54 @@ const LANGUAGE_CONFIGS: Record<string, LanguageConfig> = {
     lineComment: '#',
     stringDelims: ["'", '"'],
     tripleStringDelims: ["'''", '"""']
+  },
+  go: {
+    ...C_STYLE_COMMENTS,
+    stringDelims: ["'", '"'],
+    rawStrings: [{ start: '`', end: '`' }]
+  },
+  rust: {
+    ...C_STYLE_COMMENTS,
+    nestedBlockComments: true,
+    // A lone quote starts a lifetime ('a), so only complete char literals are strings
+    stringDelims: ['"'],
+    charLiterals: true,
+    rawStrings: [
+      { start: 'br##"', end: '"##' },
+      { start: 'r##"', end: '"##' },
+      { start: 'br#"', end: '"#' },
+      { start: 'r#"', end: '"#' },
+      { start: 'br"', end: '"' },
+      { start: 'r"', end: '"' }
+    ]
+  },
+  csharp: {
+    ...C_STYLE_COMMENTS,
+    stringDelims: ["'", '"'],
+    tripleStringDelims: ['"""'],
+    rawStrings: [{ start: '@"', end: '"' }]
+  },
+  kotlin: {
+    ...C_STYLE_COMMENTS,
+    nestedBlockComments: true,
+    stringDelims: ["'", '"'],
+    tripleStringDelims: ['"""']
+  },
+  ruby: {
+    lineComment: '#',
+    blockComment: { start: '=begin', end: '=end' },
+    blockCommentAtLineStart: true,
+    stringDelims: ["'", '"', '`']
+  },
+  sql: {
+    lineComment: '--',
+    blockComment: { start: '/*', end: '*/' },
+    stringDelims: ["'"],
+    noStringEscapes: true,
+    escapedStrings: [{ start: "E'", end: "'" }, { start: "e'", end: "'" }],
+    dollarQuotedStrings: true,
+    // Double quotes (standard) and backticks (MySQL) delimit identifiers, not strings
+    quotedIdentifiers: ['"', '`']
   }
 };
 
@@ -75,7 +123,15 @@ const EXTENSION_TO_LANGUAGE: Record<string, string> = {
   ts: 'typescript',
   tsx: 'typescriptreact',
   py: 'python',
-  java: 'java'
+  java: 'java',
+  go: 'go',
+  rs: 'rust',
+  cs: 'csharp',
+  kt: 'kotlin',
+  kts: 'kotlin',
+  rb: 'ruby',
+  rake: 'ruby',
+  sql: 'sql'
 };
 
 export async function filterResultsByCodeContext(
@@ -85,8 +141,9 @@ export async function filterResultsByCodeContext(
   const includeCode = options.includeCode ?? true;
   const includeComments = options.includeComments ?? true;
   const includeStrings = options.includeStrings ?? true;
+  const codeCategories = (options.codeCategories || []).filter((category) => CODE_CATEGORIES.includes(category));
 
-  if (includeCode && includeComments && includeStrings) {
+  if (includeCode && includeComments && includeStrings && codeCategories.length === 0) {
     return results;
   }
 
@@ -116,16 +173,10 @@ export async function filterResultsByCodeContext(
 
     const passthrough = (): Array<{ result: SearchResult; index: number }> => indexedResults;
 
-    if (!languageId || !SUPPORTED_LANGUAGES.has(languageId)) {
-      if (contextFiltersActive && !includeStrings) {
-        return [];
-      }
-      return passthrough();
-    }
-
-    const config = LANGUAGE_CONFIGS[languageId];
-    if (!config) {
-      if (contextFiltersActive && !includeStrings) {
+    const config = languageId ? LANGUAGE_CONFIGS[languageId] : undefined;
+    if (!config || !languageId) {
+      // Categories need the language's grammar, so unknown files cannot match them
+      if (codeCategories.length > 0 || (contextFiltersActive && !includeStrings)) {
         return [];
       }
       return passthrough();
@@ -137,7 +188,8 @@ export async function filterResultsByCodeContext(
     }
 
     const lines = content.split(/\r?\n/);
-    const lineContexts = parseLineContexts(lines, config);
+    const lineContexts = await parseGrammarLineContexts(content, lines, languageId) ?? parseLineContexts(lines, config);
+    const categoryRanges = codeCategories.length > 0 ? classifyCodeCategories(lines, languageId, lineContexts) : undefined;
     const filteredLocal: Array<{ result: SearchResult; index: number }> = [];
 
     for (const indexed of indexedResults) {
@@ -156,6 +208,9 @@ export async function filterResultsByCodeContext(
       const allowedIndexes: number[] = [];
       matchRanges.forEach((range, index) => {
         const pos = Math.max(0, range.start);
+        if (categoryRanges && !isInCategories(pos, categoryRanges[lineIndex], codeCategories)) {
+          return;
+        }
         if (isInRanges(pos, lineContext.commentRanges)) {
           if (includeComments) allowedIndexes.push(index);
           return;
@@ -198,6 +253,8 @@ export async function filterResultsByCodeContext(
           matchRanges: allowedMatchRanges,
           previewMatchRanges,
           previewMatchRange: firstPreviewRange,
+          // Dropped matches must not count, or replace rescans the line and edits them anyway
+          matchCount: allowedIndexes.length === matchRanges.length ? result.matchCount : allowedIndexes.length,
         }
       });
     }
@@ -248,9 +305,10 @@ async function readFileContent(uriString: string): Promise<string> {
 function parseLineContexts(lines: string[], config: LanguageConfig): LineContext[] {
   const contexts: LineContext[] = [];
   const state: ParseState = {
-    inBlockComment: false,
+    blockCommentDepth: 0,
     inString: false,
-    stringDelim: ''
+    stringDelim: '',
+    stringEscapes: true
   };
 
   for (const line of lines) {
@@ -268,19 +326,18 @@ function parseLineContext(line: string, config: LanguageConfig, state: ParseStat
   let i = 0;
   let lastNonSpace = '';
 
-  if (state.inBlockComment && config.blockComment) {
-    const endIndex = line.indexOf(config.blockComment.end, i);
-    if (endIndex === -1) {
+  if (state.blockCommentDepth > 0) {
+    const commentEnd = findBlockCommentEnd(line, 0, config, state);
+    if (commentEnd === -1) {
       commentRanges.push({ start: 0, end: length });
       return { commentRanges, stringRanges };
     }
-    commentRanges.push({ start: 0, end: endIndex + config.blockComment.end.length });
-    i = endIndex + config.blockComment.end.length;
-    state.inBlockComment = false;
+    commentRanges.push({ start: 0, end: commentEnd });
+    i = commentEnd;
   }
 
   if (state.inString) {
-    const stringEnd = findStringEnd(line, i, state.stringDelim);
+    const stringEnd = findStringEnd(line, i, state.stringDelim, state.stringEscapes);
     if (stringEnd === -1) {
       stringRanges.push({ start: 0, end: length });
       return { commentRanges, stringRanges };
@@ -290,37 +347,71 @@ function parseLineContext(line: string, config: LanguageConfig, state: ParseStat
     i = end;
     state.inString = false;
     state.stringDelim = '';
+    state.stringEscapes = true;
   }
 
+  const openString = (start: number, delim: string, escapes: boolean): boolean => {
+    const stringEnd = findStringEnd(line, start, delim, escapes);
+    if (stringEnd === -1) {
+      stringRanges.push({ start: i, end: length });
+      state.inString = true;
+      state.stringDelim = delim;
+      state.stringEscapes = escapes;
+      return false;
+    }
+    stringRanges.push({ start: i, end: stringEnd + delim.length });
+    i = stringEnd + delim.length;
+    return true;
+  };
+
   while (i < length) {
     if (config.lineComment && line.startsWith(config.lineComment, i)) {
       commentRanges.push({ start: i, end: length });
       break;
     }
 
-    if (config.blockComment && line.startsWith(config.blockComment.start, i)) {
-      const endIndex = line.indexOf(config.blockComment.end, i + config.blockComment.start.length);
-      if (endIndex === -1) {
+    const blockComment = config.blockComment;
+    if (blockComment && line.startsWith(blockComment.start, i) && (!config.blockCommentAtLineStart || i === 0)) {
+      state.blockCommentDepth = 1;
+      const commentEnd = findBlockCommentEnd(line, i + blockComment.start.length, config, state);
+      if (commentEnd === -1) {
         commentRanges.push({ start: i, end: length });
-        state.inBlockComment = true;
         break;
       }
-      commentRanges.push({ start: i, end: endIndex + config.blockComment.end.length });
-      i = endIndex + config.blockComment.end.length;
+      commentRanges.push({ start: i, end: commentEnd });
+      i = commentEnd;
+      continue;
+    }
+
+    const rawString = matchPrefixedString(line, i, config.rawStrings);
+    if (rawString) {
+      if (!openString(i + rawString.start.length, rawString.end, false)) break;
+      continue;
+    }
+
+    const escapedString = matchPrefixedString(line, i, config.escapedStrings);
+    if (escapedString) {
+      if (!openString(i + escapedString.start.length, escapedString.end, true)) break;
+      continue;
+    }
+
+    const dollarQuote = config.dollarQuotedStrings ? matchDollarQuote(line, i) : undefined;
+    if (dollarQuote) {
+      if (!openString(i + dollarQuote.length, dollarQuote, false)) break;
+      continue;
+    }
+
+    const identifierQuote = config.quotedIdentifiers?.find((quote) => line[i] === quote);
+    if (identifierQuote) {
+      const end = line.indexOf(identifierQuote, i + 1);
+      lastNonSpace = identifierQuote;
+      i = end === -1 ? length : end + 1;
       continue;
     }
 
     const tripleDelim = matchTripleStringDelimiter(line, i, config);
     if (tripleDelim) {
-      const endIndex = line.indexOf(tripleDelim, i + tripleDelim.length);
-      if (endIndex === -1) {
-        stringRanges.push({ start: i, end: length });
-        state.inString = true;
-        state.stringDelim = tripleDelim;
-        break;
-      }
-      stringRanges.push({ start: i, end: endIndex + tripleDelim.length });
-      i = endIndex + tripleDelim.length;
+      if (!openString(i + tripleDelim.length, tripleDelim, false)) break;
       continue;
     }
 
@@ -335,17 +426,18 @@ function parseLineContext(line: string, config: LanguageConfig, state: ParseStat
       continue;
     }
 
+    if (config.charLiterals && line[i] === "'") {
+      const charLength = matchCharLiteral(line, i);
+      if (charLength > 0) {
+        stringRanges.push({ start: i, end: i + charLength });
+        i += charLength;
+        continue;
+      }
+    }
+
     const stringDelim = matchStringDelimiter(line, i, config);
     if (stringDelim) {
-      const stringEnd = findStringEnd(line, i + stringDelim.length, stringDelim);
-      if (stringEnd === -1) {
-        stringRanges.push({ start: i, end: length });
-        state.inString = true;
-        state.stringDelim = stringDelim;
-        break;
-      }
-      stringRanges.push({ start: i, end: stringEnd + stringDelim.length });
-      i = stringEnd + stringDelim.length;
+      if (!openString(i + stringDelim.length, stringDelim, !config.noStringEscapes)) break;
       continue;
     }
 
@@ -358,6 +450,67 @@ function parseLineContext(line: string, config: LanguageConfig, state: ParseStat
   return { commentRanges, stringRanges };
 }
 
+/**
+ * Index just past the end of the block comment the parser is in, or -1 if it continues
+ * past this line. Tracks nesting depth for languages that allow nested comments.
+ */
+function findBlockCommentEnd(line: string, startIndex: number, config: LanguageConfig, state: ParseState): number {
+  const { start, end } = config.blockComment!;
+  if (config.blockCommentAtLineStart) {
+    if (startIndex === 0 && line.startsWith(end)) {
+      state.blockCommentDepth = 0;
+      return line.length;
+    }
+    return -1;
+  }
+
+  let i = startIndex;
+  while (i < line.length) {
+    const endIndex = line.indexOf(end, i);
+    const nestedIndex = config.nestedBlockComments ? line.indexOf(start, i) : -1;
+    if (endIndex === -1 && nestedIndex === -1) {
+      return -1;
+    }
+    if (nestedIndex !== -1 && (endIndex === -1 || nestedIndex < endIndex)) {
+      state.blockCommentDepth += 1;
+      i = nestedIndex + start.length;
+      continue;
+    }
+    state.blockCommentDepth -= 1;
+    i = endIndex + end.length;
+    if (state.blockCommentDepth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function matchPrefixedString(
+  line: string,
+  index: number,
+  prefixed: Array<{ start: string; end: string }> | undefined
+): { start: string; end: string } | undefined {
+  // A prefix like r" or @" cannot continue an identifier
+  if (!prefixed || (index > 0 && /\w/.test(line[index - 1]))) {
+    return undefined;
+  }
+  return prefixed.find((raw) => line.startsWith(raw.start, index));
+}
+
+/** The opening $$ or $tag$ of a dollar-quoted string, which is also its closing delimiter */
+function matchDollarQuote(line: string, index: number): string | undefined {
+  if (line[index] !== '$' || (index > 0 && /[\w$]/.test(line[index - 1]))) {
+    return undefined;
+  }
+  return /^\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$/.exec(line.slice(index, index + 64))?.[0];
+}
+
+/** Length of a char literal starting at index ('a', '\n', '\u{1F600}'), or 0 if there is none */
+function matchCharLiteral(line: string, index: number): number {
+  const match = /^'(?:\\(?:u\{[0-9a-fA-F]+\}|x[0-9a-fA-F]{2}|.)|[^'\\])'/.exec(line.slice(index, index + 12));
+  return match ? match[0].length : 0;
+}
+
 function matchTripleStringDelimiter(line: string, index: number, config: LanguageConfig): string | undefined {
   const triples = config.tripleStringDelims || [];
   for (const delim of triples) {
@@ -377,9 +530,9 @@ function matchStringDelimiter(line: string, index: number, config: LanguageConfi
   return undefined;
 }
 
-function findStringEnd(line: string, startIndex: number, delim: string): number {
+function findStringEnd(line: string, startIndex: number, delim: string, escapes: boolean = true): number {
   const length = line.length;
-  if (delim.length > 1) {
+  if (delim.length > 1 || !escapes) {
     return line.indexOf(delim, startIndex);
   }
 
@@ -11,10 +11,17 @@ import { restoreCommand } from './restore';
 import { findUsagesCommand } from './findUsages';
 import { quickPickCommand } from './quickPick';
 import { quickPickReplaceCommand } from './quickPickReplace';
+import { undoLastReplaceCommand } from './undoLastReplace';
+import { saveSearchCommand } from './saveSearch';
+import { runSavedSearchCommand } from './runSavedSearch';
+import { newSearchWindowCommand } from './newSearchWindow';
+import { openSearchSessionCommand } from './openSearchSession';
+import { renameSearchWindowCommand } from './renameSearchWindow';
 import { openWindowInternalCommand } from './internal/openWindowInternal';
 import { closeWindowInternalCommand } from './internal/closeWindowInternal';
 import { testEnsureOpenCommand } from './internal/testEnsureOpen';
 import { showTelemetryOutput } from '../telemetry';
+import { SavedSearch } from '../savedSearches';
 
 // Re-export command functions for external use
 export { openCommand } from './open';
@@ -28,6 +35,12 @@ export { restoreCommand } from './restore';
 export { findUsagesCommand } from './findUsages';
 export { quickPickCommand } from './quickPick';
 export { quickPickReplaceCommand } from './quickPickReplace';
+export { undoLastReplaceCommand } from './undoLastReplace';
+export { saveSearchCommand } from './saveSearch';
+export { runSavedSearchCommand } from './runSavedSearch';
+export { newSearchWindowCommand } from './newSearchWindow';
+export { openSearchSessionCommand } from './openSearchSession';
+export { renameSearchWindowCommand } from './renameSearchWindow';
 export { openWindowInternalCommand } from './internal/openWindowInternal';
 export { closeWindowInternalCommand } from './internal/closeWindowInternal';
 export { testEnsureOpenCommand } from './internal/testEnsureOpen';
@@ -52,8 +65,14 @@ export function registerCommands(ctx: CommandContext): void {
     vscode.commands.registerCommand('rifler.findUsages', () => findUsagesCommand(ctx)),
     vscode.commands.registerCommand('rifler.quickPick', () => quickPickCommand(ctx)),
     vscode.commands.registerCommand('rifler.quickPickReplace', () => quickPickReplaceCommand(ctx)),
+    vscode.commands.registerCommand('rifler.undoLastReplace', () => undoLastReplaceCommand(ctx)),
+    vscode.commands.registerCommand('rifler.saveSearch', () => saveSearchCommand(ctx)),
+    vscode.commands.registerCommand('rifler.runSavedSearch', () => runSavedSearchCommand(ctx)),
+    vscode.commands.registerCommand('rifler.newSearchWindow', () => newSearchWindowCommand(ctx)),
+    vscode.commands.registerCommand('rifler.openSearchSession', () => openSearchSessionCommand(ctx)),
+    vscode.commands.registerCommand('rifler.renameSearchWindow', () => renameSearchWindowCommand(ctx)),
     vscode.commands.registerCommand('rifler.showTelemetryOutput', () => showTelemetryOutput()),
-    vscode.commands.registerCommand('rifler._openWindowInternal', (options?: { initialQuery?: string; showReplace?: boolean }) =>
+    vscode.commands.registerCommand('rifler._openWindowInternal', (options?: { initialQuery?: string; initialSearch?: SavedSearch; showReplace?: boolean }) =>
       openWindowInternalCommand(ctx, options)
     ),
     vscode.commands.registerCommand('rifler._closeWindowInternal', () => closeWindowInternalCommand(ctx)),
@@ -5,7 +5,7 @@ import { CommandContext } from '../types';
  * Used by ViewManager for switching views
  */
 export function closeWindowInternalCommand(ctx: CommandContext): void {
-  if (ctx.panelManager.panel) {
-    ctx.panelManager.panel.dispose();
+  if (ctx.panelManager.mainPanel) {
+    ctx.panelManager.mainPanel.dispose();
   }
 }
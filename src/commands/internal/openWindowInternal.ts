@@ -1,4 +1,5 @@
 import { CommandContext } from '../types';
+import { SavedSearch } from '../../savedSearches';
 
 /**
  * rifler._openWindowInternal - Internal command to open window panel
@@ -6,10 +7,11 @@ import { CommandContext } from '../types';
  */
 export function openWindowInternalCommand(
   ctx: CommandContext,
-  options?: { initialQuery?: string; showReplace?: boolean }
+  options?: { initialQuery?: string; initialSearch?: SavedSearch; showReplace?: boolean }
 ): void {
   ctx.panelManager.createOrShowPanel({
     showReplace: options?.showReplace ?? false,
-    initialQuery: options?.initialQuery
+    initialQuery: options?.initialQuery,
+    initialSearch: options?.initialSearch
   });
 }
@@ -0,0 +1,8 @@
+import { CommandContext } from './types';
+
+/**
+ * rifler.newSearchWindow - Open another search window with a session of its own
+ */
+export function newSearchWindowCommand(ctx: CommandContext): void {
+  ctx.panelManager.openSearchSession();
+}
@@ -65,8 +65,8 @@ export async function openCommand(ctx: CommandContext): Promise<void> {
         }
       }
     } else {
-      if (ctx.panelManager.panel) {
-        ctx.panelManager.panel.dispose();
+      if (ctx.panelManager.mainPanel) {
+        ctx.panelManager.mainPanel.dispose();
       } else if (ctx.panelManager.minimized) {
         ctx.panelManager.restore();
       } else {
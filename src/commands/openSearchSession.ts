@@ -0,0 +1,58 @@
+import * as vscode from 'vscode';
+import { CommandContext } from './types';
+import { describeSearchSession } from '../searchSessions';
+import { SearchSession } from '../state/StateStore';
+import { MAIN_PANEL_ID } from '../services/PanelManager';
+
+type SessionItem = vscode.QuickPickItem & { session?: SearchSession };
+
+const CLOSE_BUTTON: vscode.QuickInputButton = {
+  iconPath: new vscode.ThemeIcon('close'),
+  tooltip: 'Close Session'
+};
+
+/**
+ * rifler.openSearchSession - Pick a search window session to show or reopen, or start a new one.
+ * Sessions that are not open can be closed from the list.
+ */
+export function openSearchSessionCommand(ctx: CommandContext): void {
+  try {
+    const { panelManager } = ctx;
+    const sessions = panelManager.getPanelSessions().filter((s) => s.id !== MAIN_PANEL_ID);
+
+    const quickPick = vscode.window.createQuickPick<SessionItem>();
+    quickPick.title = 'Rifler Search Sessions';
+    quickPick.placeholder = 'Select a session to open';
+    quickPick.matchOnDescription = true;
+    quickPick.items = [
+      { label: '$(add) New Search Window' },
+      ...sessions.map((session) => {
+        const open = panelManager.isSessionOpen(session.id);
+        return {
+          label: `$(search) ${session.name}`,
+          description: open ? `${describeSearchSession(session)} · open` : describeSearchSession(session),
+          buttons: open ? [] : [CLOSE_BUTTON],
+          session
+        };
+      })
+    ];
+
+    quickPick.onDidTriggerItemButton(({ item }) => {
+      if (!item.session) return;
+      panelManager.closeSession(item.session.id);
+      quickPick.items = quickPick.items.filter((i) => i !== item);
+    });
+    quickPick.onDidAccept(() => {
+      const selected = quickPick.selectedItems[0];
+      quickPick.hide();
+      if (selected) {
+        panelManager.openSearchSession(selected.session?.id);
+      }
+    });
+    quickPick.onDidHide(() => quickPick.dispose());
+    quickPick.show();
+  } catch (error) {
+    console.error('Error opening search session:', error);
+    vscode.window.showErrorMessage(`Could not open search session: ${error}`);
+  }
+}
@@ -1,11 +1,23 @@
 import * as vscode from 'vscode';
 import { CommandContext } from './types';
 import { performSearch } from '../search';
-import { SearchOptions, SearchResult } from '../utils';
+import { applyQueryOperators } from '../queryOperators';
+import { CodeCategory, SearchOptions, SearchResult, formatResultDetail, normalizeContextLines } from '../utils';
 import { getTelemetryLogger } from '../telemetry';
 import { openLocation } from '../extension';
+import { SavedSearchEntry, listSavedSearches } from '../savedSearches';
+import { openSavedSearch, toSavedSearchItem } from './runSavedSearch';
 
-type QuickPickSearchItem = vscode.QuickPickItem & { result?: SearchResult };
+type QuickPickSearchItem = vscode.QuickPickItem & { result?: SearchResult; entry?: SavedSearchEntry };
+
+type QuickPickToggleState = { matchCase: boolean; wholeWord: boolean; useRegex: boolean; codeCategories: CodeCategory[] };
+
+const CODE_CATEGORY_TOGGLES: Array<{ category: CodeCategory; icon: string; label: string }> = [
+  { category: 'identifiers', icon: 'symbol-variable', label: 'Only Identifiers' },
+  { category: 'imports', icon: 'package', label: 'Only Imports' },
+  { category: 'types', icon: 'symbol-class', label: 'Only Type Positions' },
+  { category: 'jsxText', icon: 'symbol-text', label: 'Only JSX Text' }
+];
 
 export async function quickPickCommand(ctx: CommandContext): Promise<void> {
   const config = vscode.workspace.getConfiguration('rifler');
@@ -13,13 +25,15 @@ export async function quickPickCommand(ctx: CommandContext): Promise<void> {
   const includeCode = config.get<boolean>('searchContext.includeCode', true);
   const includeComments = config.get<boolean>('searchContext.includeComments', true);
   const includeStrings = config.get<boolean>('searchContext.includeStrings', true);
+  const contextLines = normalizeContextLines(config.get<number>('results.contextLines', 0));
 
   const quickPick = vscode.window.createQuickPick<QuickPickSearchItem>();
   const selectedText = getSelectedText();
-  const toggleState = {
+  const toggleState: QuickPickToggleState = {
     matchCase: false,
     wholeWord: false,
-    useRegex: false
+    useRegex: false,
+    codeCategories: []
   };
   const iconBasePath = vscode.Uri.joinPath(ctx.extensionContext.extensionUri, 'assets', 'quickpick');
   let matchCaseButton = createToggleButton(
@@ -37,6 +51,7 @@ export async function quickPickCommand(ctx: CommandContext): Promise<void> {
     'Use Regex',
     toggleState.useRegex
   );
+  let categoryButtons = createCategoryButtons(toggleState.codeCategories);
 
   quickPick.title = 'Rifler QuickPick Search';
   quickPick.placeholder = buildQuickPickPlaceholder(toggleState);
@@ -44,11 +59,13 @@ export async function quickPickCommand(ctx: CommandContext): Promise<void> {
   quickPick.matchOnDetail = true;
   quickPick.ignoreFocusOut = true;
   quickPick.value = selectedText ?? '';
-  quickPick.buttons = [matchCaseButton, wholeWordButton, useRegexButton];
+  quickPick.buttons = [matchCaseButton, wholeWordButton, useRegexButton, ...categoryButtons];
 
   let searchTimeout: NodeJS.Timeout | undefined;
   let disposed = false;
   let searchCounter = 0;
+  // Saved searches are listed until the user types a query
+  let savedSearchItems: QuickPickSearchItem[] = [];
 
   const runSearch = async (value: string): Promise<void> => {
     const trimmed = value.trim();
@@ -56,7 +73,7 @@ export async function quickPickCommand(ctx: CommandContext): Promise<void> {
     quickPick.busy = true;
 
     if (trimmed.length < 2) {
-      quickPick.items = [];
+      quickPick.items = savedSearchItems;
       quickPick.busy = false;
       return;
     }
@@ -69,11 +86,18 @@ export async function quickPickCommand(ctx: CommandContext): Promise<void> {
       fileMask: '',
       includeCode,
       includeComments,
-      includeStrings
+      includeStrings,
+      codeCategories: toggleState.codeCategories,
+      contextLines
     };
 
     try {
-      const results = await performSearch(trimmed, 'project', options, undefined, undefined, MAX_ITEMS, true);
+      const resolved = applyQueryOperators(trimmed, 'project', options);
+      if (resolved.operators?.errors.length) {
+        quickPick.items = [];
+        return;
+      }
+      const results = await performSearch(resolved.query, resolved.scope, resolved.options, undefined, undefined, MAX_ITEMS, true);
       const searchResults = results.results;
       if (disposed || currentSearchId !== searchCounter) return;
 
@@ -107,7 +131,14 @@ export async function quickPickCommand(ctx: CommandContext): Promise<void> {
 
   quickPick.onDidChangeValue((value) => scheduleSearch(value));
   quickPick.onDidTriggerButton((button) => {
-    if (button === matchCaseButton) {
+    const categoryIndex = categoryButtons.indexOf(button);
+    if (categoryIndex !== -1) {
+      const { category } = CODE_CATEGORY_TOGGLES[categoryIndex];
+      toggleState.codeCategories = toggleState.codeCategories.includes(category)
+        ? toggleState.codeCategories.filter((c) => c !== category)
+        : [...toggleState.codeCategories, category];
+      categoryButtons = createCategoryButtons(toggleState.codeCategories);
+    } else if (button === matchCaseButton) {
       toggleState.matchCase = !toggleState.matchCase;
     } else if (button === wholeWordButton) {
       toggleState.wholeWord = !toggleState.wholeWord;
@@ -131,7 +162,7 @@ export async function quickPickCommand(ctx: CommandContext): Promise<void> {
       'Use Regex',
       toggleState.useRegex
     );
-    quickPick.buttons = [matchCaseButton, wholeWordButton, useRegexButton];
+    quickPick.buttons = [matchCaseButton, wholeWordButton, useRegexButton, ...categoryButtons];
     quickPick.title = 'Rifler QuickPick Search';
     quickPick.placeholder = buildQuickPickPlaceholder(toggleState);
     scheduleSearch(quickPick.value);
@@ -140,6 +171,11 @@ export async function quickPickCommand(ctx: CommandContext): Promise<void> {
     const selected = quickPick.selectedItems[0];
     const telemetryLogger = getTelemetryLogger();
     const queryValue = quickPick.value.trim();
+    if (selected?.entry) {
+      quickPick.hide();
+      await openSavedSearch(ctx, selected.entry);
+      return;
+    }
     if (selected && !selected.result) {
       quickPick.hide();
       await ctx.viewManager.openView({
@@ -176,6 +212,15 @@ export async function quickPickCommand(ctx: CommandContext): Promise<void> {
   if (quickPick.value.trim().length >= 2) {
     scheduleSearch(quickPick.value);
   }
+
+  try {
+    savedSearchItems = (await listSavedSearches(ctx.stateStore)).map((entry) => toSavedSearchItem(entry));
+  } catch (error) {
+    console.error('[Rifler] Could not load saved searches:', error);
+  }
+  if (!disposed && quickPick.value.trim().length < 2) {
+    quickPick.items = savedSearchItems;
+  }
 }
 
 function toQuickPickItem(result: SearchResult): QuickPickSearchItem {
@@ -185,7 +230,7 @@ function toQuickPickItem(result: SearchResult): QuickPickSearchItem {
   return {
     label: result.relativePath || result.fileName,
     description: location,
-    detail: result.preview,
+    detail: formatResultDetail(result),
     result
   };
 }
@@ -197,6 +242,12 @@ function createToggleButton(iconPath: vscode.IconPath, label: string, enabled: b
   };
 }
 
+function createCategoryButtons(active: CodeCategory[]): vscode.QuickInputButton[] {
+  return CODE_CATEGORY_TOGGLES.map(({ category, icon, label }) =>
+    createToggleButton(new vscode.ThemeIcon(icon), label, active.includes(category))
+  );
+}
+
 function buildIconPath(basePath: vscode.Uri, id: string, enabled: boolean): { light: vscode.Uri; dark: vscode.Uri } {
   const state = enabled ? 'on' : 'off';
   return {
@@ -205,11 +256,12 @@ function buildIconPath(basePath: vscode.Uri, id: string, enabled: boolean): { li
   };
 }
 
-function buildQuickPickPlaceholder(toggleState: { matchCase: boolean; wholeWord: boolean; useRegex: boolean }): string {
+function buildQuickPickPlaceholder(toggleState: QuickPickToggleState): string {
   const matchCaseLabel = `Aa:${toggleState.matchCase ? 'on' : 'off'}`;
   const wholeWordLabel = `W:${toggleState.wholeWord ? 'on' : 'off'}`;
   const regexLabel = `.*:${toggleState.useRegex ? 'on' : 'off'}`;
-  return `Type to search in workspace (${matchCaseLabel} ${wholeWordLabel} ${regexLabel})`;
+  const categoriesLabel = toggleState.codeCategories.length > 0 ? ` only:${toggleState.codeCategories.join(',')}` : '';
+  return `Type to search in workspace (${matchCaseLabel} ${wholeWordLabel} ${regexLabel}${categoriesLabel})`;
 }
 
 function getSelectedText(): string | undefined {
@@ -1,8 +1,9 @@
 import * as vscode from 'vscode';
 import { CommandContext } from './types';
 import { performSearch } from '../search';
+import { applyQueryOperators } from '../queryOperators';
 import { replaceAll, replaceOne } from '../replacer';
-import { SearchOptions, SearchResult } from '../utils';
+import { SearchOptions, SearchResult, formatResultDetail, normalizeContextLines } from '../utils';
 
 type QuickPickSearchItem = vscode.QuickPickItem & { result?: SearchResult };
 
@@ -14,6 +15,7 @@ export async function quickPickReplaceCommand(ctx: CommandContext): Promise<void
   const includeCode = config.get<boolean>('searchContext.includeCode', true);
   const includeComments = config.get<boolean>('searchContext.includeComments', true);
   const includeStrings = config.get<boolean>('searchContext.includeStrings', true);
+  const contextLines = normalizeContextLines(config.get<number>('results.contextLines', 0));
 
   const quickPick = vscode.window.createQuickPick<QuickPickSearchItem>();
   const selectedText = getSelectedText();
@@ -70,11 +72,17 @@ export async function quickPickReplaceCommand(ctx: CommandContext): Promise<void
       fileMask: '',
       includeCode,
       includeComments,
-      includeStrings
+      includeStrings,
+      contextLines
     };
 
     try {
-      const results = await performSearch(trimmed, 'project', options, undefined, undefined, MAX_ITEMS, true);
+      const resolved = applyQueryOperators(trimmed, 'project', options);
+      if (resolved.operators?.errors.length) {
+        quickPick.items = [];
+        return;
+      }
+      const results = await performSearch(resolved.query, resolved.scope, resolved.options, undefined, undefined, MAX_ITEMS, true);
       const searchResults = results.results;
       if (disposed || currentSearchId !== searchCounter) return;
 
@@ -174,9 +182,13 @@ export async function quickPickReplaceCommand(ctx: CommandContext): Promise<void
     };
 
     if (action === 'replaceOne') {
-      await replaceOne(selected.result.uri, selected.result.line, selected.result.character, selected.result.length, replaceText);
+      const { uri, line, character, length, matchRanges, matchCount } = selected.result;
+      await replaceOne(uri, line, character, length, replaceText, query, options, matchRanges, matchCount);
     } else {
-      await replaceAll(query, replaceText, 'project', options, undefined, undefined, async () => {});
+      const transaction = await replaceAll(query, replaceText, 'project', options, undefined, undefined, async () => {});
+      if (transaction) {
+        ctx.stateStore.recordReplaceTransaction(transaction);
+      }
     }
   });
 
@@ -201,7 +213,7 @@ function toQuickPickItem(result: SearchResult): QuickPickSearchItem {
   return {
     label: result.relativePath || result.fileName,
     description: location,
-    detail: result.preview,
+    detail: formatResultDetail(result),
     result
   };
 }
@@ -0,0 +1,8 @@
+import { CommandContext } from './types';
+
+/**
+ * rifler.renameSearchWindow - Rename the active search window
+ */
+export async function renameSearchWindowCommand(ctx: CommandContext): Promise<void> {
+  await ctx.panelManager.renameSession();
+}
@@ -0,0 +1,76 @@
+import * as vscode from 'vscode';
+import { CommandContext } from './types';
+import {
+  SavedSearch,
+  SavedSearchEntry,
+  deleteSavedSearch,
+  describeSavedSearch,
+  getSavedSearchLocationLabel,
+  listSavedSearches
+} from '../savedSearches';
+
+type SavedSearchItem = vscode.QuickPickItem & { entry: SavedSearchEntry };
+
+const DELETE_BUTTON: vscode.QuickInputButton = {
+  iconPath: new vscode.ThemeIcon('trash'),
+  tooltip: 'Delete Saved Search'
+};
+
+/**
+ * Open Rifler with a saved search applied and run it.
+ */
+export async function openSavedSearch(ctx: CommandContext, search: SavedSearch): Promise<void> {
+  await ctx.viewManager.openView({ initialSearch: search, initialQueryFocus: false });
+}
+
+export function toSavedSearchItem(entry: SavedSearchEntry): vscode.QuickPickItem & { entry: SavedSearchEntry } {
+  return {
+    label: `$(bookmark) ${entry.name}`,
+    description: `${entry.query} · ${getSavedSearchLocationLabel(entry.location)}`,
+    detail: describeSavedSearch(entry),
+    entry
+  };
+}
+
+/**
+ * rifler.runSavedSearch - Pick a saved search and run it in Rifler.
+ * Saved searches can also be deleted from the list.
+ */
+export async function runSavedSearchCommand(ctx: CommandContext): Promise<void> {
+  try {
+    const entries = await listSavedSearches(ctx.stateStore);
+    if (entries.length === 0) {
+      vscode.window.showInformationMessage('Rifler: No saved searches. Use "Rifler: Save Current Search" to add one.');
+      return;
+    }
+
+    const quickPick = vscode.window.createQuickPick<SavedSearchItem>();
+    quickPick.title = 'Rifler Saved Searches';
+    quickPick.placeholder = 'Select a saved search to run';
+    quickPick.matchOnDescription = true;
+    quickPick.matchOnDetail = true;
+    quickPick.items = entries.map((entry) => ({ ...toSavedSearchItem(entry), buttons: [DELETE_BUTTON] }));
+
+    quickPick.onDidTriggerItemButton(async ({ item }) => {
+      try {
+        await deleteSavedSearch(ctx.stateStore, item.entry);
+        quickPick.items = quickPick.items.filter((i) => i !== item);
+      } catch (error) {
+        console.error('Error deleting saved search:', error);
+        vscode.window.showErrorMessage(`Could not delete saved search: ${error}`);
+      }
+    });
+    quickPick.onDidAccept(async () => {
+      const selected = quickPick.selectedItems[0];
+      quickPick.hide();
+      if (selected) {
+        await openSavedSearch(ctx, selected.entry);
+      }
+    });
+    quickPick.onDidHide(() => quickPick.dispose());
+    quickPick.show();
+  } catch (error) {
+    console.error('Error running saved search:', error);
+    vscode.window.showErrorMessage(`Could not run saved search: ${error}`);
+  }
+}
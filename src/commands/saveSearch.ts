@@ -0,0 +1,22 @@
+import * as vscode from 'vscode';
+import { CommandContext } from './types';
+import { promptSaveSearch } from '../savedSearches';
+
+/**
+ * rifler.saveSearch - Save the most recent search, with its scope and options, under a name.
+ */
+export async function saveSearchCommand(ctx: CommandContext): Promise<void> {
+  const [latest] = ctx.stateStore.getSearchHistory();
+  if (!latest) {
+    vscode.window.showInformationMessage('Rifler: Run a search before saving it.');
+    return;
+  }
+
+  await promptSaveSearch(ctx.stateStore, {
+    query: latest.query,
+    scope: latest.scope,
+    directoryPath: latest.directoryPath,
+    modulePath: latest.modulePath,
+    options: latest.options
+  });
+}
@@ -2,6 +2,7 @@ import * as vscode from 'vscode';
 import { PanelManager } from '../services/PanelManager';
 import { ViewManager } from '../views/ViewManager';
 import { RiflerSidebarProvider } from '../sidebar/SidebarProvider';
+import { StateStore } from '../state/StateStore';
 
 /**
  * Context object passed to all command handlers
@@ -12,6 +13,7 @@ export interface CommandContext {
   panelManager: PanelManager;
   viewManager: ViewManager;
   sidebarProvider: RiflerSidebarProvider;
+  stateStore: StateStore;
   getSidebarVisible: () => boolean;
   onSidebarVisibilityChange: (callback: (visible: boolean) => void) => void;
 
@@ -0,0 +1,53 @@
+import * as vscode from 'vscode';
+import { CommandContext } from './types';
+import { findChangedFiles, revertReplaceTransaction } from '../replaceHistory';
+
+/**
+ * rifler.undoLastReplace - Revert the most recent bulk replace in one edit.
+ * Files modified after the replace are never touched.
+ */
+export async function undoLastReplaceCommand(ctx: CommandContext): Promise<void> {
+  try {
+    const transaction = ctx.stateStore.getLastReplaceTransaction();
+    if (!transaction) {
+      vscode.window.showInformationMessage('Rifler: No replace to undo.');
+      return;
+    }
+
+    const changedFiles = new Set(await findChangedFiles(transaction));
+    const revertable = transaction.files.filter((file) => !changedFiles.has(file.uri));
+
+    if (revertable.length === 0) {
+      vscode.window.showWarningMessage(
+        `Rifler: Cannot undo "${transaction.label}": all ${transaction.files.length} file(s) changed since the replace.`
+      );
+      return;
+    }
+
+    if (changedFiles.size > 0) {
+      const choice = await vscode.window.showWarningMessage(
+        `Rifler: ${changedFiles.size} of ${transaction.files.length} file(s) changed since "${transaction.label}" and will be left as they are. Undo the replace in the other ${revertable.length} file(s)?`,
+        { modal: true },
+        'Undo Unchanged Files'
+      );
+      if (choice !== 'Undo Unchanged Files') {
+        return;
+      }
+    }
+
+    const success = await revertReplaceTransaction(revertable);
+    if (!success) {
+      vscode.window.showErrorMessage('Rifler: Failed to undo the last replace.');
+      return;
+    }
+
+    ctx.stateStore.removeReplaceTransaction(transaction.id);
+    const revertedCount = revertable.reduce((sum, file) => sum + file.edits.length, 0);
+    vscode.window.showInformationMessage(
+      `Rifler: Reverted ${revertedCount} replacement(s) in ${revertable.length} file(s).`
+    );
+  } catch (error) {
+    console.error('Error undoing last replace:', error);
+    vscode.window.showErrorMessage(`Could not undo last replace: ${error}`);
+  }
+}
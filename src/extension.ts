@@ -70,7 +70,8 @@ function sendWorkspaceInfo(panel: vscode.WebviewPanel): void {
   panel.webview.postMessage({
     type: 'workspaceInfo',
     name,
-    path
+    path,
+    folders: (workspaceFolders || []).map((f) => ({ name: f.name, path: f.uri.fsPath }))
   });
 }
 
@@ -99,8 +100,8 @@ async function sendFileContent(
     const languageId = getLanguageIdFromFilename(fileName);
     const iconUri = `vscode-icon://file_type_${languageId}`;
 
-    // Find matches in the file using buildSearchRegex from utils
-    const regex = buildSearchRegex(query, options);
+    // Find matches in the file using buildSearchRegex from utils; no query shows the file without highlights
+    const regex = query ? buildSearchRegex(query, options) : null;
 
     const matches: Array<{ line: number; start: number; end: number }> = [];
     const lines = fileContent.split('\n');
@@ -269,7 +270,7 @@ export async function openLocation(
 let stateStore: StateStore;
 let viewManager: ViewManager;
 let panelManager: PanelManager;
-let panelActivePreview: { uri: string; query: string; options: SearchOptions } | undefined;
+let panelActivePreview: { panel: vscode.WebviewPanel; uri: string; query: string; options: SearchOptions } | undefined;
 let sidebarProviderRef: RiflerSidebarProvider;
 let bottomProviderRef: RiflerSidebarProvider;
 
@@ -344,13 +345,19 @@ export async function activate(context: vscode.ExtensionContext) {
       context.workspaceState.update('rifler.searchHistory', undefined);
       context.workspaceState.update('rifler.projectExclusionPreferences', undefined);
       context.workspaceState.update('rifler.previewPanelCollapsed', undefined);
+      context.workspaceState.update('rifler.searchSessions', undefined);
+      context.workspaceState.update('rifler.pinnedResults', undefined);
       context.globalState.update('rifler.sidebarState', undefined);
       context.globalState.update('rifler.persistedSearchState', undefined);
       context.globalState.update('rifler.searchHistory', undefined);
       context.globalState.update('rifler.projectExclusionPreferences', undefined);
       context.globalState.update('rifler.previewPanelCollapsed', undefined);
+      context.globalState.update('rifler.searchSessions', undefined);
+      context.globalState.update('rifler.pinnedResults', undefined);
       if (stateStore) {
         stateStore.setSavedState(undefined);
+        stateStore.clearSearchSessions();
+        stateStore.clearPinnedResultSets();
       }
     }
   } catch (error) {
@@ -404,29 +411,21 @@ export async function activate(context: vscode.ExtensionContext) {
   });
 
   // Configure shared/common message handlers for the panel
-  panelManager.setHandlerConfigurator((handler) => {
+  panelManager.setHandlerConfigurator((handler, panel) => {
     registerCommonHandlers(handler, {
       postMessage: (msg) => handler.postMessage(msg),
       openLocation: openLocation,
       sendModules: async () => {
-        const panel = panelManager.panel;
-        if (!panel) return;
         await sendModulesList(panel);
       },
       sendCurrentDirectory: () => {
-        const panel = panelManager.panel;
-        if (!panel) return;
         sendCurrentDirectory(panel);
       },
       sendWorkspaceInfo: () => {
-        const panel = panelManager.panel;
-        if (!panel) return;
         sendWorkspaceInfo(panel);
       },
       sendFileContent: async (uri, query, options, _activeIndex) => {
-        panelActivePreview = { uri, query, options };
-        const panel = panelManager.panel;
-        if (!panel) return;
+        panelActivePreview = { panel, uri, query, options };
         await sendFileContent(panel, uri, query, options);
       },
       applyEdits: async (uri, content) => {
@@ -452,6 +451,7 @@ export async function activate(context: vscode.ExtensionContext) {
     panelManager,
     viewManager,
     sidebarProvider,
+    stateStore,
     getSidebarVisible: () => stateStore.getSidebarVisible(),
     onSidebarVisibilityChange: (callback) => {
       stateStore.onSidebarVisibilityChange(callback);
@@ -470,7 +470,7 @@ export async function activate(context: vscode.ExtensionContext) {
         return;
       }
 
-      const panel = panelManager.panel;
+      const panel = panelActivePreview?.panel;
       if (!panel || !panel.visible || !panelActivePreview) return;
 
       if (e.document.uri.toString() !== panelActivePreview.uri) return;
@@ -587,13 +587,15 @@ export async function activate(context: vscode.ExtensionContext) {
         const resultsShowCollapsed = config.get<boolean>('results.showCollapsed', false);
         const profileSearch = config.get<boolean>('debug.profileSearch', false);
         
-        // Send updated config to panel webview if visible
-        if (panelManager.panel?.visible) {
-          panelManager.panel.webview.postMessage({
-            type: 'config',
-            resultsShowCollapsed,
-            profileSearch
-          });
+        // Send updated config to visible panel webviews
+        for (const panel of panelManager.allPanels) {
+          if (panel.visible) {
+            panel.webview.postMessage({
+              type: 'config',
+              resultsShowCollapsed,
+              profileSearch
+            });
+          }
         }
 
         // Always refresh the panel title (keybinding hint may have changed)
@@ -618,8 +620,12 @@ export async function activate(context: vscode.ExtensionContext) {
     if (!persist) {
       context.workspaceState.update('rifler.sidebarState', undefined);
       context.workspaceState.update('rifler.persistedSearchState', undefined);
+      context.workspaceState.update('rifler.searchSessions', undefined);
+      context.workspaceState.update('rifler.pinnedResults', undefined);
       context.globalState.update('rifler.sidebarState', undefined);
       context.globalState.update('rifler.persistedSearchState', undefined);
+      context.globalState.update('rifler.searchSessions', undefined);
+      context.globalState.update('rifler.pinnedResults', undefined);
       stateStore.setSavedState(undefined);
     }
   }
@@ -638,32 +644,42 @@ export async function activate(context: vscode.ExtensionContext) {
       context.workspaceState.update('rifler.searchHistory', undefined);
       context.workspaceState.update('rifler.projectExclusionPreferences', undefined);
       context.workspaceState.update('rifler.previewPanelCollapsed', undefined);
+      context.workspaceState.update('rifler.searchSessions', undefined);
+      context.workspaceState.update('rifler.pinnedResults', undefined);
       context.globalState.update('rifler.sidebarState', undefined);
       context.globalState.update('rifler.persistedSearchState', undefined);
       context.globalState.update('rifler.searchHistory', undefined);
       context.globalState.update('rifler.projectExclusionPreferences', undefined);
       context.globalState.update('rifler.previewPanelCollapsed', undefined);
+      context.globalState.update('rifler.searchSessions', undefined);
+      context.globalState.update('rifler.pinnedResults', undefined);
       if (stateStore) {
         stateStore.setSavedState(undefined);
+        stateStore.clearSearchSessions();
+        stateStore.clearPinnedResultSets();
       }
 
       // Also clear any visible UI state in sidebar/window
       if (sidebarProvider) {
         sidebarProvider.postMessage({ type: 'clearState' });
+        sidebarProvider.postMessage({ type: 'sessions', sessions: [] });
+        sidebarProvider.postMessage({ type: 'pinnedResults', sets: [] });
         sidebarProvider.postMessage({ type: 'focusSearch' });
         sidebarProvider.sendCurrentDirectory();
         sidebarProvider.sendModules();
       }
       if (bottomProvider) {
         bottomProvider.postMessage({ type: 'clearState' });
+        bottomProvider.postMessage({ type: 'sessions', sessions: [] });
+        bottomProvider.postMessage({ type: 'pinnedResults', sets: [] });
         bottomProvider.postMessage({ type: 'focusSearch' });
         bottomProvider.sendCurrentDirectory();
         bottomProvider.sendModules();
       }
       if (panelManager) {
-        const panel = panelManager.panel;
-        if (panel) {
+        for (const panel of panelManager.allPanels) {
           panel.webview.postMessage({ type: 'clearState' });
+          panel.webview.postMessage({ type: 'pinnedResults', sets: [] });
           panel.webview.postMessage({ type: 'focusSearch' });
           sendCurrentDirectory(panel);
           sendModulesList(panel);
@@ -687,8 +703,8 @@ export async function activate(context: vscode.ExtensionContext) {
       if (bottomProvider) {
         bottomProvider.postMessage({ type: 'clearLspCache' });
       }
-      if (panelManager?.panel) {
-        panelManager.panel.webview.postMessage({ type: 'clearLspCache' });
+      for (const panel of panelManager?.allPanels ?? []) {
+        panel.webview.postMessage({ type: 'clearLspCache' });
       }
     })
   );
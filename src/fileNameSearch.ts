@@ -0,0 +1,168 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { SearchResult } from './utils';
+
+export interface FuzzyPathMatch {
+  score: number;
+  /** Indexes of the matched characters in the path */
+  positions: number[];
+}
+
+export interface FileCandidate {
+  filePath: string;
+  relativePath: string;
+}
+
+const WORD_SEPARATORS = '/\\_-. ';
+
+// Scores for one matched character, in the spirit of VS Code's quick open
+const MATCH_SCORE = 1;
+const EXACT_CASE_BONUS = 1;
+const CONSECUTIVE_BONUS = 5;
+const SEPARATOR_BONUS = 8;
+const CAMEL_CASE_BONUS = 7;
+const BASENAME_BONUS = 15;
+
+function characterBonus(target: string, index: number): number {
+  if (index === 0) return SEPARATOR_BONUS;
+  const previous = target[index - 1];
+  if (WORD_SEPARATORS.includes(previous)) return SEPARATOR_BONUS;
+  const current = target[index];
+  if (previous === previous.toLowerCase() && previous !== previous.toUpperCase() && current !== current.toLowerCase()) {
+    return CAMEL_CASE_BONUS;
+  }
+  return 0;
+}
+
+/**
+ * Best-scoring way to match every character of `pattern` in order within `target`, or
+ * undefined when it is not a subsequence. Both are already normalized.
+ */
+function scoreSubsequence(pattern: string, target: string): FuzzyPathMatch | undefined {
+  const q = pattern.toLowerCase();
+  const t = target.toLowerCase();
+
+  // Cheap subsequence check before scoring
+  let scan = 0;
+  for (const ch of q) {
+    scan = t.indexOf(ch, scan);
+    if (scan === -1) return undefined;
+    scan++;
+  }
+
+  const n = q.length;
+  const m = t.length;
+  // best[i * m + j]: best score with query[i] matched at target[j]; from[]: where query[i - 1] matched
+  const best = new Float64Array(n * m).fill(-Infinity);
+  const from = new Int32Array(n * m).fill(-1);
+  for (let i = 0; i < n; i++) {
+    let prefixBest = -Infinity;
+    let prefixIndex = -1;
+    for (let j = i; j < m; j++) {
+      if (i > 0 && j >= 2 && best[(i - 1) * m + j - 2] > prefixBest) {
+        prefixBest = best[(i - 1) * m + j - 2];
+        prefixIndex = j - 2;
+      }
+      if (t[j] !== q[i]) continue;
+      const score = MATCH_SCORE + characterBonus(target, j) + (target[j] === pattern[i] ? EXACT_CASE_BONUS : 0);
+      if (i === 0) {
+        best[j] = score;
+        continue;
+      }
+      const consecutive = best[(i - 1) * m + j - 1] + CONSECUTIVE_BONUS;
+      if (consecutive >= prefixBest && consecutive > -Infinity) {
+        best[i * m + j] = consecutive + score;
+        from[i * m + j] = j - 1;
+      } else if (prefixBest > -Infinity) {
+        best[i * m + j] = prefixBest + score;
+        from[i * m + j] = prefixIndex;
+      }
+    }
+  }
+
+  let end = -1;
+  for (let j = n - 1; j < m; j++) {
+    if (best[(n - 1) * m + j] > -Infinity && (end === -1 || best[(n - 1) * m + j] > best[(n - 1) * m + end])) {
+      end = j;
+    }
+  }
+  if (end === -1) return undefined;
+
+  const positions: number[] = new Array(n);
+  for (let i = n - 1, j = end; i >= 0; j = from[i * m + j], i--) {
+    positions[i] = j;
+  }
+  return { score: best[(n - 1) * m + end], positions };
+}
+
+/**
+ * Fuzzy-match a query against a file path: every query character must appear in order,
+ * ignoring case, whitespace and the kind of path separator. Matches at word starts and
+ * consecutive runs score higher, and a query that fits in the file name alone is matched
+ * there first. Returns undefined when the path does not match.
+ */
+export function fuzzyMatchPath(query: string, target: string): FuzzyPathMatch | undefined {
+  const pattern = query.replace(/\s+/g, '').replace(/\\/g, '/');
+  if (!pattern) return undefined;
+  const normalizedTarget = target.replace(/\\/g, '/');
+
+  const basenameStart = normalizedTarget.lastIndexOf('/') + 1;
+  const inBasename = scoreSubsequence(pattern, normalizedTarget.slice(basenameStart));
+  if (inBasename) {
+    return {
+      score: inBasename.score + BASENAME_BONUS,
+      positions: inBasename.positions.map((p) => p + basenameStart),
+    };
+  }
+  return scoreSubsequence(pattern, normalizedTarget);
+}
+
+/** Adjacent positions joined into ranges */
+function toRanges(positions: number[]): Array<{ start: number; end: number }> {
+  const ranges: Array<{ start: number; end: number }> = [];
+  for (const position of positions) {
+    const last = ranges[ranges.length - 1];
+    if (last && last.end === position) {
+      last.end++;
+    } else {
+      ranges.push({ start: position, end: position + 1 });
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Rank files by how well their relative path matches the query, best first. Ties go to
+ * the shorter path. Each file becomes one result whose preview is the path, with the
+ * matched characters as preview ranges.
+ */
+export function rankFileNames(files: FileCandidate[], query: string, maxResults: number): SearchResult[] {
+  const ranked: Array<FileCandidate & FuzzyPathMatch> = [];
+  for (const file of files) {
+    const match = fuzzyMatchPath(query, file.relativePath);
+    if (match) {
+      ranked.push({ ...file, ...match });
+    }
+  }
+  ranked.sort((a, b) =>
+    b.score - a.score ||
+    a.relativePath.length - b.relativePath.length ||
+    a.relativePath.localeCompare(b.relativePath)
+  );
+
+  return ranked.slice(0, maxResults).map((file) => {
+    const ranges = toRanges(file.positions);
+    return {
+      uri: vscode.Uri.file(file.filePath).toString(),
+      fileName: path.basename(file.filePath),
+      relativePath: file.relativePath,
+      line: 0,
+      character: 0,
+      length: 0,
+      preview: file.relativePath,
+      matchCount: 1,
+      previewMatchRange: ranges[0],
+      previewMatchRanges: ranges,
+    };
+  });
+}
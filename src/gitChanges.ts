@@ -0,0 +1,94 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { execFile } from 'child_process';
+
+const GIT_TIMEOUT_MS = 10000;
+const GIT_MAX_BUFFER = 16 * 1024 * 1024;
+
+function runGit(args: string[], cwd: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile('git', args, { cwd, timeout: GIT_TIMEOUT_MS, maxBuffer: GIT_MAX_BUFFER }, (error, stdout) => {
+      if (error) {
+        reject(error);
+        return;
+      }
+      resolve(stdout);
+    });
+  });
+}
+
+/**
+ * Whether a base ref is safe to pass to git: no leading dash (so it cannot be read
+ * as an option) and only characters that appear in branch, tag and revision names.
+ */
+export function isValidGitRef(ref: string): boolean {
+  return /^[A-Za-z0-9_./~^@{}][A-Za-z0-9_./~^@{}-]*$/.test(ref) && !ref.includes('..');
+}
+
+/**
+ * Paths (relative to the repository root) of files with uncommitted changes, from
+ * `git status --porcelain -z`. Deleted files are left out since there is nothing to search.
+ */
+export function parseGitStatus(output: string): string[] {
+  const entries = output.split('\0');
+  const files: string[] = [];
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (entry.length < 4) continue;
+    const status = entry.slice(0, 2);
+    // Renames and copies are followed by the original path
+    if (status.includes('R') || status.includes('C')) {
+      i++;
+    }
+    if (status.includes('D')) continue;
+    files.push(entry.slice(3));
+  }
+  return files;
+}
+
+/** Paths from `git diff --name-only -z` output */
+export function parseGitNameOnly(output: string): string[] {
+  return output.split('\0').filter((entry) => entry.length > 0);
+}
+
+async function getChangedFilesInFolder(folderPath: string, base: string): Promise<string[]> {
+  const repoRoot = (await runGit(['rev-parse', '--show-toplevel'], folderPath)).trim();
+  if (!repoRoot) {
+    return [];
+  }
+
+  const relativePaths = base
+    ? parseGitNameOnly(await runGit(['diff', '--name-only', '-z', '--diff-filter=d', base, '--'], repoRoot))
+    : parseGitStatus(await runGit(['status', '--porcelain', '-z', '--untracked-files=all'], repoRoot));
+
+  const folder = path.resolve(folderPath);
+  return relativePaths
+    .map((p) => path.resolve(repoRoot, p))
+    // A workspace folder can be a subdirectory of the repository
+    .filter((p) => p === folder || p.startsWith(folder + path.sep));
+}
+
+/**
+ * Absolute paths of changed files in every workspace folder that is inside a git repository:
+ * uncommitted changes (including untracked files) when `base` is empty, otherwise the files
+ * that differ from `base`. Folders without git are skipped.
+ */
+export async function getChangedFiles(base?: string): Promise<string[]> {
+  const trimmedBase = (base || '').trim();
+  if (trimmedBase && !isValidGitRef(trimmedBase)) {
+    console.warn(`[Rifler] Ignoring invalid git base "${trimmedBase}"`);
+    return [];
+  }
+
+  const files = new Set<string>();
+  for (const folder of vscode.workspace.workspaceFolders || []) {
+    try {
+      for (const file of await getChangedFilesInFolder(folder.uri.fsPath, trimmedBase)) {
+        files.add(file);
+      }
+    } catch (error) {
+      console.warn(`[Rifler] Could not list changed files in ${folder.uri.fsPath}:`, error);
+    }
+  }
+  return [...files];
+}
@@ -0,0 +1,198 @@
+import Parser from 'web-tree-sitter';
+import { LexedLine } from './codeCategories';
+
+type Range = { start: number; end: number };
+
+type GrammarConfig = {
+  /** Name of the grammar in tree-sitter-wasms, as in `tree-sitter-<name>.wasm` */
+  wasm: string;
+  commentTypes: string[];
+  stringTypes: string[];
+  /** Code inside a string, such as `${expr}` or `#{expr}` */
+  interpolationTypes?: string[];
+  /** String nodes that start on the line of their opening token, like Ruby heredoc bodies */
+  stringsFromNextLine?: string[];
+};
+
+type Segment = {
+  kind: 'code' | 'comment' | 'string';
+  start: Parser.Point;
+  end: Parser.Point;
+};
+
+const GRAMMAR_CONFIGS: Record<string, GrammarConfig> = {
+  go: {
+    wasm: 'go',
+    commentTypes: ['comment'],
+    stringTypes: ['interpreted_string_literal', 'raw_string_literal', 'rune_literal']
+  },
+  rust: {
+    wasm: 'rust',
+    commentTypes: ['line_comment', 'block_comment'],
+    stringTypes: ['string_literal', 'raw_string_literal', 'char_literal']
+  },
+  csharp: {
+    wasm: 'c_sharp',
+    commentTypes: ['comment'],
+    stringTypes: [
+      'string_literal',
+      'verbatim_string_literal',
+      'raw_string_literal',
+      'interpolated_string_expression',
+      'character_literal'
+    ],
+    interpolationTypes: ['interpolation']
+  },
+  kotlin: {
+    wasm: 'kotlin',
+    commentTypes: ['line_comment', 'multiline_comment'],
+    stringTypes: ['string_literal', 'character_literal'],
+    interpolationTypes: ['interpolated_expression', 'interpolated_identifier']
+  },
+  ruby: {
+    wasm: 'ruby',
+    commentTypes: ['comment'],
+    stringTypes: [
+      'string',
+      'subshell',
+      'regex',
+      'character',
+      'string_array',
+      'symbol_array',
+      'heredoc_beginning',
+      'heredoc_body'
+    ],
+    interpolationTypes: ['interpolation'],
+    stringsFromNextLine: ['heredoc_body']
+  }
+};
+
+let parserReady: Promise<void> | undefined;
+const parsers = new Map<string, Promise<Parser | undefined>>();
+
+/**
+ * Comment and string ranges of every line, read from the language's tree-sitter grammar.
+ * Returns undefined for languages without a bundled grammar, or when it fails to load,
+ * so the caller can fall back to the line-based parser.
+ */
+export async function parseGrammarLineContexts(content: string, lines: string[], languageId: string): Promise<LexedLine[] | undefined> {
+  const config = GRAMMAR_CONFIGS[languageId];
+  const parser = config ? await getParser(languageId, config) : undefined;
+  if (!config || !parser) {
+    return undefined;
+  }
+
+  const tree = parser.parse(content);
+  try {
+    return toLineContexts(collectSegments(tree, config), lines);
+  } finally {
+    // Trees live in the grammar's WebAssembly memory, not the JS heap
+    tree.delete();
+  }
+}
+
+function getParser(languageId: string, config: GrammarConfig): Promise<Parser | undefined> {
+  let parser = parsers.get(languageId);
+  if (!parser) {
+    parser = loadParser(config);
+    parsers.set(languageId, parser);
+  }
+  return parser;
+}
+
+async function loadParser(config: GrammarConfig): Promise<Parser | undefined> {
+  try {
+    parserReady ??= Parser.init();
+    await parserReady;
+    const language = await Parser.Language.load(require.resolve(`tree-sitter-wasms/out/tree-sitter-${config.wasm}.wasm`));
+    const parser = new Parser();
+    parser.setLanguage(language);
+    return parser;
+  } catch (error) {
+    console.warn(`[Rifler] Could not load the ${config.wasm} grammar; using the line-based parser:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Comment, string and interpolated code nodes in document order. A node listed later
+ * lies inside an earlier one and takes precedence over it.
+ */
+function collectSegments(tree: Parser.Tree, config: GrammarConfig): Segment[] {
+  const segments: Segment[] = [];
+  const cursor = tree.walk();
+  try {
+    let descend = true;
+    while (true) {
+      const type = cursor.nodeType;
+      if (descend) {
+        if (config.commentTypes.includes(type)) {
+          segments.push({ kind: 'comment', start: cursor.startPosition, end: cursor.endPosition });
+          descend = false;
+        } else if (config.stringTypes.includes(type)) {
+          const start = config.stringsFromNextLine?.includes(type) && cursor.startPosition.column > 0
+            ? { row: cursor.startPosition.row + 1, column: 0 }
+            : cursor.startPosition;
+          segments.push({ kind: 'string', start, end: cursor.endPosition });
+        } else if (config.interpolationTypes?.includes(type)) {
+          segments.push({ kind: 'code', start: cursor.startPosition, end: cursor.endPosition });
+        }
+      }
+      if (descend && cursor.gotoFirstChild()) {
+        continue;
+      }
+      if (cursor.gotoNextSibling()) {
+        descend = true;
+        continue;
+      }
+      if (!cursor.gotoParent()) {
+        break;
+      }
+      descend = false;
+    }
+  } finally {
+    cursor.delete();
+  }
+  return segments;
+}
+
+function toLineContexts(segments: Segment[], lines: string[]): LexedLine[] {
+  const segmentsByLine: Array<Array<Range & { kind: Segment['kind'] }>> = lines.map(() => []);
+  for (const segment of segments) {
+    for (let row = segment.start.row; row <= segment.end.row && row < lines.length; row++) {
+      const start = row === segment.start.row ? segment.start.column : 0;
+      const end = row === segment.end.row ? Math.min(segment.end.column, lines[row].length) : lines[row].length;
+      if (end > start) {
+        segmentsByLine[row].push({ kind: segment.kind, start, end });
+      }
+    }
+  }
+  return segmentsByLine.map(resolveLine);
+}
+
+/** Flatten the overlapping segments of a line, letting inner ones win */
+function resolveLine(segments: Array<Range & { kind: Segment['kind'] }>): LexedLine {
+  const context: LexedLine = { commentRanges: [], stringRanges: [] };
+  const points = Array.from(new Set(segments.flatMap((s) => [s.start, s.end]))).sort((a, b) => a - b);
+  for (let i = 0; i + 1 < points.length; i++) {
+    const start = points[i];
+    const end = points[i + 1];
+    let kind: Segment['kind'] = 'code';
+    for (const segment of segments) {
+      if (segment.start <= start && segment.end >= end) {
+        kind = segment.kind;
+      }
+    }
+    if (kind === 'code') {
+      continue;
+    }
+    const ranges = kind === 'comment' ? context.commentRanges : context.stringRanges;
+    const last = ranges[ranges.length - 1];
+    if (last && last.end === start) {
+      last.end = end;
+    } else {
+      ranges.push({ start, end });
+    }
+  }
+  return context;
+}
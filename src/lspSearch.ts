@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { SearchResult } from './utils';
+import { HierarchyNode, SearchResult, SymbolKindFilter } from './utils';
+import { ReplaceTransaction, captureReplaceEdits, completeReplaceTransaction } from './replaceHistory';
 
 // ============================================================================
 // URI Conversion
@@ -41,7 +42,26 @@ function uriToFsPath(uri: string): string {
 // Types
 // ============================================================================
 
-export type LspSearchMode = 'references' | 'definitions' | 'implementations' | 'typeDefinitions';
+/** Modes that list a tree of related symbols instead of locations of the symbol itself */
+export type HierarchyMode = 'incomingCalls' | 'outgoingCalls' | 'supertypes' | 'subtypes';
+
+/**
+ * `referencesAndText` runs the reference provider plus a whole-word text search for the
+ * symbol name; on its own, executeLspSearch returns only the references.
+ */
+export type LspSearchMode =
+  | 'references'
+  | 'referencesAndText'
+  | 'definitions'
+  | 'implementations'
+  | 'typeDefinitions'
+  | HierarchyMode;
+
+export const HIERARCHY_MODES: HierarchyMode[] = ['incomingCalls', 'outgoingCalls', 'supertypes', 'subtypes'];
+
+export function isHierarchyMode(mode: string): mode is HierarchyMode {
+  return (HIERARCHY_MODES as string[]).includes(mode);
+}
 
 export interface SymbolInfo {
   symbolName: string;
@@ -86,12 +106,173 @@ export function getSymbolAtCursor(): SymbolInfo | null {
   };
 }
 
+// ============================================================================
+// Symbol Lookup by Name
+// ============================================================================
+
+/** A declaration found by name through the workspace symbol providers */
+export interface SymbolCandidate {
+  name: string;
+  kind: vscode.SymbolKind;
+  containerName: string;
+  location: vscode.Location;
+}
+
+// The declaration picked when a typed name last matched several; reused for the same name
+let lastPickedSymbol: { name: string; key: string } | undefined;
+
+function candidateKey(candidate: SymbolCandidate): string {
+  const { start } = candidate.location.range;
+  return `${candidate.location.uri.toString()}:${start.line}:${start.character}`;
+}
+
+function describeSymbolKind(kind: vscode.SymbolKind): string {
+  return (Object.keys(SYMBOL_KINDS) as SymbolKindFilter[]).find((filter) => SYMBOL_KINDS[filter].includes(kind)) || 'symbol';
+}
+
+function findWord(text: string, word: string, from: number): number {
+  for (let index = text.indexOf(word, from); index !== -1; index = text.indexOf(word, index + 1)) {
+    const before = text[index - 1];
+    const after = text[index + word.length];
+    if (!(before && /[\w$]/.test(before)) && !(after && /[\w$]/.test(after))) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Declarations named exactly `name`, found through the workspace symbol providers.
+ * Case is ignored only when no symbol matches with it.
+ */
+export async function findSymbolsByName(name: string): Promise<SymbolCandidate[]> {
+  let symbols: vscode.SymbolInformation[] | undefined;
+  try {
+    symbols = await vscode.commands.executeCommand('vscode.executeWorkspaceSymbolProvider', name);
+  } catch (error) {
+    console.error('[Rifler LSP] Error executing vscode.executeWorkspaceSymbolProvider:', error);
+    return [];
+  }
+
+  const located = (symbols || []).filter((symbol) => symbol?.location?.uri);
+  const exact = located.filter((symbol) => symbol.name === name);
+  const matches = exact.length > 0
+    ? exact
+    : located.filter((symbol) => symbol.name.toLowerCase() === name.toLowerCase());
+
+  const seen = new Set<string>();
+  return matches
+    .map((symbol) => ({
+      name: symbol.name,
+      kind: symbol.kind,
+      containerName: symbol.containerName || '',
+      location: symbol.location,
+    }))
+    .filter((candidate) => {
+      const key = candidateKey(candidate);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Choose among declarations that share a name: the only one, the one picked last time for
+ * this name, or the one the user picks from a list. Undefined when the list is dismissed.
+ */
+export async function pickSymbolCandidate(
+  name: string,
+  candidates: SymbolCandidate[]
+): Promise<SymbolCandidate | undefined> {
+  if (candidates.length <= 1) {
+    return candidates[0];
+  }
+  const remembered = lastPickedSymbol?.name === name
+    ? candidates.find((candidate) => candidateKey(candidate) === lastPickedSymbol?.key)
+    : undefined;
+  if (remembered) {
+    return remembered;
+  }
+
+  const wsRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? '';
+  const picked = await vscode.window.showQuickPick(
+    candidates.map((candidate) => {
+      const fsPath = uriToFsPath(candidate.location.uri.toString());
+      return {
+        label: candidate.name,
+        description: [describeSymbolKind(candidate.kind), candidate.containerName].filter(Boolean).join(' · '),
+        detail: `${wsRoot ? path.relative(wsRoot, fsPath) : fsPath}:${candidate.location.range.start.line + 1}`,
+        candidate,
+      };
+    }),
+    {
+      placeHolder: `Several symbols are named "${name}". Pick the one to search.`,
+      matchOnDescription: true,
+      matchOnDetail: true,
+    }
+  );
+  if (!picked) {
+    return undefined;
+  }
+  lastPickedSymbol = { name, key: candidateKey(picked.candidate) };
+  return picked.candidate;
+}
+
+/**
+ * Where a candidate's name is, so LSP searches can run against it. Providers often report
+ * the range of the whole declaration, so the name is looked up in its first lines.
+ */
+export async function resolveSymbolCandidate(candidate: SymbolCandidate): Promise<SymbolInfo | null> {
+  try {
+    const doc = await vscode.workspace.openTextDocument(candidate.location.uri);
+    const { start, end } = candidate.location.range;
+    let position: vscode.Position = start;
+    for (let line = start.line; line <= Math.min(end.line, start.line + 50); line++) {
+      const index = findWord(doc.lineAt(line).text, candidate.name, line === start.line ? start.character : 0);
+      if (index !== -1) {
+        position = new vscode.Position(line, index);
+        break;
+      }
+    }
+    return {
+      symbolName: candidate.name,
+      uri: candidate.location.uri,
+      position,
+      languageId: doc.languageId,
+    };
+  } catch (error) {
+    console.warn(`[Rifler LSP] Failed to open ${candidate.location.uri.toString()}:`, error);
+    return null;
+  }
+}
+
+/**
+ * The symbol an LSP search runs against: the one under the cursor, unless a different name
+ * was typed, which is then looked up through the workspace symbol providers. Returns null
+ * when nothing matches, and undefined when the user dismissed the disambiguation list.
+ */
+export async function resolveLspSymbol(query?: string): Promise<SymbolInfo | null | undefined> {
+  const atCursor = getSymbolAtCursor();
+  const name = (query || '').trim();
+  if (!name || atCursor?.symbolName === name) {
+    return atCursor;
+  }
+
+  const candidates = await findSymbolsByName(name);
+  if (candidates.length === 0) {
+    return null;
+  }
+  const picked = await pickSymbolCandidate(name, candidates);
+  return picked ? resolveSymbolCandidate(picked) : undefined;
+}
+
 // ============================================================================
 // LSP Command Mapping
 // ============================================================================
 
-const LSP_COMMANDS: Record<LspSearchMode, string> = {
+const LSP_COMMANDS: Record<Exclude<LspSearchMode, HierarchyMode>, string> = {
   references: 'vscode.executeReferenceProvider',
+  referencesAndText: 'vscode.executeReferenceProvider',
   definitions: 'vscode.executeDefinitionProvider',
   implementations: 'vscode.executeImplementationProvider',
   typeDefinitions: 'vscode.executeTypeDefinitionProvider',
@@ -110,6 +291,10 @@ export async function executeLspSearch(
   position: vscode.Position,
   mode: LspSearchMode
 ): Promise<SearchResult[]> {
+  if (isHierarchyMode(mode)) {
+    return executeHierarchySearch(uri, position, mode);
+  }
+
   const command = LSP_COMMANDS[mode];
   if (!command) {
     console.warn(`[Rifler LSP] Unknown LSP mode: ${mode}`);
@@ -134,6 +319,265 @@ export async function executeLspSearch(
   }
 }
 
+// ============================================================================
+// References + Text
+// ============================================================================
+
+function locationKey(uri: string, line: number, character: number): string {
+  const fsPath = uriToFsPath(uri);
+  return `${process.platform === 'win32' ? fsPath.toLowerCase() : fsPath}:${line}:${character}`;
+}
+
+/** One result per match of a text search line, so each hit can be tagged on its own */
+function splitTextMatches(result: SearchResult): SearchResult[] {
+  const ranges = result.matchRanges?.length
+    ? result.matchRanges
+    : [{ start: result.character, end: result.character + result.length }];
+  // Column where the preview starts; text results may show only a slice of a long line
+  const previewStart = result.character - result.previewMatchRange.start;
+  return ranges.map((range) => {
+    const previewRange = {
+      start: Math.max(0, range.start - previewStart),
+      end: Math.min(result.preview.length, range.end - previewStart),
+    };
+    return {
+      ...result,
+      character: range.start,
+      length: range.end - range.start,
+      matchCount: 1,
+      matchRanges: [range],
+      previewMatchRange: previewRange,
+      previewMatchRanges: [previewRange],
+    };
+  });
+}
+
+/**
+ * Merge reference results with text search results for the symbol name. References are
+ * tagged `semantic`; text matches the language server did not report are tagged `textual`.
+ * Both are split into one result per match and sorted by file, line and column.
+ */
+export function mergeReferenceResults(semantic: SearchResult[], textual: SearchResult[]): SearchResult[] {
+  const merged: SearchResult[] = semantic.map((r) => ({ ...r, origin: 'semantic' as const }));
+  const seen = new Set(semantic.map((r) => locationKey(r.uri, r.line, r.character)));
+  for (const result of textual) {
+    for (const match of splitTextMatches(result)) {
+      const key = locationKey(match.uri, match.line, match.character);
+      if (!seen.has(key)) {
+        seen.add(key);
+        merged.push({ ...match, origin: 'textual' });
+      }
+    }
+  }
+  return merged.sort((a, b) =>
+    a.relativePath.localeCompare(b.relativePath) ||
+    a.line - b.line ||
+    a.character - b.character
+  );
+}
+
+// ============================================================================
+// Call / Type Hierarchy
+// ============================================================================
+
+type HierarchyItem = vscode.CallHierarchyItem | vscode.TypeHierarchyItem;
+
+const HIERARCHY_COMMANDS: Record<HierarchyMode, { prepare: string; children: string }> = {
+  incomingCalls: { prepare: 'vscode.prepareCallHierarchy', children: 'vscode.provideIncomingCalls' },
+  outgoingCalls: { prepare: 'vscode.prepareCallHierarchy', children: 'vscode.provideOutgoingCalls' },
+  supertypes: { prepare: 'vscode.prepareTypeHierarchy', children: 'vscode.provideSupertypes' },
+  subtypes: { prepare: 'vscode.prepareTypeHierarchy', children: 'vscode.provideSubtypes' },
+};
+
+// Nodes handed to the webview, kept so it can expand them later. Ids are never reused, so
+// results cached in the webview stay expandable until the map is reset.
+const MAX_HIERARCHY_NODES = 10000;
+const hierarchyNodes = new Map<string, { item: HierarchyItem; mode: HierarchyMode; depth: number }>();
+let nextHierarchyNodeId = 0;
+
+/**
+ * The items one level below `item`, each with the places the relation shows: call sites
+ * for calls, and the declaration itself for types.
+ */
+async function getHierarchyChildren(
+  item: HierarchyItem,
+  mode: HierarchyMode
+): Promise<Array<{ item: HierarchyItem; locations: vscode.Location[] }>> {
+  const raw = await vscode.commands.executeCommand<unknown[] | undefined>(HIERARCHY_COMMANDS[mode].children, item) || [];
+  let children: Array<{ item: HierarchyItem; locations: vscode.Location[] }>;
+  if (mode === 'incomingCalls') {
+    children = (raw as vscode.CallHierarchyIncomingCall[]).map((call) => ({
+      item: call.from,
+      locations: call.fromRanges.map((range) => new vscode.Location(call.from.uri, range)),
+    }));
+  } else if (mode === 'outgoingCalls') {
+    // Outgoing call sites are in the calling item's file
+    children = (raw as vscode.CallHierarchyOutgoingCall[]).map((call) => ({
+      item: call.to,
+      locations: call.fromRanges.map((range) => new vscode.Location(item.uri, range)),
+    }));
+  } else {
+    children = (raw as vscode.TypeHierarchyItem[]).map((type) => ({ item: type, locations: [] }));
+  }
+  return children.map((child) => ({
+    item: child.item,
+    locations: child.locations.length > 0
+      ? child.locations
+      : [new vscode.Location(child.item.uri, child.item.selectionRange)],
+  }));
+}
+
+async function collectHierarchyLevel(
+  item: HierarchyItem,
+  mode: HierarchyMode,
+  depth: number,
+  parentId?: string
+): Promise<SearchResult[]> {
+  const results: SearchResult[] = [];
+  for (const child of await getHierarchyChildren(item, mode)) {
+    const id = String(++nextHierarchyNodeId);
+    hierarchyNodes.set(id, { item: child.item, mode, depth });
+    const node: HierarchyNode = { id, parentId, depth, name: child.item.name, detail: child.item.detail || undefined };
+    const mapped = await mapLocationsToSearchResults(child.locations);
+    results.push(...mapped.map((result) => ({ ...result, hierarchy: node })));
+  }
+  return results;
+}
+
+/**
+ * Run a call or type hierarchy search for the symbol at a position: its direct callers,
+ * callees, supertypes or subtypes. Results are grouped by the node they belong to, in
+ * tree order; pass a node's id to `expandHierarchyNode` to load the next level.
+ */
+export async function executeHierarchySearch(
+  uri: vscode.Uri,
+  position: vscode.Position,
+  mode: HierarchyMode
+): Promise<SearchResult[]> {
+  const { prepare } = HIERARCHY_COMMANDS[mode];
+  if (hierarchyNodes.size > MAX_HIERARCHY_NODES) {
+    hierarchyNodes.clear();
+  }
+
+  try {
+    const roots: HierarchyItem[] | undefined = await vscode.commands.executeCommand(prepare, uri, position);
+    if (!roots || roots.length === 0) {
+      return [];
+    }
+
+    const results: SearchResult[] = [];
+    for (const root of roots) {
+      results.push(...await collectHierarchyLevel(root, mode, 1));
+    }
+    return results;
+  } catch (error) {
+    console.error(`[Rifler LSP] Error executing ${prepare}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Load the level below a node returned by a hierarchy search. Returns undefined when the
+ * node is no longer known, e.g. after the extension restarted.
+ */
+export async function expandHierarchyNode(nodeId: string): Promise<SearchResult[] | undefined> {
+  const node = hierarchyNodes.get(nodeId);
+  if (!node) {
+    return undefined;
+  }
+
+  try {
+    return await collectHierarchyLevel(node.item, node.mode, node.depth + 1, nodeId);
+  } catch (error) {
+    console.error(`[Rifler LSP] Error expanding ${node.mode} for "${node.item.name}":`, error);
+    return [];
+  }
+}
+
+// ============================================================================
+// Workspace Symbol Search
+// ============================================================================
+
+const SYMBOL_KINDS: Record<SymbolKindFilter, vscode.SymbolKind[]> = {
+  class: [vscode.SymbolKind.Class, vscode.SymbolKind.Struct],
+  interface: [vscode.SymbolKind.Interface],
+  function: [vscode.SymbolKind.Function],
+  method: [vscode.SymbolKind.Method, vscode.SymbolKind.Constructor],
+  property: [vscode.SymbolKind.Property, vscode.SymbolKind.Field],
+  variable: [vscode.SymbolKind.Variable, vscode.SymbolKind.Constant],
+  enum: [vscode.SymbolKind.Enum, vscode.SymbolKind.EnumMember],
+  module: [vscode.SymbolKind.Module, vscode.SymbolKind.Namespace, vscode.SymbolKind.Package],
+};
+
+/**
+ * Point a symbol result at the symbol's name. Providers often report the range of the
+ * whole declaration, which may span several lines.
+ */
+function narrowToSymbolName(result: SearchResult, name: string, singleLine: boolean): SearchResult {
+  const nameStart = name ? result.preview.indexOf(name, result.character) : -1;
+  const start = nameStart >= 0 ? nameStart : result.character;
+  const end = nameStart >= 0
+    ? nameStart + name.length
+    : singleLine ? result.character + result.length : result.preview.length;
+  return { ...result, character: start, length: end - start, previewMatchRange: { start, end } };
+}
+
+/**
+ * Look up a query with the workspace symbol providers. Only symbols of the given kinds
+ * are kept (all kinds when none are given), and only in files `include` accepts. Exact
+ * and prefix name matches come first; otherwise the providers' order is kept.
+ */
+export async function executeWorkspaceSymbolSearch(
+  query: string,
+  kinds: SymbolKindFilter[] = [],
+  maxResults = 500,
+  include: (uri: vscode.Uri) => boolean = () => true
+): Promise<SearchResult[]> {
+  let symbols: vscode.SymbolInformation[] | undefined;
+  try {
+    symbols = await vscode.commands.executeCommand('vscode.executeWorkspaceSymbolProvider', query);
+  } catch (error) {
+    console.error('[Rifler LSP] Error executing vscode.executeWorkspaceSymbolProvider:', error);
+    return [];
+  }
+  if (!symbols || symbols.length === 0) {
+    return [];
+  }
+
+  const allowedKinds = new Set(kinds.flatMap((kind) => SYMBOL_KINDS[kind] || []));
+  const needle = query.trim().toLowerCase();
+  const rank = (name: string): number => {
+    const lower = name.toLowerCase();
+    return lower === needle ? 0 : lower.startsWith(needle) ? 1 : 2;
+  };
+  const seen = new Set<string>();
+  const picked = symbols
+    .filter((symbol) => symbol?.location?.uri && (allowedKinds.size === 0 || allowedKinds.has(symbol.kind)))
+    .filter((symbol) => include(symbol.location.uri))
+    .map((symbol, index) => ({ symbol, index, rank: rank(symbol.name) }))
+    .sort((a, b) => a.rank - b.rank || a.index - b.index)
+    .map(({ symbol }) => symbol)
+    .filter((symbol) => {
+      // Several providers can report the same declaration
+      const { start } = symbol.location.range;
+      const key = `${symbol.location.uri.toString()}:${start.line}:${start.character}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, maxResults);
+
+  const results: SearchResult[] = [];
+  for (const symbol of picked) {
+    const [result] = await mapLocationsToSearchResults([symbol.location]);
+    if (result) {
+      const { start, end } = symbol.location.range;
+      results.push(narrowToSymbolName(result, symbol.name, start.line === end.line));
+    }
+  }
+  return results;
+}
+
 // ============================================================================
 // Location Mapping
 // ============================================================================
@@ -223,8 +667,15 @@ export async function lspReplaceAll(
   uri: vscode.Uri,
   position: vscode.Position,
   mode: LspSearchMode,
-  replaceText: string
-): Promise<{ replacedCount: number; results: SearchResult[] }> {
+  replaceText: string,
+  label = `Replace usages with "${replaceText}"`
+): Promise<{ replacedCount: number; results: SearchResult[]; transaction?: ReplaceTransaction }> {
+  // Hierarchy results are other symbols' call sites and declarations, not usages of this one
+  if (isHierarchyMode(mode)) {
+    console.warn(`[Rifler LSP] Replace is not supported for ${mode}`);
+    return { replacedCount: 0, results: [] };
+  }
+
   const results = await executeLspSearch(uri, position, mode);
 
   if (results.length === 0) {
@@ -232,6 +683,7 @@ export async function lspReplaceAll(
   }
 
   const edit = new vscode.WorkspaceEdit();
+  const plannedEdits: Array<{ uri: string; range: vscode.Range; text: string }> = [];
   for (const result of results) {
     const resultUri = vscode.Uri.parse(result.uri);
     const range = new vscode.Range(
@@ -241,8 +693,11 @@ export async function lspReplaceAll(
       result.character + result.length
     );
     edit.replace(resultUri, range, replaceText);
+    plannedEdits.push({ uri: result.uri, range, text: replaceText });
   }
 
+  const documents = new Map<string, vscode.TextDocument>();
+  const captured = await captureReplaceEdits(plannedEdits, documents);
   const success = await vscode.workspace.applyEdit(edit);
   if (!success) {
     console.error('[Rifler LSP] Failed to apply bulk replace edit');
@@ -253,14 +708,15 @@ export async function lspReplaceAll(
   const affectedUris = new Set(results.map((r) => r.uri));
   for (const uriStr of affectedUris) {
     try {
-      const doc = await vscode.workspace.openTextDocument(vscode.Uri.parse(uriStr));
+      const doc = documents.get(uriStr) ?? await vscode.workspace.openTextDocument(vscode.Uri.parse(uriStr));
       await doc.save();
     } catch (error) {
       console.warn(`[Rifler LSP] Failed to save document ${uriStr}:`, error);
     }
   }
+  const transaction = completeReplaceTransaction(captured, label);
 
   // Re-run search to get updated results
   const updatedResults = await executeLspSearch(uri, position, mode);
-  return { replacedCount: results.length, results: updatedResults };
+  return { replacedCount: results.length, results: updatedResults, transaction };
 }
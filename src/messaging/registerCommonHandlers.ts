@@ -1,18 +1,39 @@
 import * as vscode from 'vscode';
 import { MessageHandler } from './handler';
-import { performSearch, SearchOutcome } from '../search';
-import { replaceOne, replaceAll } from '../replacer';
+import {
+  ReplaceOneMessage,
+  PreviewReplaceAllMessage,
+  ApplyReplacePreviewMessage,
+  ExportResultsMessage,
+  SaveSearchMessage,
+  PinResultsMessage,
+  UnpinResultsMessage,
+  RevalidatePinnedResultsMessage,
+  RefineResultsMessage,
+  ValidateRegexMessage,
+} from './types';
+import { performSearch, SearchContinuation, SearchOutcome } from '../search';
+import { replaceOne, replaceAll, buildReplacePreview, applyReplacePreview, ReplacePreview } from '../replacer';
 import { validateRegex, validateFileMask, SearchOptions, SearchScope, SearchResult } from '../utils';
 import { getTelemetryLogger } from '../telemetry';
+import { exportSearchResults } from '../resultsExport';
+import { promptSaveSearch } from '../savedSearches';
+import { createPinnedResultSet, revalidatePinnedResultSet } from '../pinnedResults';
+import { refineSearchResults } from '../refineResults';
+import { applyQueryOperators } from '../queryOperators';
 import { validateDirectoryPath } from '../security/pathValidation';
 import { StateStore } from '../state/StateStore';
 import { detectProjectTypes } from '../projectDetector';
 import {
   getSymbolAtCursor,
+  resolveLspSymbol,
   executeLspSearch,
   checkLspAvailability,
   lspReplaceAll,
+  expandHierarchyNode,
+  mergeReferenceResults,
   LspSearchMode,
+  SymbolInfo,
 } from '../lspSearch';
 
 export interface CommonHandlerDeps {
@@ -27,8 +48,65 @@ export interface CommonHandlerDeps {
 }
 
 let lastSearchTelemetry: Record<string, unknown> | undefined;
+// Each webview the handlers are registered for searches in its own session
+let handlerSessionCount = 0;
+
+/**
+ * Add whole-word, case-sensitive text matches of the symbol name across the project to
+ * its references, tagged by where each hit came from.
+ */
+async function addTextMatches(symbolInfo: SymbolInfo, references: SearchResult[], searchSession: string): Promise<SearchResult[]> {
+  const { results } = await performSearch(
+    symbolInfo.symbolName,
+    'project',
+    { matchCase: true, wholeWord: true, useRegex: false, fileMask: '' },
+    undefined,
+    undefined,
+    undefined,
+    undefined,
+    undefined,
+    undefined,
+    undefined,
+    searchSession
+  );
+  return mergeReferenceResults(references, results);
+}
 
 export function registerCommonHandlers(handler: MessageHandler, deps: CommonHandlerDeps) {
+  // Only the latest preview can be applied; the webview refers to it by id
+  let pendingReplacePreview: { preview: ReplacePreview; message: PreviewReplaceAllMessage } | undefined;
+  // Latest search that stopped early, kept so the webview can ask to continue it
+  let incompleteSearch: { requestId: string; continuation: SearchContinuation } | undefined;
+  const searchSession = `webview-${++handlerSessionCount}`;
+
+  // Search again after a replace the way runSearch does: operators resolved, in this webview's session
+  const refreshResults = async (
+    query: string,
+    scope: SearchScope,
+    options: SearchOptions,
+    directoryPath?: string,
+    modulePath?: string
+  ): Promise<void> => {
+    const resolved = applyQueryOperators(query, scope, options);
+    if (resolved.operators?.errors.length) {
+      return;
+    }
+    const results = await performSearch(
+      resolved.query,
+      resolved.scope,
+      resolved.options,
+      directoryPath,
+      modulePath,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      searchSession
+    );
+    deps.postMessage({ type: 'searchResults', results: results.results, maxResults: 10000 });
+  };
+
   handler.registerHandler('runSearch', async (message) => {
     const msg = message as {
       query: string;
@@ -40,6 +118,7 @@ export function registerCommonHandlers(handler: MessageHandler, deps: CommonHand
       smartExcludesEnabled?: boolean;
       exclusionPatterns?: string;
       requestId?: string;
+      continueFrom?: string;
     };
 
     const telemetryLogger = getTelemetryLogger();
@@ -75,21 +154,47 @@ export function registerCommonHandlers(handler: MessageHandler, deps: CommonHand
       }
     }
 
+    const resolved = applyQueryOperators(msg.query, msg.scope, { ...msg.options, fileMask: mergedFileMask });
+    if (resolved.operators?.errors.length) {
+      // The query box shows the same errors; nothing is searched until they are fixed
+      deps.postMessage({
+        type: 'searchResults',
+        requestId: msg.requestId,
+        results: [],
+        maxResults: effectiveMaxResults,
+        queryError: resolved.operators.errors.join('; ')
+      });
+      return;
+    }
+
+    const continuation = msg.continueFrom && incompleteSearch?.requestId === msg.continueFrom
+      ? incompleteSearch.continuation
+      : undefined;
+    incompleteSearch = undefined;
+
     let results: SearchResult[] = [];
     let searchError: string | undefined;
     let searchOutcome: SearchOutcome | undefined;
     try {
       searchOutcome = await performSearch(
-        msg.query,
-        msg.scope,
-        { ...msg.options, fileMask: mergedFileMask },
+        resolved.query,
+        resolved.scope,
+        resolved.options,
         directoryPath,
         msg.modulePath,
         effectiveMaxResults,
         msg.smartExcludesEnabled ?? true,
+        msg.requestId,
         msg.requestId
+          ? (batch) => deps.postMessage({ type: 'searchResultsBatch', requestId: msg.requestId, results: batch })
+          : undefined,
+        continuation,
+        searchSession
       );
       results = searchOutcome.results;
+      if (searchOutcome.continuation && msg.requestId) {
+        incompleteSearch = { requestId: msg.requestId, continuation: searchOutcome.continuation };
+      }
       console.log('[Rifler] Search returned', results.length, 'results');
     } catch (error) {
       searchError = error instanceof Error ? error.message : String(error);
@@ -106,7 +211,7 @@ export function registerCommonHandlers(handler: MessageHandler, deps: CommonHand
         query_length: msg.query?.length ?? 0,
         search_engine: 'rg',
         scope: msg.scope,
-        search_mode: 'text',
+        search_mode: msg.options.symbols ? 'symbols' : msg.options.fileNames ? 'files' : msg.options.structural ? 'structural' : 'text',
         regex_enabled: !!msg.options.useRegex,
         match_case: !!msg.options.matchCase,
         whole_word: !!msg.options.wholeWord,
@@ -137,7 +242,7 @@ export function registerCommonHandlers(handler: MessageHandler, deps: CommonHand
         query_length: msg.query?.length ?? 0,
         search_engine: 'rg',
         scope: msg.scope,
-        search_mode: 'text',
+        search_mode: msg.options.symbols ? 'symbols' : msg.options.fileNames ? 'files' : msg.options.structural ? 'structural' : 'text',
         regex_enabled: !!msg.options.useRegex,
         match_case: !!msg.options.matchCase,
         whole_word: !!msg.options.wholeWord,
@@ -162,7 +267,7 @@ export function registerCommonHandlers(handler: MessageHandler, deps: CommonHand
       };
     }
 
-    if (deps.stateStore) {
+    if (deps.stateStore && !continuation) {
       deps.stateStore.recordSearch({
         query: msg.query,
         scope: msg.scope,
@@ -172,10 +277,17 @@ export function registerCommonHandlers(handler: MessageHandler, deps: CommonHand
           matchCase: !!msg.options.matchCase,
           wholeWord: !!msg.options.wholeWord,
           useRegex: !!msg.options.useRegex,
+          structural: !!msg.options.structural,
+          fileNames: !!msg.options.fileNames,
+          symbols: !!msg.options.symbols,
+          symbolKinds: msg.options.symbolKinds,
           fileMask: msg.options.fileMask || '',
           includeCode: msg.options.includeCode ?? true,
           includeComments: msg.options.includeComments ?? true,
-          includeStrings: msg.options.includeStrings ?? true
+          includeStrings: msg.options.includeStrings ?? true,
+          codeCategories: msg.options.codeCategories,
+          folders: msg.options.folders,
+          gitBase: msg.options.gitBase
         }
       });
       deps.postMessage({ type: 'searchHistory', entries: deps.stateStore.getSearchHistory() });
@@ -188,6 +300,10 @@ export function registerCommonHandlers(handler: MessageHandler, deps: CommonHand
       requestId: msg.requestId,
       profile: searchOutcome?.profile,
       telemetry: lastSearchTelemetry,
+      timedOut: searchOutcome?.timedOut ?? false,
+      cancelled: searchOutcome?.cancelled ?? false,
+      resultCapHit: searchOutcome?.resultCapHit ?? false,
+      canContinue: !!incompleteSearch,
     });
   });
 
@@ -268,7 +384,10 @@ export function registerCommonHandlers(handler: MessageHandler, deps: CommonHand
 
   handler.registerHandler('getFileContent', async (message) => {
     const msg = message as { uri: string; query: string; options: SearchOptions; activeIndex?: number; };
-    await deps.sendFileContent(msg.uri, msg.query, msg.options, msg.activeIndex);
+    // Highlight what the search matched: the query with its operators applied
+    const resolved = msg.query && msg.options ? applyQueryOperators(msg.query, 'project', msg.options) : undefined;
+    const highlight = resolved && !resolved.operators?.errors.length ? resolved : undefined;
+    await deps.sendFileContent(msg.uri, highlight?.query ?? '', highlight?.options ?? msg.options, msg.activeIndex);
   });
 
   handler.registerHandler('applyEdits', async (message) => {
@@ -277,35 +396,29 @@ export function registerCommonHandlers(handler: MessageHandler, deps: CommonHand
   });
 
   handler.registerHandler('replaceOne', async (message) => {
-    const msg = message as { uri: string; line: number; character: number; length: number; replaceText: string };
-    await replaceOne(msg.uri, msg.line, msg.character, msg.length, msg.replaceText);
+    const msg = message as ReplaceOneMessage;
+    await replaceOne(msg.uri, msg.line, msg.character, msg.length, msg.replaceText, msg.query, msg.options, msg.matchRanges, msg.matchCount);
     const telemetryLogger = getTelemetryLogger();
     telemetryLogger?.logUsage('replace_one', {
-      is_regex: false,
+      is_regex: !!msg.options?.useRegex,
     });
   });
 
   handler.registerHandler('replaceAll', async (message) => {
     const msg = message as { query: string; replaceText: string; scope: SearchScope; options: SearchOptions; directoryPath?: string; modulePath?: string; };
-    await replaceAll(
+    const transaction = await replaceAll(
       msg.query,
       msg.replaceText,
       msg.scope,
       msg.options,
       msg.directoryPath,
       msg.modulePath,
-      async () => {
-        // After replace, re-run search and post updated results
-        const results = await performSearch(
-          msg.query,
-          msg.scope,
-          msg.options,
-          msg.directoryPath,
-          msg.modulePath
-        );
-        deps.postMessage({ type: 'searchResults', results: results.results, maxResults: 10000 });
-      }
+      // After replace, re-run search and post updated results
+      () => refreshResults(msg.query, msg.scope, msg.options, msg.directoryPath, msg.modulePath)
     );
+    if (transaction) {
+      deps.stateStore?.recordReplaceTransaction(transaction);
+    }
     const telemetryLogger = getTelemetryLogger();
     telemetryLogger?.logUsage('replace_all', {
       scope: msg.scope,
@@ -315,10 +428,144 @@ export function registerCommonHandlers(handler: MessageHandler, deps: CommonHand
     });
   });
 
+  handler.registerHandler('previewReplaceAll', async (message) => {
+    const msg = message as PreviewReplaceAllMessage;
+    const preview = await buildReplacePreview(
+      msg.query,
+      msg.replaceText,
+      msg.scope,
+      msg.options,
+      msg.directoryPath,
+      msg.modulePath
+    );
+    pendingReplacePreview = preview ? { preview, message: msg } : undefined;
+    // A null preview tells the webview to restore its results list
+    deps.postMessage({ type: 'replacePreview', preview: preview ?? null });
+  });
+
+  handler.registerHandler('applyReplacePreview', async (message) => {
+    const msg = message as ApplyReplacePreviewMessage;
+    const pending = pendingReplacePreview;
+    if (!pending || pending.preview.id !== msg.previewId) {
+      deps.postMessage({
+        type: 'error',
+        message: 'Replace preview is out of date. Preview the replacement again.'
+      });
+      return;
+    }
+    pendingReplacePreview = undefined;
+
+    const source = pending.message;
+    const transaction = await applyReplacePreview(pending.preview, msg.acceptedIds, () =>
+      refreshResults(source.query, source.scope, source.options, source.directoryPath, source.modulePath)
+    );
+    if (transaction) {
+      deps.stateStore?.recordReplaceTransaction(transaction);
+    }
+    const telemetryLogger = getTelemetryLogger();
+    telemetryLogger?.logUsage('replace_all', {
+      scope: source.scope,
+      is_regex: !!source.options.useRegex,
+      match_case: !!source.options.matchCase,
+      whole_word: !!source.options.wholeWord,
+      is_preview: true,
+    });
+  });
+
+  handler.registerHandler('exportResults', async (message) => {
+    const msg = message as ExportResultsMessage;
+    await exportSearchResults(Array.isArray(msg.results) ? msg.results : [], {
+      query: msg.query,
+      options: msg.options,
+    });
+  });
+
+  handler.registerHandler('saveSearch', async (message) => {
+    const msg = message as SaveSearchMessage;
+    if (!deps.stateStore || !msg.search) {
+      return;
+    }
+    await promptSaveSearch(deps.stateStore, msg.search);
+  });
+
+  // Pinned result sets live in the StateStore, so every view sees the same list
+  const postPinnedResults = () => {
+    deps.postMessage({ type: 'pinnedResults', sets: deps.stateStore?.getPinnedResultSets() ?? [] });
+  };
+
+  handler.registerHandler('getPinnedResults', async () => {
+    postPinnedResults();
+  });
+
+  handler.registerHandler('pinResults', async (message) => {
+    const msg = message as PinResultsMessage;
+    if (!deps.stateStore || !Array.isArray(msg.results) || msg.results.length === 0) {
+      return;
+    }
+    const set = createPinnedResultSet(msg);
+    if (!set) {
+      return;
+    }
+    deps.stateStore.savePinnedResultSet(set);
+    postPinnedResults();
+  });
+
+  handler.registerHandler('unpinResults', async (message) => {
+    const msg = message as UnpinResultsMessage;
+    deps.stateStore?.removePinnedResultSet(msg.id);
+    postPinnedResults();
+  });
+
+  handler.registerHandler('revalidatePinnedResults', async (message) => {
+    const msg = message as RevalidatePinnedResultsMessage;
+    const set = deps.stateStore?.getPinnedResultSet(msg.id);
+    if (!deps.stateStore || !set) {
+      postPinnedResults();
+      return;
+    }
+    try {
+      deps.stateStore.savePinnedResultSet(await revalidatePinnedResultSet(set));
+    } catch (error) {
+      console.error('Error revalidating pinned results:', error);
+      vscode.window.showErrorMessage(`Could not revalidate pinned results: ${error}`);
+    }
+    postPinnedResults();
+  });
+
+  handler.registerHandler('refineResults', async (message) => {
+    const msg = message as RefineResultsMessage;
+    const results = Array.isArray(msg.results) ? msg.results : [];
+    try {
+      const refined = await refineSearchResults(results, msg.step);
+      deps.postMessage({ type: 'refinedResults', requestId: msg.requestId, results: refined });
+    } catch (error) {
+      const messageText = error instanceof Error ? error.message : String(error);
+      deps.postMessage({ type: 'refinedResults', requestId: msg.requestId, results, error: messageText });
+    }
+  });
+
   handler.registerHandler('validateRegex', async (message) => {
-    const msg = message as { pattern: string; useRegex: boolean; multiline?: boolean };
-    const result = validateRegex(msg.pattern, msg.useRegex, !!msg.multiline);
+    const msg = message as ValidateRegexMessage;
+    // Operators are taken out of the pattern and validated on their own
+    const { query, options, operators } = applyQueryOperators(msg.pattern, 'project', {
+      matchCase: false,
+      wholeWord: false,
+      useRegex: msg.useRegex,
+      multiline: !!msg.multiline,
+      fileMask: msg.fileMask || '',
+    });
+    const result = operators?.errors.length
+      ? { isValid: false, error: operators.errors.join('; ') }
+      : validateRegex(query, options.useRegex, !!msg.multiline);
     deps.postMessage({ type: 'validationResult', field: 'regex', isValid: result.isValid, error: result.error });
+    const maskValidation = operators ? validateFileMask(options.fileMask) : undefined;
+    deps.postMessage({
+      type: 'queryOperators',
+      query: msg.pattern,
+      operators: operators ?? null,
+      fileMask: operators ? options.fileMask : undefined,
+      fileMaskMessage: maskValidation?.isValid === false ? maskValidation.message : undefined,
+    });
   });
 
   handler.registerHandler('validateFileMask', async (message) => {
@@ -432,19 +679,28 @@ export function registerCommonHandlers(handler: MessageHandler, deps: CommonHand
   });
 
   handler.registerHandler('lspSearch', async (message) => {
-    const msg = message as { lspMode: LspSearchMode };
-    const symbolInfo = getSymbolAtCursor();
+    const msg = message as { lspMode: LspSearchMode; query?: string };
+    const typedName = (msg.query || '').trim();
+    const symbolInfo = await resolveLspSymbol(msg.query);
+
+    if (symbolInfo === undefined) {
+      // The user dismissed the list of same-named symbols; leave these results uncached
+      deps.postMessage({ type: 'searchResults', results: [], lspMode: msg.lspMode });
+      return;
+    }
 
     if (!symbolInfo) {
       deps.postMessage({
         type: 'searchResults',
         results: [],
         lspMode: msg.lspMode,
-        lspInfo: { languageId: '', symbolName: '', confidence: 'partial' as const },
+        lspInfo: { languageId: '', symbolName: typedName, confidence: 'partial' as const },
       });
       deps.postMessage({
         type: 'error',
-        message: 'No symbol found at cursor position. Place your cursor on a symbol and try again.',
+        message: typedName
+          ? `No symbol named "${typedName}" found in the workspace.`
+          : 'No symbol found at cursor position. Place your cursor on a symbol or type its name and try again.',
       });
       return;
     }
@@ -469,7 +725,10 @@ export function registerCommonHandlers(handler: MessageHandler, deps: CommonHand
     }
 
     console.log(`[Rifler LSP] Searching ${msg.lspMode} for "${symbolInfo.symbolName}" in ${symbolInfo.languageId}`);
-    const results = await executeLspSearch(symbolInfo.uri, symbolInfo.position, msg.lspMode);
+    const references = await executeLspSearch(symbolInfo.uri, symbolInfo.position, msg.lspMode);
+    const results = msg.lspMode === 'referencesAndText'
+      ? await addTextMatches(symbolInfo, references, searchSession)
+      : references;
 
     // Dynamic languages might miss references
     const dynamicLanguages = new Set(['javascript', 'python', 'ruby', 'php', 'lua']);
@@ -488,9 +747,12 @@ export function registerCommonHandlers(handler: MessageHandler, deps: CommonHand
   });
 
   handler.registerHandler('lspReplaceAll', async (message) => {
-    const msg = message as { lspMode: LspSearchMode; replaceText: string };
-    const symbolInfo = getSymbolAtCursor();
+    const msg = message as { lspMode: LspSearchMode; replaceText: string; query?: string };
+    const symbolInfo = await resolveLspSymbol(msg.query);
 
+    if (symbolInfo === undefined) {
+      return;
+    }
     if (!symbolInfo) {
       deps.postMessage({
         type: 'error',
@@ -499,12 +761,21 @@ export function registerCommonHandlers(handler: MessageHandler, deps: CommonHand
       return;
     }
 
-    const { replacedCount, results } = await lspReplaceAll(
+    // In "references + text" mode only the references are replaced; the text-only hits
+    // that are left are listed again for review
+    const { replacedCount, results: references, transaction } = await lspReplaceAll(
       symbolInfo.uri,
       symbolInfo.position,
       msg.lspMode,
-      msg.replaceText
+      msg.replaceText,
+      `Replace usages of "${symbolInfo.symbolName}" with "${msg.replaceText}"`
     );
+    if (transaction) {
+      deps.stateStore?.recordReplaceTransaction(transaction);
+    }
+    const results = msg.lspMode === 'referencesAndText'
+      ? await addTextMatches(symbolInfo, references, searchSession)
+      : references;
 
     if (replacedCount > 0) {
       vscode.window.showInformationMessage(
@@ -524,6 +795,18 @@ export function registerCommonHandlers(handler: MessageHandler, deps: CommonHand
     });
   });
 
+  handler.registerHandler('lspExpandHierarchy', async (message) => {
+    const msg = message as { nodeId: string };
+    const results = await expandHierarchyNode(msg.nodeId);
+    if (!results) {
+      deps.postMessage({
+        type: 'error',
+        message: 'This hierarchy is out of date. Run the search again to expand it.',
+      });
+    }
+    deps.postMessage({ type: 'hierarchyChildren', nodeId: msg.nodeId, results: results || [] });
+  });
+
   handler.registerHandler('triggerRename', async () => {
     await vscode.commands.executeCommand('editor.action.rename');
   });
@@ -1,5 +1,11 @@
 import { SearchResult, SearchOptions, SearchScope } from '../utils';
 import { LspSearchMode, LspSearchInfo } from '../lspSearch';
+import { ReplacePreview } from '../replacer';
+import { SavedSearch } from '../savedSearches';
+import { SearchSession } from '../state/StateStore';
+import { PinnedResultSet } from '../pinnedResults';
+import { RefineStep } from '../refineResults';
+import { QueryOperators } from '../queryOperators';
 
 // ============================================================================
 // Incoming Messages (from Webview to Extension)
@@ -22,7 +28,7 @@ export interface MinimizeMessage {
     results?: SearchResult[];
     activeIndex?: number;
     lastPreview?: unknown;
-    searchMode?: 'text' | 'lsp';
+    searchMode?: 'text' | 'lsp' | 'structural' | 'files' | 'symbols';
     lspSubMode?: LspSearchMode;
   };
 }
@@ -32,6 +38,8 @@ export interface ValidateRegexMessage {
   pattern: string;
   useRegex: boolean;
   multiline?: boolean;
+  /** File mask from the filters panel; operators in the pattern are applied on top of it */
+  fileMask?: string;
 }
 
 export interface ValidateFileMaskMessage {
@@ -54,6 +62,8 @@ export interface RunSearchMessage {
   directoryPath?: string;
   modulePath?: string;
   filePath?: string;
+  /** requestId of an earlier search that stopped early; this search resumes it */
+  continueFrom?: string;
 }
 
 export interface OpenLocationMessage {
@@ -86,6 +96,10 @@ export interface ReplaceOneMessage {
   character: number;
   length: number;
   replaceText: string;
+  query?: string;
+  options?: SearchOptions;
+  matchRanges?: Array<{ start: number; end: number }>;
+  matchCount?: number;
 }
 
 export interface ReplaceAllMessage {
@@ -99,6 +113,34 @@ export interface ReplaceAllMessage {
   filePath?: string;
 }
 
+export interface PreviewReplaceAllMessage {
+  type: 'previewReplaceAll';
+  query: string;
+  replaceText: string;
+  scope: SearchScope;
+  options: SearchOptions;
+  directoryPath?: string;
+  modulePath?: string;
+}
+
+export interface ApplyReplacePreviewMessage {
+  type: 'applyReplacePreview';
+  previewId: string;
+  acceptedIds: string[];
+}
+
+export interface ExportResultsMessage {
+  type: 'exportResults';
+  results: SearchResult[];
+  query: string;
+  options?: SearchOptions;
+}
+
+export interface SaveSearchMessage {
+  type: 'saveSearch';
+  search: Omit<SavedSearch, 'name'>;
+}
+
 export interface WebviewReadyMessage {
   type: 'webviewReady';
 }
@@ -179,6 +221,8 @@ export interface RequestSelectionRefreshMessage {
 export interface LspSearchMessage {
   type: 'lspSearch';
   lspMode: LspSearchMode;
+  /** Symbol name typed in the search box; searches the symbol at the cursor when empty or equal to it */
+  query?: string;
 }
 
 export interface GetSymbolAtCursorMessage {
@@ -189,12 +233,80 @@ export interface LspReplaceAllMessage {
   type: 'lspReplaceAll';
   lspMode: LspSearchMode;
   replaceText: string;
+  query?: string;
+}
+
+/** Load the next level below a call or type hierarchy node */
+export interface LspExpandHierarchyMessage {
+  type: 'lspExpandHierarchy';
+  nodeId: string;
 }
 
 export interface TriggerRenameMessage {
   type: 'triggerRename';
 }
 
+/**
+ * The session tabs of a sidebar or bottom view. Sent by the webview whenever they change
+ * and after each search, and back to the webview when the view is restored.
+ */
+export interface SearchSessionsMessage {
+  type: 'sessions';
+  activeSessionId?: string;
+  sessions: SearchSession[];
+}
+
+/** Current state of a search window, saved with its session after each search */
+export interface SessionStateMessage {
+  type: 'sessionState';
+  state: MinimizeMessage['state'];
+}
+
+/** Open another search window with a session of its own */
+export interface NewSearchSessionMessage {
+  type: 'newSearchSession';
+}
+
+/** Ask for a new name for a session tab (by id) or for the search window sending it */
+export interface RenameSessionMessage {
+  type: 'renameSession';
+  id?: string;
+  name?: string;
+}
+
+/** Freeze the current results, with the query and options that produced them */
+export interface PinResultsMessage {
+  type: 'pinResults';
+  query: string;
+  scope: string;
+  searchMode?: string;
+  options: SearchOptions;
+  results: SearchResult[];
+}
+
+export interface GetPinnedResultsMessage {
+  type: 'getPinnedResults';
+}
+
+export interface UnpinResultsMessage {
+  type: 'unpinResults';
+  id: string;
+}
+
+/** Check a pinned set against the current file contents */
+export interface RevalidatePinnedResultsMessage {
+  type: 'revalidatePinnedResults';
+  id: string;
+}
+
+/** Apply one refine step to the results on screen */
+export interface RefineResultsMessage {
+  type: 'refineResults';
+  requestId: string;
+  results: SearchResult[];
+  step: RefineStep;
+}
+
 /**
  * Union type of all possible messages from webview to extension
  */
@@ -208,6 +320,10 @@ export type IncomingMessage =
   | GetFileContentMessage
   | ReplaceOneMessage
   | ReplaceAllMessage
+  | PreviewReplaceAllMessage
+  | ApplyReplacePreviewMessage
+  | ExportResultsMessage
+  | SaveSearchMessage
   | WebviewReadyMessage
   | SaveFileMessage
   | MinimizeMessage
@@ -226,7 +342,17 @@ export type IncomingMessage =
   | LspSearchMessage
   | GetSymbolAtCursorMessage
   | LspReplaceAllMessage
-  | TriggerRenameMessage;
+  | LspExpandHierarchyMessage
+  | TriggerRenameMessage
+  | SearchSessionsMessage
+  | SessionStateMessage
+  | NewSearchSessionMessage
+  | RenameSessionMessage
+  | PinResultsMessage
+  | GetPinnedResultsMessage
+  | UnpinResultsMessage
+  | RevalidatePinnedResultsMessage
+  | RefineResultsMessage;
 
 // ============================================================================
 // Outgoing Messages (from Extension to Webview)
@@ -241,6 +367,23 @@ export interface SearchResultsMessage {
   profile?: unknown;
   lspMode?: LspSearchMode;
   lspInfo?: LspSearchInfo;
+  timedOut?: boolean;
+  cancelled?: boolean;
+  resultCapHit?: boolean;
+  /** The search stopped early and can be resumed with a runSearch carrying continueFrom */
+  canContinue?: boolean;
+}
+
+/** Results streamed while a search is still running; the final searchResults message closes the stream */
+export interface SearchResultsBatchMessage {
+  type: 'searchResultsBatch';
+  requestId: string;
+  results: SearchResult[];
+}
+
+export interface ReplacePreviewMessage {
+  type: 'replacePreview';
+  preview: ReplacePreview | null;
 }
 
 export interface ModulesListMessage {
@@ -257,6 +400,8 @@ export interface WorkspaceInfoMessage {
   type: 'workspaceInfo';
   name: string;
   path: string;
+  /** Every workspace folder, for the `folders` scope */
+  folders: Array<{ name: string; path: string }>;
 }
 
 export interface FileContentMessage {
@@ -269,6 +414,18 @@ export interface FileContentMessage {
   matches: Array<{ line: number; start: number; end: number }>;
 }
 
+/** Operators read from the query being validated, so the filters panel can show them */
+export interface QueryOperatorsMessage {
+  type: 'queryOperators';
+  /** The validated query, operators included */
+  query: string;
+  operators: QueryOperators | null;
+  /** File mask searched with, when there are operators */
+  fileMask?: string;
+  /** validateFileMask warning for that mask */
+  fileMaskMessage?: string;
+}
+
 export interface ValidationResultMessage {
   type: 'validationResult';
   field: 'regex' | 'fileMask';
@@ -284,6 +441,8 @@ export interface ConfigMessage {
   maxResults?: number;
   resultsShowCollapsed?: boolean;
   profileSearch?: boolean;
+  /** Default for SearchOptions.contextLines */
+  contextLines?: number;
 }
 
 export interface ShowReplaceMessage {
@@ -300,6 +459,12 @@ export interface SetSearchQueryMessage {
   query: string;
 }
 
+/** Apply a saved search's query, scope and options, then run it */
+export interface ApplySearchMessage {
+  type: 'applySearch';
+  search: SavedSearch;
+}
+
 export interface FocusSearchMessage {
   type: 'focusSearch';
 }
@@ -324,11 +489,25 @@ export interface SymbolAtCursorMessage {
   lspAvailable: boolean;
 }
 
+/** The level below a hierarchy node, answering lspExpandHierarchy */
+export interface HierarchyChildrenMessage {
+  type: 'hierarchyChildren';
+  nodeId: string;
+  results: SearchResult[];
+}
+
 export interface SetSearchModeMessage {
   type: 'setSearchMode';
   mode: 'text' | 'lsp';
 }
 
+/** A session tab got a new name, answering renameSession */
+export interface SessionRenamedMessage {
+  type: 'sessionRenamed';
+  id: string;
+  name: string;
+}
+
 export interface ProjectExclusionsMessage {
   type: 'projectExclusions';
   projects: Array<{
@@ -340,24 +519,47 @@ export interface ProjectExclusionsMessage {
   }>;
 }
 
+/** Results that passed a refine step, or why the step could not be applied */
+export interface RefinedResultsMessage {
+  type: 'refinedResults';
+  requestId: string;
+  results: SearchResult[];
+  error?: string;
+}
+
+/** Every pinned set, newest first */
+export interface PinnedResultsMessage {
+  type: 'pinnedResults';
+  sets: PinnedResultSet[];
+}
+
 /**
  * Union type of all possible messages from extension to webview
  */
 export type OutgoingMessage =
   | SearchResultsMessage
+  | SearchResultsBatchMessage
+  | ReplacePreviewMessage
   | ModulesListMessage
   | CurrentDirectoryMessage
   | WorkspaceInfoMessage
   | FileContentMessage
   | ValidationResultMessage
+  | QueryOperatorsMessage
   | ConfigMessage
   | ShowReplaceMessage
   | RestoreStateMessage
   | SetSearchQueryMessage
+  | ApplySearchMessage
   | FocusSearchMessage
   | ToggleReplaceMessage
   | RequestStateForMinimizeMessage
   | ProjectExclusionsMessage
   | ErrorMessage
   | SymbolAtCursorMessage
-  | SetSearchModeMessage;
+  | HierarchyChildrenMessage
+  | SetSearchModeMessage
+  | SearchSessionsMessage
+  | SessionRenamedMessage
+  | PinnedResultsMessage
+  | RefinedResultsMessage;
@@ -0,0 +1,192 @@
+import * as vscode from 'vscode';
+import { SearchOptions, SearchResult, buildSearchRegex } from './utils';
+import { applyQueryOperators } from './queryOperators';
+
+/**
+ * A result set frozen with the query that produced it. Later searches do not touch it;
+ * revalidating only marks the results whose line no longer holds the matched text.
+ */
+export interface PinnedResultSet {
+  id: string;
+  query: string;
+  scope: string;
+  searchMode?: string;
+  options: SearchOptions;
+  pinnedAt: number;
+  validatedAt?: number;
+  /** More results than MAX_PINNED_RESULTS were pinned; the rest were dropped */
+  truncated?: boolean;
+  results: SearchResult[];
+}
+
+/** Pinned sets kept; pinning another drops the oldest */
+export const MAX_PINNED_RESULT_SETS = 10;
+/** Results kept per pinned set, so persisted state stays small */
+export const MAX_PINNED_RESULTS = 2000;
+
+let pinSeq = 0;
+
+function isRange(value: unknown): value is { start: number; end: number } {
+  const range = value as { start?: unknown; end?: unknown } | undefined;
+  return !!range && typeof range.start === 'number' && typeof range.end === 'number';
+}
+
+function toRanges(value: unknown): Array<{ start: number; end: number }> | undefined {
+  return Array.isArray(value) ? value.filter(isRange).map((r) => ({ start: r.start, end: r.end })) : undefined;
+}
+
+/**
+ * The fields of a result that a pinned set needs to render and open it. Context lines and
+ * hierarchy nodes are dropped: they describe the search, not the match.
+ */
+function compactResult(raw: unknown): SearchResult | undefined {
+  if (!raw || typeof raw !== 'object') {
+    return undefined;
+  }
+  const result = raw as Record<string, unknown>;
+  if (typeof result.uri !== 'string' || typeof result.line !== 'number') {
+    return undefined;
+  }
+  const previewMatchRange = isRange(result.previewMatchRange) ? result.previewMatchRange : { start: 0, end: 0 };
+  return {
+    uri: result.uri,
+    fileName: typeof result.fileName === 'string' ? result.fileName : '',
+    relativePath: typeof result.relativePath === 'string' ? result.relativePath : '',
+    line: result.line,
+    character: typeof result.character === 'number' ? result.character : 0,
+    length: typeof result.length === 'number' ? result.length : 0,
+    preview: typeof result.preview === 'string' ? result.preview : '',
+    matchCount: typeof result.matchCount === 'number' ? result.matchCount : undefined,
+    previewMatchRange: { start: previewMatchRange.start, end: previewMatchRange.end },
+    previewMatchRanges: toRanges(result.previewMatchRanges),
+    matchRanges: toRanges(result.matchRanges),
+    origin: result.origin === 'semantic' || result.origin === 'textual' ? result.origin : undefined,
+    stale: result.stale === true ? true : undefined,
+  };
+}
+
+/**
+ * Validate a pinned set read from state. Returns undefined when it has no id or query.
+ */
+export function normalizePinnedResultSet(raw: unknown): PinnedResultSet | undefined {
+  if (!raw || typeof raw !== 'object') {
+    return undefined;
+  }
+  const set = raw as Record<string, unknown>;
+  const id = typeof set.id === 'string' ? set.id : '';
+  const query = typeof set.query === 'string' ? set.query : '';
+  if (!id || !query.trim()) {
+    return undefined;
+  }
+  const results = (Array.isArray(set.results) ? set.results : [])
+    .map((r) => compactResult(r))
+    .filter((r): r is SearchResult => !!r);
+  const options = (set.options && typeof set.options === 'object' ? set.options : {}) as SearchOptions;
+  return {
+    id,
+    query,
+    scope: typeof set.scope === 'string' ? set.scope : 'project',
+    searchMode: typeof set.searchMode === 'string' ? set.searchMode : undefined,
+    options: { ...options, fileMask: typeof options.fileMask === 'string' ? options.fileMask : '' },
+    pinnedAt: typeof set.pinnedAt === 'number' ? set.pinnedAt : 0,
+    validatedAt: typeof set.validatedAt === 'number' ? set.validatedAt : undefined,
+    truncated: set.truncated === true || results.length > MAX_PINNED_RESULTS ? true : undefined,
+    results: results.slice(0, MAX_PINNED_RESULTS),
+  };
+}
+
+/**
+ * Freeze the given results as a new pinned set.
+ */
+export function createPinnedResultSet(input: {
+  query: string;
+  scope: string;
+  searchMode?: string;
+  options: SearchOptions;
+  results: unknown[];
+}): PinnedResultSet | undefined {
+  return normalizePinnedResultSet({
+    ...input,
+    id: `pin-${Date.now().toString(36)}-${++pinSeq}`,
+    pinnedAt: Date.now(),
+    // Pinning starts from a fresh search, so nothing is stale yet
+    results: input.results.map((r) => (r && typeof r === 'object' ? { ...r, stale: undefined } : r)),
+  });
+}
+
+/**
+ * Whether a pinned result no longer matches its line. `lineText` is undefined when the
+ * file or the line is gone. The matched text must still sit at the stored column; with the
+ * pinned query's `matcher`, every stored match range must also still be a match of the
+ * query there, so regex and whole-word matches are checked again. Results without matched
+ * text (file names) only need the file.
+ */
+export function isPinnedResultStale(
+  result: SearchResult,
+  lineText: string | undefined,
+  fileExists: boolean,
+  matcher?: RegExp | null
+): boolean {
+  if (!fileExists) {
+    return true;
+  }
+  const matchedText = result.preview.slice(result.previewMatchRange.start, result.previewMatchRange.end);
+  if (result.length === 0 || !matchedText) {
+    return false;
+  }
+  if (lineText === undefined || !lineText.startsWith(matchedText, result.character)) {
+    return true;
+  }
+  if (!matcher) {
+    return false;
+  }
+  // Sticky, so each range is matched exactly where it starts
+  const sticky = new RegExp(matcher.source, matcher.flags.replace(/[gy]/g, '') + 'y');
+  const ranges = result.matchRanges?.length
+    ? result.matchRanges
+    : [{ start: result.character, end: result.character + result.length }];
+  return ranges.some((range) => {
+    sticky.lastIndex = range.start;
+    const match = sticky.exec(lineText);
+    return !match || range.start + match[0].length !== range.end;
+  });
+}
+
+/**
+ * The regex a pinned set's results were found with, or null when its matches did not come
+ * from a line regex (structural, file name, symbol, LSP and multiline searches).
+ */
+function getPinnedMatcher(set: PinnedResultSet): RegExp | null {
+  const { options } = set;
+  if (options.structural || options.fileNames || options.symbols || options.multiline || set.searchMode === 'lsp') {
+    return null;
+  }
+  // The set keeps the query as typed, operators included
+  const resolved = applyQueryOperators(set.query, 'project', options);
+  return resolved.operators?.errors.length ? null : buildSearchRegex(resolved.query, resolved.options);
+}
+
+/**
+ * Check every result of a pinned set against the current file contents, including unsaved
+ * editor changes, and mark the ones that no longer match.
+ */
+export async function revalidatePinnedResultSet(set: PinnedResultSet): Promise<PinnedResultSet> {
+  const documents = new Map<string, vscode.TextDocument | undefined>();
+  for (const uri of new Set(set.results.map((r) => r.uri))) {
+    try {
+      documents.set(uri, await vscode.workspace.openTextDocument(vscode.Uri.parse(uri)));
+    } catch {
+      // Deleted or unreadable: every result in the file is stale
+      documents.set(uri, undefined);
+    }
+  }
+
+  const matcher = getPinnedMatcher(set);
+  const results = set.results.map((result) => {
+    const doc = documents.get(result.uri);
+    const lineText = doc && result.line < doc.lineCount ? doc.lineAt(result.line).text : undefined;
+    const stale = isPinnedResultStale(result, lineText, !!doc, matcher);
+    return { ...result, stale: stale || undefined };
+  });
+  return { ...set, results, validatedAt: Date.now() };
+}
@@ -0,0 +1,226 @@
+import type { SearchOptions, SearchScope } from './utils';
+
+/**
+ * Filters typed into the query box, such as `path:src/api lang:ts -path:__tests__ case:yes`.
+ * They stand in for the filters panel: paths and languages become the file mask, the
+ * others set the scope and the option toggles.
+ */
+export interface QueryOperators {
+  /** The query with the operators taken out */
+  query: string;
+  paths: string[];
+  excludedPaths: string[];
+  languages: string[];
+  excludedLanguages: string[];
+  matchCase?: boolean;
+  wholeWord?: boolean;
+  useRegex?: boolean;
+  scope?: SearchScope;
+  /** Operators that could not be used, with the reason; a query with any is not searched */
+  errors: string[];
+}
+
+// File extensions searched for each `lang:` value; other values are taken as an extension
+const LANGUAGE_EXTENSIONS: Record<string, string[]> = {
+  ts: ['ts', 'tsx', 'mts', 'cts'],
+  typescript: ['ts', 'tsx', 'mts', 'cts'],
+  js: ['js', 'jsx', 'mjs', 'cjs'],
+  javascript: ['js', 'jsx', 'mjs', 'cjs'],
+  py: ['py', 'pyi'],
+  python: ['py', 'pyi'],
+  rust: ['rs'],
+  golang: ['go'],
+  ruby: ['rb'],
+  kotlin: ['kt', 'kts'],
+  csharp: ['cs'],
+  cpp: ['cpp', 'cc', 'cxx', 'hpp', 'hh', 'h'],
+  c: ['c', 'h'],
+  md: ['md', 'markdown'],
+  markdown: ['md', 'markdown'],
+  yaml: ['yaml', 'yml'],
+  yml: ['yaml', 'yml'],
+  html: ['html', 'htm'],
+};
+
+const SCOPE_VALUES: Record<string, SearchScope> = {
+  project: 'project',
+  open: 'openEditors',
+  openeditors: 'openEditors',
+  changed: 'changedFiles',
+  changedfiles: 'changedFiles',
+};
+
+const BOOLEAN_VALUES: Record<string, boolean> = {
+  yes: true,
+  true: true,
+  on: true,
+  no: false,
+  false: false,
+  off: false,
+};
+
+// Quoted strings, runs of non-space characters (with a quoted value after `name:`), and whitespace
+const TOKEN_PATTERN = /"(?:[^"\\]|\\.)*"|[^\s"]+(?:"(?:[^"\\]|\\.)*")?|"|\s+/g;
+const OPERATOR_PATTERN = /^(-?)(path|lang|case|word|re|scope):(.+)$/;
+
+function unquote(value: string): string {
+  const quoted = /^"((?:[^"\\]|\\.)*)"$/.exec(value);
+  return quoted ? quoted[1].replace(/\\(["\\])/g, '$1') : value;
+}
+
+function normalizePath(value: string): string {
+  return value.replace(/\\/g, '/').replace(/^\.\//, '').replace(/^\/+|\/+$/g, '');
+}
+
+function languageExtensions(language: string): string[] {
+  return LANGUAGE_EXTENSIONS[language.toLowerCase()] ?? [language.replace(/^\*?\./, '')];
+}
+
+/**
+ * Take the operators out of a query. Operators are words of the form `name:value` with a
+ * value, with `-` in front of `path:` and `lang:` to exclude; values with spaces can be
+ * quoted. A word in quotes is never an operator: `"path:src"` searches for `path:src`,
+ * without the quotes. Returns undefined when the query has neither, and for multiline
+ * queries, which are searched as typed.
+ */
+export function parseQueryOperators(query: string): QueryOperators | undefined {
+  if (query.includes('\n')) {
+    return undefined;
+  }
+  const tokens = query.match(TOKEN_PATTERN) || [];
+  const operators: QueryOperators = {
+    query: '',
+    paths: [],
+    excludedPaths: [],
+    languages: [],
+    excludedLanguages: [],
+    errors: [],
+  };
+  const kept: string[] = [];
+  let found = false;
+
+  for (const token of tokens) {
+    const match = OPERATOR_PATTERN.exec(token);
+    if (!match) {
+      // A quoted operator is searched as text
+      const literal = unquote(token);
+      if (literal !== token && OPERATOR_PATTERN.test(literal)) {
+        found = true;
+        kept.push(literal);
+      } else {
+        kept.push(token);
+      }
+      continue;
+    }
+    found = true;
+    // The space before an operator goes with it
+    if (kept.length > 0 && /^\s+$/.test(kept[kept.length - 1])) {
+      kept.pop();
+    }
+    const [, negation, name, rawValue] = match;
+    const value = unquote(rawValue).trim();
+    if (!value) {
+      operators.errors.push(`${token} needs a value`);
+      continue;
+    }
+
+    if (name === 'path' || name === 'lang') {
+      if (name === 'lang' && !/^[\w.+#*-]+$/.test(value)) {
+        operators.errors.push(`${token}: "${value}" is not a language or file extension`);
+        continue;
+      }
+      const target = name === 'path'
+        ? (negation ? operators.excludedPaths : operators.paths)
+        : (negation ? operators.excludedLanguages : operators.languages);
+      target.push(name === 'path' ? normalizePath(value) : value);
+      continue;
+    }
+
+    if (negation) {
+      operators.errors.push(`${token}: only path: and lang: can be negated`);
+      continue;
+    }
+    if (name === 'scope') {
+      const scope = SCOPE_VALUES[value.toLowerCase()];
+      if (scope) {
+        operators.scope = scope;
+      } else {
+        operators.errors.push(`${token}: scope must be project, open or changed`);
+      }
+      continue;
+    }
+    const enabled = BOOLEAN_VALUES[value.toLowerCase()];
+    if (enabled === undefined) {
+      operators.errors.push(`${token}: use ${name}:yes or ${name}:no`);
+      continue;
+    }
+    if (name === 'case') operators.matchCase = enabled;
+    else if (name === 'word') operators.wholeWord = enabled;
+    else operators.useRegex = enabled;
+  }
+
+  if (!found) {
+    return undefined;
+  }
+  operators.query = kept.join('').trim();
+  return operators;
+}
+
+/**
+ * The file mask of a search with operators. Paths match a folder anywhere in the tree (or
+ * a file, when the path names one) and combine with languages: `path:src/api lang:ts` is
+ * TypeScript files under src/api. Includes from operators take the place of the includes
+ * in `baseMask`; its `!` excludes still apply.
+ */
+export function buildOperatorFileMask(operators: QueryOperators, baseMask: string): string {
+  const baseTokens = baseMask.split(/[,;]/).map((t) => t.trim()).filter(Boolean);
+  const extensions = operators.languages.flatMap(languageExtensions);
+  const pathGlobs = (p: string): string[] => [`**/${p}/**`, `**/${p}`];
+
+  let includes: string[];
+  if (operators.paths.length > 0 && extensions.length > 0) {
+    includes = operators.paths.flatMap((p) => extensions.map((ext) => `**/${p}/**/*.${ext}`));
+  } else if (operators.paths.length > 0) {
+    includes = operators.paths.flatMap(pathGlobs);
+  } else if (extensions.length > 0) {
+    includes = extensions.map((ext) => `*.${ext}`);
+  } else {
+    includes = baseTokens.filter((t) => !t.startsWith('!'));
+  }
+
+  const excludes = [
+    ...baseTokens.filter((t) => t.startsWith('!')),
+    ...operators.excludedPaths.flatMap(pathGlobs).map((g) => `!${g}`),
+    ...operators.excludedLanguages.flatMap(languageExtensions).map((ext) => `!*.${ext}`),
+  ];
+  return [...new Set([...includes, ...excludes])].join(', ');
+}
+
+/**
+ * Apply the operators of a query to the scope and options it is searched with. Returns
+ * the query, scope and options unchanged when there are no operators. This runs once,
+ * where a query typed by the user comes in; search, preview and replace take the query
+ * it returns as is, so quoted text it unwrapped is not read as an operator again.
+ */
+export function applyQueryOperators(
+  query: string,
+  scope: SearchScope,
+  options: SearchOptions
+): { query: string; scope: SearchScope; options: SearchOptions; operators?: QueryOperators } {
+  const operators = options.multiline ? undefined : parseQueryOperators(query);
+  if (!operators) {
+    return { query, scope, options };
+  }
+  return {
+    query: operators.query,
+    scope: operators.scope ?? scope,
+    options: {
+      ...options,
+      matchCase: operators.matchCase ?? options.matchCase,
+      wholeWord: operators.wholeWord ?? options.wholeWord,
+      useRegex: operators.useRegex ?? options.useRegex,
+      fileMask: buildOperatorFileMask(operators, options.fileMask || ''),
+    },
+    operators,
+  };
+}
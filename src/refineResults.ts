@@ -0,0 +1,105 @@
+import * as vscode from 'vscode';
+import { Limiter, SearchResult, ValidationResult, isSafeRegex, validateRegex } from './utils';
+
+export type RefineFilterKind = 'text' | 'regex' | 'path';
+
+/**
+ * One step of the refine stack: a secondary filter over the results of the search,
+ * or of the previous step.
+ */
+export interface RefineStep {
+  kind: RefineFilterKind;
+  pattern: string;
+  /** Drop the results that match instead of keeping them */
+  exclude?: boolean;
+  matchCase?: boolean;
+  /** Lines before and after each match that are checked too (text and regex steps) */
+  window?: number;
+}
+
+/** Upper bound for RefineStep.window */
+export const MAX_REFINE_WINDOW = 10;
+
+// Files read at once while refining
+const READ_CONCURRENCY = 8;
+
+export function validateRefineStep(step: RefineStep): ValidationResult {
+  if (!step.pattern) {
+    return { isValid: false, error: 'Refine pattern cannot be empty' };
+  }
+  const validation = validateRegex(step.pattern, step.kind === 'regex');
+  if (validation.isValid && step.kind === 'regex' && !isSafeRegex(step.pattern)) {
+    // Every line in each window is tested, so a backtracking pattern would stall the extension host
+    return { isValid: false, error: 'Regex rejected: nested quantifiers can take too long to run' };
+  }
+  return validation;
+}
+
+function normalizeWindow(value: unknown): number {
+  const n = typeof value === 'number' && Number.isFinite(value) ? Math.floor(value) : 0;
+  return Math.min(MAX_REFINE_WINDOW, Math.max(0, n));
+}
+
+function createMatcher(step: RefineStep): (text: string) => boolean {
+  if (step.kind === 'regex') {
+    const regex = new RegExp(step.pattern, step.matchCase ? '' : 'i');
+    return (text) => regex.test(text);
+  }
+  const needle = step.matchCase ? step.pattern : step.pattern.toLowerCase();
+  return (text) => (step.matchCase ? text : text.toLowerCase()).includes(needle);
+}
+
+/** Lines of a file, from its open editor when there is one (unsaved edits included) */
+async function readFileLines(uri: string): Promise<string[] | undefined> {
+  try {
+    const openDoc = vscode.workspace.textDocuments.find((doc) => doc.uri.toString() === uri);
+    const content = openDoc
+      ? openDoc.getText()
+      : new TextDecoder('utf-8').decode(await vscode.workspace.fs.readFile(vscode.Uri.parse(uri)));
+    return content.split(/\r?\n/);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Keep the results that pass one refine step, in their original order. Path steps match
+ * the relative path (with `/` separators); text and regex steps match the result's line,
+ * or any line within `window` lines of it. When a file cannot be read, the result's
+ * preview stands in for its line.
+ */
+export async function refineSearchResults(
+  results: SearchResult[],
+  step: RefineStep,
+  readLines: (uri: string) => Promise<string[] | undefined> = readFileLines
+): Promise<SearchResult[]> {
+  const validation = validateRefineStep(step);
+  if (!validation.isValid) {
+    throw new Error(validation.error);
+  }
+  const matches = createMatcher(step);
+  const keep = (matched: boolean) => matched !== !!step.exclude;
+
+  if (step.kind === 'path') {
+    return results.filter((r) => keep(matches((r.relativePath || r.fileName).replace(/\\/g, '/'))));
+  }
+
+  const window = normalizeWindow(step.window);
+  const limiter = new Limiter(READ_CONCURRENCY);
+  const files = new Map<string, Promise<string[] | undefined>>();
+  for (const uri of new Set(results.map((r) => r.uri))) {
+    files.set(uri, limiter.run(() => readLines(uri)));
+  }
+
+  const kept: SearchResult[] = [];
+  for (const result of results) {
+    const lines = await files.get(result.uri);
+    const candidates = lines && result.line < lines.length
+      ? lines.slice(Math.max(0, result.line - window), result.line + window + 1)
+      : [result.preview];
+    if (keep(candidates.some(matches))) {
+      kept.push(result);
+    }
+  }
+  return kept;
+}
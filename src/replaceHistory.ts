@@ -0,0 +1,179 @@
+import * as vscode from 'vscode';
+import { createHash } from 'crypto';
+
+export interface SerializedRange {
+  startLine: number;
+  startCharacter: number;
+  endLine: number;
+  endCharacter: number;
+}
+
+export interface ReplaceTransactionEdit {
+  /** Range of the replaced text before the replace */
+  originalRange: SerializedRange;
+  /** Range of the replacement text after the replace */
+  appliedRange: SerializedRange;
+  originalText: string;
+  replacementText: string;
+}
+
+export interface ReplaceTransactionFile {
+  uri: string;
+  /** Hash of the file content right after the replace, used to detect later changes */
+  contentHash: string;
+  edits: ReplaceTransactionEdit[];
+}
+
+/**
+ * A bulk replace as recorded for undo: every file and edit it touched.
+ */
+export interface ReplaceTransaction {
+  id: string;
+  label: string;
+  ts: number;
+  files: ReplaceTransactionFile[];
+}
+
+interface CapturedEdit {
+  startOffset: number;
+  endOffset: number;
+  originalRange: SerializedRange;
+  originalText: string;
+  replacementText: string;
+}
+
+/** Text about to be overwritten by a bulk replace, keyed by URI. */
+export type CapturedReplace = Map<string, { document: vscode.TextDocument; edits: CapturedEdit[] }>;
+
+function serializeRange(start: vscode.Position, end: vscode.Position): SerializedRange {
+  return { startLine: start.line, startCharacter: start.character, endLine: end.line, endCharacter: end.character };
+}
+
+function toRange(range: SerializedRange): vscode.Range {
+  return new vscode.Range(range.startLine, range.startCharacter, range.endLine, range.endCharacter);
+}
+
+function hashContent(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Snapshot the text a set of edits is about to overwrite. Must run before the edits are applied.
+ * Opened documents are added to `documents` so callers can reuse them for saving.
+ * Undo history is best effort: returns undefined if the snapshot fails, without blocking the replace.
+ */
+export async function captureReplaceEdits(
+  edits: Array<{ uri: string; range: vscode.Range; text: string }>,
+  documents: Map<string, vscode.TextDocument> = new Map()
+): Promise<CapturedReplace | undefined> {
+  try {
+    const captured: CapturedReplace = new Map();
+    for (const { uri, range, text } of edits) {
+      let doc = documents.get(uri);
+      if (!doc) {
+        doc = await vscode.workspace.openTextDocument(vscode.Uri.parse(uri));
+        documents.set(uri, doc);
+      }
+      const entry = captured.get(uri) ?? { document: doc, edits: [] };
+      entry.edits.push({
+        startOffset: doc.offsetAt(range.start),
+        endOffset: doc.offsetAt(range.end),
+        originalRange: serializeRange(range.start, range.end),
+        originalText: doc.getText(range),
+        replacementText: text,
+      });
+      captured.set(uri, entry);
+    }
+    return captured;
+  } catch (error) {
+    console.warn('[Rifler] Could not record replace for undo:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Build the transaction for captured edits once they have been applied and saved.
+ * Applied ranges are derived from the original offsets, shifted by the length
+ * change of every earlier edit in the same file.
+ */
+export function completeReplaceTransaction(
+  captured: CapturedReplace | undefined,
+  label: string
+): ReplaceTransaction | undefined {
+  if (!captured) {
+    return undefined;
+  }
+  try {
+    const files: ReplaceTransactionFile[] = [];
+    for (const [uri, { document, edits: capturedEdits }] of captured) {
+      const sorted = [...capturedEdits].sort((a, b) => a.startOffset - b.startOffset);
+      let shift = 0;
+      const edits = sorted.map((edit) => {
+        const appliedStart = edit.startOffset + shift;
+        const appliedEnd = appliedStart + edit.replacementText.length;
+        shift += edit.replacementText.length - (edit.endOffset - edit.startOffset);
+        return {
+          originalRange: edit.originalRange,
+          appliedRange: serializeRange(document.positionAt(appliedStart), document.positionAt(appliedEnd)),
+          originalText: edit.originalText,
+          replacementText: edit.replacementText,
+        };
+      });
+      files.push({ uri, contentHash: hashContent(document.getText()), edits });
+    }
+
+    const ts = Date.now();
+    return { id: `${ts}`, label, ts, files };
+  } catch (error) {
+    console.warn('[Rifler] Could not record replace for undo:', error);
+    return undefined;
+  }
+}
+
+/**
+ * URIs of transaction files whose content changed (or that can no longer be opened)
+ * since the replace was recorded.
+ */
+export async function findChangedFiles(transaction: ReplaceTransaction): Promise<string[]> {
+  const changed: string[] = [];
+  for (const file of transaction.files) {
+    try {
+      const doc = await vscode.workspace.openTextDocument(vscode.Uri.parse(file.uri));
+      if (hashContent(doc.getText()) !== file.contentHash) {
+        changed.push(file.uri);
+      }
+    } catch {
+      changed.push(file.uri);
+    }
+  }
+  return changed;
+}
+
+/**
+ * Restore the original text of the given transaction files in a single WorkspaceEdit,
+ * so the revert either applies everywhere or nowhere. Reverted files are saved.
+ */
+export async function revertReplaceTransaction(files: ReplaceTransactionFile[]): Promise<boolean> {
+  const edit = new vscode.WorkspaceEdit();
+  for (const file of files) {
+    const uri = vscode.Uri.parse(file.uri);
+    for (const fileEdit of file.edits) {
+      edit.replace(uri, toRange(fileEdit.appliedRange), fileEdit.originalText);
+    }
+  }
+
+  const success = await vscode.workspace.applyEdit(edit);
+  if (!success) {
+    return false;
+  }
+
+  for (const file of files) {
+    try {
+      const doc = await vscode.workspace.openTextDocument(vscode.Uri.parse(file.uri));
+      await doc.save();
+    } catch (error) {
+      console.error(`Failed to save ${file.uri}:`, error);
+    }
+  }
+  return true;
+}
@@ -1,9 +1,289 @@
 import * as vscode from 'vscode';
-import { SearchScope, SearchOptions } from './utils';
+import { SearchScope, SearchOptions, SearchResult, buildSearchRegex, expandReplacement } from './utils';
 import { performSearch } from './search';
+import { applyQueryOperators } from './queryOperators';
 import { validateUriString, isUriSafe } from './security/pathValidation';
+import { ReplaceTransaction, captureReplaceEdits, completeReplaceTransaction } from './replaceHistory';
+import { expandStructuralReplacement, matchStructuralAt } from './structuralSearch';
 
-export async function replaceOne(uriString: string, line: number, character: number, length: number, replaceText: string): Promise<void> {
+/**
+ * A single search hit on a line. `matchRanges` lists every submatch on that line
+ * (ripgrep caps it, reporting the real total in `matchCount`).
+ */
+interface LineMatch {
+  line: number;
+  character: number;
+  length: number;
+  matchRanges?: Array<{ start: number; end: number }>;
+  matchCount?: number;
+}
+
+/** A resolved but not yet applied replacement for one match of a search result. */
+interface PlannedEdit {
+  result: SearchResult;
+  range: vscode.Range;
+  text: string;
+}
+
+/**
+ * One pending replacement shown in the replace preview. The range uses document
+ * coordinates; `prefix`/`suffix` are the (clipped) line text around the match, so the
+ * before line is prefix + original + suffix and the after line prefix + replacement + suffix.
+ */
+export interface ReplacePreviewEdit {
+  id: string;
+  line: number;
+  character: number;
+  endLine: number;
+  endCharacter: number;
+  original: string;
+  replacement: string;
+  prefix: string;
+  suffix: string;
+}
+
+export interface ReplacePreviewFile {
+  uri: string;
+  fileName: string;
+  relativePath: string;
+  edits: ReplacePreviewEdit[];
+}
+
+/** Pending edits of a replace-all, grouped by file, awaiting the user's selection. */
+export interface ReplacePreview {
+  id: string;
+  query: string;
+  replaceText: string;
+  files: ReplacePreviewFile[];
+  totalEdits: number;
+}
+
+// Line context kept around each match in the preview, so minified files stay small
+const PREVIEW_PREFIX_CHARS = 80;
+const PREVIEW_SUFFIX_CHARS = 120;
+
+function isTruncatedMatch(match: LineMatch): boolean {
+  return (match.matchCount ?? 0) > (match.matchRanges?.length || 1);
+}
+
+/**
+ * Column spans of every match on the hit's line. When the submatch list was
+ * truncated, the line is re-scanned with the search regex to find the rest.
+ */
+function collectMatchSpans(
+  match: LineMatch,
+  doc: vscode.TextDocument | undefined,
+  searchRegex: RegExp | null
+): Array<{ character: number; length: number }> {
+  const ranges = match.matchRanges && match.matchRanges.length > 0
+    ? match.matchRanges
+    : [{ start: match.character, end: match.character + match.length }];
+
+  // Multiline hits are not rescanned: their submatches are not confined to a single line
+  if (isTruncatedMatch(match) && doc && searchRegex && !searchRegex.multiline) {
+    const lineText = doc.lineAt(match.line).text;
+    const spans: Array<{ character: number; length: number }> = [];
+    searchRegex.lastIndex = 0;
+    let m: RegExpExecArray | null;
+    while ((m = searchRegex.exec(lineText)) !== null) {
+      spans.push({ character: m.index, length: m[0].length });
+      // Prevent infinite loop for zero-length matches
+      if (m[0].length === 0) searchRegex.lastIndex++;
+    }
+    if (spans.length > 0) return spans;
+  }
+
+  return ranges.map((r) => ({ character: r.start, length: Math.max(0, r.end - r.start) }));
+}
+
+/**
+ * Resolve the range and replacement text for a single match in a document.
+ * With a regex, the replacement is expanded against the match ($1, $<name>, $&) using
+ * buildSearchRegex semantics: per line normally, against the whole document when multiline.
+ */
+function resolveMatchEdit(
+  doc: vscode.TextDocument,
+  line: number,
+  character: number,
+  length: number,
+  replaceText: string,
+  regex: RegExp | null,
+  multiline: boolean
+): { range: vscode.Range; text: string } {
+  // Multiline hits report columns relative to the first line, so they may run past its end
+  const startOffset = doc.offsetAt(new vscode.Position(line, 0)) + character;
+  const toRange = (matchLength: number): vscode.Range => {
+    const start = doc.positionAt(startOffset);
+    const end = doc.positionAt(startOffset + matchLength);
+    return new vscode.Range(start.line, start.character, end.line, end.character);
+  };
+
+  if (!regex) {
+    return { range: toRange(length), text: replaceText };
+  }
+
+  const subject = multiline ? doc.getText() : doc.lineAt(line).text;
+  const sticky = new RegExp(regex.source, regex.flags.replace('g', '') + 'y');
+  sticky.lastIndex = multiline ? startOffset : character;
+  const match = sticky.exec(subject);
+  if (!match) {
+    // Document changed since the search ran; fall back to the literal replacement
+    return { range: toRange(length), text: replaceText };
+  }
+
+  return { range: toRange(match[0].length), text: expandReplacement(replaceText, match, subject) };
+}
+
+/**
+ * Only regex and multiline replacements need the document text; plain
+ * single-line replacements keep using the search result coordinates directly.
+ */
+function needsDocumentForReplace(options: SearchOptions): boolean {
+  return options.useRegex || !!options.multiline;
+}
+
+/**
+ * Resolve edits for structural matches starting on the hit's line. Each match is matched
+ * again at its offset to recover its full range and the code bound to each metavariable,
+ * which is substituted into the replacement.
+ */
+function resolveStructuralEdits(
+  match: LineMatch,
+  replaceText: string,
+  doc: vscode.TextDocument,
+  pattern: string
+): Array<{ range: vscode.Range; text: string }> {
+  const source = doc.getText();
+  const lineOffset = doc.offsetAt(new vscode.Position(match.line, 0));
+  return collectMatchSpans(match, doc, null).map((span) => {
+    const startOffset = lineOffset + span.character;
+    const found = matchStructuralAt(source, startOffset, pattern);
+    // Document changed since the search ran; fall back to the literal replacement
+    const endOffset = found ? found.end : startOffset + span.length;
+    const start = doc.positionAt(startOffset);
+    const end = doc.positionAt(endOffset);
+    return {
+      range: new vscode.Range(start.line, start.character, end.line, end.character),
+      text: found ? expandStructuralReplacement(replaceText, found.bindings) : replaceText,
+    };
+  });
+}
+
+/**
+ * Resolve edits for every match on the hit's line. All ranges use the original
+ * document coordinates; WorkspaceEdit applies them together, so replacements of
+ * a different length never shift later matches on the same line.
+ */
+function resolveLineMatchEdits(
+  match: LineMatch,
+  replaceText: string,
+  doc: vscode.TextDocument | undefined,
+  searchRegex: RegExp | null,
+  options: SearchOptions | undefined
+): Array<{ range: vscode.Range; text: string }> {
+  const spans = collectMatchSpans(match, doc, searchRegex);
+  const expandRegex = options?.useRegex ? searchRegex : null;
+  return spans.map((span) => {
+    if (doc) {
+      return resolveMatchEdit(doc, match.line, span.character, span.length, replaceText, expandRegex, !!options?.multiline);
+    }
+    const range = new vscode.Range(match.line, span.character, match.line, span.character + span.length);
+    return { range, text: replaceText };
+  });
+}
+
+/**
+ * Security: all result URIs must be within the workspace before a batch operation.
+ * Only enforced if workspace folders exist (skip in tests/edge cases).
+ */
+function assertResultsInWorkspace(results: SearchResult[]): void {
+  const workspaceFolders = vscode.workspace.workspaceFolders;
+  if (workspaceFolders && workspaceFolders.length > 0) {
+    for (const result of results) {
+      if (!validateUriString(result.uri)) {
+        throw new Error('Security: All URIs must be within workspace');
+      }
+    }
+  }
+}
+
+/**
+ * Resolve the edits for every search result without applying them.
+ * Documents are opened only when the replacement needs their text, unless `loadAll` is set.
+ */
+async function planReplaceEdits(
+  results: SearchResult[],
+  query: string,
+  replaceText: string,
+  options: SearchOptions,
+  loadAll = false
+): Promise<{ edits: PlannedEdit[]; documents: Map<string, vscode.TextDocument> }> {
+  const searchRegex = buildSearchRegex(query, options);
+  const documents = new Map<string, vscode.TextDocument>();
+  const edits: PlannedEdit[] = [];
+
+  for (const result of results) {
+    let doc: vscode.TextDocument | undefined;
+    if (loadAll || options.structural || (searchRegex && (needsDocumentForReplace(options) || isTruncatedMatch(result)))) {
+      doc = documents.get(result.uri);
+      if (!doc) {
+        doc = await vscode.workspace.openTextDocument(vscode.Uri.parse(result.uri));
+        documents.set(result.uri, doc);
+      }
+    }
+    const resolved = options.structural && doc
+      ? resolveStructuralEdits(result, replaceText, doc, query)
+      : resolveLineMatchEdits(result, replaceText, doc, searchRegex, options);
+    for (const { range, text } of resolved) {
+      edits.push({ result, range, text });
+    }
+  }
+
+  return { edits, documents };
+}
+
+async function saveDocuments(uriStrings: Iterable<string>, documents?: Map<string, vscode.TextDocument>): Promise<void> {
+  for (const uriString of uriStrings) {
+    try {
+      const doc = documents?.get(uriString) ?? await vscode.workspace.openTextDocument(vscode.Uri.parse(uriString));
+      await doc.save();
+    } catch (e) {
+      console.error(`Failed to save ${uriString}:`, e);
+    }
+  }
+}
+
+/**
+ * Apply the operators typed into the query of a replace, once for both its search and the
+ * regex of its edits. Throws when one cannot be used, so nothing is replaced.
+ */
+function resolveReplaceQuery(
+  query: string,
+  scope: SearchScope,
+  options: SearchOptions
+): { query: string; scope: SearchScope; options: SearchOptions } {
+  const resolved = applyQueryOperators(query, scope, options);
+  if (resolved.operators?.errors.length) {
+    throw new Error(resolved.operators.errors.join('; '));
+  }
+  return resolved;
+}
+
+function describeReplace(query: string, replaceText: string): string {
+  return `Replace "${query}" with "${replaceText}"`;
+}
+
+export async function replaceOne(
+  uriString: string,
+  line: number,
+  character: number,
+  length: number,
+  replaceText: string,
+  query?: string,
+  options?: SearchOptions,
+  matchRanges?: Array<{ start: number; end: number }>,
+  matchCount?: number
+): Promise<void> {
   try {
     const uri = vscode.Uri.parse(uriString);
     
@@ -21,9 +301,21 @@ export async function replaceOne(uriString: string, line: number, character: num
       }
     }
     
+    if (query && options) {
+      ({ query, options } = resolveReplaceQuery(query, 'project', options));
+    }
     const edit = new vscode.WorkspaceEdit();
-    const range = new vscode.Range(line, character, line, character + length);
-    edit.replace(uri, range, replaceText);
+    const match: LineMatch = { line, character, length, matchRanges, matchCount };
+    const searchRegex = query && options ? buildSearchRegex(query, options) : null;
+    const structural = !!query && !!options?.structural;
+    const useDocument = structural || (!!options && !!searchRegex && (needsDocumentForReplace(options) || isTruncatedMatch(match)));
+    const doc = useDocument ? await vscode.workspace.openTextDocument(uri) : undefined;
+    const resolved = structural && doc && query
+      ? resolveStructuralEdits(match, replaceText, doc, query)
+      : resolveLineMatchEdits(match, replaceText, doc, searchRegex, options);
+    for (const { range, text } of resolved) {
+      edit.replace(uri, range, text);
+    }
     const success = await vscode.workspace.applyEdit(edit);
     
     if (success) {
@@ -45,56 +337,46 @@ export async function replaceAll(
   directoryPath: string | undefined,
   modulePath: string | undefined,
   onRefresh: () => Promise<void>
-): Promise<void> {
+): Promise<ReplaceTransaction | undefined> {
   try {
-    if (!query.trim()) {
-      return;
+    ({ query, scope, options } = resolveReplaceQuery(query, scope, options));
+    // File-name results have no text to replace, and renaming a declaration alone would break its usages
+    if (!query.trim() || options.fileNames || options.symbols) {
+      return undefined;
     }
 
     const results = await performSearch(query, scope, options, directoryPath, modulePath);
     const searchResults = results.results;
     if (searchResults.length === 0) {
       vscode.window.showInformationMessage('No occurrences found to replace.');
-      return;
+      return undefined;
     }
 
-    // Security: Validate all URIs before batch operation
-    // Only enforce validation if workspace folders exist (skip in tests/edge cases)
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (workspaceFolders && workspaceFolders.length > 0) {
-      for (const result of searchResults) {
-        if (!validateUriString(result.uri)) {
-          throw new Error('Security: All URIs must be within workspace');
-        }
-      }
-    }
+    assertResultsInWorkspace(searchResults);
 
     const edit = new vscode.WorkspaceEdit();
+    const { edits, documents } = await planReplaceEdits(searchResults, query, replaceText, options);
     const affectedUris = new Set<string>();
-    
-    for (const result of searchResults) {
-      const uri = vscode.Uri.parse(result.uri);
-      const range = new vscode.Range(result.line, result.character, result.line, result.character + result.length);
-      edit.replace(uri, range, replaceText);
-      affectedUris.add(result.uri);
+    for (const planned of edits) {
+      edit.replace(vscode.Uri.parse(planned.result.uri), planned.range, planned.text);
+      affectedUris.add(planned.result.uri);
     }
+    const replacedCount = edits.length;
+    const captured = await captureReplaceEdits(
+      edits.map((planned) => ({ uri: planned.result.uri, range: planned.range, text: planned.text })),
+      documents
+    );
     
     const success = await vscode.workspace.applyEdit(edit);
     
     if (success) {
-      // Save all affected documents
-      for (const uriString of affectedUris) {
-        try {
-          const doc = await vscode.workspace.openTextDocument(vscode.Uri.parse(uriString));
-          await doc.save();
-        } catch (e) {
-          console.error(`Failed to save ${uriString}:`, e);
-        }
-      }
+      await saveDocuments(affectedUris, documents);
+      const transaction = completeReplaceTransaction(captured, describeReplace(query, replaceText));
 
-      vscode.window.showInformationMessage(`Replaced ${searchResults.length} occurrences.`);
+      vscode.window.showInformationMessage(`Replaced ${replacedCount} occurrences.`);
       // Re-run search to update UI
       await onRefresh();
+      return transaction;
     } else {
       vscode.window.showErrorMessage('Failed to apply replacements.');
     }
@@ -103,4 +385,150 @@ export async function replaceAll(
     console.error('Error replacing all:', error);
     vscode.window.showErrorMessage(`Could not replace all: ${error}`);
   }
+  return undefined;
+}
+
+
+function describePlannedEdit(id: string, planned: PlannedEdit, doc: vscode.TextDocument): ReplacePreviewEdit {
+  const { start, end } = planned.range;
+  const startLine = doc.lineAt(start.line).text;
+  const endLine = doc.lineAt(end.line).text;
+  const prefix = startLine.slice(0, start.character);
+  const suffix = endLine.slice(end.character);
+  return {
+    id,
+    line: start.line,
+    character: start.character,
+    endLine: end.line,
+    endCharacter: end.character,
+    original: doc.getText(planned.range),
+    replacement: planned.text,
+    prefix: prefix.length > PREVIEW_PREFIX_CHARS ? '…' + prefix.slice(-PREVIEW_PREFIX_CHARS) : prefix,
+    suffix: suffix.length > PREVIEW_SUFFIX_CHARS ? suffix.slice(0, PREVIEW_SUFFIX_CHARS) + '…' : suffix,
+  };
+}
+
+/**
+ * Run the search and resolve every replacement a replace-all would make, without
+ * touching any file. Returns undefined when there is nothing to replace.
+ */
+export async function buildReplacePreview(
+  query: string,
+  replaceText: string,
+  scope: SearchScope,
+  options: SearchOptions,
+  directoryPath: string | undefined,
+  modulePath: string | undefined
+): Promise<ReplacePreview | undefined> {
+  try {
+    ({ query, scope, options } = resolveReplaceQuery(query, scope, options));
+    // File-name results have no text to replace, and renaming a declaration alone would break its usages
+    if (!query.trim() || options.fileNames || options.symbols) {
+      return undefined;
+    }
+
+    const results = await performSearch(query, scope, options, directoryPath, modulePath);
+    const searchResults = results.results;
+    if (searchResults.length === 0) {
+      vscode.window.showInformationMessage('No occurrences found to replace.');
+      return undefined;
+    }
+
+    assertResultsInWorkspace(searchResults);
+
+    const { edits, documents } = await planReplaceEdits(searchResults, query, replaceText, options, true);
+    const files = new Map<string, ReplacePreviewFile>();
+    for (const planned of edits) {
+      const { result } = planned;
+      const doc = documents.get(result.uri);
+      if (!doc) {
+        continue;
+      }
+      let file = files.get(result.uri);
+      if (!file) {
+        file = { uri: result.uri, fileName: result.fileName, relativePath: result.relativePath, edits: [] };
+        files.set(result.uri, file);
+      }
+      file.edits.push(describePlannedEdit(`${files.size - 1}:${file.edits.length}`, planned, doc));
+    }
+
+    return {
+      id: `${Date.now()}`,
+      query,
+      replaceText,
+      files: Array.from(files.values()),
+      totalEdits: edits.length,
+    };
+  } catch (error) {
+    console.error('Error previewing replace all:', error);
+    vscode.window.showErrorMessage(`Could not preview replace all: ${error}`);
+    return undefined;
+  }
+}
+
+/**
+ * Apply the accepted edits of a replace preview. Edits whose text no longer matches
+ * the previewed original (the file changed in the meantime) are skipped.
+ */
+export async function applyReplacePreview(
+  preview: ReplacePreview,
+  acceptedIds: string[],
+  onRefresh: () => Promise<void>
+): Promise<ReplaceTransaction | undefined> {
+  try {
+    const accepted = new Set(acceptedIds);
+    const edit = new vscode.WorkspaceEdit();
+    const affectedUris = new Set<string>();
+    const appliedEdits: Array<{ uri: string; range: vscode.Range; text: string }> = [];
+    const documents = new Map<string, vscode.TextDocument>();
+    let replacedCount = 0;
+    let skippedCount = 0;
+
+    for (const file of preview.files) {
+      const fileEdits = file.edits.filter((e) => accepted.has(e.id));
+      if (fileEdits.length === 0) {
+        continue;
+      }
+      const uri = vscode.Uri.parse(file.uri);
+      const doc = await vscode.workspace.openTextDocument(uri);
+      documents.set(file.uri, doc);
+      for (const e of fileEdits) {
+        const range = new vscode.Range(e.line, e.character, e.endLine, e.endCharacter);
+        if (doc.getText(range) !== e.original) {
+          skippedCount++;
+          continue;
+        }
+        edit.replace(uri, range, e.replacement);
+        appliedEdits.push({ uri: file.uri, range, text: e.replacement });
+        affectedUris.add(file.uri);
+        replacedCount++;
+      }
+    }
+
+    if (replacedCount === 0) {
+      vscode.window.showInformationMessage(
+        skippedCount > 0 ? 'Nothing replaced: the selected files changed since the preview.' : 'No replacements selected.'
+      );
+      return undefined;
+    }
+
+    const captured = await captureReplaceEdits(appliedEdits, documents);
+    const success = await vscode.workspace.applyEdit(edit);
+
+    if (success) {
+      await saveDocuments(affectedUris, documents);
+      const transaction = completeReplaceTransaction(captured, describeReplace(preview.query, preview.replaceText));
+
+      const skippedNote = skippedCount > 0 ? ` Skipped ${skippedCount} that changed since the preview.` : '';
+      vscode.window.showInformationMessage(`Replaced ${replacedCount} occurrences.${skippedNote}`);
+      await onRefresh();
+      return transaction;
+    } else {
+      vscode.window.showErrorMessage('Failed to apply replacements.');
+    }
+  } catch (error) {
+    console.error('Error applying replace preview:', error);
+    vscode.window.showErrorMessage(`Could not apply replacements: ${error}`);
+  }
+  return undefined;
 }
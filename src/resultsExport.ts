@@ -0,0 +1,275 @@
+import * as vscode from 'vscode';
+import { SearchOptions, SearchResult } from './utils';
+
+export type ExportFormat = 'json' | 'csv' | 'markdown' | 'sarif';
+
+/**
+ * What produced the exported results. Options carry the code-context filters
+ * the results were filtered with, so exports record them alongside the matches.
+ */
+export interface ExportMetadata {
+  query: string;
+  options?: SearchOptions;
+}
+
+const FORMAT_EXTENSIONS: Record<ExportFormat, string> = {
+  json: 'json',
+  csv: 'csv',
+  markdown: 'md',
+  sarif: 'sarif',
+};
+
+/** A match range as exported: 1-based columns, end exclusive. */
+interface ExportedRange {
+  startColumn: number;
+  endColumn: number;
+}
+
+function getMatchRanges(result: SearchResult): ExportedRange[] {
+  const ranges = result.matchRanges && result.matchRanges.length > 0
+    ? result.matchRanges
+    : [{ start: result.character, end: result.character + result.length }];
+  return ranges.map((r) => ({ startColumn: r.start + 1, endColumn: r.end + 1 }));
+}
+
+function getResultPath(result: SearchResult): string {
+  return result.relativePath || result.fileName;
+}
+
+function hasContext(result: SearchResult): boolean {
+  return !!(result.contextBefore?.length || result.contextAfter?.length);
+}
+
+function countMatches(results: SearchResult[]): number {
+  return results.reduce((sum, r) => sum + Math.max(r.matchCount ?? 0, getMatchRanges(r).length), 0);
+}
+
+function describeContextFilters(options: SearchOptions | undefined): Record<string, boolean | string[]> {
+  return {
+    includeCode: options?.includeCode ?? true,
+    includeComments: options?.includeComments ?? true,
+    includeStrings: options?.includeStrings ?? true,
+    ...(options?.codeCategories?.length ? { codeCategories: options.codeCategories } : {}),
+  };
+}
+
+export function formatResultsAsJson(results: SearchResult[], meta: ExportMetadata): string {
+  return JSON.stringify({
+    query: meta.query,
+    options: meta.options,
+    codeContext: describeContextFilters(meta.options),
+    totalResults: results.length,
+    totalMatches: countMatches(results),
+    results: results.map((r) => ({
+      path: getResultPath(r),
+      uri: r.uri,
+      line: r.line + 1,
+      column: r.character + 1,
+      preview: r.preview,
+      matchRanges: getMatchRanges(r),
+      ...(hasContext(r) ? { contextBefore: r.contextBefore ?? [], contextAfter: r.contextAfter ?? [] } : {}),
+    })),
+  }, null, 2);
+}
+
+function escapeCsvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatResultsAsCsv(results: SearchResult[]): string {
+  // Context columns only appear when the search collected context lines
+  const withContext = results.some(hasContext);
+  const rows = [['path', 'line', 'column', 'matchRanges', 'preview', ...(withContext ? ['contextBefore', 'contextAfter'] : [])]];
+  for (const r of results) {
+    const ranges = getMatchRanges(r).map((m) => `${m.startColumn}-${m.endColumn}`).join(';');
+    const row = [getResultPath(r), String(r.line + 1), String(r.character + 1), ranges, r.preview];
+    if (withContext) {
+      row.push((r.contextBefore ?? []).join('\n'), (r.contextAfter ?? []).join('\n'));
+    }
+    rows.push(row);
+  }
+  return rows.map((row) => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
+}
+
+function toInlineCode(text: string): string {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return '';
+  }
+  // Use a longer fence when the text itself contains backticks
+  const longestRun = Math.max(0, ...(trimmed.match(/`+/g) || []).map((run) => run.length));
+  const fence = '`'.repeat(longestRun + 1);
+  const padding = longestRun > 0 ? ' ' : '';
+  return `${fence}${padding}${trimmed}${padding}${fence}`;
+}
+
+/** Match line with its context as a code block nested under the checklist item */
+function toContextBlock(result: SearchResult): string[] {
+  const before = result.contextBefore ?? [];
+  const after = result.contextAfter ?? [];
+  const firstLine = result.line + 1 - before.length;
+  const body = [...before, result.preview, ...after].map((text, i) => `${firstLine + i}: ${text}`);
+  const longestRun = Math.max(2, ...body.map((line) => Math.max(0, ...(line.match(/`+/g) || []).map((run) => run.length))));
+  const fence = '`'.repeat(longestRun + 1);
+  return [`  ${fence}`, ...body.map((line) => `  ${line}`), `  ${fence}`];
+}
+
+export function formatResultsAsMarkdown(results: SearchResult[], meta: ExportMetadata): string {
+  const groups = new Map<string, SearchResult[]>();
+  for (const r of results) {
+    const path = getResultPath(r);
+    const group = groups.get(path) ?? [];
+    group.push(r);
+    groups.set(path, group);
+  }
+
+  const lines = [
+    `# Rifler results for ${toInlineCode(meta.query) || '""'}`,
+    '',
+    `${countMatches(results)} matches in ${groups.size} files`,
+  ];
+
+  const filters = describeContextFilters(meta.options);
+  const included = [
+    filters.includeCode ? 'code' : '',
+    filters.includeComments ? 'comments' : '',
+    filters.includeStrings ? 'strings' : '',
+  ].filter(Boolean);
+  if (included.length < 3) {
+    lines.push('', `Code context: ${included.join(', ') || 'none'}`);
+  }
+  if (meta.options?.codeCategories?.length) {
+    lines.push('', `Only in: ${meta.options.codeCategories.join(', ')}`);
+  }
+
+  for (const [path, group] of groups) {
+    lines.push('', `## ${path}`, '');
+    for (const r of group) {
+      lines.push(`- [ ] L${r.line + 1}:${r.character + 1} ${toInlineCode(r.preview)}`.trimEnd());
+      if (hasContext(r)) {
+        lines.push(...toContextBlock(r));
+      }
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+export function formatResultsAsSarif(results: SearchResult[], meta: ExportMetadata): string {
+  const ruleId = 'rifler.searchMatch';
+  const sarifResults = results.flatMap((r) =>
+    getMatchRanges(r).map((range) => ({
+      ruleId,
+      level: 'note',
+      message: { text: `Match for "${meta.query}"` },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: getResultPath(r).replace(/\\/g, '/'), uriBaseId: '%SRCROOT%' },
+            region: {
+              startLine: r.line + 1,
+              startColumn: range.startColumn,
+              endColumn: range.endColumn,
+              snippet: { text: r.preview },
+            },
+            ...(hasContext(r)
+              ? {
+                contextRegion: {
+                  startLine: r.line + 1 - (r.contextBefore?.length ?? 0),
+                  endLine: r.line + 1 + (r.contextAfter?.length ?? 0),
+                  snippet: { text: [...(r.contextBefore ?? []), r.preview, ...(r.contextAfter ?? [])].join('\n') },
+                },
+              }
+              : {}),
+          },
+        },
+      ],
+    }))
+  );
+
+  return JSON.stringify({
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'Rifler',
+            informationUri: 'https://github.com/ori-roza/rifler',
+            rules: [{ id: ruleId, shortDescription: { text: 'Search match' } }],
+          },
+        },
+        properties: {
+          query: meta.query,
+          options: meta.options,
+          codeContext: describeContextFilters(meta.options),
+        },
+        results: sarifResults,
+      },
+    ],
+  }, null, 2);
+}
+
+export function formatResults(format: ExportFormat, results: SearchResult[], meta: ExportMetadata): string {
+  switch (format) {
+    case 'json':
+      return formatResultsAsJson(results, meta);
+    case 'csv':
+      return formatResultsAsCsv(results);
+    case 'markdown':
+      return formatResultsAsMarkdown(results, meta);
+    case 'sarif':
+      return formatResultsAsSarif(results, meta);
+  }
+}
+
+/**
+ * Ask for a format and destination, then write the results to disk.
+ */
+export async function exportSearchResults(results: SearchResult[], meta: ExportMetadata): Promise<void> {
+  try {
+    if (results.length === 0) {
+      vscode.window.showInformationMessage('Rifler: No results to export.');
+      return;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+      [
+        { label: 'JSON', description: 'Results with line, column, preview and match ranges', format: 'json' as const },
+        { label: 'CSV', description: 'One row per result line', format: 'csv' as const },
+        { label: 'Markdown', description: 'Checklist grouped by file', format: 'markdown' as const },
+        { label: 'SARIF 2.1', description: 'For code scanning tools', format: 'sarif' as const },
+      ],
+      { placeHolder: 'Export results as...' }
+    );
+    if (!picked) {
+      return;
+    }
+
+    const extension = FORMAT_EXTENSIONS[picked.format];
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const target = await vscode.window.showSaveDialog({
+      defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder, `rifler-results.${extension}`) : undefined,
+      filters: { [picked.label]: [extension] },
+      saveLabel: 'Export',
+    });
+    if (!target) {
+      return;
+    }
+
+    const content = formatResults(picked.format, results, meta);
+    await vscode.workspace.fs.writeFile(target, new TextEncoder().encode(content));
+
+    const choice = await vscode.window.showInformationMessage(
+      `Rifler: Exported ${results.length} result(s) to ${target.fsPath}`,
+      'Open'
+    );
+    if (choice === 'Open') {
+      await vscode.window.showTextDocument(target);
+    }
+  } catch (error) {
+    console.error('Error exporting results:', error);
+    vscode.window.showErrorMessage(`Could not export results: ${error}`);
+  }
+}
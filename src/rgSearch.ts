@@ -3,7 +3,7 @@ import { ChildProcessWithoutNullStreams, spawn } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as readline from 'readline';
-import { SearchOptions, SearchResult, EXCLUDE_DIRS } from './utils';
+import { SearchOptions, SearchResult, EXCLUDE_DIRS, normalizeContextLines, toContextLine } from './utils';
 import { getTelemetryLogger } from './telemetry';
 
 interface RipgrepSearchParams {
@@ -14,6 +14,8 @@ interface RipgrepSearchParams {
   maxResults: number;
   workspaceFolders: readonly vscode.WorkspaceFolder[] | undefined;
   smartExcludesEnabled?: boolean;
+  /** Called with matches as they arrive, in batches, before the search completes */
+  onBatch?: (batch: SearchResult[]) => void;
 }
 
 type RipgrepMatchEvent = {
@@ -26,12 +28,30 @@ type RipgrepMatchEvent = {
   };
 };
 
-type RipgrepJsonEvent = RipgrepMatchEvent | { type: string; data?: unknown };
+type RipgrepContextEvent = {
+  type: 'context';
+  data: {
+    path: { text: string };
+    lines: { text: string };
+    line_number: number;
+  };
+};
+
+type RipgrepEndEvent = {
+  type: 'end';
+  data: {
+    path: { text: string };
+  };
+};
+
+type RipgrepJsonEvent = RipgrepMatchEvent | RipgrepContextEvent | RipgrepEndEvent | { type: string; data?: unknown };
 
 const PREVIEW_CONTEXT_BEFORE = 40;
 const PREVIEW_CONTEXT_AFTER = 160;
 const PREVIEW_MAX_CHARS = 260;
 const MAX_MATCH_RANGES_PER_RESULT = 24;
+const STREAM_BATCH_SIZE = 200;
+const STREAM_BATCH_INTERVAL_MS = 100;
 
 export function getRipgrepCommandCandidates(): string[] {
   const exeName = process.platform === 'win32' ? 'rg.exe' : 'rg';
@@ -161,7 +181,11 @@ function buildGlobArgs(fileMask: string, smartExcludesEnabled: boolean = true):
   return args;
 }
 
-function toRelativePath(filePath: string, workspaceFolders: readonly vscode.WorkspaceFolder[] | undefined): string {
+/**
+ * Path of a file relative to its workspace folder. In multi-root workspaces the
+ * folder name is prepended so files from different folders can be told apart.
+ */
+export function toRelativePath(filePath: string, workspaceFolders: readonly vscode.WorkspaceFolder[] | undefined): string {
   if (!workspaceFolders || workspaceFolders.length === 0) {
     return path.basename(filePath);
   }
@@ -173,8 +197,8 @@ function toRelativePath(filePath: string, workspaceFolders: readonly vscode.Work
       normalizedFilePath === folderPath ||
       normalizedFilePath.startsWith(folderPath + path.sep)
     ) {
-      const rel = path.relative(folderPath, normalizedFilePath);
-      return rel || path.basename(filePath);
+      const rel = path.relative(folderPath, normalizedFilePath) || path.basename(filePath);
+      return workspaceFolders.length > 1 ? path.join(folder.name, rel) : rel;
     }
   }
 
@@ -225,12 +249,88 @@ function mapMatchToResult(evt: RipgrepMatchEvent, workspaceFolders: readonly vsc
   };
 }
 
+function isEndEvent(evt: RipgrepJsonEvent): evt is RipgrepEndEvent {
+  return evt.type === 'end' && !!(evt as RipgrepEndEvent).data?.path?.text;
+}
+
+function isContextEvent(evt: RipgrepJsonEvent): evt is RipgrepContextEvent {
+  return evt.type === 'context' && typeof (evt as RipgrepContextEvent).data?.line_number === 'number';
+}
+
+/**
+ * Attaches ripgrep `context` lines to the matches around them. A context line
+ * can be both after one match and before the next when the two are close.
+ */
+export class ContextCollector {
+  private filePath = '';
+  private pending: Array<{ lineNumber: number; text: string }> = [];
+  private last?: { result: SearchResult; endLineNumber: number };
+
+  constructor(private readonly contextLines: number) {}
+
+  addContext(evt: RipgrepContextEvent): void {
+    const { path: filePath, lines, line_number: lineNumber } = evt.data;
+    this.switchFile(filePath.text);
+    const text = toContextLine(lines.text);
+
+    const last = this.last;
+    if (last) {
+      const after = last.result.contextAfter ?? [];
+      if (lineNumber === last.endLineNumber + after.length + 1 && after.length < this.contextLines) {
+        after.push(text);
+        last.result.contextAfter = after;
+      }
+    }
+
+    const previous = this.pending[this.pending.length - 1];
+    if (previous && previous.lineNumber !== lineNumber - 1) {
+      this.pending = [];
+    }
+    this.pending.push({ lineNumber, text });
+    if (this.pending.length > this.contextLines) {
+      this.pending.shift();
+    }
+  }
+
+  addMatch(evt: RipgrepMatchEvent, result: SearchResult): void {
+    this.switchFile(evt.data.path.text);
+    const lineNumber = evt.data.line_number;
+    const previous = this.pending[this.pending.length - 1];
+    result.contextBefore = previous && previous.lineNumber === lineNumber - 1
+      ? this.pending.map((p) => p.text)
+      : [];
+    result.contextAfter = [];
+
+    // Multiline matches span several lines; after-context starts below the last one
+    const spannedLines = evt.data.lines.text.replace(/\r?\n$/, '').split('\n').length;
+    this.last = { result, endLineNumber: lineNumber + spannedLines - 1 };
+    this.pending = [];
+  }
+
+  private switchFile(filePath: string): void {
+    if (filePath !== this.filePath) {
+      this.filePath = filePath;
+      this.pending = [];
+      this.last = undefined;
+    }
+  }
+}
+
 function isMatchEvent(evt: RipgrepJsonEvent): evt is RipgrepMatchEvent {
   return evt.type === 'match';
 }
 
-export function startRipgrepSearch(params: RipgrepSearchParams): { promise: Promise<SearchResult[]>; cancel: () => void } {
-  const { query, options, fileMask, roots, maxResults, workspaceFolders, smartExcludesEnabled } = params;
+/**
+ * `completedFiles` fills up as ripgrep finishes each file with matches, and gets every root
+ * once ripgrep exits by itself, so a search that stops early (cancel, timeout, result cap)
+ * knows what it does not have to search again.
+ */
+export function startRipgrepSearch(params: RipgrepSearchParams): {
+  promise: Promise<SearchResult[]>;
+  cancel: () => void;
+  completedFiles: Set<string>;
+} {
+  const { query, options, fileMask, roots, maxResults, workspaceFolders, smartExcludesEnabled, onBatch } = params;
 
   const args: string[] = ['--json', '--no-config'];
 
@@ -269,6 +369,11 @@ export function startRipgrepSearch(params: RipgrepSearchParams): { promise: Prom
     args.push('--word-regexp');
   }
 
+  const contextLines = normalizeContextLines(options.contextLines);
+  if (contextLines > 0) {
+    args.push('--before-context', String(contextLines), '--after-context', String(contextLines));
+  }
+
   // Disable .gitignore and other ignore files when smart excludes are OFF
   // This allows searching in node_modules and other typically-ignored directories
   if (smartExcludesEnabled === false) {
@@ -299,10 +404,34 @@ export function startRipgrepSearch(params: RipgrepSearchParams): { promise: Prom
   let cancelled = false;
 
   const results: SearchResult[] = [];
+  const completedFiles = new Set<string>();
+  const contextCollector = contextLines > 0 ? new ContextCollector(contextLines) : undefined;
   let done = false;
+  let batchStart = 0;
+  let batchTimer: ReturnType<typeof setTimeout> | undefined;
+
+  // Hand matches collected since the last flush to onBatch
+  const flushBatch = (): void => {
+    if (batchTimer) {
+      clearTimeout(batchTimer);
+      batchTimer = undefined;
+    }
+    if (!onBatch || cancelled || batchStart >= results.length) return;
+    const batch = results.slice(batchStart);
+    batchStart = results.length;
+    try {
+      onBatch(batch);
+    } catch (error) {
+      console.error('[Rifler] Error streaming search results:', error);
+    }
+  };
 
   const cleanup = (): void => {
     done = true;
+    if (batchTimer) {
+      clearTimeout(batchTimer);
+      batchTimer = undefined;
+    }
     const proc = child;
     if (!proc) return;
     proc.removeAllListeners();
@@ -359,14 +488,31 @@ export function startRipgrepSearch(params: RipgrepSearchParams): { promise: Prom
           return;
         }
 
+        if (isEndEvent(parsed)) {
+          completedFiles.add(parsed.data.path.text);
+          return;
+        }
+        if (contextCollector && isContextEvent(parsed)) {
+          contextCollector.addContext(parsed);
+          return;
+        }
         if (!isMatchEvent(parsed)) return;
         const result = mapMatchToResult(parsed, workspaceFolders);
         if (!result) return;
+        contextCollector?.addMatch(parsed, result);
 
         results.push(result);
         if (results.length >= maxResults) {
+          flushBatch();
           cancel();
           resolve(results);
+          return;
+        }
+        if (!onBatch) return;
+        if (results.length - batchStart >= STREAM_BATCH_SIZE) {
+          flushBatch();
+        } else if (!batchTimer) {
+          batchTimer = setTimeout(flushBatch, STREAM_BATCH_INTERVAL_MS);
         }
       });
 
@@ -390,6 +536,8 @@ export function startRipgrepSearch(params: RipgrepSearchParams): { promise: Prom
         }
         // ripgrep exits 0 when matches found, 1 when none found
         if (code === 0 || code === 1) {
+          roots.forEach((root) => completedFiles.add(root));
+          flushBatch();
           resolve(results);
         } else {
           const err = new Error(`ripgrep exited with code ${code}`);
@@ -400,5 +548,89 @@ export function startRipgrepSearch(params: RipgrepSearchParams): { promise: Prom
     });
   })();
 
+  return { promise, cancel, completedFiles };
+}
+
+/**
+ * List the files a content search would look at under `roots`: same globs, ignore files
+ * and smart excludes, via `rg --files`. Stops after `maxFiles`.
+ */
+export function startRipgrepFileList(params: {
+  roots: string[];
+  fileMask: string;
+  maxFiles: number;
+  smartExcludesEnabled?: boolean;
+}): { promise: Promise<string[]>; cancel: () => void } {
+  const { roots, fileMask, maxFiles, smartExcludesEnabled } = params;
+  const args: string[] = ['--files', '--no-config'];
+  if (smartExcludesEnabled === false) {
+    args.push('--no-ignore', '--hidden');
+  }
+  args.push(...buildGlobArgs(fileMask, smartExcludesEnabled ?? true), '--', ...roots);
+
+  const files: string[] = [];
+  let child: ChildProcessWithoutNullStreams | undefined;
+  let cancelled = false;
+  let finish: (() => void) | undefined;
+
+  const cancel = (): void => {
+    cancelled = true;
+    child?.kill();
+    finish?.();
+  };
+
+  const promise = (async (): Promise<string[]> => {
+    const spawned = await spawnWithFallback(getRipgrepCommandCandidates(), args);
+    child = spawned.child;
+    if (cancelled) {
+      child.kill();
+      return files;
+    }
+
+    return new Promise<string[]>((resolve, reject) => {
+      const proc = spawned.child;
+      const rl = readline.createInterface({ input: proc.stdout });
+      let done = false;
+      finish = (): void => {
+        if (done) return;
+        done = true;
+        rl.close();
+        proc.removeAllListeners();
+        resolve(files);
+      };
+
+      rl.on('line', (line: string) => {
+        if (done || !line) return;
+        files.push(line);
+        if (files.length >= maxFiles) {
+          cancel();
+        }
+      });
+      proc.stderr.on('data', () => {
+        // Ignore stderr noise, such as unreadable directories
+      });
+      proc.on('error', (err) => {
+        if (done) return;
+        done = true;
+        rl.close();
+        getTelemetryLogger()?.logError(err, { stage: 'rg_files_child_error' });
+        reject(err);
+      });
+      proc.on('close', (code, signal) => {
+        if (done) return;
+        // ripgrep exits 1 when no files are found
+        if (signal || code === 0 || code === 1) {
+          finish?.();
+        } else {
+          done = true;
+          rl.close();
+          const err = new Error(`ripgrep exited with code ${code}`);
+          getTelemetryLogger()?.logError(err, { stage: 'rg_files_exit', code });
+          reject(err);
+        }
+      });
+    });
+  })();
+
   return { promise, cancel };
 }
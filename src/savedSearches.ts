@@ -0,0 +1,442 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { SearchHistoryEntry, StateStore } from './state/StateStore';
+import { CODE_CATEGORIES, CodeCategory, SYMBOL_KIND_FILTERS, SymbolKindFilter } from './utils';
+
+/** Where a saved search lives: extension state for this workspace, for all workspaces, or the checked-in file. */
+export type SavedSearchLocation = 'workspace' | 'global' | 'shared';
+
+/**
+ * A named search: the query together with the scope, paths and options it runs with.
+ */
+export interface SavedSearch {
+  name: string;
+  query: string;
+  scope: string;
+  directoryPath?: string;
+  modulePath?: string;
+  options: SearchHistoryEntry['options'];
+}
+
+/** A search from a shared file, with the uri of the workspace folder it belongs to */
+export interface SharedSavedSearch extends SavedSearch {
+  folder: string;
+}
+
+export interface SavedSearchEntry extends SavedSearch {
+  location: SavedSearchLocation;
+  /** For shared searches, the uri of the workspace folder whose file holds it */
+  folder?: string;
+}
+
+/** Saved searches shared with the team, relative to each workspace folder */
+export const SHARED_SAVED_SEARCHES_PATH = '.vscode/rifler-searches.json';
+
+const SEARCH_SCOPES = ['project', 'directory', 'module', 'folders', 'openEditors', 'changedFiles'];
+
+const LOCATION_LABELS: Record<SavedSearchLocation, string> = {
+  workspace: 'Workspace',
+  global: 'Global',
+  shared: 'Shared',
+};
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value : undefined;
+}
+
+/**
+ * Validate a saved search read from state or a shared file. Returns undefined when the
+ * entry has no name or query; missing options fall back to the search defaults.
+ */
+export function normalizeSavedSearch(raw: unknown): SavedSearch | undefined {
+  if (!raw || typeof raw !== 'object') {
+    return undefined;
+  }
+  const entry = raw as Record<string, unknown>;
+  const name = typeof entry.name === 'string' ? entry.name.trim() : '';
+  const query = typeof entry.query === 'string' ? entry.query : '';
+  if (!name || !query.trim()) {
+    return undefined;
+  }
+
+  const scope = typeof entry.scope === 'string' && SEARCH_SCOPES.includes(entry.scope) ? entry.scope : 'project';
+  const options = (entry.options && typeof entry.options === 'object' ? entry.options : {}) as Record<string, unknown>;
+  return {
+    name,
+    query,
+    scope,
+    directoryPath: scope === 'directory' ? optionalString(entry.directoryPath) : undefined,
+    modulePath: scope === 'module' ? optionalString(entry.modulePath) : undefined,
+    options: {
+      matchCase: !!options.matchCase,
+      wholeWord: !!options.wholeWord,
+      useRegex: !!options.useRegex,
+      multiline: !!options.multiline,
+      structural: !!options.structural,
+      fileNames: !!options.fileNames,
+      symbols: !!options.symbols,
+      symbolKinds: Array.isArray(options.symbolKinds)
+        ? options.symbolKinds.filter((k): k is SymbolKindFilter => SYMBOL_KIND_FILTERS.includes(k as SymbolKindFilter))
+        : undefined,
+      fileMask: typeof options.fileMask === 'string' ? options.fileMask : '',
+      includeCode: options.includeCode !== false,
+      includeComments: options.includeComments !== false,
+      includeStrings: options.includeStrings !== false,
+      codeCategories: Array.isArray(options.codeCategories)
+        ? options.codeCategories.filter((c): c is CodeCategory => CODE_CATEGORIES.includes(c as CodeCategory))
+        : undefined,
+      folders: scope === 'folders' && Array.isArray(options.folders)
+        ? options.folders.filter((f): f is string => typeof f === 'string')
+        : undefined,
+      gitBase: scope === 'changedFiles' ? optionalString(options.gitBase) : undefined,
+    },
+  };
+}
+
+/** The content of a shared searches file, with the entries as written */
+interface SharedFileContent {
+  entries: unknown[];
+  /** The top-level object around `searches`, or undefined for a bare array */
+  container?: Record<string, unknown>;
+}
+
+function parseSharedFileContent(content: string): SharedFileContent {
+  const parsed = JSON.parse(content) as unknown;
+  if (Array.isArray(parsed)) {
+    return { entries: parsed };
+  }
+  if (!parsed || typeof parsed !== 'object') {
+    throw new Error('expected an object with a "searches" array');
+  }
+  const container = parsed as Record<string, unknown>;
+  if (container.searches === undefined) {
+    return { entries: [], container };
+  }
+  if (!Array.isArray(container.searches)) {
+    throw new Error('"searches" is not an array');
+  }
+  return { entries: container.searches, container };
+}
+
+/**
+ * Parse the content of a shared searches file. Accepts `{ "searches": [...] }` or a bare array.
+ */
+export function parseSharedSavedSearches(content: string): SavedSearch[] {
+  return parseSharedFileContent(content).entries
+    .map((entry) => normalizeSavedSearch(entry))
+    .filter((entry): entry is SavedSearch => !!entry);
+}
+
+/** Saved searches match by name, ignoring case */
+export function isSameSavedSearch(a: { name: string }, b: { name: string }): boolean {
+  return a.name.trim().toLowerCase() === b.name.trim().toLowerCase();
+}
+
+/** One-line summary of a saved search's scope and options, for QuickPick details */
+export function describeSavedSearch(search: SavedSearch): string {
+  const parts = [search.scope === 'directory' && search.directoryPath
+    ? `directory: ${search.directoryPath}`
+    : search.scope === 'module' && search.modulePath
+      ? `module: ${search.modulePath}`
+      : search.scope === 'folders'
+        ? `folders: ${(search.options.folders || []).map((f) => f.split(/[\\/]/).pop()).join(', ')}`
+        : search.scope === 'changedFiles' && search.options.gitBase
+          ? `changedFiles: vs ${search.options.gitBase}`
+          : search.scope];
+  if (search.options.fileMask) {
+    parts.push(`files: ${search.options.fileMask}`);
+  }
+  const flags = [
+    search.options.matchCase ? 'Aa' : '',
+    search.options.wholeWord ? 'W' : '',
+    search.options.useRegex ? '.*' : '',
+    search.options.structural ? 'structural' : '',
+    search.options.fileNames ? 'file names' : '',
+    search.options.symbols ? 'symbols' : '',
+  ].filter(Boolean);
+  if (flags.length > 0) {
+    parts.push(flags.join(' '));
+  }
+  const excluded = [
+    search.options.includeCode === false ? 'code' : '',
+    search.options.includeComments === false ? 'comments' : '',
+    search.options.includeStrings === false ? 'strings' : '',
+  ].filter(Boolean);
+  if (excluded.length > 0) {
+    parts.push(`excluding ${excluded.join(', ')}`);
+  }
+  if (search.options.codeCategories?.length) {
+    parts.push(`only ${search.options.codeCategories.join(', ')}`);
+  }
+  if (search.options.symbols && search.options.symbolKinds?.length) {
+    parts.push(`kinds: ${search.options.symbolKinds.join(', ')}`);
+  }
+  return parts.join(' · ');
+}
+
+function getSharedFileUri(folder: vscode.WorkspaceFolder): vscode.Uri {
+  return vscode.Uri.joinPath(folder.uri, ...SHARED_SAVED_SEARCHES_PATH.split('/'));
+}
+
+/**
+ * Read a shared file as written. A missing or empty file has no entries; a file that
+ * does not parse throws, so it is never overwritten.
+ */
+async function readSharedFileContent(uri: vscode.Uri): Promise<SharedFileContent> {
+  let content: string;
+  try {
+    content = new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+  } catch {
+    // No shared file in this folder
+    return { entries: [], container: {} };
+  }
+  if (!content.trim()) {
+    return { entries: [], container: {} };
+  }
+  return parseSharedFileContent(content);
+}
+
+/** A path as written to a shared file: relative to the folder that holds the file, with forward slashes */
+function toSharedPath(fsPath: string | undefined, folder: vscode.WorkspaceFolder): string | undefined {
+  if (!fsPath) {
+    return undefined;
+  }
+  const relative = path.relative(folder.uri.fsPath, fsPath);
+  // A path on another drive has no relative form
+  return path.isAbsolute(relative) ? fsPath : relative.split(path.sep).join('/') || '.';
+}
+
+function fromSharedPath(sharedPath: string | undefined, folder: vscode.WorkspaceFolder): string | undefined {
+  if (!sharedPath) {
+    return undefined;
+  }
+  return path.isAbsolute(sharedPath) ? sharedPath : path.join(folder.uri.fsPath, sharedPath);
+}
+
+/**
+ * The search as written to a shared file, so it works from every checkout: paths relative
+ * to the folder that holds the file, and selected folders by workspace folder name.
+ */
+function toSharedSearch(search: SavedSearch, folder: vscode.WorkspaceFolder): SavedSearch {
+  const workspaceFolders = vscode.workspace.workspaceFolders || [];
+  return {
+    ...search,
+    directoryPath: toSharedPath(search.directoryPath, folder),
+    modulePath: toSharedPath(search.modulePath, folder),
+    options: {
+      ...search.options,
+      // Folders that are no longer open have no name to share
+      folders: search.options.folders
+        ?.map((f) => workspaceFolders.find((w) => path.normalize(w.uri.fsPath) === path.normalize(f))?.name)
+        .filter((name): name is string => !!name),
+    },
+  };
+}
+
+/** Resolve the paths and folder names of a search read from the shared file of a folder */
+function fromSharedSearch(search: SavedSearch, folder: vscode.WorkspaceFolder): SavedSearch {
+  const workspaceFolders = vscode.workspace.workspaceFolders || [];
+  return {
+    ...search,
+    directoryPath: fromSharedPath(search.directoryPath, folder),
+    modulePath: fromSharedPath(search.modulePath, folder),
+    options: {
+      ...search.options,
+      // Absolute paths come from files written before folders were stored by name
+      folders: search.options.folders
+        ?.map((f) => (path.isAbsolute(f) ? f : workspaceFolders.find((w) => w.name === f)?.uri.fsPath))
+        .filter((f): f is string => !!f),
+    },
+  };
+}
+
+async function readSharedFile(folder: vscode.WorkspaceFolder): Promise<SharedSavedSearch[]> {
+  const uri = getSharedFileUri(folder);
+  let content: SharedFileContent;
+  try {
+    content = await readSharedFileContent(uri);
+  } catch (error) {
+    console.warn(`[Rifler] Ignoring invalid ${SHARED_SAVED_SEARCHES_PATH} in ${uri.fsPath}:`, error);
+    return [];
+  }
+  return content.entries
+    .map((entry) => normalizeSavedSearch(entry))
+    .filter((entry): entry is SavedSearch => !!entry)
+    .map((entry) => ({ ...fromSharedSearch(entry, folder), folder: folder.uri.toString() }));
+}
+
+/**
+ * Saved searches from the shared file of every workspace folder, each with the folder it
+ * was read from.
+ */
+export async function readSharedSavedSearches(folder?: vscode.WorkspaceFolder): Promise<SharedSavedSearch[]> {
+  const folders = folder ? [folder] : vscode.workspace.workspaceFolders || [];
+  const searches: SharedSavedSearch[] = [];
+  for (const f of folders) {
+    searches.push(...await readSharedFile(f));
+  }
+  return searches;
+}
+
+/**
+ * Add or replace (by name) a search in the shared file of a workspace folder, the first
+ * one by default. Entries and fields this version does not read are kept as written.
+ * Paths are written relative to that folder, and selected folders by name.
+ */
+export async function writeSharedSavedSearch(savedSearch: SavedSearch, folderUri?: string): Promise<void> {
+  const folder = getSharedFolder(folderUri);
+  const uri = getSharedFileUri(folder);
+  const search = toSharedSearch(savedSearch, folder);
+  const content = await readSharedFileForWrite(uri);
+  const previous = content.entries.find((e) => isSameRawSearch(e, search.name));
+  const raw = isRecord(previous) ? previous : {};
+  const entry = {
+    ...raw,
+    ...search,
+    options: { ...(isRecord(raw.options) ? raw.options : {}), ...search.options },
+  };
+  await writeSharedFile(uri, content, [...content.entries.filter((e) => !isSameRawSearch(e, search.name)), entry]);
+}
+
+/** Remove a search by name from the shared file of a workspace folder, the first one by default */
+export async function removeSharedSavedSearch(name: string, folderUri?: string): Promise<void> {
+  const uri = getSharedFileUri(getSharedFolder(folderUri));
+  const content = await readSharedFileForWrite(uri);
+  await writeSharedFile(uri, content, content.entries.filter((e) => !isSameRawSearch(e, name)));
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isSameRawSearch(raw: unknown, name: string): boolean {
+  return isRecord(raw) && typeof raw.name === 'string' && isSameSavedSearch(raw as { name: string }, { name });
+}
+
+function getSharedFolder(folderUri?: string): vscode.WorkspaceFolder {
+  const folders = vscode.workspace.workspaceFolders || [];
+  const folder = folderUri ? folders.find((f) => f.uri.toString() === folderUri) : folders[0];
+  if (!folder) {
+    throw new Error(folderUri
+      ? `The folder of this shared search is no longer open: ${folderUri}`
+      : 'Open a folder to share saved searches');
+  }
+  return folder;
+}
+
+async function readSharedFileForWrite(uri: vscode.Uri): Promise<SharedFileContent> {
+  try {
+    return await readSharedFileContent(uri);
+  } catch (error) {
+    throw new Error(`${uri.fsPath} is not valid (${error instanceof Error ? error.message : error}); fix it before saving`);
+  }
+}
+
+async function writeSharedFile(uri: vscode.Uri, content: SharedFileContent, entries: unknown[]): Promise<void> {
+  const data = content.container ? { ...content.container, searches: entries } : entries;
+  await vscode.workspace.fs.writeFile(uri, new TextEncoder().encode(JSON.stringify(data, null, 2) + '\n'));
+}
+
+/**
+ * All saved searches: workspace first, then shared, then global.
+ */
+export async function listSavedSearches(stateStore: StateStore): Promise<SavedSearchEntry[]> {
+  const shared = await readSharedSavedSearches();
+  return [
+    ...stateStore.getSavedSearches('workspace').map((s) => ({ ...s, location: 'workspace' as const })),
+    ...shared.map((s) => ({ ...s, location: 'shared' as const })),
+    ...stateStore.getSavedSearches('global').map((s) => ({ ...s, location: 'global' as const })),
+  ];
+}
+
+export function getSavedSearchLocationLabel(location: SavedSearchLocation): string {
+  return LOCATION_LABELS[location];
+}
+
+export async function deleteSavedSearch(stateStore: StateStore, entry: SavedSearchEntry): Promise<void> {
+  if (entry.location === 'shared') {
+    await removeSharedSavedSearch(entry.name, entry.folder);
+  } else {
+    stateStore.removeSavedSearch(entry.name, entry.location);
+  }
+}
+
+/**
+ * Ask for a name and a location, then save the search. Returns the saved entry,
+ * or undefined if the user cancelled.
+ */
+export async function promptSaveSearch(
+  stateStore: StateStore,
+  search: Omit<SavedSearch, 'name'>
+): Promise<SavedSearchEntry | undefined> {
+  try {
+    const normalized = normalizeSavedSearch({ ...search, name: search.query.trim().slice(0, 80) || 'search' });
+    if (!normalized) {
+      vscode.window.showInformationMessage('Rifler: Enter a search query before saving it.');
+      return undefined;
+    }
+
+    const name = await vscode.window.showInputBox({
+      title: 'Save Search',
+      prompt: `Name for "${normalized.query}"`,
+      value: normalized.name,
+      validateInput: (value) => (value.trim() ? undefined : 'Enter a name'),
+    });
+    if (!name?.trim()) {
+      return undefined;
+    }
+
+    const folders = vscode.workspace.workspaceFolders || [];
+    const picked = await vscode.window.showQuickPick(
+      [
+        { label: 'This Workspace', description: 'Saved in this workspace only', location: 'workspace' as const },
+        { label: 'All Workspaces', description: 'Saved for every workspace', location: 'global' as const },
+        ...folders.map((folder) => ({
+          label: 'Shared',
+          description: `Written to ${folders.length > 1 ? `${folder.name}/` : ''}${SHARED_SAVED_SEARCHES_PATH}`,
+          location: 'shared' as const,
+          folder,
+        })),
+      ],
+      { placeHolder: 'Save search to...' }
+    );
+    if (!picked) {
+      return undefined;
+    }
+
+    const sharedFolder = 'folder' in picked ? picked.folder : undefined;
+    const entry: SavedSearchEntry = {
+      ...normalized,
+      name: name.trim(),
+      location: picked.location,
+      ...(sharedFolder ? { folder: sharedFolder.uri.toString() } : {}),
+    };
+    // Only the file (or state) being written to can hold a search this one replaces
+    const existing = 'folder' in picked
+      ? await readSharedSavedSearches(picked.folder)
+      : stateStore.getSavedSearches(picked.location);
+    if (existing.some((s) => isSameSavedSearch(s, entry))) {
+      const choice = await vscode.window.showWarningMessage(
+        `Rifler: A saved search named "${entry.name}" already exists. Replace it?`,
+        { modal: true },
+        'Replace'
+      );
+      if (choice !== 'Replace') {
+        return undefined;
+      }
+    }
+
+    const { location, folder, ...savedSearch } = entry;
+    if (location === 'shared') {
+      await writeSharedSavedSearch(savedSearch, folder);
+    } else {
+      stateStore.saveSearch(savedSearch, location);
+    }
+    vscode.window.showInformationMessage(`Rifler: Saved search "${entry.name}".`);
+    return entry;
+  } catch (error) {
+    console.error('Error saving search:', error);
+    vscode.window.showErrorMessage(`Could not save search: ${error}`);
+    return undefined;
+  }
+}
@@ -4,25 +4,57 @@ import {
   SearchOptions,
   SearchResult,
   SearchScope,
-  buildSearchRegex,
+  buildPatternRegex,
   validateRegex,
+  isSafeRegex,
   validateFileMask,
   matchesFileMask,
   searchInContent,
   EXCLUDE_DIRS,
   BINARY_EXTENSIONS,
-  Limiter
+  Limiter,
+  collectFiles
 } from './utils';
-import { startRipgrepSearch } from './rgSearch';
-import { validateDirectoryPath } from './security/pathValidation';
+import { startRipgrepFileList, startRipgrepSearch, toRelativePath } from './rgSearch';
+import { validateDirectoryPath, isWithinWorkspace } from './security/pathValidation';
 import { filterResultsByCodeContext } from './codeContextFilter';
 import { getTelemetryLogger } from './telemetry';
+import { getChangedFiles } from './gitChanges';
+import { STRUCTURAL_EXTENSIONS, getStructuralAnchor, searchStructuralInContent, validateStructuralPattern } from './structuralSearch';
+import { rankFileNames } from './fileNameSearch';
+import { executeWorkspaceSymbolSearch } from './lspSearch';
+import { BooleanQuery, combineBooleanResults, getBooleanQuery } from './booleanQuery';
 
 type RootSpec = { fsPath: string; type: vscode.FileType };
 
-function filterResultsToRoots(results: SearchResult[], roots: RootSpec[]): SearchResult[] {
-  if (!results.length || !roots.length) return results;
+function uriToFsPath(uri: string): string {
+  const trimmed = (uri || '').trim();
+  if (!trimmed) return '';
+
+  // Prefer a string-based conversion so this works under Jest's vscode mock
+  // (which does not implement URI parsing semantics).
+  if (trimmed.startsWith('file://')) {
+    let rest = trimmed.slice('file://'.length);
+    // Collapse leading slashes to a single slash for POSIX paths.
+    rest = rest.replace(/^\/+/, '/');
+    // Decode FIRST, then check for Windows drive letter
+    try {
+      rest = decodeURIComponent(rest);
+    } catch {
+      // If decoding fails, continue with the original
+    }
+    // Handle Windows drive letter form: /C:/...
+    if (/^\/[A-Za-z]:[\\/]/.test(rest)) {
+      rest = rest.slice(1);
+    }
+    // Normalize path separators for the current platform
+    return path.normalize(rest);
+  }
+
+  return path.normalize(trimmed);
+}
 
+function createRootFilter(roots: RootSpec[]): (filePath: string) => boolean {
   const rootSpecs = roots.map((r) => ({ root: path.resolve(r.fsPath), type: r.type }));
 
   const isWithinDir = (filePath: string, dirPath: string): boolean => {
@@ -30,55 +62,204 @@ function filterResultsToRoots(results: SearchResult[], roots: RootSpec[]): Searc
     return rel === '' || (!rel.startsWith('..') && !path.isAbsolute(rel));
   };
 
-  const uriToFsPath = (uri: string): string => {
-    const trimmed = (uri || '').trim();
-    if (!trimmed) return '';
-
-    // Prefer a string-based conversion so this works under Jest's vscode mock
-    // (which does not implement URI parsing semantics).
-    if (trimmed.startsWith('file://')) {
-      let rest = trimmed.slice('file://'.length);
-      // Collapse leading slashes to a single slash for POSIX paths.
-      rest = rest.replace(/^\/+/, '/');
-      // Decode FIRST, then check for Windows drive letter
-      try {
-        rest = decodeURIComponent(rest);
-      } catch {
-        // If decoding fails, continue with the original
-      }
-      // Handle Windows drive letter form: /C:/...
-      if (/^\/[A-Za-z]:[\\/]/.test(rest)) {
-        rest = rest.slice(1);
+  return (filePath) => {
+    const resolved = path.resolve(filePath);
+    return rootSpecs.some(({ root, type }) => {
+      if (type === vscode.FileType.File) {
+        return resolved === root;
       }
-      // Normalize path separators for the current platform
-      return path.normalize(rest);
-    }
-
-    return path.normalize(trimmed);
+      // Treat unknown roots as directories to avoid accidentally expanding scope.
+      return isWithinDir(resolved, root);
+    });
   };
+}
+
+function filterResultsToRoots(results: SearchResult[], roots: RootSpec[]): SearchResult[] {
+  if (!results.length || !roots.length) return results;
 
+  const isWithinRoots = createRootFilter(roots);
   return results.filter((r) => {
     try {
-      const filePath = path.resolve(uriToFsPath(r.uri));
-      return rootSpecs.some(({ root, type }) => {
-        if (type === vscode.FileType.File) {
-          return filePath === root;
-        }
-        // Treat unknown roots as directories to avoid accidentally expanding scope.
-        return isWithinDir(filePath, root);
-      });
+      return isWithinRoots(uriToFsPath(r.uri));
     } catch {
       return false;
     }
   });
 }
 
+function fileKey(filePath: string): string {
+  const resolved = path.resolve(filePath);
+  return process.platform === 'win32' ? resolved.toLowerCase() : resolved;
+}
+
+/**
+ * Whether ripgrep would search a file it found under a folder: not binary, matching the
+ * file mask and not inside a smart-excluded directory. Files passed to ripgrep by path
+ * skip its globs, so they are checked here instead.
+ */
+function isSearchableFile(filePath: string, fileMask: string, smartExcludesEnabled: boolean): boolean {
+  if (BINARY_EXTENSIONS.has(path.extname(filePath).toLowerCase())) return false;
+  if (!matchesFileMask(filePath, fileMask)) return false;
+  if (smartExcludesEnabled) {
+    const relativePath = toRelativePath(filePath, vscode.workspace.workspaceFolders);
+    if (relativePath.split(/[\\/]/).slice(0, -1).some((segment) => EXCLUDE_DIRS.has(segment))) return false;
+  }
+  return true;
+}
+
+/**
+ * Open documents with unsaved edits that ripgrep could have searched: file-backed and
+ * passing the same file filters.
+ */
+function getDirtyDocuments(options: SearchOptions, smartExcludesEnabled: boolean): vscode.TextDocument[] {
+  return vscode.workspace.textDocuments.filter((doc) =>
+    doc.isDirty && doc.uri.scheme === 'file' && isSearchableFile(doc.uri.fsPath, options.fileMask, smartExcludesEnabled)
+  );
+}
+
+/** Split root paths into groups short enough for one ripgrep command line */
+function batchRoots(roots: string[]): string[][] {
+  const batches: string[][] = [];
+  let current: string[] = [];
+  let length = 0;
+  for (const root of roots) {
+    if (current.length > 0 && length + root.length + 1 > RIPGREP_ROOTS_MAX_CHARS) {
+      batches.push(current);
+      current = [];
+      length = 0;
+    }
+    current.push(root);
+    length += root.length + 1;
+  }
+  if (current.length > 0) {
+    batches.push(current);
+  }
+  return batches;
+}
+
+/**
+ * Run ripgrep once per batch of roots, one batch after another, until `limit` items are
+ * found. Cancelling stops the running batch and skips the rest.
+ */
+function startInRootBatches<T>(
+  roots: string[],
+  limit: number,
+  start: (roots: string[], limit: number) => { promise: Promise<T[]>; cancel: () => void }
+): { promise: Promise<T[]>; cancel: () => void } {
+  const batches = batchRoots(roots);
+  if (batches.length <= 1) {
+    return start(roots, limit);
+  }
+  let cancelled = false;
+  let cancelCurrent: (() => void) | undefined;
+  const promise = (async (): Promise<T[]> => {
+    const items: T[] = [];
+    for (const batch of batches) {
+      if (cancelled || items.length >= limit) break;
+      const run = start(batch, limit - items.length);
+      cancelCurrent = run.cancel;
+      items.push(...await run.promise);
+    }
+    return items;
+  })();
+  const cancel = (): void => {
+    cancelled = true;
+    cancelCurrent?.();
+  };
+  return { promise, cancel };
+}
+
+/**
+ * The files a continued search still has to read: those left by the previous continuation,
+ * or, the first time, every file under the roots ripgrep did not finish except the ones it
+ * did. Ripgrep reports only files with matches as finished, so files the stopped search
+ * read without a match are read again that one time; from then on ripgrep is given the
+ * files by name and every finished file is known.
+ */
+function startPendingFileList(
+  roots: string[],
+  continuation: SearchContinuation,
+  fileMask: string,
+  smartExcludesEnabled: boolean
+): { promise: Promise<string[]>; cancel: () => void } {
+  const done = continuation.completedFiles;
+  if (continuation.pendingFiles) {
+    return { promise: Promise.resolve(continuation.pendingFiles.filter((file) => !done.has(file))), cancel: () => undefined };
+  }
+  const remainingRoots = roots.filter((root) => !done.has(root));
+  if (remainingRoots.length === 0) {
+    return { promise: Promise.resolve([]), cancel: () => undefined };
+  }
+  const { promise, cancel } = startInRootBatches(remainingRoots, CONTINUE_SEARCH_MAX_FILES, (batch, limit) =>
+    startRipgrepFileList({ roots: batch, fileMask, maxFiles: limit, smartExcludesEnabled })
+  );
+  return { promise: promise.then((files) => files.filter((file) => !done.has(file))), cancel };
+}
+
+/**
+ * Ripgrep reads files from disk, so its hits for documents with unsaved edits are stale.
+ * Replace them with matches from the in-memory text, keeping each file where ripgrep
+ * listed it. Multiline queries are left alone since `searchInContent` matches per line.
+ */
+function mergeDirtyDocumentResults(
+  results: SearchResult[],
+  dirtyDocs: vscode.TextDocument[],
+  query: string,
+  options: SearchOptions,
+  roots: RootSpec[],
+  maxResults: number
+): SearchResult[] {
+  if (dirtyDocs.length === 0 || options.multiline) return results;
+  const regex = buildPatternRegex(query, options);
+  if (!regex) return results;
+
+  const inMemory = new Map<string, SearchResult[]>();
+  for (const doc of dirtyDocs) {
+    const filePath = doc.uri.fsPath;
+    const relativePath = toRelativePath(filePath, vscode.workspace.workspaceFolders);
+    const docResults = searchInContent(doc.getText(), regex, filePath, maxResults, relativePath, options.contextLines);
+    inMemory.set(fileKey(filePath), filterResultsToRoots(docResults, roots));
+  }
+
+  const merged: SearchResult[] = [];
+  for (const result of results) {
+    const key = fileKey(uriToFsPath(result.uri));
+    const replacement = inMemory.get(key);
+    if (!replacement) {
+      merged.push(result);
+      continue;
+    }
+    merged.push(...replacement);
+    // Later disk hits for the same file are dropped
+    inMemory.set(key, []);
+  }
+  for (const remaining of inMemory.values()) {
+    merged.push(...remaining);
+  }
+  return merged.slice(0, maxResults);
+}
+
 export interface SearchOutcome {
   results: SearchResult[];
   timedOut: boolean;
   cancelled: boolean;
   resultCapHit: boolean;
   profile?: SearchProfile;
+  /** Set when the search stopped early (timeout or result cap) and can be continued */
+  continuation?: SearchContinuation;
+}
+
+/**
+ * State needed to resume a search that ripgrep stopped before finishing. Its results are
+ * carried over, and the search goes on with the files it has not finished (see
+ * startPendingFileList).
+ */
+export interface SearchContinuation {
+  /** Files, and whole roots, that ripgrep finished */
+  completedFiles: ReadonlySet<string>;
+  /** Files left to search, once the search has been continued */
+  pendingFiles?: string[];
+  previousResults: SearchResult[];
 }
 
 export interface SearchProfile {
@@ -100,6 +281,32 @@ export interface SearchProfile {
 
 const SEARCH_TIMEOUT_MS = 5000;
 const DIRECTORY_SCOPE_MIN_QUERY_LENGTH = 3;
+// Lines of anchor hits collected to find the candidate files of a structural search
+const STRUCTURAL_CANDIDATE_LIMIT = 50000;
+// File-name search ranks at most this many files and shows the best matches
+const FILE_NAME_SEARCH_MAX_FILES = 200000;
+// Files listed to continue a stopped search
+const CONTINUE_SEARCH_MAX_FILES = 1000000;
+const FILE_NAME_SEARCH_MAX_RESULTS = 500;
+// Each symbol result opens its document for the preview line, so symbol search shows fewer
+const SYMBOL_SEARCH_MAX_RESULTS = 500;
+// Characters of root paths per ripgrep run; Windows caps a whole command line at 32767
+const RIPGREP_ROOTS_MAX_CHARS = 16000;
+const DEFAULT_SEARCH_SESSION = 'default';
+
+export function getSearchTimeoutMs(scope: SearchScope): number {
+  // The folders, open editors and changed files scopes search at most the project, so they
+  // use the project timeout (documented on the setting)
+  const key = scope === 'directory' || scope === 'module' ? scope : 'project';
+  const configured = vscode.workspace.getConfiguration('rifler').get<number>(`searchTimeout.${key}`, SEARCH_TIMEOUT_MS);
+  return typeof configured === 'number' && Number.isFinite(configured) && configured > 0
+    ? configured
+    : SEARCH_TIMEOUT_MS;
+}
+
+function resultKey(result: SearchResult): string {
+  return `${result.uri}:${result.line}:${result.character}`;
+}
 
 function estimateSearchPayloadBytes(results: SearchResult[]): number {
   let bytes = 0;
@@ -117,6 +324,13 @@ function estimateSearchPayloadBytes(results: SearchResult[]): number {
   return bytes;
 }
 
+/**
+ * Search the query in the given scope. Filters typed into the query (`path:`, `lang:`,
+ * `case:` and the like) must already be applied to it, its scope and options by
+ * applyQueryOperators, where the request came in. A query with `AND` /
+ * `NOT` operators is searched term by term and the results combined per file (see booleanQuery.ts).
+ * Starting a search cancels the one still running in the same `searchSession`.
+ */
 export async function performSearch(
   query: string,
   scope: SearchScope,
@@ -125,7 +339,112 @@ export async function performSearch(
   modulePath?: string,
   maxResults: number = 10000,
   smartExcludesEnabled: boolean = true,
-  requestId?: string
+  requestId?: string,
+  onBatch?: (batch: SearchResult[]) => void,
+  continuation?: SearchContinuation,
+  searchSession: string = DEFAULT_SEARCH_SESSION
+): Promise<SearchOutcome> {
+  const booleanQuery = getBooleanQuery(query, options);
+  if (booleanQuery) {
+    return searchBoolean(
+      booleanQuery,
+      scope,
+      options,
+      directoryPath,
+      modulePath,
+      maxResults,
+      smartExcludesEnabled,
+      requestId,
+      searchSession
+    );
+  }
+  return searchPattern(
+    query,
+    scope,
+    options,
+    directoryPath,
+    modulePath,
+    maxResults,
+    smartExcludesEnabled,
+    requestId,
+    onBatch,
+    continuation,
+    searchSession
+  );
+}
+
+/**
+ * Search each term of a boolean query with the same scope, file mask and code-context
+ * filters, then keep the files every positive term hit and no negative term hit.
+ * Results only arrive at the end: a file can be dropped by a term searched later.
+ */
+async function searchBoolean(
+  booleanQuery: BooleanQuery,
+  scope: SearchScope,
+  options: SearchOptions,
+  directoryPath: string | undefined,
+  modulePath: string | undefined,
+  maxResults: number,
+  smartExcludesEnabled: boolean,
+  requestId: string | undefined,
+  searchSession: string
+): Promise<SearchOutcome> {
+  const effectiveMaxResults = Math.max(1, Math.floor(maxResults || 10000));
+  const outcome: SearchOutcome = { results: [], timedOut: false, cancelled: false, resultCapHit: false };
+  const terms = [
+    ...booleanQuery.positive.map((term) => ({ term, negated: false })),
+    ...booleanQuery.negative.map((term) => ({ term, negated: true })),
+  ];
+  const positive: SearchResult[][] = [];
+  const negative: SearchResult[][] = [];
+  let candidateFiles: Set<string> | undefined;
+
+  for (const { term, negated } of terms) {
+    // Nothing left to narrow down once no file has every positive term
+    if (candidateFiles && candidateFiles.size === 0) break;
+    const termOutcome = await searchPattern(
+      term,
+      scope,
+      options,
+      directoryPath,
+      modulePath,
+      effectiveMaxResults,
+      smartExcludesEnabled,
+      requestId,
+      undefined,
+      undefined,
+      searchSession
+    );
+    outcome.timedOut = outcome.timedOut || termOutcome.timedOut;
+    outcome.resultCapHit = outcome.resultCapHit || termOutcome.resultCapHit;
+    if (termOutcome.cancelled) {
+      return { ...outcome, cancelled: true };
+    }
+    if (negated) {
+      negative.push(termOutcome.results);
+      continue;
+    }
+    positive.push(termOutcome.results);
+    const termFiles = new Set(termOutcome.results.map((r) => r.uri));
+    candidateFiles = new Set([...(candidateFiles ?? termFiles)].filter((uri) => termFiles.has(uri)));
+  }
+
+  outcome.results = combineBooleanResults(positive, negative, effectiveMaxResults);
+  return outcome;
+}
+
+async function searchPattern(
+  query: string,
+  scope: SearchScope,
+  options: SearchOptions,
+  directoryPath?: string,
+  modulePath?: string,
+  maxResults: number = 10000,
+  smartExcludesEnabled: boolean = true,
+  requestId?: string,
+  onBatch?: (batch: SearchResult[]) => void,
+  continuation?: SearchContinuation,
+  searchSession: string = DEFAULT_SEARCH_SESSION
 ): Promise<SearchOutcome> {
   const searchStartedAt = Date.now();
   if (!query.trim() || query.length < 2) {
@@ -138,6 +457,18 @@ export async function performSearch(
 
   options.multiline = !!options.multiline;
 
+  if (options.symbols) {
+    return searchSymbols(query, scope, options, directoryPath, modulePath, maxResults, smartExcludesEnabled);
+  }
+
+  if (options.fileNames) {
+    return searchFileNames(query, scope, options, directoryPath, modulePath, maxResults, smartExcludesEnabled, searchSession);
+  }
+
+  if (options.structural) {
+    return searchStructural(query, scope, options, directoryPath, modulePath, maxResults, smartExcludesEnabled, searchSession);
+  }
+
   const regexValidation = validateRegex(query, options.useRegex, !!options.multiline);
   if (!regexValidation.isValid) {
     console.error('Invalid regex:', regexValidation.error);
@@ -149,7 +480,7 @@ export async function performSearch(
     return { results: [], timedOut: false, cancelled: false, resultCapHit: false };
   }
 
-  if (!buildSearchRegex(query, options)) {
+  if (!buildPatternRegex(query, options)) {
     return { results: [], timedOut: false, cancelled: false, resultCapHit: false };
   }
 
@@ -160,8 +491,12 @@ export async function performSearch(
   }
 
   const effectiveMaxResults = Math.max(1, Math.floor(maxResults || 10000));
+  if (scope === 'openEditors') {
+    return searchOpenEditors(query, options, effectiveMaxResults);
+  }
+
   const resolveRootsStartedAt = Date.now();
-  const rootSpecs = await resolveSearchRoots(scope, directoryPath, modulePath);
+  const rootSpecs = await resolveSearchRoots(scope, directoryPath, modulePath, options, smartExcludesEnabled);
   const resolveRootsDurationMs = Date.now() - resolveRootsStartedAt;
   if (rootSpecs.length === 0) {
     return { results: [], timedOut: false, cancelled: false, resultCapHit: false };
@@ -172,46 +507,102 @@ export async function performSearch(
   let cancelled = false;
   let resultCapHit = false;
 
-  cancelActiveSearch();
-  const { promise, cancel } = startRipgrepSearch({
-    query,
-    options,
-    fileMask: options.fileMask,
-    roots,
-    maxResults: effectiveMaxResults,
-    workspaceFolders: vscode.workspace.workspaceFolders,
-    smartExcludesEnabled
-  });
+  // Files only partly searched by the previous run are searched again; drop the lines we already have
+  const previousKeys = new Set((continuation?.previousResults ?? []).map(resultKey));
+  const isNewResult = (r: SearchResult): boolean => !previousKeys.has(resultKey(r));
+
+  // Unsaved documents are searched in memory once ripgrep finishes, so their disk hits are not streamed
+  const dirtyDocs = getDirtyDocuments(options, smartExcludesEnabled);
+  const dirtyFileKeys = new Set(options.multiline ? [] : dirtyDocs.map((doc) => fileKey(doc.uri.fsPath)));
+  const isCleanResult = (r: SearchResult): boolean => !dirtyFileKeys.has(fileKey(uriToFsPath(r.uri)));
+
+  // Batches go through the same root and code-context filters as the final results.
+  // Filtering is async, so batches are chained to reach onBatch in ripgrep's order.
+  let streamChain: Promise<void> = Promise.resolve();
+  const streamBatch = onBatch
+    ? (batch: SearchResult[]): void => {
+      streamChain = streamChain.then(async () => {
+        const clean = filterResultsToRoots(batch, rootSpecs).filter((r) => isNewResult(r) && isCleanResult(r));
+        const filtered = await filterResultsByCodeContext(clean, options);
+        if (filtered.length > 0 && !cancelled) {
+          onBatch(filtered);
+        }
+      }).catch((error) => {
+        console.error('Error streaming search results:', error);
+      });
+    }
+    : undefined;
 
+  cancelActiveSearch(searchSession);
+  let cancelRun: () => void = () => undefined;
   const cancelForNewSearch = (): void => {
     cancelled = true;
-    cancel();
+    cancelRun();
   };
+  activeSearchCancels.set(searchSession, cancelForNewSearch);
 
-  activeSearchCancel = cancelForNewSearch;
-  const timeoutId = setTimeout(() => {
-    timedOut = true;
-    cancel();
-  }, SEARCH_TIMEOUT_MS);
+  // A continued search only has room for the results the stopped one did not find
+  const previousResults = continuation?.previousResults ?? [];
+  const resultLimit = effectiveMaxResults - previousResults.length;
+  // Each ripgrep run reports the files it finished, for continuing the search
+  const runs: Array<{ completedFiles: Set<string> }> = [];
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
 
   try {
+    let searchRoots = roots;
+    if (continuation) {
+      const listing = startPendingFileList(roots, continuation, options.fileMask, smartExcludesEnabled);
+      cancelRun = listing.cancel;
+      searchRoots = await listing.promise;
+    }
+
     const rgStartedAt = Date.now();
-    const rawResults = await promise;
+    let rawResults: SearchResult[] = [];
+    if (searchRoots.length > 0 && resultLimit > 0 && !cancelled) {
+      const run = startInRootBatches(searchRoots, resultLimit, (batch, limit) => {
+        const ripgrep = startRipgrepSearch({
+          query,
+          options,
+          fileMask: options.fileMask,
+          roots: batch,
+          maxResults: limit,
+          workspaceFolders: vscode.workspace.workspaceFolders,
+          smartExcludesEnabled,
+          onBatch: streamBatch,
+        });
+        runs.push(ripgrep);
+        return ripgrep;
+      });
+      cancelRun = run.cancel;
+      timeoutId = setTimeout(() => {
+        timedOut = true;
+        run.cancel();
+      }, getSearchTimeoutMs(scope));
+      rawResults = await run.promise;
+    }
     const rgDurationMs = Date.now() - rgStartedAt;
     clearTimeout(timeoutId);
+    // Let in-flight batches land before the final outcome closes the stream
+    await streamChain;
 
     const rootFilterStartedAt = Date.now();
-    const results = filterResultsToRoots(rawResults, rootSpecs);
+    const results = mergeDirtyDocumentResults(
+      filterResultsToRoots(rawResults, rootSpecs),
+      dirtyDocs,
+      query,
+      options,
+      rootSpecs,
+      effectiveMaxResults
+    ).filter(isNewResult);
     const rootFilterDurationMs = Date.now() - rootFilterStartedAt;
 
     const contextFilterStartedAt = Date.now();
-    const filteredResults = await filterResultsByCodeContext(results, options);
+    const newResults = await filterResultsByCodeContext(results, options);
+    const filteredResults = [...previousResults, ...newResults].slice(0, effectiveMaxResults);
     const contextFilterDurationMs = Date.now() - contextFilterStartedAt;
 
-    resultCapHit = rawResults.length >= effectiveMaxResults;
-    if (activeSearchCancel === cancelForNewSearch) {
-      activeSearchCancel = undefined;
-    }
+    resultCapHit = previousResults.length + rawResults.length >= effectiveMaxResults;
+    clearActiveSearch(searchSession, cancelForNewSearch);
     const profile: SearchProfile = {
       requestId,
       scope,
@@ -228,12 +619,22 @@ export async function performSearch(
         total: Date.now() - searchStartedAt,
       },
     };
-    return { results: filteredResults, timedOut, cancelled, resultCapHit, profile };
+    // Past the result cap there is no room left, so only a timed out search goes on
+    const canContinue = timedOut && !resultCapHit && !cancelled;
+    let nextContinuation: SearchContinuation | undefined;
+    if (canContinue) {
+      const completedFiles = new Set([...(continuation?.completedFiles ?? []), ...runs.flatMap((run) => [...run.completedFiles])]);
+      nextContinuation = {
+        completedFiles,
+        pendingFiles: continuation ? searchRoots.filter((file) => !completedFiles.has(file)) : undefined,
+        previousResults: filteredResults,
+      };
+    }
+    return { results: filteredResults, timedOut, cancelled, resultCapHit, profile, continuation: nextContinuation };
   } catch (error) {
     clearTimeout(timeoutId);
-    if (activeSearchCancel === cancelForNewSearch) {
-      activeSearchCancel = undefined;
-    }
+    await streamChain;
+    clearActiveSearch(searchSession, cancelForNewSearch);
     console.error('Error during ripgrep search:', error);
     getTelemetryLogger()?.logError(error instanceof Error ? error : new Error(String(error)), {
       stage: 'ripgrep',
@@ -241,16 +642,16 @@ export async function performSearch(
     // Fallback to JS search to preserve behavior (useful for tests or missing rg)
     try {
       const results: SearchResult[] = [];
-      const regex = buildSearchRegex(query, options);
+      const regex = buildPatternRegex(query, options);
       if (!regex) return { results: [], timedOut, cancelled, resultCapHit: false };
       const limiter = new Limiter(100);
       const perFileTimeBudgetMs = 2500;
 
       for (const spec of rootSpecs) {
         if (spec.type === vscode.FileType.File) {
-          await fallbackSearchInFile(spec.fsPath, regex, results, effectiveMaxResults, perFileTimeBudgetMs);
+          await fallbackSearchInFile(spec.fsPath, regex, results, effectiveMaxResults, perFileTimeBudgetMs, options.contextLines);
         } else {
-          await fallbackSearchInDirectory(spec.fsPath, regex, options.fileMask, results, effectiveMaxResults, limiter, perFileTimeBudgetMs, smartExcludesEnabled);
+          await fallbackSearchInDirectory(spec.fsPath, regex, options.fileMask, results, effectiveMaxResults, limiter, perFileTimeBudgetMs, smartExcludesEnabled, options.contextLines);
         }
 
         if (results.length >= effectiveMaxResults) break;
@@ -272,19 +673,292 @@ export async function performSearch(
   }
 }
 
-let activeSearchCancel: (() => void) | undefined;
+/**
+ * Text documents shown in editor tabs. Only files inside the workspace are included,
+ * since results must be replaceable like any other search result.
+ */
+async function getOpenEditorDocuments(): Promise<vscode.TextDocument[]> {
+  const uris = new Map<string, vscode.Uri>();
+  for (const group of vscode.window.tabGroups.all) {
+    for (const tab of group.tabs) {
+      const uri = tab.input instanceof vscode.TabInputText
+        ? tab.input.uri
+        : tab.input instanceof vscode.TabInputTextDiff ? tab.input.modified : undefined;
+      if (uri && uri.scheme === 'file' && (!vscode.workspace.workspaceFolders?.length || isWithinWorkspace(uri.fsPath))) {
+        uris.set(uri.toString(), uri);
+      }
+    }
+  }
+
+  const documents: vscode.TextDocument[] = [];
+  for (const [uriString, uri] of uris) {
+    try {
+      // Loaded documents carry unsaved edits; tabs restored after a reload are opened from disk
+      const doc = vscode.workspace.textDocuments.find((d) => d.uri.toString() === uriString)
+        ?? await vscode.workspace.openTextDocument(uri);
+      documents.push(doc);
+    } catch (error) {
+      console.warn(`[Rifler] Could not read open editor ${uriString}:`, error);
+    }
+  }
+  return documents;
+}
+
+/**
+ * Search the in-memory text of every open editor, including unsaved changes.
+ */
+async function searchOpenEditors(query: string, options: SearchOptions, maxResults: number): Promise<SearchOutcome> {
+  const regex = buildPatternRegex(query, options);
+  if (!regex) {
+    return { results: [], timedOut: false, cancelled: false, resultCapHit: false };
+  }
+
+  const results: SearchResult[] = [];
+  for (const doc of await getOpenEditorDocuments()) {
+    if (results.length >= maxResults) break;
+    const filePath = doc.uri.fsPath;
+    if (!matchesFileMask(filePath, options.fileMask)) continue;
+    const relativePath = toRelativePath(filePath, vscode.workspace.workspaceFolders);
+    results.push(...searchInContent(doc.getText(), regex, filePath, maxResults - results.length, relativePath, options.contextLines));
+  }
+
+  return {
+    results: await filterResultsByCodeContext(results, options),
+    timedOut: false,
+    cancelled: false,
+    resultCapHit: results.length >= maxResults,
+  };
+}
+
+/**
+ * File-name search: lists the files a content search would read (same scopes, file mask and
+ * excludes) and ranks their paths against the query with a fuzzy match.
+ */
+async function searchFileNames(
+  query: string,
+  scope: SearchScope,
+  options: SearchOptions,
+  directoryPath: string | undefined,
+  modulePath: string | undefined,
+  maxResults: number,
+  smartExcludesEnabled: boolean,
+  searchSession: string
+): Promise<SearchOutcome> {
+  let files: string[] = [];
+  let timedOut = false;
+  let cancelled = false;
 
-function cancelActiveSearch(): void {
-  if (activeSearchCancel) {
-    activeSearchCancel();
-    activeSearchCancel = undefined;
+  if (scope === 'openEditors') {
+    files = (await getOpenEditorDocuments())
+      .map((doc) => doc.uri.fsPath)
+      .filter((filePath) => matchesFileMask(filePath, options.fileMask));
+  } else {
+    const rootSpecs = await resolveSearchRoots(scope, directoryPath, modulePath, options, smartExcludesEnabled);
+    if (rootSpecs.length === 0) {
+      return { results: [], timedOut: false, cancelled: false, resultCapHit: false };
+    }
+
+    cancelActiveSearch(searchSession);
+    const { promise, cancel } = startInRootBatches(rootSpecs.map((r) => r.fsPath), FILE_NAME_SEARCH_MAX_FILES, (batch, limit) =>
+      startRipgrepFileList({
+        roots: batch,
+        fileMask: options.fileMask,
+        maxFiles: limit,
+        smartExcludesEnabled,
+      })
+    );
+    const cancelForNewSearch = (): void => {
+      cancelled = true;
+      cancel();
+    };
+    activeSearchCancels.set(searchSession, cancelForNewSearch);
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      cancel();
+    }, getSearchTimeoutMs(scope));
+
+    try {
+      files = await promise;
+    } catch (error) {
+      console.error('Error listing files with ripgrep:', error);
+      for (const spec of rootSpecs) {
+        if (spec.type === vscode.FileType.File) {
+          files.push(spec.fsPath);
+        } else {
+          files.push(...await collectFiles(spec.fsPath, options.fileMask, FILE_NAME_SEARCH_MAX_FILES - files.length));
+        }
+      }
+    } finally {
+      clearTimeout(timeoutId);
+      clearActiveSearch(searchSession, cancelForNewSearch);
+    }
+  }
+
+  const workspaceFolders = vscode.workspace.workspaceFolders;
+  const candidates = files.map((filePath) => ({ filePath, relativePath: toRelativePath(filePath, workspaceFolders) }));
+  const limit = Math.min(FILE_NAME_SEARCH_MAX_RESULTS, Math.max(1, Math.floor(maxResults || 10000)));
+  return {
+    results: rankFileNames(candidates, query, limit),
+    timedOut,
+    cancelled,
+    // Only an incomplete file list is a cap; the ranking always keeps the best matches
+    resultCapHit: files.length >= FILE_NAME_SEARCH_MAX_FILES,
+  };
+}
+
+/**
+ * Symbol search: asks the workspace symbol providers for the query and keeps the symbols
+ * declared in files the scope, file mask and excludes would search.
+ */
+async function searchSymbols(
+  query: string,
+  scope: SearchScope,
+  options: SearchOptions,
+  directoryPath: string | undefined,
+  modulePath: string | undefined,
+  maxResults: number,
+  smartExcludesEnabled: boolean
+): Promise<SearchOutcome> {
+  let isInScope: (filePath: string) => boolean;
+  if (scope === 'openEditors') {
+    const openFiles = new Set((await getOpenEditorDocuments()).map((doc) => fileKey(doc.uri.fsPath)));
+    isInScope = (filePath) => openFiles.has(fileKey(filePath));
+  } else {
+    const rootSpecs = await resolveSearchRoots(scope, directoryPath, modulePath, options, smartExcludesEnabled);
+    if (rootSpecs.length === 0) {
+      return { results: [], timedOut: false, cancelled: false, resultCapHit: false };
+    }
+    isInScope = createRootFilter(rootSpecs);
+  }
+
+  const workspaceFolders = vscode.workspace.workspaceFolders;
+  const include = (uri: vscode.Uri): boolean => {
+    if (uri.scheme !== 'file') return false;
+    const filePath = uri.fsPath;
+    if (!isInScope(filePath) || !matchesFileMask(filePath, options.fileMask)) return false;
+    if (smartExcludesEnabled) {
+      const relativePath = toRelativePath(filePath, workspaceFolders);
+      if (relativePath.split(/[\\/]/).slice(0, -1).some((segment) => EXCLUDE_DIRS.has(segment))) return false;
+    }
+    return true;
+  };
+
+  const limit = Math.min(SYMBOL_SEARCH_MAX_RESULTS, Math.max(1, Math.floor(maxResults || 10000)));
+  const results = await executeWorkspaceSymbolSearch(query.trim(), options.symbolKinds || [], limit, include);
+  return {
+    results,
+    timedOut: false,
+    cancelled: false,
+    resultCapHit: results.length >= limit,
+  };
+}
+
+/**
+ * Structural search: a literal search for the pattern's anchor (its longest name or string)
+ * finds the candidate files, then each JS/TS candidate is matched token by token.
+ */
+async function searchStructural(
+  pattern: string,
+  scope: SearchScope,
+  options: SearchOptions,
+  directoryPath: string | undefined,
+  modulePath: string | undefined,
+  maxResults: number,
+  smartExcludesEnabled: boolean,
+  searchSession: string
+): Promise<SearchOutcome> {
+  const validation = validateStructuralPattern(pattern);
+  const anchor = getStructuralAnchor(pattern);
+  if (!validation.isValid || !anchor) {
+    console.warn('Invalid structural pattern:', validation.error);
+    return { results: [], timedOut: false, cancelled: false, resultCapHit: false };
+  }
+
+  const candidates = await searchPattern(
+    anchor,
+    scope,
+    {
+      ...options,
+      structural: false,
+      matchCase: true,
+      wholeWord: false,
+      useRegex: false,
+      multiline: false,
+      contextLines: 0,
+      includeCode: true,
+      includeComments: true,
+      includeStrings: true,
+      codeCategories: undefined,
+    },
+    directoryPath,
+    modulePath,
+    STRUCTURAL_CANDIDATE_LIMIT,
+    smartExcludesEnabled,
+    undefined,
+    undefined,
+    undefined,
+    searchSession
+  );
+
+  const effectiveMaxResults = Math.max(1, Math.floor(maxResults || 10000));
+  const candidateUris = [...new Set(candidates.results.map((r) => r.uri))];
+  const results: SearchResult[] = [];
+  for (const uri of candidateUris) {
+    if (results.length >= effectiveMaxResults || candidates.cancelled) break;
+    const filePath = uriToFsPath(uri);
+    if (!STRUCTURAL_EXTENSIONS.includes(path.extname(filePath).toLowerCase())) continue;
+    try {
+      // Open documents carry unsaved edits, which the candidate search also saw
+      const openDoc = vscode.workspace.textDocuments.find((doc) => doc.uri.toString() === uri);
+      const content = openDoc
+        ? openDoc.getText()
+        : new TextDecoder('utf-8').decode(await vscode.workspace.fs.readFile(vscode.Uri.file(filePath)));
+      const relativePath = toRelativePath(filePath, vscode.workspace.workspaceFolders);
+      results.push(...searchStructuralInContent(
+        content,
+        pattern,
+        filePath,
+        effectiveMaxResults - results.length,
+        relativePath,
+        options.contextLines
+      ));
+    } catch (error) {
+      console.warn(`[Rifler] Could not read ${filePath} for structural search:`, error);
+    }
+  }
+
+  return {
+    results: await filterResultsByCodeContext(results, options),
+    timedOut: candidates.timedOut,
+    cancelled: candidates.cancelled,
+    resultCapHit: candidates.resultCapHit || results.length >= effectiveMaxResults,
+  };
+}
+
+// The running search of each session (a webview, or the commands that search without
+// one): a new search stops the one before it in its own session only
+const activeSearchCancels = new Map<string, () => void>();
+
+function cancelActiveSearch(searchSession: string): void {
+  const cancel = activeSearchCancels.get(searchSession);
+  if (cancel) {
+    activeSearchCancels.delete(searchSession);
+    cancel();
+  }
+}
+
+function clearActiveSearch(searchSession: string, cancel: () => void): void {
+  if (activeSearchCancels.get(searchSession) === cancel) {
+    activeSearchCancels.delete(searchSession);
   }
 }
 
 async function resolveSearchRoots(
   scope: SearchScope,
   directoryPath?: string,
-  modulePath?: string
+  modulePath?: string,
+  options?: SearchOptions,
+  smartExcludesEnabled = true
 ): Promise<RootSpec[]> {
   const roots: RootSpec[] = [];
 
@@ -319,6 +993,20 @@ async function resolveSearchRoots(
     }
   } else if (scope === 'module') {
     await addIfExists(modulePath?.trim());
+  } else if (scope === 'folders') {
+    // Only current workspace folders can be selected; stale paths from saved state are dropped
+    const selected = new Set((options?.folders || []).map((f) => path.normalize(f)));
+    for (const folder of vscode.workspace.workspaceFolders || []) {
+      if (selected.has(path.normalize(folder.uri.fsPath))) {
+        roots.push({ fsPath: folder.uri.fsPath, type: vscode.FileType.Directory });
+      }
+    }
+  } else if (scope === 'changedFiles') {
+    for (const file of await getChangedFiles(options?.gitBase)) {
+      if (isSearchableFile(file, options?.fileMask || '', smartExcludesEnabled)) {
+        roots.push({ fsPath: file, type: vscode.FileType.File });
+      }
+    }
   } else {
     const workspaceFolders = vscode.workspace.workspaceFolders;
     if (workspaceFolders) {
@@ -348,7 +1036,8 @@ async function fallbackSearchInDirectory(
   maxResults: number,
   limiter: Limiter,
   perFileTimeBudgetMs: number,
-  smartExcludesEnabled: boolean = true
+  smartExcludesEnabled: boolean = true,
+  contextLines: number = 0
 ): Promise<void> {
   try {
     const uri = vscode.Uri.file(dirPath);
@@ -362,14 +1051,14 @@ async function fallbackSearchInDirectory(
         const isDotDir = entryName.startsWith('.');
         const shouldExclude = smartExcludesEnabled && (EXCLUDE_DIRS.has(entryName) || isDotDir);
         if (!shouldExclude) {
-          tasks.push(fallbackSearchInDirectory(fullPath, regex, fileMask, results, maxResults, limiter, perFileTimeBudgetMs, smartExcludesEnabled));
+          tasks.push(fallbackSearchInDirectory(fullPath, regex, fileMask, results, maxResults, limiter, perFileTimeBudgetMs, smartExcludesEnabled, contextLines));
         }
       } else if (entryType === vscode.FileType.File) {
         const ext = path.extname(entryName).toLowerCase();
         const isBinary = BINARY_EXTENSIONS.has(ext);
-        const matchesMask = matchesFileMask(entryName, fileMask);
+        const matchesMask = matchesFileMask(fullPath, fileMask);
         if (!isBinary && matchesMask) {
-          tasks.push(limiter.run(() => fallbackSearchInFile(fullPath, regex, results, maxResults, perFileTimeBudgetMs)));
+          tasks.push(limiter.run(() => fallbackSearchInFile(fullPath, regex, results, maxResults, perFileTimeBudgetMs, contextLines)));
         }
       }
     }
@@ -387,7 +1076,8 @@ async function fallbackSearchInFile(
   regex: RegExp,
   results: SearchResult[],
   maxResults: number,
-  _perFileTimeBudgetMs: number
+  _perFileTimeBudgetMs: number,
+  contextLines: number = 0
 ): Promise<void> {
   try {
     let content: string;
@@ -409,42 +1099,12 @@ async function fallbackSearchInFile(
       content = new TextDecoder('utf-8').decode(contentBytes);
     }
 
-    const fileName = path.basename(filePath);
-    let relativePath = fileName;
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (workspaceFolders) {
-      for (const folder of workspaceFolders) {
-        const folderPath = folder.uri.fsPath;
-        const normalizedFilePath = path.normalize(filePath);
-        const normalizedFolderPath = path.normalize(folderPath);
-        if (normalizedFilePath.startsWith(normalizedFolderPath + path.sep) || normalizedFilePath === normalizedFolderPath) {
-          relativePath = path.relative(normalizedFolderPath, normalizedFilePath);
-          break;
-        }
-      }
-    }
+    const relativePath = toRelativePath(filePath, vscode.workspace.workspaceFolders);
 
-    const fileResults = searchInContent(content, regex, filePath, maxResults - results.length, relativePath);
+    const fileResults = searchInContent(content, regex, filePath, maxResults - results.length, relativePath, contextLines);
     results.push(...fileResults);
   } catch {
     // Skip files that can't be read
   }
 }
 
-function isSafeRegex(pattern: string): boolean {
-  try {
-    new RegExp(pattern);
-  } catch {
-    return false;
-  }
-  const dangerousSequences = [
-    // Check for nested quantifiers without catastrophic backtracking
-    /(\([^)]*[*+][^)]*\))[+*]/,
-    /([^\\]|^)\d+\s*[*+]/,
-    /\[[^\]]*\][*+]\s*[?+*]/
-  ];
-  for (const seq of dangerousSequences) {
-    if (seq.test(pattern)) return false;
-  }
-  return true;
-}
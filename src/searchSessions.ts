@@ -0,0 +1,39 @@
+import * as vscode from 'vscode';
+import { SearchSession } from './state/StateStore';
+
+let sessionSeq = 0;
+
+export function createSessionId(): string {
+  return `session-${Date.now().toString(36)}-${++sessionSeq}`;
+}
+
+/** First free "Search N" name, counting from 1 */
+export function nextSessionName(sessions: Array<Pick<SearchSession, 'name'>>): string {
+  const taken = new Set(sessions.map((s) => s.name.toLowerCase()));
+  let n = 1;
+  while (taken.has(`search ${n}`)) {
+    n++;
+  }
+  return `Search ${n}`;
+}
+
+/** One-line summary of a session's last search, for QuickPick descriptions */
+export function describeSearchSession(session: SearchSession): string {
+  const query = session.state?.query?.trim();
+  if (!query) {
+    return 'No search yet';
+  }
+  return query.length > 60 ? `${query.slice(0, 60)}…` : query;
+}
+
+/**
+ * Ask for a new session name. Returns undefined if the user cancelled.
+ */
+export async function promptSessionName(current: string): Promise<string | undefined> {
+  const name = await vscode.window.showInputBox({
+    title: 'Rename Search Session',
+    value: current,
+    validateInput: (value) => (value.trim() ? undefined : 'Enter a name'),
+  });
+  return name?.trim() || undefined;
+}
@@ -2,21 +2,37 @@ import * as vscode from 'vscode';
 import { MinimizeMessage, IncomingMessage } from '../messaging/types';
 import { StateStore } from '../state/StateStore';
 import { MessageHandler } from '../messaging/handler';
-import { formatRiflerSearchTooltip, getOpenKeybindingHint } from '../utils';
+import { formatRiflerSearchTooltip, getOpenKeybindingHint, normalizeContextLines } from '../utils';
+import { SavedSearch } from '../savedSearches';
+import { PANEL_SESSIONS_OWNER, SearchSession } from '../state/StateStore';
+import { createSessionId, nextSessionName, promptSessionName } from '../searchSessions';
 
 export type GetWebviewHtmlFn = (webview: vscode.Webview, extensionUri: vscode.Uri) => string;
 
+/** Id of the main search window, which keeps the minimize/restore state */
+export const MAIN_PANEL_ID = 'main';
+
+interface PanelEntry {
+  panel: vscode.WebviewPanel;
+  handler: MessageHandler;
+  /** Closing a session window forgets its session unless it was minimized */
+  keepSession?: boolean;
+}
+
 export interface PanelOptions {
   showReplace?: boolean;
   restoreState?: MinimizeMessage['state'];
   initialQuery?: string;
+  initialSearch?: SavedSearch;
 }
 
 export class PanelManager {
-  private currentPanel: vscode.WebviewPanel | undefined;
+  // Open search windows by session id; the main window is MAIN_PANEL_ID
+  private panels = new Map<string, PanelEntry>();
+  private activePanelId: string | undefined;
+  private disposing = false;
   private statusBarItem: vscode.StatusBarItem | undefined;
-  private _messageHandler?: MessageHandler;
-  private _handlerConfigurator?: (handler: MessageHandler) => void;
+  private _handlerConfigurator?: (handler: MessageHandler, panel: vscode.WebviewPanel) => void;
 
   private sanitizeSavedState(state: MinimizeMessage['state'] | undefined): MinimizeMessage['state'] | undefined {
     if (!state) {
@@ -52,32 +68,35 @@ export class PanelManager {
    * Provide a configurator to register common/shared handlers on a MessageHandler
    * This will be invoked each time a new panel is created.
    */
-  setHandlerConfigurator(configure: (handler: MessageHandler) => void): void {
+  setHandlerConfigurator(configure: (handler: MessageHandler, panel: vscode.WebviewPanel) => void): void {
     this._handlerConfigurator = configure;
   }
 
   /**
-   * Create or show the search panel
+   * Create or show the search panel. Reveals the last active search window if any is open.
    */
   createOrShowPanel(options: PanelOptions = {}): void {
-    const { showReplace = false, restoreState, initialQuery } = options;
+    const { showReplace = false, restoreState, initialQuery, initialSearch } = options;
 
-    // If panel already exists, check if it's still valid before using it
-    if (this.currentPanel) {
+    // If a panel already exists, check if it's still valid before using it
+    const existing = this.panel;
+    if (existing) {
       try {
         // Check if webview is still valid
-        if (!this.currentPanel.webview) {
-          // Panel was disposed, clear the reference and create a new one
-          this.currentPanel = undefined;
+        if (!existing.webview) {
+          // Panel was disposed, forget it and create a new one
+          this.forgetPanel(existing);
         } else {
           this.updateTitleFromConfig();
           // Panel is still valid, reveal it and send messages as needed
-          this.currentPanel.reveal(vscode.ViewColumn.Two);
+          existing.reveal(vscode.ViewColumn.Two);
           if (showReplace) {
-            this.currentPanel.webview.postMessage({ type: 'showReplace' });
+            existing.webview.postMessage({ type: 'showReplace' });
           }
-          if (initialQuery) {
-            this.currentPanel.webview.postMessage({
+          if (initialSearch) {
+            existing.webview.postMessage({ type: 'applySearch', search: initialSearch });
+          } else if (initialQuery) {
+            existing.webview.postMessage({
               type: 'setSearchQuery',
               query: initialQuery
             });
@@ -89,19 +108,111 @@ export class PanelManager {
       } catch (error) {
         // If there's an error, panel might be disposed
         console.error('[Rifler] Error accessing existing panel:', error);
-        this.currentPanel = undefined;
+        this.forgetPanel(existing);
       }
     }
 
     // If no restore state provided, try to load from StateStore
     const effectiveRestoreState = restoreState || this.stateStore.getSavedState();
+    this.openPanel(MAIN_PANEL_ID, { ...options, restoreState: effectiveRestoreState });
+  }
+
+  /**
+   * Open a search window for a session: reveals it if open, reopens a saved session, or
+   * starts a new session when no id is given.
+   */
+  openSearchSession(sessionId?: string): void {
+    const open = sessionId ? this.panels.get(sessionId) : undefined;
+    if (open) {
+      open.panel.reveal();
+      return;
+    }
+
+    const sessions = this.getPanelSessions();
+    let session = sessionId ? sessions.find((s) => s.id === sessionId) : undefined;
+    if (!session) {
+      session = { id: createSessionId(), name: nextSessionName(sessions) };
+      this.saveSession(session);
+    }
+    this.openPanel(session.id, { restoreState: session.state, viewColumn: vscode.ViewColumn.Active });
+  }
+
+  /** Sessions saved for search windows, open or not */
+  getPanelSessions(): SearchSession[] {
+    return this.stateStore.getSearchSessions(PANEL_SESSIONS_OWNER).sessions;
+  }
+
+  isSessionOpen(sessionId: string): boolean {
+    return this.panels.has(sessionId);
+  }
+
+  /**
+   * Rename a search window, the active one by default. The main window's name is kept
+   * as a session without state.
+   */
+  async renameSession(panelId = this.activePanelId): Promise<void> {
+    const entry = panelId ? this.panels.get(panelId) : undefined;
+    if (!panelId || !entry) {
+      vscode.window.showInformationMessage('Rifler: Open a search window to rename it.');
+      return;
+    }
+    const name = await promptSessionName(entry.panel.title);
+    if (!name) {
+      return;
+    }
+    const session = this.getPanelSessions().find((s) => s.id === panelId);
+    this.saveSession({ ...session, id: panelId, name });
+    this.updateTitleFromConfig();
+  }
+
+  private saveSession(session: SearchSession): void {
+    const sessions = this.getPanelSessions();
+    const index = sessions.findIndex((s) => s.id === session.id);
+    if (index === -1) {
+      sessions.push(session);
+    } else {
+      sessions[index] = session;
+    }
+    this.stateStore.setSearchSessions(PANEL_SESSIONS_OWNER, { sessions });
+  }
+
+  /** Close a session: its window if open, and its saved state */
+  closeSession(sessionId: string): void {
+    const entry = this.panels.get(sessionId);
+    if (entry) {
+      entry.panel.dispose();
+    }
+    this.removeSession(sessionId);
+  }
+
+  private removeSession(sessionId: string): void {
+    const sessions = this.getPanelSessions().filter((s) => s.id !== sessionId);
+    this.stateStore.setSearchSessions(PANEL_SESSIONS_OWNER, { sessions });
+  }
+
+  private forgetPanel(panel: vscode.WebviewPanel): void {
+    for (const [id, entry] of this.panels) {
+      if (entry.panel === panel) {
+        this.panels.delete(id);
+      }
+    }
+    if (!this.activePanelId || !this.panels.has(this.activePanelId)) {
+      this.activePanelId = this.panels.keys().next().value;
+    }
+  }
+
+  private openPanel(
+    panelId: string,
+    options: PanelOptions & { viewColumn?: vscode.ViewColumn }
+  ): void {
+    const { showReplace = false, restoreState, initialQuery, initialSearch, viewColumn = vscode.ViewColumn.Two } = options;
 
     // Create a new webview panel
-    this.currentPanel = vscode.window.createWebviewPanel(
+    const panel = vscode.window.createWebviewPanel(
       'rifler',
       'Rifler Search',
       {
-        viewColumn: vscode.ViewColumn.Two,
+        viewColumn,
         preserveFocus: false
       },
       {
@@ -111,47 +222,67 @@ export class PanelManager {
       }
     );
 
-    this.updateTitleFromConfig();
-
-    this.currentPanel.webview.html = this.getWebviewHtml(
-      this.currentPanel.webview,
+    panel.webview.html = this.getWebviewHtml(
+      panel.webview,
       this.extensionUri
     );
 
     // Panel and sidebar can now coexist
 
     // Create unified message handler for the panel and configure common handlers
-    this._messageHandler = new MessageHandler(this.currentPanel);
+    const handler = new MessageHandler(panel);
     if (this._handlerConfigurator) {
-      this._handlerConfigurator(this._messageHandler);
+      this._handlerConfigurator(handler, panel);
     }
+    const entry: PanelEntry = { panel, handler };
+    this.panels.set(panelId, entry);
+    this.activePanelId = panelId;
+    this.updateTitleFromConfig();
 
-    // Store options to send when webview is ready
-    const shouldShowReplace = showReplace;
-    const stateToRestore = effectiveRestoreState;
-    const queryToSet = initialQuery;
-
-    this.currentPanel.webview.onDidReceiveMessage(
+    panel.webview.onDidReceiveMessage(
       async (message: IncomingMessage) => {
         // Handle built-in panel messages first
         switch (message.type) {
           case 'webviewReady': {
             this.handleWebviewReady(
-              shouldShowReplace,
-              stateToRestore,
-              queryToSet
+              panel,
+              showReplace,
+              restoreState,
+              initialQuery,
+              initialSearch
             );
             break;
           }
           case 'minimize': {
-            this.minimize(message.state);
+            if (panelId === MAIN_PANEL_ID) {
+              this.minimize(message.state);
+            } else {
+              // Session windows are not minimized to the status bar; they can be reopened
+              const session = this.getPanelSessions().find((s) => s.id === panelId);
+              if (session) {
+                this.saveSession({ ...session, state: message.state });
+              }
+              entry.keepSession = true;
+              panel.dispose();
+            }
             break;
           }
+          case 'sessionState': {
+            const session = this.getPanelSessions().find((s) => s.id === panelId);
+            if (session && panelId !== MAIN_PANEL_ID) {
+              this.saveSession({ ...session, state: message.state });
+            }
+            break;
+          }
+          case 'newSearchSession':
+            this.openSearchSession();
+            break;
+          case 'renameSession':
+            await this.renameSession(panelId);
+            break;
           default:
             // Delegate all other messages to unified handler
-            if (this._messageHandler) {
-              await this._messageHandler.handle(message);
-            }
+            await handler.handle(message);
             break;
         }
       },
@@ -159,9 +290,26 @@ export class PanelManager {
       this.context.subscriptions
     );
 
-    this.currentPanel.onDidDispose(
+    panel.onDidChangeViewState(
+      (e) => {
+        if (e.webviewPanel.active) {
+          this.activePanelId = panelId;
+        }
+      },
+      null,
+      this.context.subscriptions
+    );
+
+    panel.onDidDispose(
       () => {
-        this.currentPanel = undefined;
+        if (this.panels.get(panelId) !== entry) {
+          return;
+        }
+        this.forgetPanel(panel);
+        // Closing a session window closes its session; reloads and minimizing keep it
+        if (panelId !== MAIN_PANEL_ID && !this.disposing && !entry.keepSession) {
+          this.removeSession(panelId);
+        }
       },
       null,
       this.context.subscriptions
@@ -169,10 +317,12 @@ export class PanelManager {
   }
 
   public updateTitleFromConfig(): void {
-    if (!this.currentPanel) return;
     const cfg = vscode.workspace.getConfiguration('rifler');
     const hint = getOpenKeybindingHint(cfg);
-    this.currentPanel.title = formatRiflerSearchTooltip(hint);
+    const names = new Map(this.getPanelSessions().map((s) => [s.id, s.name]));
+    for (const [id, entry] of this.panels) {
+      entry.panel.title = names.get(id) ?? formatRiflerSearchTooltip(hint);
+    }
   }
 
   /**
@@ -183,9 +333,9 @@ export class PanelManager {
     this.stateStore.setSavedState(this.sanitizeSavedState(state));
 
     // Hide the panel
-    if (this.currentPanel) {
-      this.currentPanel.dispose();
-      this.currentPanel = undefined;
+    const main = this.panels.get(MAIN_PANEL_ID);
+    if (main) {
+      main.panel.dispose();
     }
 
     // Mark as minimized
@@ -233,30 +383,48 @@ export class PanelManager {
     }
 
     // Ensure the panel is focused
-    if (this.currentPanel) {
-      this.currentPanel.reveal(vscode.ViewColumn.Beside, false);
+    const main = this.panels.get(MAIN_PANEL_ID);
+    if (main) {
+      main.panel.reveal(vscode.ViewColumn.Beside, false);
     }
   }
 
   /**
-   * Dispose resources
+   * Dispose resources. Session windows keep their sessions so they can be reopened.
    */
   dispose(): void {
-    if (this.currentPanel) {
-      this.currentPanel.dispose();
-      this.currentPanel = undefined;
+    this.disposing = true;
+    for (const { panel } of [...this.panels.values()]) {
+      panel.dispose();
     }
+    this.panels.clear();
+    this.activePanelId = undefined;
     if (this.statusBarItem) {
       this.statusBarItem.dispose();
       this.statusBarItem = undefined;
     }
+    this.disposing = false;
   }
 
   /**
-   * Get the current panel (for testing)
+   * The last active search window
    */
   get panel(): vscode.WebviewPanel | undefined {
-    return this.currentPanel;
+    return this.activePanelId ? this.panels.get(this.activePanelId)?.panel : undefined;
+  }
+
+  /**
+   * The main search window, the one the open/close toggle works on
+   */
+  get mainPanel(): vscode.WebviewPanel | undefined {
+    return this.panels.get(MAIN_PANEL_ID)?.panel;
+  }
+
+  /**
+   * Every open search window
+   */
+  get allPanels(): vscode.WebviewPanel[] {
+    return [...this.panels.values()].map((entry) => entry.panel);
   }
 
   /**
@@ -270,11 +438,12 @@ export class PanelManager {
    * Handle webview ready event - send initialization messages
    */
   private handleWebviewReady(
+    panel: vscode.WebviewPanel,
     shouldShowReplace: boolean,
     stateToRestore: MinimizeMessage['state'] | undefined,
-    queryToSet: string | undefined
+    queryToSet: string | undefined,
+    searchToApply?: SavedSearch
   ): void {
-    if (!this.currentPanel) return;
 
     // Send configuration to webview
     const config = vscode.workspace.getConfiguration('rifler');
@@ -282,6 +451,7 @@ export class PanelManager {
     const maxResults = config.get<number>('maxResults', 10000);
     const resultsShowCollapsed = config.get<boolean>('results.showCollapsed', false);
     const profileSearch = config.get<boolean>('debug.profileSearch', false);
+    const contextLines = normalizeContextLines(config.get<number>('results.contextLines', 0));
     const contextDefaults = {
       includeCode: config.get<boolean>('searchContext.includeCode', true),
       includeComments: config.get<boolean>('searchContext.includeComments', true),
@@ -292,47 +462,50 @@ export class PanelManager {
       maxResults,
       resultsShowCollapsed
     });
-    this.currentPanel.webview.postMessage({
+    panel.webview.postMessage({
       type: 'config',
       replaceKeybinding,
       maxResults,
       resultsShowCollapsed,
       profileSearch,
-      contextDefaults
+      contextDefaults,
+      contextLines
     });
 
     if (shouldShowReplace) {
-      this.currentPanel.webview.postMessage({ type: 'showReplace' });
+      panel.webview.postMessage({ type: 'showReplace' });
     }
 
     // Restore state if available
     if (stateToRestore) {
-      this.currentPanel.webview.postMessage({
+      panel.webview.postMessage({
         type: 'restoreState',
         state: stateToRestore
       });
     } else {
-      this.currentPanel.webview.postMessage({ type: 'clearState' });
+      panel.webview.postMessage({ type: 'clearState' });
     }
 
-    // Set initial query or focus search box
-    if (queryToSet) {
-      this.currentPanel.webview.postMessage({
+    // Apply a saved search, set initial query or focus search box
+    if (searchToApply) {
+      panel.webview.postMessage({ type: 'applySearch', search: searchToApply });
+    } else if (queryToSet) {
+      panel.webview.postMessage({
         type: 'setSearchQuery',
         query: queryToSet
       });
     } else {
-      this.currentPanel.webview.postMessage({ type: 'focusSearch' });
+      panel.webview.postMessage({ type: 'focusSearch' });
     }
 
     // Send preview panel state
-    this.currentPanel.webview.postMessage({
+    panel.webview.postMessage({
       type: 'restorePreviewPanelState',
       collapsed: this.stateStore.getPreviewPanelCollapsed()
     });
 
     // Send search history (for magnifying-glass dropdown)
-    this.currentPanel.webview.postMessage({
+    panel.webview.postMessage({
       type: 'searchHistory',
       entries: this.stateStore.getSearchHistory()
     });
@@ -5,16 +5,21 @@ import {
   SearchResult,
   buildSearchRegex,
   findWorkspaceModules,
-  getOpenKeybindingHint
+  getOpenKeybindingHint,
+  normalizeContextLines
 } from '../utils';
-import { IncomingMessage } from '../messaging/types';
-import { performSearch, SearchOutcome } from '../search';
+import { IncomingMessage, RenameSessionMessage, SearchSessionsMessage } from '../messaging/types';
+import { performSearch, SearchContinuation, SearchOutcome } from '../search';
 import { replaceAll } from '../replacer';
 import { getWebviewHtml } from '../webview/webviewUtils';
 import { MessageHandler } from '../messaging/handler';
 import { registerCommonHandlers } from '../messaging/registerCommonHandlers';
 import { StateStore } from '../state/StateStore';
+import { SavedSearch } from '../savedSearches';
+import { applyQueryOperators } from '../queryOperators';
 import { getTelemetryLogger } from '../telemetry';
+import { mergeFileMasks } from '../projectDetector';
+import { promptSessionName } from '../searchSessions';
 
 interface SidebarState {
   query?: string;
@@ -48,6 +53,7 @@ export class RiflerSidebarProvider implements vscode.WebviewViewProvider {
   private _onVisibilityChanged?: (visible: boolean) => void;
   private _pendingInitOptions?: {
     initialQuery?: string;
+    initialSearch?: SavedSearch;
     showReplace?: boolean;
   };
   private _webviewReady = false;
@@ -61,6 +67,7 @@ export class RiflerSidebarProvider implements vscode.WebviewViewProvider {
   private _lastVisibility?: boolean;
   private _lastRestoreAt = 0;
   private _didInitialRestore = false;
+  private _incompleteSearch?: { requestId: string; continuation: SearchContinuation };
 
   private _sanitizeStateForPersistence(state: Record<string, unknown> | undefined): SidebarState | undefined {
     if (!state) {
@@ -277,6 +284,15 @@ export class RiflerSidebarProvider implements vscode.WebviewViewProvider {
       'openLocation',
       'replaceOne',
       'replaceAll',
+      'previewReplaceAll',
+      'applyReplacePreview',
+      'exportResults',
+      'saveSearch',
+      'pinResults',
+      'unpinResults',
+      'getPinnedResults',
+      'revalidatePinnedResults',
+      'refineResults',
       'getModules',
       'getCurrentDirectory',
       'getWorkspaceInfo',
@@ -292,6 +308,7 @@ export class RiflerSidebarProvider implements vscode.WebviewViewProvider {
       'lspSearch',
       'getSymbolAtCursor',
       'lspReplaceAll',
+      'lspExpandHierarchy',
       'triggerRename',
       '__diag_ping',
       '__test_searchCompleted',
@@ -316,7 +333,9 @@ export class RiflerSidebarProvider implements vscode.WebviewViewProvider {
           modulePath?: string;
           activeIndex?: number;
           smartExcludesEnabled?: boolean;
+          exclusionPatterns?: string;
           requestId?: string;
+          continueFrom?: string;
         };
         await this._runSearch(searchMessage);
         break;
@@ -330,11 +349,13 @@ export class RiflerSidebarProvider implements vscode.WebviewViewProvider {
         }
         // Then apply pending initialization options (e.g. selection query) so they win over restored state
         if (this._pendingInitOptions) {
-          const { initialQuery, showReplace } = this._pendingInitOptions;
+          const { initialQuery, initialSearch, showReplace } = this._pendingInitOptions;
           if (showReplace) {
             this._view?.webview.postMessage({ type: 'showReplace' });
           }
-          if (initialQuery) {
+          if (initialSearch) {
+            this._view?.webview.postMessage({ type: 'applySearch', search: initialSearch });
+          } else if (initialQuery) {
             this._view?.webview.postMessage({
               type: 'setSearchQuery',
               query: initialQuery
@@ -365,15 +386,7 @@ export class RiflerSidebarProvider implements vscode.WebviewViewProvider {
         // Save state before minimize
         console.log(`${this._logLabel}: received minimize message with state:`, message.state);
         if (message.state) {
-          const cfg = vscode.workspace.getConfiguration('rifler');
-          const scope = cfg.get<'workspace' | 'global' | 'off'>('persistenceScope', 'workspace');
-          const persist = cfg.get<boolean>('persistSearchState', true) && scope !== 'off';
-          const store = scope === 'global' ? this._context.globalState : this._context.workspaceState;
-          const sanitizedState = this._sanitizeStateForPersistence(message.state as Record<string, unknown>);
-          if (persist) {
-            await store.update(this._stateKey, sanitizedState);
-            console.log(`${this._logLabel}: state saved to ${this._stateKey}`);
-          }
+          await this._saveViewState(message.state as Record<string, unknown>);
           // Resolve any pending save promise
           if (this._stateSaveResolver) {
             this._stateSaveResolver();
@@ -381,6 +394,30 @@ export class RiflerSidebarProvider implements vscode.WebviewViewProvider {
           }
         }
         break;
+      case 'sessions': {
+        // The active tab's search is the view state; every tab is kept in the StateStore
+        const { activeSessionId, sessions } = message as unknown as SearchSessionsMessage;
+        if (!Array.isArray(sessions)) {
+          break;
+        }
+        this.stateStore?.setSearchSessions(this._stateKey, { activeSessionId, sessions });
+        const active = sessions.find((session) => session.id === activeSessionId);
+        if (active?.state) {
+          await this._saveViewState(active.state as unknown as Record<string, unknown>);
+        }
+        break;
+      }
+      case 'renameSession': {
+        const { id, name } = message as unknown as RenameSessionMessage;
+        if (!id) {
+          break;
+        }
+        const newName = await promptSessionName(name || '');
+        if (newName) {
+          this._view?.webview.postMessage({ type: 'sessionRenamed', id, name: newName });
+        }
+        break;
+      }
       case 'clearState': {
         // Avoid persistence clear churn right after restore/visibility transitions.
         if (Date.now() - this._lastRestoreAt < 500) {
@@ -395,6 +432,17 @@ export class RiflerSidebarProvider implements vscode.WebviewViewProvider {
     }
   }
 
+  private async _saveViewState(state: Record<string, unknown>): Promise<void> {
+    const cfg = vscode.workspace.getConfiguration('rifler');
+    const scope = cfg.get<'workspace' | 'global' | 'off'>('persistenceScope', 'workspace');
+    const persist = cfg.get<boolean>('persistSearchState', true) && scope !== 'off';
+    const store = scope === 'global' ? this._context.globalState : this._context.workspaceState;
+    if (persist) {
+      await store.update(this._stateKey, this._sanitizeStateForPersistence(state));
+      console.log(`${this._logLabel}: state saved to ${this._stateKey}`);
+    }
+  }
+
   private async _runSearch(message: {
     query: string;
     scope: SearchScope;
@@ -403,9 +451,12 @@ export class RiflerSidebarProvider implements vscode.WebviewViewProvider {
     modulePath?: string;
     activeIndex?: number;
     smartExcludesEnabled?: boolean;
+    /** Project exclusions (`!pattern` globs) from the webview, applied with smart excludes */
+    exclusionPatterns?: string;
     queryRows?: number;
     requestId?: string;
     maxResults?: number;
+    continueFrom?: string;
   }): Promise<void> {
     if (!message.query || !message.scope || !message.options) {
       return;
@@ -424,6 +475,29 @@ export class RiflerSidebarProvider implements vscode.WebviewViewProvider {
       return;
     }
 
+    const smartExcludesEnabled = message.smartExcludesEnabled ?? true;
+    const options = smartExcludesEnabled && message.exclusionPatterns
+      ? { ...message.options, fileMask: mergeFileMasks(message.options.fileMask || '', message.exclusionPatterns) }
+      : message.options;
+    const resolved = applyQueryOperators(message.query, message.scope as SearchScope, options);
+    if (resolved.operators?.errors.length) {
+      // The query box shows the same errors; nothing is searched until they are fixed
+      this._view?.webview.postMessage({
+        type: 'searchResults',
+        requestId: message.requestId,
+        results: [],
+        activeIndex: -1,
+        maxResults: effectiveMaxResults,
+        queryError: resolved.operators.errors.join('; ')
+      });
+      return;
+    }
+
+    const continuation = message.continueFrom && this._incompleteSearch?.requestId === message.continueFrom
+      ? this._incompleteSearch.continuation
+      : undefined;
+    this._incompleteSearch = undefined;
+
     const startTime = Date.now();
     let results: SearchResult[] = [];
     let searchError: string | undefined;
@@ -431,16 +505,24 @@ export class RiflerSidebarProvider implements vscode.WebviewViewProvider {
 
     try {
       searchOutcome = await performSearch(
-        message.query,
-        message.scope as SearchScope,
-        message.options,
+        resolved.query,
+        resolved.scope,
+        resolved.options,
         message.directoryPath,
         message.modulePath,
         effectiveMaxResults,
-        message.smartExcludesEnabled ?? true,
+        smartExcludesEnabled,
+        message.requestId,
         message.requestId
+          ? (batch) => this._view?.webview.postMessage({ type: 'searchResultsBatch', requestId: message.requestId, results: batch })
+          : undefined,
+        continuation,
+        this._stateKey
       );
       results = searchOutcome.results;
+      if (searchOutcome.continuation && message.requestId) {
+        this._incompleteSearch = { requestId: message.requestId, continuation: searchOutcome.continuation };
+      }
     } catch (error) {
       searchError = error instanceof Error ? error.message : String(error);
       throw error;
@@ -456,7 +538,7 @@ export class RiflerSidebarProvider implements vscode.WebviewViewProvider {
         query_length: message.query?.length ?? 0,
         search_engine: 'rg',
         scope: message.scope,
-        search_mode: 'text',
+        search_mode: message.options.symbols ? 'symbols' : message.options.fileNames ? 'files' : message.options.structural ? 'structural' : 'text',
         regex_enabled: !!message.options.useRegex,
         match_case: !!message.options.matchCase,
         whole_word: !!message.options.wholeWord,
@@ -490,9 +572,13 @@ export class RiflerSidebarProvider implements vscode.WebviewViewProvider {
       maxResults: effectiveMaxResults,
       requestId: message.requestId,
       profile: searchOutcome?.profile,
+      timedOut: searchOutcome?.timedOut ?? false,
+      cancelled: searchOutcome?.cancelled ?? false,
+      resultCapHit: searchOutcome?.resultCapHit ?? false,
+      canContinue: !!this._incompleteSearch,
     });
 
-    if (this.stateStore) {
+    if (this.stateStore && !continuation) {
       this.stateStore.recordSearch({
         query: message.query,
         scope: message.scope,
@@ -503,10 +589,17 @@ export class RiflerSidebarProvider implements vscode.WebviewViewProvider {
           wholeWord: !!message.options.wholeWord,
           useRegex: !!message.options.useRegex,
           multiline: !!message.options.multiline,
+          structural: !!message.options.structural,
+          fileNames: !!message.options.fileNames,
+          symbols: !!message.options.symbols,
+          symbolKinds: message.options.symbolKinds,
           fileMask: message.options.fileMask || '',
           includeCode: message.options.includeCode ?? true,
           includeComments: message.options.includeComments ?? true,
-          includeStrings: message.options.includeStrings ?? true
+          includeStrings: message.options.includeStrings ?? true,
+          codeCategories: message.options.codeCategories,
+          folders: message.options.folders,
+          gitBase: message.options.gitBase
         },
         queryRows: message.queryRows
       });
@@ -556,7 +649,7 @@ export class RiflerSidebarProvider implements vscode.WebviewViewProvider {
       return;
     }
 
-    await replaceAll(
+    const transaction = await replaceAll(
       message.query,
       message.replaceText,
       message.scope as SearchScope,
@@ -568,6 +661,9 @@ export class RiflerSidebarProvider implements vscode.WebviewViewProvider {
         await this._runSearch(message);
       }
     );
+    if (transaction) {
+      this.stateStore?.recordReplaceTransaction(transaction);
+    }
   }
 
   private async _sendModules(): Promise<void> {
@@ -628,7 +724,8 @@ export class RiflerSidebarProvider implements vscode.WebviewViewProvider {
     this._view.webview.postMessage({
       type: 'workspaceInfo',
       name,
-      path
+      path,
+      folders: (workspaceFolders || []).map((f) => ({ name: f.name, path: f.uri.fsPath }))
     });
   }
 
@@ -970,6 +1067,7 @@ export class RiflerSidebarProvider implements vscode.WebviewViewProvider {
       const maxResults = cfg.get<number>('maxResults', 10000);
       const resultsShowCollapsed = cfg.get<boolean>('results.showCollapsed', false);
       const profileSearch = cfg.get<boolean>('debug.profileSearch', false);
+      const contextLines = normalizeContextLines(cfg.get<number>('results.contextLines', 0));
       const contextDefaults = {
         includeCode: cfg.get<boolean>('searchContext.includeCode', true),
         includeComments: cfg.get<boolean>('searchContext.includeComments', true),
@@ -982,7 +1080,8 @@ export class RiflerSidebarProvider implements vscode.WebviewViewProvider {
         maxResults,
         resultsShowCollapsed,
         profileSearch,
-        contextDefaults
+        contextDefaults,
+        contextLines
       });
 
       console.log(`${this._logLabel}._restoreState: state =`, sanitizedState ? 'exists' : 'undefined', sanitizedState);
@@ -996,6 +1095,14 @@ export class RiflerSidebarProvider implements vscode.WebviewViewProvider {
         console.log(`${this._logLabel}._restoreState: no state to restore, sending clearState`);
         this._view.webview.postMessage({ type: 'clearState' });
       }
+
+      // Session tabs; the restored state above belongs to the active one
+      if (this.stateStore) {
+        this._view.webview.postMessage({
+          type: 'sessions',
+          ...this.stateStore.getSearchSessions(this._stateKey)
+        });
+      }
     }
   }
 
@@ -1010,6 +1117,7 @@ export class RiflerSidebarProvider implements vscode.WebviewViewProvider {
     // Buffer key init messages and send them after 'webviewReady'.
     const shouldBufferUntilReady =
       message.type === 'setSearchQuery' ||
+      message.type === 'applySearch' ||
       message.type === 'showReplace' ||
       message.type === 'focusSearch';
 
@@ -1019,21 +1127,26 @@ export class RiflerSidebarProvider implements vscode.WebviewViewProvider {
       }
       if (message.type === 'setSearchQuery') {
         this._pendingInitOptions.initialQuery = message.query as string;
+      } else if (message.type === 'applySearch') {
+        this._pendingInitOptions.initialSearch = message.search as SavedSearch;
       } else if (message.type === 'showReplace') {
         this._pendingInitOptions.showReplace = true;
       }
       return;
     }
 
-    // For setSearchQuery, mark pending so visibility handler won't overwrite with restored state
-    if (message.type === 'setSearchQuery' && message.query) {
+    // For setSearchQuery/applySearch, mark pending so visibility handler won't overwrite with restored state
+    const pendingQuery = message.type === 'applySearch'
+      ? (message.search as SavedSearch | undefined)?.query
+      : message.type === 'setSearchQuery' ? message.query as string : undefined;
+    if (pendingQuery) {
       if (!this._pendingInitOptions) {
         this._pendingInitOptions = {};
       }
-      this._pendingInitOptions.initialQuery = message.query as string;
+      this._pendingInitOptions.initialQuery = pendingQuery;
       // Clear after a brief delay so it doesn't persist forever
       setTimeout(() => {
-        if (this._pendingInitOptions?.initialQuery === message.query) {
+        if (this._pendingInitOptions?.initialQuery === pendingQuery) {
           this._pendingInitOptions = undefined;
         }
       }, 500);
@@ -1,5 +1,9 @@
 import * as vscode from 'vscode';
 import { MinimizeMessage } from '../messaging/types';
+import { ReplaceTransaction } from '../replaceHistory';
+import { SavedSearch, isSameSavedSearch, normalizeSavedSearch } from '../savedSearches';
+import { MAX_PINNED_RESULT_SETS, PinnedResultSet, normalizePinnedResultSet } from '../pinnedResults';
+import { CODE_CATEGORIES, CodeCategory, SYMBOL_KIND_FILTERS, SymbolKindFilter } from '../utils';
 
 export interface SearchHistoryEntry {
   query: string;
@@ -12,15 +16,43 @@ export interface SearchHistoryEntry {
     wholeWord: boolean;
     useRegex: boolean;
     multiline?: boolean;
+    structural?: boolean;
+    fileNames?: boolean;
+    symbols?: boolean;
+    symbolKinds?: SymbolKindFilter[];
     fileMask: string;
     includeCode?: boolean;
     includeComments?: boolean;
     includeStrings?: boolean;
+    codeCategories?: CodeCategory[];
+    folders?: string[];
+    gitBase?: string;
   };
   queryRows?: number;
   ts: number;
 }
 
+/** An independent search with its own name and last saved state (without results or preview) */
+export interface SearchSession {
+  id: string;
+  name: string;
+  state?: MinimizeMessage['state'];
+}
+
+/** The sessions of one owner: a sidebar/bottom view state key, or `PANEL_SESSIONS_OWNER` */
+export interface SearchSessionList {
+  activeSessionId?: string;
+  sessions: SearchSession[];
+}
+
+/** Owner of the sessions opened as extra search windows */
+export const PANEL_SESSIONS_OWNER = 'panel';
+
+// Bulk replaces kept for "Undo Last Replace"; each holds the original text of every edit
+const MAX_REPLACE_TRANSACTIONS = 10;
+// Sessions kept per owner
+const MAX_SEARCH_SESSIONS = 20;
+
 /**
  * Lightweight shared state holder for sidebar visibility, minimized flag, and saved search state.
  * Panel ownership (panel/status bar) remains in PanelManager.
@@ -34,6 +66,10 @@ export class StateStore {
   private resultsShowCollapsed = false;
   private searchHistory: SearchHistoryEntry[] = [];
   private projectExclusionPreferences: Record<string, boolean> = {};
+  private replaceTransactions: ReplaceTransaction[] = [];
+  private savedSearches: Record<'workspace' | 'global', SavedSearch[]> = { workspace: [], global: [] };
+  private searchSessions: Record<string, SearchSessionList> = {};
+  private pinnedResultSets: PinnedResultSet[] = [];
   private visibilityCallbacks: Array<(visible: boolean) => void> = [];
   private bottomVisibilityCallbacks: Array<(visible: boolean) => void> = [];
 
@@ -58,6 +94,27 @@ export class StateStore {
       || Object.prototype.hasOwnProperty.call(raw, 'lspResultsCache');
   }
 
+  /** Drop sessions without an id or name and strip results from their state */
+  private normalizeSearchSessions(raw: unknown): SearchSessionList {
+    const list = (raw && typeof raw === 'object' ? raw : {}) as Partial<SearchSessionList>;
+    const seen = new Set<string>();
+    const sessions: SearchSession[] = [];
+    for (const session of Array.isArray(list.sessions) ? list.sessions : []) {
+      const id = typeof session?.id === 'string' ? session.id : '';
+      const name = typeof session?.name === 'string' ? session.name.trim() : '';
+      if (!id || !name || seen.has(id)) continue;
+      seen.add(id);
+      sessions.push({
+        id,
+        name,
+        state: session.state && typeof session.state === 'object' ? this.sanitizePersistedState(session.state) : undefined
+      });
+    }
+    const kept = sessions.slice(0, MAX_SEARCH_SESSIONS);
+    const activeSessionId = kept.some((s) => s.id === list.activeSessionId) ? list.activeSessionId : undefined;
+    return { activeSessionId, sessions: kept };
+  }
+
   constructor(private readonly context: vscode.ExtensionContext) {
     const cfg = vscode.workspace.getConfiguration('rifler');
     const scope = cfg.get<'workspace' | 'global' | 'off'>('persistenceScope', 'workspace');
@@ -96,10 +153,21 @@ export class StateStore {
               wholeWord: !!h?.options?.wholeWord,
               useRegex: !!h?.options?.useRegex,
               multiline: !!h?.options?.multiline,
+              structural: !!h?.options?.structural,
+              fileNames: !!h?.options?.fileNames,
+              symbols: !!h?.options?.symbols,
+              symbolKinds: Array.isArray(h?.options?.symbolKinds)
+                ? h.options.symbolKinds.filter((k) => SYMBOL_KIND_FILTERS.includes(k))
+                : undefined,
               fileMask: h?.options?.fileMask || '',
               includeCode: h?.options?.includeCode ?? true,
               includeComments: h?.options?.includeComments ?? true,
-              includeStrings: h?.options?.includeStrings ?? true
+              includeStrings: h?.options?.includeStrings ?? true,
+              codeCategories: Array.isArray(h?.options?.codeCategories)
+                ? h.options.codeCategories.filter((c) => CODE_CATEGORIES.includes(c))
+                : undefined,
+              folders: Array.isArray(h?.options?.folders) ? h.options.folders : undefined,
+              gitBase: typeof h?.options?.gitBase === 'string' ? h.options.gitBase : undefined
             },
             queryRows: typeof h?.queryRows === 'number' ? h.queryRows : undefined,
             ts: typeof h?.ts === 'number' ? h.ts : 0
@@ -123,12 +191,38 @@ export class StateStore {
       // Load project exclusion preferences
       const exclusions = store.get<Record<string, boolean>>('rifler.projectExclusionPreferences', {});
       this.projectExclusionPreferences = exclusions || {};
+
+      // Load bulk replace transactions for undo - default empty
+      const transactions = store.get<ReplaceTransaction[]>('rifler.replaceTransactions', []);
+      this.replaceTransactions = Array.isArray(transactions) ? transactions : [];
+
+      // Load search sessions, per owner
+      const sessions = store.get<Record<string, unknown>>('rifler.searchSessions', {});
+      for (const [owner, list] of Object.entries(sessions && typeof sessions === 'object' ? sessions : {})) {
+        this.searchSessions[owner] = this.normalizeSearchSessions(list);
+      }
+
+      // Load pinned result sets; unlike the search state, they keep their results
+      const pinned = store.get<unknown[]>('rifler.pinnedResults', []);
+      this.pinnedResultSets = (Array.isArray(pinned) ? pinned : [])
+        .map((set) => normalizePinnedResultSet(set))
+        .filter((set): set is PinnedResultSet => !!set)
+        .slice(0, MAX_PINNED_RESULT_SETS);
     } else {
       this.savedState = undefined;
       this.previewPanelCollapsed = false;
       this.searchHistory = [];
+      this.replaceTransactions = [];
+      this.searchSessions = {};
+      this.pinnedResultSets = [];
     }
 
+    // Saved searches are kept even when search state persistence is off
+    this.savedSearches = {
+      workspace: this.loadSavedSearches(context.workspaceState),
+      global: this.loadSavedSearches(context.globalState)
+    };
+
     // Load results show collapsed setting from configuration
     this.resultsShowCollapsed = cfg.get<boolean>('results.showCollapsed', false);
   }
@@ -264,4 +358,136 @@ export class StateStore {
       store.update('rifler.projectExclusionPreferences', preferences);
     }
   }
+
+  getLastReplaceTransaction(): ReplaceTransaction | undefined {
+    return this.replaceTransactions[0];
+  }
+
+  recordReplaceTransaction(transaction: ReplaceTransaction): void {
+    if (transaction.files.length === 0) {
+      return;
+    }
+    this.replaceTransactions = [transaction, ...this.replaceTransactions].slice(0, MAX_REPLACE_TRANSACTIONS);
+    this.persistReplaceTransactions();
+  }
+
+  removeReplaceTransaction(id: string): void {
+    this.replaceTransactions = this.replaceTransactions.filter((t) => t.id !== id);
+    this.persistReplaceTransactions();
+  }
+
+  private persistReplaceTransactions(): void {
+    const cfg = vscode.workspace.getConfiguration('rifler');
+    const scope = cfg.get<'workspace' | 'global' | 'off'>('persistenceScope', 'workspace');
+    const persist = cfg.get<boolean>('persistSearchState', true) && scope !== 'off';
+    const store = scope === 'global' ? this.context.globalState : this.context.workspaceState;
+    if (persist) {
+      store.update('rifler.replaceTransactions', this.replaceTransactions);
+    }
+  }
+
+  getSearchSessions(owner: string): SearchSessionList {
+    const list = this.searchSessions[owner];
+    return list ? { ...list, sessions: [...list.sessions] } : { sessions: [] };
+  }
+
+  setSearchSessions(owner: string, list: SearchSessionList): void {
+    const normalized = this.normalizeSearchSessions(list);
+    if (normalized.sessions.length > 0) {
+      this.searchSessions[owner] = normalized;
+    } else {
+      delete this.searchSessions[owner];
+    }
+    this.persistSearchSessions();
+  }
+
+  clearSearchSessions(): void {
+    this.searchSessions = {};
+    this.persistSearchSessions();
+  }
+
+  private persistSearchSessions(): void {
+    const cfg = vscode.workspace.getConfiguration('rifler');
+    const scope = cfg.get<'workspace' | 'global' | 'off'>('persistenceScope', 'workspace');
+    const persist = cfg.get<boolean>('persistSearchState', true) && scope !== 'off';
+    const store = scope === 'global' ? this.context.globalState : this.context.workspaceState;
+    if (persist) {
+      store.update('rifler.searchSessions', this.searchSessions);
+    }
+  }
+
+  getPinnedResultSets(): PinnedResultSet[] {
+    return [...this.pinnedResultSets];
+  }
+
+  getPinnedResultSet(id: string): PinnedResultSet | undefined {
+    return this.pinnedResultSets.find((set) => set.id === id);
+  }
+
+  /** Add a pinned set, newest first, or replace the one with the same id */
+  savePinnedResultSet(set: PinnedResultSet): void {
+    const normalized = normalizePinnedResultSet(set);
+    if (!normalized) {
+      return;
+    }
+    const index = this.pinnedResultSets.findIndex((s) => s.id === normalized.id);
+    if (index >= 0) {
+      this.pinnedResultSets[index] = normalized;
+    } else {
+      this.pinnedResultSets = [normalized, ...this.pinnedResultSets].slice(0, MAX_PINNED_RESULT_SETS);
+    }
+    this.persistPinnedResultSets();
+  }
+
+  removePinnedResultSet(id: string): void {
+    this.pinnedResultSets = this.pinnedResultSets.filter((set) => set.id !== id);
+    this.persistPinnedResultSets();
+  }
+
+  clearPinnedResultSets(): void {
+    this.pinnedResultSets = [];
+    this.persistPinnedResultSets();
+  }
+
+  private persistPinnedResultSets(): void {
+    const cfg = vscode.workspace.getConfiguration('rifler');
+    const scope = cfg.get<'workspace' | 'global' | 'off'>('persistenceScope', 'workspace');
+    const persist = cfg.get<boolean>('persistSearchState', true) && scope !== 'off';
+    const store = scope === 'global' ? this.context.globalState : this.context.workspaceState;
+    if (persist) {
+      store.update('rifler.pinnedResults', this.pinnedResultSets);
+    }
+  }
+
+  getSavedSearches(location: 'workspace' | 'global'): SavedSearch[] {
+    return [...this.savedSearches[location]];
+  }
+
+  /** Save a search under its name, replacing any saved search with the same name in that location. */
+  saveSearch(search: SavedSearch, location: 'workspace' | 'global'): void {
+    const normalized = normalizeSavedSearch(search);
+    if (!normalized) {
+      return;
+    }
+    const others = this.savedSearches[location].filter((s) => !isSameSavedSearch(s, normalized));
+    this.savedSearches[location] = [...others, normalized].sort((a, b) => a.name.localeCompare(b.name));
+    this.persistSavedSearches(location);
+  }
+
+  removeSavedSearch(name: string, location: 'workspace' | 'global'): void {
+    this.savedSearches[location] = this.savedSearches[location].filter((s) => !isSameSavedSearch(s, { name }));
+    this.persistSavedSearches(location);
+  }
+
+  private loadSavedSearches(store: vscode.Memento): SavedSearch[] {
+    const saved = store.get<unknown[]>('rifler.savedSearches', []);
+    return (Array.isArray(saved) ? saved : [])
+      .map((s) => normalizeSavedSearch(s))
+      .filter((s): s is SavedSearch => !!s);
+  }
+
+  private persistSavedSearches(location: 'workspace' | 'global'): void {
+    const store = location === 'global' ? this.context.globalState : this.context.workspaceState;
+    store.update('rifler.savedSearches', this.savedSearches[location]);
+  }
 }
@@ -0,0 +1,672 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { SearchResult, ValidationResult, normalizeContextLines, toContextLine } from './utils';
+
+/**
+ * Structural search matches a code pattern against the token stream of a file instead of
+ * its text, so whitespace, line breaks, comments and quote style do not matter.
+ *
+ * Patterns are written as code with metavariables:
+ * - `$NAME` matches one expression: balanced brackets, no top-level `,`, `;` or statement
+ *   keyword, and no operator that binds looser than the pattern's operators around it
+ * - `$$$NAME` (or a bare `$$$`) matches any number of tokens, including none and commas
+ * - `$_` matches like `$NAME` without binding
+ * A metavariable used twice must match the same code both times. Matches are whole
+ * expressions: they do not start inside a member chain or split an operand from a tighter
+ * operator. In `a = b + c * d`, `$A + $B` matches `b + c * d`.
+ */
+
+/** Files the structural matcher understands */
+export const STRUCTURAL_EXTENSIONS = ['.js', '.jsx', '.mjs', '.cjs', '.ts', '.tsx', '.mts', '.cts'];
+
+type TokenType = 'word' | 'number' | 'string' | 'template' | 'regex' | 'punct' | 'open' | 'close';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  /** Offset of the first character in the source */
+  start: number;
+  end: number;
+  /** A line break separates this token from the previous one */
+  newlineBefore: boolean;
+}
+
+type PatternToken =
+  | { kind: 'literal'; token: Token }
+  | { kind: 'single' | 'multi'; name?: string };
+
+export interface StructuralMatch {
+  start: number;
+  end: number;
+  /** Source text bound to each named metavariable */
+  bindings: Record<string, string>;
+}
+
+// Longest first. Nothing starts with `>`, so `Array<Array<T>>` closes one `>` at a time
+// and a pattern like `Array<$T>` still matches
+const PUNCTUATORS = [
+  '...', '===', '!==', '**=', '<<=', '&&=', '||=', '??=',
+  '=>', '==', '!=', '<=', '&&', '||', '??', '?.', '++', '--',
+  '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '**', '<<',
+];
+
+// After these words a `/` starts a regex literal rather than a division
+const REGEX_PREFIX_KEYWORDS = new Set([
+  'return', 'typeof', 'case', 'do', 'else', 'in', 'of', 'new', 'delete', 'void',
+  'throw', 'instanceof', 'yield', 'await',
+]);
+
+// Words that start or continue a statement; a `$NAME` span never crosses one
+const STATEMENT_KEYWORDS = new Set([
+  'break', 'case', 'catch', 'const', 'continue', 'debugger', 'default', 'do', 'else', 'export',
+  'finally', 'for', 'if', 'import', 'let', 'return', 'switch', 'throw', 'try', 'var', 'while',
+  'with', 'yield',
+]);
+
+// How tightly each binary operator binds, loosest first. `>=` and `>>` arrive as separate
+// `>` and `=` tokens (see PUNCTUATORS) and rank as comparisons
+const BINARY_PRECEDENCE = new Map<string, number>([
+  ...['=', '+=', '-=', '*=', '/=', '%=', '**=', '<<=', '&=', '|=', '^=', '&&=', '||=', '??=', '=>']
+    .map((op): [string, number] => [op, 2]),
+  ['?', 3], [':', 3], ['||', 4], ['??', 4], ['&&', 5], ['|', 6], ['^', 7], ['&', 8],
+  ['==', 9], ['!=', 9], ['===', 9], ['!==', 9],
+  ['<', 10], ['>', 10], ['<=', 10], ['in', 10], ['instanceof', 10], ['as', 10], ['satisfies', 10],
+  ['<<', 11], ['+', 12], ['-', 12], ['*', 13], ['/', 13], ['%', 13], ['**', 14],
+  // Postfix `++`/`--` and TypeScript's non-null `!`
+  ['++', 16], ['--', 16], ['!', 16],
+  ['.', 18], ['?.', 18],
+]);
+const UNARY_OPERATORS = new Set(['!', '~', '+', '-', '++', '--', 'typeof', 'void', 'delete', 'await']);
+const UNARY_PRECEDENCE = 15;
+// Spread takes a whole expression, so it binds looser than any operator after it
+const SPREAD_PRECEDENCE = 2;
+// Member access, calls and `new`
+const MEMBER_PRECEDENCE = 18;
+
+const METAVARIABLE = /^\$([A-Z_][A-Z0-9_]*)$/;
+const MULTI_METAVARIABLE = /^\$\$\$([A-Z_][A-Z0-9_]*)?$/;
+const NUMBER = /(?:0[xXoObB][\da-fA-F_]+|(?:\d[\d_]*(?:\.[\d_]*)?|\.\d[\d_]*)(?:[eE][+-]?\d+)?)n?/y;
+const WORD = /[A-Za-z_$][\w$]*/y;
+
+// Backtracking limits, so a pathological pattern cannot stall the search
+const MAX_SPAN_TOKENS = 2000;
+const MAX_STEPS_PER_START = 20000;
+
+/** End of a quoted string starting at `start`; strings stop at an unescaped line break */
+function skipQuoted(source: string, start: number): number {
+  const quote = source[start];
+  let i = start + 1;
+  while (i < source.length) {
+    const ch = source[i];
+    if (ch === '\\') {
+      i += 2;
+    } else if (ch === quote) {
+      return i + 1;
+    } else if (ch === '\n') {
+      return i;
+    } else {
+      i++;
+    }
+  }
+  return source.length;
+}
+
+/** End of a template literal starting at `start`, including `${}` substitutions */
+function skipTemplate(source: string, start: number): number {
+  let i = start + 1;
+  while (i < source.length) {
+    const ch = source[i];
+    if (ch === '\\') {
+      i += 2;
+    } else if (ch === '`') {
+      return i + 1;
+    } else if (ch === '$' && source[i + 1] === '{') {
+      i = skipSubstitution(source, i + 2);
+    } else {
+      i++;
+    }
+  }
+  return source.length;
+}
+
+function skipSubstitution(source: string, start: number): number {
+  let depth = 1;
+  let i = start;
+  while (i < source.length) {
+    const ch = source[i];
+    if (ch === '\'' || ch === '"') {
+      i = skipQuoted(source, i);
+    } else if (ch === '`') {
+      i = skipTemplate(source, i);
+    } else if (ch === '{') {
+      depth++;
+      i++;
+    } else if (ch === '}') {
+      if (--depth === 0) return i + 1;
+      i++;
+    } else {
+      i++;
+    }
+  }
+  return source.length;
+}
+
+function skipRegex(source: string, start: number): number {
+  let i = start + 1;
+  let inClass = false;
+  while (i < source.length) {
+    const ch = source[i];
+    if (ch === '\\') {
+      i += 2;
+      continue;
+    }
+    if (ch === '\n') return i;
+    if (ch === '[') inClass = true;
+    else if (ch === ']') inClass = false;
+    else if (ch === '/' && !inClass) {
+      i++;
+      while (i < source.length && /[a-z]/i.test(source[i])) i++;
+      return i;
+    }
+    i++;
+  }
+  return source.length;
+}
+
+/** Whether an operand comes after `previous`, so `/` starts a regex and `-` is a sign */
+function expectsOperand(previous: Token | undefined): boolean {
+  if (!previous) return true;
+  if (previous.type === 'word') return REGEX_PREFIX_KEYWORDS.has(previous.text);
+  return previous.type === 'punct' || previous.type === 'open';
+}
+
+interface Operator {
+  precedence: number;
+  /** `a = b = c` groups to the right, `a - b - c` to the left */
+  rightAssociative: boolean;
+}
+
+/**
+ * The operator `token` is, or undefined for operands. `prefix` says whether an operand is
+ * expected at the token, which tells a sign from a subtraction; `previous` is the token
+ * before it. After an operand, an open bracket or a template is a call, index or tag.
+ */
+function readOperator(token: Token, previous: Token | undefined, prefix: boolean): Operator | undefined {
+  if (prefix) {
+    if (token.type === 'word' && token.text === 'new') return { precedence: MEMBER_PRECEDENCE, rightAssociative: true };
+    if (token.type === 'punct' && token.text === '...') return { precedence: SPREAD_PRECEDENCE, rightAssociative: true };
+    const unary = (token.type === 'punct' || token.type === 'word') && UNARY_OPERATORS.has(token.text);
+    return unary ? { precedence: UNARY_PRECEDENCE, rightAssociative: true } : undefined;
+  }
+  if (token.type === 'open' || token.type === 'template') {
+    return { precedence: MEMBER_PRECEDENCE, rightAssociative: false };
+  }
+  if (token.type !== 'punct' && token.type !== 'word') return undefined;
+  const joined = token.text === '=' && previous?.text === '>' && previous.end === token.start;
+  const text = joined ? '>' : token.text;
+  const precedence = BINARY_PRECEDENCE.get(text);
+  if (precedence === undefined) return undefined;
+  return { precedence, rightAssociative: precedence <= 3 || text === '**' };
+}
+
+/** An operand starting here cannot continue the expression before it; a statement starts */
+function startsOperand(token: Token): boolean {
+  if (token.type === 'word') return !BINARY_PRECEDENCE.has(token.text);
+  return token.type === 'number' || token.type === 'string' || token.type === 'regex' ||
+    (token.type === 'open' && token.text === '{');
+}
+
+/** Whether an operand between `left` and `right` is taken by `left`: `a * b + c`, `a - b - c` */
+function groupsLeft(left: Operator, right: Operator): boolean {
+  return left.precedence > right.precedence || (left.precedence === right.precedence && !left.rightAssociative);
+}
+
+function isMemberAccess(token: Token | undefined): boolean {
+  return token?.type === 'punct' && (token.text === '.' || token.text === '?.');
+}
+
+/**
+ * Split JavaScript or TypeScript source into tokens, dropping whitespace and comments.
+ * JSX text is tokenized like code, which is enough to match around it.
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  let newlineBefore = false;
+  const push = (type: TokenType, end: number) => {
+    tokens.push({ type, text: source.slice(i, end), start: i, end, newlineBefore });
+    newlineBefore = false;
+    i = end;
+  };
+
+  while (i < source.length) {
+    const ch = source[i];
+    if (ch === '\n') {
+      newlineBefore = true;
+      i++;
+    } else if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '/' && source[i + 1] === '/') {
+      const end = source.indexOf('\n', i);
+      i = end === -1 ? source.length : end;
+    } else if (ch === '/' && source[i + 1] === '*') {
+      const end = source.indexOf('*/', i + 2);
+      const stop = end === -1 ? source.length : end + 2;
+      if (source.slice(i, stop).includes('\n')) newlineBefore = true;
+      i = stop;
+    } else if (ch === '\'' || ch === '"') {
+      push('string', skipQuoted(source, i));
+    } else if (ch === '`') {
+      push('template', skipTemplate(source, i));
+    } else if (ch === '/' && expectsOperand(tokens[tokens.length - 1])) {
+      push('regex', skipRegex(source, i));
+    } else if ('([{'.includes(ch)) {
+      push('open', i + 1);
+    } else if (')]}'.includes(ch)) {
+      push('close', i + 1);
+    } else {
+      WORD.lastIndex = i;
+      const word = WORD.exec(source);
+      if (word) {
+        push('word', i + word[0].length);
+        continue;
+      }
+      NUMBER.lastIndex = i;
+      const number = /[\d.]/.test(ch) ? NUMBER.exec(source) : null;
+      if (number && number[0] !== '.') {
+        push('number', i + number[0].length);
+        continue;
+      }
+      const punct = PUNCTUATORS.find((p) => source.startsWith(p, i));
+      push('punct', i + (punct ? punct.length : 1));
+    }
+  }
+  return tokens;
+}
+
+/** For each open bracket, the index of its close bracket (-1 when unbalanced) */
+function matchBrackets(tokens: Token[]): number[] {
+  const pairs = new Array<number>(tokens.length).fill(-1);
+  const stack: number[] = [];
+  tokens.forEach((token, index) => {
+    if (token.type === 'open') {
+      stack.push(index);
+    } else if (token.type === 'close') {
+      const open = stack.pop();
+      if (open !== undefined) pairs[open] = index;
+    }
+  });
+  return pairs;
+}
+
+/** Comparable form of a token: strings compare by content, whatever their quotes */
+function tokenKey(token: Token): string {
+  return token.type === 'string' ? `s:${token.text.slice(1, -1)}` : `${token.type}:${token.text}`;
+}
+
+function compilePattern(pattern: string): PatternToken[] {
+  return tokenize(pattern).map((token): PatternToken => {
+    if (token.type === 'word') {
+      const multi = MULTI_METAVARIABLE.exec(token.text);
+      if (multi) return { kind: 'multi', name: multi[1] };
+      const single = METAVARIABLE.exec(token.text);
+      if (single) return { kind: 'single', name: single[1] === '_' ? undefined : single[1] };
+    }
+    return { kind: 'literal', token };
+  });
+}
+
+/**
+ * Check a structural pattern before searching with it.
+ */
+export function validateStructuralPattern(pattern: string): ValidationResult {
+  if (!pattern.trim()) {
+    return { isValid: false, error: 'Search pattern cannot be empty' };
+  }
+  if (!compilePattern(pattern).some((p) => p.kind === 'literal')) {
+    return { isValid: false, error: 'Structural patterns need at least one token besides metavariables' };
+  }
+  if ((getStructuralAnchor(pattern) || '').length < 2) {
+    return { isValid: false, error: 'Structural patterns need a name or string of at least two characters' };
+  }
+  return { isValid: true };
+}
+
+/**
+ * The longest plain word or string content in a pattern. Every match contains it as text,
+ * so it is used to find candidate files quickly.
+ */
+export function getStructuralAnchor(pattern: string): string | undefined {
+  let anchor = '';
+  for (const part of compilePattern(pattern)) {
+    if (part.kind !== 'literal') continue;
+    const { token } = part;
+    const text = token.type === 'string' ? token.text.slice(1, -1) : token.type === 'word' ? token.text : '';
+    if (text.length > anchor.length && !/[\\\n]/.test(text)) {
+      anchor = text;
+    }
+  }
+  return anchor || undefined;
+}
+
+/** The operators around a single metavariable in the pattern, which its span must bind tighter than */
+interface Neighbors {
+  left?: Operator;
+  right?: Operator;
+}
+
+class Matcher {
+  private readonly pairs: number[];
+  private readonly keys: string[];
+  private readonly neighbors: Neighbors[];
+  /** The operator after the operand that starts the pattern, as in `$A + $B` */
+  private readonly startOperator?: Operator;
+  /** The operator before the operand that ends the pattern */
+  private readonly endOperator?: Operator;
+  private steps = 0;
+
+  constructor(private readonly source: string, private readonly tokens: Token[], private readonly pattern: PatternToken[]) {
+    this.pairs = matchBrackets(tokens);
+    this.keys = tokens.map(tokenKey);
+
+    const literal = (k: number): Token | undefined => {
+      const part = pattern[k];
+      return part?.kind === 'literal' ? part.token : undefined;
+    };
+    // Metavariables stand for operands, so an operator after one is binary
+    const operatorAt = (k: number): Operator | undefined => {
+      const token = literal(k);
+      if (!token) return undefined;
+      const prefix = k === 0 || (pattern[k - 1].kind === 'literal' && expectsOperand(literal(k - 1)));
+      return readOperator(token, literal(k - 1), prefix);
+    };
+    const isOperand = (k: number): boolean => {
+      const token = literal(k);
+      return token ? token.type !== 'open' && (startsOperand(token) || token.type === 'template') : pattern[k]?.kind === 'single';
+    };
+
+    // An open bracket before a metavariable starts a new expression rather than binding it
+    this.neighbors = pattern.map((part, k) => part.kind !== 'single' ? {} : {
+      left: literal(k - 1)?.type === 'open' ? undefined : operatorAt(k - 1),
+      right: operatorAt(k + 1),
+    });
+    const last = pattern.length - 1;
+    if (last > 0 && isOperand(0)) this.startOperator = operatorAt(1);
+    if (last > 0 && isOperand(last) && literal(last - 1)?.type !== 'open') this.endOperator = operatorAt(last - 1);
+  }
+
+  /** Match the whole pattern at token `startIndex`; returns the end token index and bindings */
+  matchAt(startIndex: number): { end: number; bindings: Map<string, [number, number]> } | undefined {
+    if (!this.startsExpression(startIndex)) return undefined;
+    this.steps = 0;
+    const bindings = new Map<string, [number, number]>();
+    const end = this.step(0, startIndex, bindings);
+    return end === -1 ? undefined : { end, bindings };
+  }
+
+  /**
+   * A match cannot start inside a member chain (`obj.console.log`), nor on an operand that
+   * the operator before it takes: `$A + $B` does not start at `b` in `a * b + c`.
+   */
+  private startsExpression(startIndex: number): boolean {
+    const before = this.tokens[startIndex - 1];
+    if (isMemberAccess(before)) return false;
+    if (!this.startOperator || !before || (before.type !== 'punct' && before.type !== 'word')) return true;
+    const previous = this.tokens[startIndex - 2];
+    const operator = readOperator(before, previous, expectsOperand(previous));
+    return !operator || !groupsLeft(operator, this.startOperator);
+  }
+
+  /** Likewise a match cannot end on an operand that the operator after it takes */
+  private endsExpression(endIndex: number): boolean {
+    const after = this.tokens[endIndex];
+    if (!this.endOperator || !after) return true;
+    const operator = readOperator(after, this.tokens[endIndex - 1], false);
+    return !operator || groupsLeft(this.endOperator, operator);
+  }
+
+  private step(pi: number, ti: number, bindings: Map<string, [number, number]>): number {
+    if (pi === this.pattern.length) return this.endsExpression(ti) ? ti : -1;
+    if (++this.steps > MAX_STEPS_PER_START) return -1;
+
+    const part = this.pattern[pi];
+    if (part.kind === 'literal') {
+      return ti < this.tokens.length && this.keys[ti] === tokenKey(part.token) ? this.step(pi + 1, ti + 1, bindings) : -1;
+    }
+
+    const bound = part.name ? bindings.get(part.name) : undefined;
+    for (const end of this.spanEnds(part.kind, ti, pi)) {
+      if (bound && !this.sameSpan(bound, [ti, end])) continue;
+      if (part.name && !bound) bindings.set(part.name, [ti, end]);
+      const result = this.step(pi + 1, end, bindings);
+      if (result !== -1) return result;
+      if (part.name && !bound) bindings.delete(part.name);
+    }
+    return -1;
+  }
+
+  /**
+   * Candidate end indexes for the metavariable at pattern index `pi` starting at `ti`,
+   * shortest first. A single metavariable that ends the pattern is greedy instead, so
+   * `x = $VALUE` takes the whole right-hand side.
+   */
+  private spanEnds(kind: 'single' | 'multi', ti: number, pi: number): number[] {
+    const ends: number[] = kind === 'multi' ? [ti] : [];
+    let i = ti;
+    while (i < this.tokens.length && i - ti < MAX_SPAN_TOKENS) {
+      const token = this.tokens[i];
+      if (token.type === 'close') break;
+      if (kind === 'single' && !this.extendsSpan(ti, i, this.neighbors[pi])) break;
+      if (token.type === 'open') {
+        if (this.pairs[i] === -1) break;
+        i = this.pairs[i] + 1;
+      } else {
+        i++;
+      }
+      ends.push(i);
+    }
+    return kind === 'single' && pi === this.pattern.length - 1 ? ends.reverse() : ends;
+  }
+
+  /**
+   * Whether token `i` can belong to a single metavariable span starting at `ti`. The span
+   * stays one expression: it stops at top-level `,` and `;`, at statement keywords, where
+   * one operand follows another (a new statement), and at operators that bind looser
+   * than the pattern's operators around it, so `$A + $B` takes `b` from `a = b + c * d`.
+   */
+  private extendsSpan(ti: number, i: number, neighbors: Neighbors): boolean {
+    const token = this.tokens[i];
+    const previous = this.tokens[i - 1];
+    if (token.type === 'punct' && (token.text === ',' || token.text === ';')) return false;
+    if (this.isStatementKeyword(i)) return false;
+    const prefix = i === ti || expectsOperand(previous);
+    if (!prefix && startsOperand(token)) return false;
+    const operator = readOperator(token, previous, prefix);
+    if (!operator) return !(prefix && token.type === 'punct');
+    return (!neighbors.left || !groupsLeft(neighbors.left, operator)) &&
+      (!neighbors.right || groupsLeft(operator, neighbors.right));
+  }
+
+  private isStatementKeyword(i: number): boolean {
+    const token = this.tokens[i];
+    if (token.type !== 'word' || !STATEMENT_KEYWORDS.has(token.text) || isMemberAccess(this.tokens[i - 1])) return false;
+    // `import('./module')` and `import.meta` are expressions
+    const next = this.tokens[i + 1];
+    return !(token.text === 'import' && (next?.text === '(' || next?.text === '.'));
+  }
+
+  private sameSpan(a: [number, number], b: [number, number]): boolean {
+    if (a[1] - a[0] !== b[1] - b[0]) return false;
+    for (let k = 0; k < a[1] - a[0]; k++) {
+      if (this.keys[a[0] + k] !== this.keys[b[0] + k]) return false;
+    }
+    return true;
+  }
+
+  toMatch(startIndex: number, endIndex: number, spans: Map<string, [number, number]>): StructuralMatch {
+    const bindings: Record<string, string> = {};
+    for (const [name, [from, to]] of spans) {
+      bindings[name] = from === to ? '' : this.source.slice(this.tokens[from].start, this.tokens[to - 1].end);
+    }
+    return { start: this.tokens[startIndex].start, end: this.tokens[endIndex - 1].end, bindings };
+  }
+
+  firstLiteralKey(): string | undefined {
+    const first = this.pattern[0];
+    return first.kind === 'literal' ? tokenKey(first.token) : undefined;
+  }
+}
+
+/**
+ * Every non-overlapping match of `pattern` in `source`, in source order.
+ */
+export function findStructuralMatches(source: string, pattern: string, maxMatches: number = Infinity): StructuralMatch[] {
+  const compiled = compilePattern(pattern);
+  if (!compiled.some((p) => p.kind === 'literal')) return [];
+
+  const tokens = tokenize(source);
+  const matcher = new Matcher(source, tokens, compiled);
+  const firstKey = matcher.firstLiteralKey();
+  const matches: StructuralMatch[] = [];
+  let ti = 0;
+  while (ti < tokens.length && matches.length < maxMatches) {
+    if (firstKey !== undefined && tokenKey(tokens[ti]) !== firstKey) {
+      ti++;
+      continue;
+    }
+    const found = matcher.matchAt(ti);
+    if (found && found.end > ti) {
+      matches.push(matcher.toMatch(ti, found.end, found.bindings));
+      ti = found.end;
+    } else {
+      ti++;
+    }
+  }
+  return matches;
+}
+
+let cachedSource: string | undefined;
+let cachedTokens: Token[] = [];
+
+/**
+ * Match `pattern` at a source offset, as reported by an earlier search. Used by replace to
+ * recover the full match and its bindings. The last tokenized source is cached, since a
+ * replace resolves every match of a file against the same text.
+ */
+export function matchStructuralAt(source: string, offset: number, pattern: string): StructuralMatch | undefined {
+  const compiled = compilePattern(pattern);
+  if (!compiled.some((p) => p.kind === 'literal')) return undefined;
+  if (cachedSource !== source) {
+    cachedSource = source;
+    cachedTokens = tokenize(source);
+  }
+  const startIndex = cachedTokens.findIndex((token) => token.start === offset);
+  if (startIndex === -1) return undefined;
+  const matcher = new Matcher(source, cachedTokens, compiled);
+  const found = matcher.matchAt(startIndex);
+  return found && found.end > startIndex ? matcher.toMatch(startIndex, found.end, found.bindings) : undefined;
+}
+
+/**
+ * Substitute metavariables (`$NAME`, `$$$NAME`) in a replacement template with the code they
+ * matched. Names the pattern did not bind are left as written.
+ */
+export function expandStructuralReplacement(template: string, bindings: Record<string, string>): string {
+  return template.replace(/\$\$\$([A-Z_][A-Z0-9_]*)|\$([A-Z_][A-Z0-9_]*)/g, (whole, multi: string, single: string) => {
+    const name = multi ?? single;
+    return Object.prototype.hasOwnProperty.call(bindings, name) ? bindings[name] : whole;
+  });
+}
+
+/**
+ * Structural counterpart of searchInContent: one result per line on which matches start.
+ * A match spanning lines reports its full length from its first line, like multiline search.
+ */
+export function searchStructuralInContent(
+  content: string,
+  pattern: string,
+  filePath: string,
+  maxResults: number = 5000,
+  relativePath?: string,
+  contextLines: number = 0
+): SearchResult[] {
+  const matches = findStructuralMatches(content, pattern);
+  if (matches.length === 0) return [];
+
+  const lines = content.split('\n');
+  const lineStarts: number[] = [];
+  let offset = 0;
+  for (const line of lines) {
+    lineStarts.push(offset);
+    offset += line.length + 1;
+  }
+  const lineOf = (pos: number): number => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= pos) low = mid; else high = mid - 1;
+    }
+    return low;
+  };
+
+  const byLine = new Map<number, StructuralMatch[]>();
+  for (const match of matches) {
+    const line = lineOf(match.start);
+    const group = byLine.get(line);
+    if (group) group.push(match); else byLine.set(line, [match]);
+  }
+
+  const matchLines = new Set<number>();
+  for (const match of matches) {
+    for (let line = lineOf(match.start); line <= lineOf(match.end - 1); line++) matchLines.add(line);
+  }
+
+  const uri = vscode.Uri.file(filePath).toString();
+  const fileName = path.basename(filePath);
+  const context = normalizeContextLines(contextLines);
+  const results: SearchResult[] = [];
+  let previousMatchLine = -1;
+  for (const [lineIndex, lineMatches] of byLine) {
+    if (results.length >= maxResults) break;
+    const line = lines[lineIndex];
+    const leadingWhitespace = line.length - line.trimStart().length;
+    const preview = line.trim();
+    const matchRanges = lineMatches.map((m) => {
+      const start = m.start - lineStarts[lineIndex];
+      return { start, end: start + (m.end - m.start) };
+    });
+    const previewMatchRanges = matchRanges.map((r) => ({
+      start: Math.max(0, r.start - leadingWhitespace),
+      end: Math.min(preview.length, Math.max(0, r.end - leadingWhitespace)),
+    }));
+    const result: SearchResult = {
+      uri,
+      fileName,
+      relativePath: relativePath || filePath,
+      line: lineIndex,
+      character: matchRanges[0].start,
+      length: matchRanges[0].end - matchRanges[0].start,
+      preview,
+      previewMatchRange: previewMatchRanges[0],
+      previewMatchRanges,
+      matchRanges,
+    };
+
+    if (context > 0) {
+      const lastLine = lineOf(lineMatches[lineMatches.length - 1].end - 1);
+      const beforeStart = Math.max(previousMatchLine + 1, lineIndex - context);
+      result.contextBefore = lines.slice(beforeStart, lineIndex).map(toContextLine);
+      const after: string[] = [];
+      for (let next = lastLine + 1; next < lines.length && next <= lastLine + context; next++) {
+        if (matchLines.has(next)) break;
+        after.push(toContextLine(lines[next]));
+      }
+      result.contextAfter = after;
+      previousMatchLine = lastLine;
+    }
+
+    results.push(result);
+  }
+  return results;
+}
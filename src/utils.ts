@@ -1,19 +1,58 @@
 import * as path from 'path';
 import * as vscode from 'vscode';
+import { getBooleanQuery } from './booleanQuery';
 
 // ============================================================================
 // Types
 // ============================================================================
 
+/** Finer-grained places a code match can sit in, used to narrow the code-context filter */
+export type CodeCategory = 'identifiers' | 'imports' | 'types' | 'jsxText';
+
+export const CODE_CATEGORIES: CodeCategory[] = ['identifiers', 'imports', 'types', 'jsxText'];
+
+/** Groups of workspace symbol kinds the symbol search can be narrowed to */
+export type SymbolKindFilter = 'class' | 'interface' | 'function' | 'method' | 'property' | 'variable' | 'enum' | 'module';
+
+export const SYMBOL_KIND_FILTERS: SymbolKindFilter[] = ['class', 'interface', 'function', 'method', 'property', 'variable', 'enum', 'module'];
+
 export interface SearchOptions {
   matchCase: boolean;
   wholeWord: boolean;
   useRegex: boolean;
   multiline?: boolean;
+  /** The query is a code pattern with metavariables, matched against syntax instead of text */
+  structural?: boolean;
+  /** The query is matched fuzzily against file paths instead of file contents */
+  fileNames?: boolean;
+  /** The query is looked up with the workspace symbol provider instead of searched as text */
+  symbols?: boolean;
+  /** When non-empty, symbol search only keeps symbols of these kinds */
+  symbolKinds?: SymbolKindFilter[];
   fileMask: string;
   includeCode?: boolean;
   includeComments?: boolean;
   includeStrings?: boolean;
+  /** When non-empty, only matches in one of these categories are kept */
+  codeCategories?: CodeCategory[];
+  /** Lines of context to collect before and after each match (0 or unset disables context) */
+  contextLines?: number;
+  /** Workspace folder paths searched by the `folders` scope */
+  folders?: string[];
+  /** Ref the `changedFiles` scope compares with; empty searches uncommitted changes */
+  gitBase?: string;
+}
+
+/** A node of a call or type hierarchy; its results show where the relation appears in code */
+export interface HierarchyNode {
+  /** Identifies the node when asking for the next level */
+  id: string;
+  parentId?: string;
+  /** 1 for the direct callers, callees, supertypes or subtypes of the searched symbol */
+  depth: number;
+  name: string;
+  /** Provider detail such as the containing class or signature */
+  detail?: string;
 }
 
 export interface SearchResult {
@@ -31,10 +70,48 @@ export interface SearchResult {
   };
   previewMatchRanges?: Array<{ start: number; end: number }>;
   matchRanges?: Array<{ start: number; end: number }>;
+  /** Non-matching lines directly above `line`, top to bottom (context mode only) */
+  contextBefore?: string[];
+  /** Non-matching lines directly below the match, top to bottom (context mode only) */
+  contextAfter?: string[];
+  /** Call and type hierarchy results: the tree node the result belongs to */
+  hierarchy?: HierarchyNode;
+  /** "References + text" results: found by the language server, or only by the text search */
+  origin?: 'semantic' | 'textual';
+  /** Pinned results: the match is no longer at its line and column */
+  stale?: boolean;
+}
+
+/** Upper bound for SearchOptions.contextLines */
+export const MAX_CONTEXT_LINES = 10;
+/** Context lines longer than this are cut off */
+export const MAX_CONTEXT_LINE_CHARS = 260;
+
+export function normalizeContextLines(value: unknown): number {
+  const n = typeof value === 'number' && Number.isFinite(value) ? Math.floor(value) : 0;
+  return Math.min(MAX_CONTEXT_LINES, Math.max(0, n));
+}
+
+export function toContextLine(text: string): string {
+  return text.replace(/\s+$/, '').slice(0, MAX_CONTEXT_LINE_CHARS);
+}
+
+/**
+ * Single-line rendering of a result with its context lines, for places like
+ * QuickPick details that cannot show several lines.
+ */
+export function formatResultDetail(result: SearchResult): string {
+  if (!result.contextBefore?.length && !result.contextAfter?.length) {
+    return result.preview;
+  }
+  return [...(result.contextBefore ?? []), result.preview, ...(result.contextAfter ?? [])]
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .join(' ↵ ');
 }
 
 /** Scope options for search */
-export type SearchScope = 'project' | 'directory' | 'module';
+export type SearchScope = 'project' | 'directory' | 'module' | 'folders' | 'openEditors' | 'changedFiles';
 
 export function getOpenKeybindingHint(cfg?: vscode.WorkspaceConfiguration): string {
   const config = cfg ?? vscode.workspace.getConfiguration('rifler');
@@ -79,9 +156,28 @@ export function formatRiflerSearchTooltip(openKeybindingHint: string | undefined
 // ============================================================================
 
 /**
- * Build a search regex from a query string and options
+ * Build a search regex from a query string and options. Operators typed into the query
+ * must already be applied (see applyQueryOperators). For a boolean query the regex matches
+ * any of its positive terms, which are the hits shown and replaced.
  */
 export function buildSearchRegex(query: string, options: SearchOptions): RegExp | null {
+  const booleanQuery = getBooleanQuery(query, options);
+  if (!booleanQuery) {
+    return buildPatternRegex(query, options);
+  }
+  const termRegexes = booleanQuery.positive
+    .map((term) => buildPatternRegex(term, options))
+    .filter((regex): regex is RegExp => !!regex);
+  if (termRegexes.length === 0 || termRegexes.length < booleanQuery.positive.length) {
+    return null;
+  }
+  return new RegExp(termRegexes.map((regex) => `(?:${regex.source})`).join('|'), termRegexes[0].flags);
+}
+
+/**
+ * Build the regex of a single pattern, without reading query or boolean operators in it
+ */
+export function buildPatternRegex(query: string, options: SearchOptions): RegExp | null {
   try {
     let pattern: string;
     
@@ -116,9 +212,44 @@ export function buildSearchRegex(query: string, options: SearchOptions): RegExp
 }
 
 /**
- * Check if a filename matches a file mask pattern
+ * Expand a replacement template against a single regex match.
+ * Supports the same tokens as String.prototype.replace: $$, $&, $`, $', $n, $nn and $<name>.
  */
-export function matchesFileMask(fileName: string, fileMask: string): boolean {
+export function expandReplacement(template: string, match: RegExpExecArray, subject: string): string {
+  const groupCount = match.length - 1;
+  const matchStart = match.index;
+  const matchEnd = match.index + match[0].length;
+
+  return template.replace(/\$(\$|&|`|'|\d{1,2}|<[^>]*>)/g, (token: string, spec: string) => {
+    if (spec === '$') return '$';
+    if (spec === '&') return match[0];
+    if (spec === '`') return subject.slice(0, matchStart);
+    if (spec === "'") return subject.slice(matchEnd);
+
+    if (spec.startsWith('<')) {
+      // Named references are only meaningful when the pattern declares named groups
+      if (!match.groups) return token;
+      return match.groups[spec.slice(1, -1)] ?? '';
+    }
+
+    // Prefer a two-digit group reference when that group exists, else fall back to one digit
+    const twoDigit = parseInt(spec, 10);
+    if (spec.length === 2 && twoDigit >= 1 && twoDigit <= groupCount) {
+      return match[twoDigit] ?? '';
+    }
+    const oneDigit = parseInt(spec[0], 10);
+    if (oneDigit >= 1 && oneDigit <= groupCount) {
+      return (match[oneDigit] ?? '') + spec.slice(1);
+    }
+    return token;
+  });
+}
+
+/**
+ * Check if a file matches a file mask pattern. Patterns with a `/` are matched against
+ * the whole path (as ripgrep globs are), the others against the file name.
+ */
+export function matchesFileMask(filePath: string, fileMask: string): boolean {
   const trimmed = fileMask.trim();
   if (!trimmed) return true;
 
@@ -126,8 +257,11 @@ export function matchesFileMask(fileName: string, fileMask: string): boolean {
   const tokens = trimmed.split(/[,;]/).map(m => m.trim()).filter(Boolean);
   if (tokens.length === 0) return true;
 
-  const includes: RegExp[] = [];
-  const excludes: RegExp[] = [];
+  const normalizedPath = filePath.replace(/\\/g, '/');
+  const fileName = normalizedPath.slice(normalizedPath.lastIndexOf('/') + 1);
+  let hasIncludes = false;
+  let matchesInclude = false;
+  let matchesExclude = false;
 
   for (const token of tokens) {
     const isExclude = token.startsWith('!');
@@ -139,18 +273,16 @@ export function matchesFileMask(fileName: string, fileMask: string): boolean {
       .replace(/\*/g, '.*')                   // * matches any characters
       .replace(/\?/g, '.');                   // ? matches a single character
 
-    const regex = new RegExp(`^${regexPattern}$`, 'i');
+    const matched = new RegExp(`^${regexPattern}$`, 'i').test(pattern.includes('/') ? normalizedPath : fileName);
     if (isExclude) {
-      excludes.push(regex);
+      matchesExclude = matchesExclude || matched;
     } else {
-      includes.push(regex);
+      hasIncludes = true;
+      matchesInclude = matchesInclude || matched;
     }
   }
 
-  const matchesInclude = includes.length === 0 || includes.some(r => r.test(fileName));
-  const matchesExclude = excludes.some(r => r.test(fileName));
-
-  return matchesInclude && !matchesExclude; // Excludes always win
+  return (!hasIncludes || matchesInclude) && !matchesExclude; // Excludes always win
 }
 
 /** * Find modules in the workspace (directories with package.json, tsconfig.json, etc.)
@@ -299,12 +431,20 @@ export function searchInContent(
   regex: RegExp,
   filePath: string,
   maxResults: number = 5000,
-  relativePath?: string
+  relativePath?: string,
+  contextLines: number = 0
 ): SearchResult[] {
   const results: SearchResult[] = [];
   const lines = content.split('\n');
   const fileName = path.basename(filePath);
   const finalRelativePath = relativePath || filePath;
+  const context = normalizeContextLines(contextLines);
+  let previousMatchLine = -1;
+
+  const isMatchLine = (lineIndex: number): boolean => {
+    regex.lastIndex = 0;
+    return regex.test(lines[lineIndex]);
+  };
 
   for (let lineIndex = 0; lineIndex < lines.length && results.length < maxResults; lineIndex++) {
     const line = lines[lineIndex];
@@ -333,7 +473,7 @@ export function searchInContent(
 
     if (lineMatches.length > 0) {
       const firstMatch = lineMatches[0];
-      results.push({
+      const result: SearchResult = {
         uri: vscode.Uri.file(filePath).toString(),
         fileName,
         relativePath: finalRelativePath,
@@ -347,7 +487,22 @@ export function searchInContent(
         },
         previewMatchRanges: lineMatches.map(m => ({ start: m.start, end: m.end })),
         matchRanges: lineMatches.map(m => ({ start: m.rawStart, end: m.rawStart + m.rawLength }))
-      });
+      };
+
+      if (context > 0) {
+        // Like ripgrep, context stops at neighbouring match lines
+        const beforeStart = Math.max(previousMatchLine + 1, lineIndex - context);
+        result.contextBefore = lines.slice(beforeStart, lineIndex).map(toContextLine);
+        const after: string[] = [];
+        for (let next = lineIndex + 1; next < lines.length && next <= lineIndex + context; next++) {
+          if (isMatchLine(next)) break;
+          after.push(toContextLine(lines[next]));
+        }
+        result.contextAfter = after;
+      }
+
+      results.push(result);
+      previousMatchLine = lineIndex;
     }
   }
 
@@ -383,7 +538,7 @@ export async function collectFiles(
           }
         } else if (entryType === vscode.FileType.File) {
           const ext = path.extname(entryName).toLowerCase();
-          if (!isBinaryExtension(ext) && matchesFileMask(entryName, fileMask)) {
+          if (!isBinaryExtension(ext) && matchesFileMask(fullPath, fileMask)) {
             files.push(fullPath);
           }
         }
@@ -462,6 +617,28 @@ export interface MaskValidationResult {
   fallbackToAll: boolean;  // If true, mask will match all files
 }
 
+/**
+ * Whether a regex is safe to run on every line: rejects nested quantifiers and other
+ * patterns prone to catastrophic backtracking.
+ */
+export function isSafeRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+  } catch {
+    return false;
+  }
+  const dangerousSequences = [
+    // Check for nested quantifiers without catastrophic backtracking
+    /(\([^)]*[*+][^)]*\))[+*]/,
+    /([^\\]|^)\d+\s*[*+]/,
+    /\[[^\]]*\][*+]\s*[?+*]/
+  ];
+  for (const seq of dangerousSequences) {
+    if (seq.test(pattern)) return false;
+  }
+  return true;
+}
+
 /**
  * Validate a regex pattern string
  * @param pattern The pattern to validate
@@ -4,6 +4,7 @@ import { RiflerSidebarProvider } from '../sidebar/SidebarProvider';
 import { StateStore } from '../state/StateStore';
 import { MinimizeMessage } from '../messaging/types';
 import { PanelManager } from '../services/PanelManager';
+import { SavedSearch } from '../savedSearches';
 
 export type PanelLocation = 'sidebar' | 'bottom' | 'window';
 
@@ -57,6 +58,7 @@ export class ViewManager {
     showReplace?: boolean;
     initialQuery?: string;
     initialQueryFocus?: boolean;
+    initialSearch?: SavedSearch;
     forcedLocation?: PanelLocation;
   } = {}): Promise<void> {
     // Sanitize options
@@ -102,7 +104,7 @@ export class ViewManager {
     }
   }
 
-  private async _openSidebar(options: { showReplace?: boolean; initialQuery?: string; initialQueryFocus?: boolean }): Promise<void> {
+  private async _openSidebar(options: { showReplace?: boolean; initialQuery?: string; initialQueryFocus?: boolean; initialSearch?: SavedSearch }): Promise<void> {
     if (this._sidebarProvider) {
       // Wait for any lingering tab to close before focusing the sidebar
       await this._waitForPanelClosure();
@@ -116,7 +118,9 @@ export class ViewManager {
       // Show the sidebar provider view
       this._sidebarProvider.show();
       
-      if (typeof options.initialQuery === 'string') {
+      if (options.initialSearch) {
+        this._sidebarProvider.postMessage({ type: 'applySearch', search: options.initialSearch });
+      } else if (typeof options.initialQuery === 'string') {
         this._sidebarProvider.postMessage({ 
           type: 'setSearchQuery', 
           query: options.initialQuery,
@@ -133,15 +137,16 @@ export class ViewManager {
     }
   }
 
-  private async _openWindow(options: { showReplace?: boolean; initialQuery?: string }): Promise<void> {
+  private async _openWindow(options: { showReplace?: boolean; initialQuery?: string; initialSearch?: SavedSearch }): Promise<void> {
     // Use internal command that always opens without toggle logic
     await vscode.commands.executeCommand('rifler._openWindowInternal', {
       initialQuery: options.initialQuery,
+      initialSearch: options.initialSearch,
       showReplace: options.showReplace
     });
   }
 
-  private async _openBottom(options: { showReplace?: boolean; initialQuery?: string; initialQueryFocus?: boolean }): Promise<void> {
+  private async _openBottom(options: { showReplace?: boolean; initialQuery?: string; initialQueryFocus?: boolean; initialSearch?: SavedSearch }): Promise<void> {
     if (this._bottomProvider) {
       // Wait for any lingering tab to close before focusing the panel
       await this._waitForPanelClosure();
@@ -150,7 +155,9 @@ export class ViewManager {
 
       this._bottomProvider.show();
 
-      if (typeof options.initialQuery === 'string') {
+      if (options.initialSearch) {
+        this._bottomProvider.postMessage({ type: 'applySearch', search: options.initialSearch });
+      } else if (typeof options.initialQuery === 'string') {
         this._bottomProvider.postMessage({
           type: 'setSearchQuery',
           query: options.initialQuery,
@@ -39,6 +39,7 @@ console.log('[Rifler] Webview script starting...');
     currentDirectory: '',
     workspaceName: '',
     workspacePath: '',
+    workspaceFolders: [],
     currentQuery: '',
     queryRows: 1,
     fileContent: null,
@@ -60,10 +61,16 @@ console.log('[Rifler] Webview script starting...');
       wholeWord: false,
       useRegex: false,
       multiline: false,
+      structural: false,
+      fileNames: false,
+      symbols: false,
+      symbolKinds: [],
       fileMask: '',
       includeCode: true,
       includeComments: true,
-      includeStrings: true
+      includeStrings: true,
+      codeCategories: [],
+      contextLines: 0
     },
     contextDefaults: {
       includeCode: true,
@@ -73,8 +80,11 @@ console.log('[Rifler] Webview script starting...');
     restoredFromState: false,
     groupScrollTops: {}, // Persist scroll positions for grouped result containers
     loadingTimeout: null, // Track loading overlay timeout
-    searchMode: 'text', // 'text' or 'lsp'
-    lspSubMode: 'references', // 'references' | 'definitions' | 'implementations' | 'typeDefinitions'
+    replacePreview: null, // Pending replace-all preview: { id, files, totalEdits, accepted: Set, activeUri }
+    searchMode: 'text', // 'text', 'lsp', 'structural', 'files' or 'symbols' (mirrored in options.structural / fileNames / symbols)
+    lspSubMode: 'references', // 'references' | 'referencesAndText' | 'definitions' | 'implementations' | 'typeDefinitions' or a hierarchy mode
+    hierarchyLoading: new Set(), // Hierarchy node ids waiting for their next level
+    hierarchyLeaves: new Set(), // Hierarchy node ids that turned out to have nothing below them
     lspInfo: null, // { languageId, symbolName, confidence }
     lspResultsCache: {}, // Cache results per LSP type: { references: {...}, definitions: {...}, ... }
     lastTextQuery: '',
@@ -87,7 +97,24 @@ console.log('[Rifler] Webview script starting...');
     testMode: false,
     pendingSearchResultsMessage: null,
     resultsProcessScheduled: false,
-    previewWindows: Object.create(null)
+    streamingRequestId: null, // Search whose results are currently streaming in
+    streamedResults: [],
+    streamRenderScheduled: false,
+    streamBaseResults: null, // Results a continued search streams on top of
+    lastSearchMessage: null, // Last runSearch message, resent to continue an incomplete search
+    searchStatus: null, // { requestId, timedOut, cancelled, resultCapHit, canContinue } of an incomplete search
+    previewWindows: Object.create(null),
+    sessionTabsEnabled: false, // Set once the view sends its session list (sidebar and bottom views)
+    sessions: [], // [{ id, name, snapshot }]; the active session's snapshot is null while it is live
+    activeSessionId: null,
+    sessionSeq: 0,
+    pinnedSets: [], // Pinned result sets, newest first, as stored by the extension
+    pinnedView: null, // While a pinned set is shown: { id, liveResults, liveActiveIndex }
+    refineOpen: false,
+    refineBase: null, // Search results the refine stack started from, while it has steps
+    refineSteps: [], // [{ step, results }], each filtering the results of the one before
+    refineRequest: null, // { id, step } of the step waiting for the extension
+    queryOperators: null // { operators, fileMask, fileMaskMessage } read from the query by the extension
   };
 
     let pendingTestHistoryEcho = false;
@@ -142,6 +169,7 @@ console.log('[Rifler] Webview script starting...');
   const replaceInput = document.getElementById('replace-input');
   const replaceBtn = document.getElementById('replace-btn');
   const replaceAllBtn = document.getElementById('replace-all-btn');
+  const replacePreviewBtn = document.getElementById('replace-preview-btn');
   const clearSearchBtn = document.getElementById('clear-search-btn');
   const resultsList = document.getElementById('results-list');
   const previewContent = document.getElementById('preview-content');
@@ -152,6 +180,11 @@ console.log('[Rifler] Webview script starting...');
   // Updated for new layout
   const directoryInput = document.getElementById('directory-input');
   const moduleSelect = document.getElementById('module-select');
+  const foldersSelect = document.getElementById('folders-select');
+  const gitBaseInput = document.getElementById('git-base-input');
+  const foldersSelectBtn = document.getElementById('folders-select-btn');
+  const foldersMenu = document.getElementById('folders-menu');
+  const foldersScopeOption = document.getElementById('folders-scope-option');
   const scopeSelect = document.getElementById('scope-select');
   const pathLabel = document.getElementById('path-label');
   
@@ -161,11 +194,21 @@ console.log('[Rifler] Webview script starting...');
   const includeCodeToggle = document.getElementById('include-code');
   const includeCommentsToggle = document.getElementById('include-comments');
   const includeStringsToggle = document.getElementById('include-strings');
+  const codeCategoryButtons = document.querySelectorAll('#code-category-group [data-category]');
+  const contextLinesSelect = document.getElementById('context-lines-select');
   const fileMaskInput = document.getElementById('file-mask');
+  const queryOperatorsHint = document.getElementById('query-operators-hint');
+  // Queries with operators are validated by the extension, which knows what they leave to search
+  const QUERY_OPERATOR_PATTERN = /(^|\s)-?(path|lang|case|word|re|scope):\S/;
   const useLspToggle = document.getElementById('use-lsp');
+  const useStructuralToggle = document.getElementById('use-structural');
+  const useFileNamesToggle = document.getElementById('use-file-names');
+  const useSymbolsToggle = document.getElementById('use-symbols');
+  const symbolKindRow = document.getElementById('symbol-kind-row');
   const lspModeRow = document.getElementById('lsp-mode-row');
   const lspStatus = document.getElementById('lsp-status');
   const renameSymbolBtn = document.getElementById('rename-symbol-btn');
+  const sessionTabs = document.getElementById('session-tabs');
 
   // New elements for Issue #83 redesign
   const filtersContainer = document.getElementById('filters-container');
@@ -182,6 +225,25 @@ console.log('[Rifler] Webview script starting...');
   const resultsCountText = document.getElementById('results-count-text');
   const resultsSummaryBar = document.querySelector('.results-summary-bar');
   const collapseAllBtn = document.getElementById('collapse-all-btn');
+  const pinnedResultsSelect = document.getElementById('pinned-results-select');
+  const pinResultsBtn = document.getElementById('pin-results-btn');
+  const pinnedRevalidateBtn = document.getElementById('pinned-revalidate-btn');
+  const pinnedUnpinBtn = document.getElementById('pinned-unpin-btn');
+  const refineToggleBtn = document.getElementById('refine-toggle-btn');
+  const refineBar = document.getElementById('refine-bar');
+  const refineChips = document.getElementById('refine-chips');
+  const refineKindSelect = document.getElementById('refine-kind-select');
+  const refineInput = document.getElementById('refine-input');
+  const refineCaseBtn = document.getElementById('refine-case-btn');
+  const refineExcludeBtn = document.getElementById('refine-exclude-btn');
+  const refineWindowSelect = document.getElementById('refine-window-select');
+  const refineApplyBtn = document.getElementById('refine-apply-btn');
+  const refineError = document.getElementById('refine-error');
+  const replacePreviewApplyBtn = document.getElementById('replace-preview-apply-btn');
+  const replacePreviewCancelBtn = document.getElementById('replace-preview-cancel-btn');
+  const searchStatusBanner = document.getElementById('search-status-banner');
+  const searchStatusText = document.getElementById('search-status-text');
+  const searchContinueBtn = document.getElementById('search-continue-btn');
   const smartExcludeToggle = document.getElementById('smart-exclude-toggle');
   
   // Keep backward compatibility - some may not exist in new design
@@ -215,6 +277,9 @@ console.log('[Rifler] Webview script starting...');
 
   let VIRTUAL_ROW_HEIGHT = 40;
   let measuredRowHeight = 0;
+  const MATCH_ROW_HEIGHT = 28;
+  const CONTEXT_LINE_HEIGHT = 18;
+  const MATCHES_GROUP_HEIGHT = 150;
   const virtualContent = document.createElement('div');
   virtualContent.id = 'results-virtual-content';
   virtualContent.style.position = 'relative';
@@ -373,7 +438,16 @@ console.log('[Rifler] Webview script starting...');
     if (includeCodeToggle) includeCodeToggle.classList.toggle('active', state.options.includeCode);
     if (includeCommentsToggle) includeCommentsToggle.classList.toggle('active', state.options.includeComments);
     if (includeStringsToggle) includeStringsToggle.classList.toggle('active', state.options.includeStrings);
+    const codeCategories = Array.isArray(state.options.codeCategories) ? state.options.codeCategories : [];
+    codeCategoryButtons.forEach((btn) => {
+      btn.classList.toggle('active', codeCategories.includes(btn.dataset.category));
+    });
+    if (contextLinesSelect) contextLinesSelect.value = String(state.options.contextLines || 0);
     if (useLspToggle) useLspToggle.classList.toggle('active', state.searchMode === 'lsp');
+    if (useStructuralToggle) useStructuralToggle.classList.toggle('active', state.searchMode === 'structural');
+    if (useFileNamesToggle) useFileNamesToggle.classList.toggle('active', state.searchMode === 'files');
+    if (useSymbolsToggle) useSymbolsToggle.classList.toggle('active', state.searchMode === 'symbols');
+    renderQueryOperators();
   }
 
   function syncMoreActionsFilterState() {
@@ -382,7 +456,10 @@ console.log('[Rifler] Webview script starting...');
       'toggle-match-case': state.options.matchCase,
       'toggle-whole-word': state.options.wholeWord,
       'toggle-regex': state.options.useRegex,
-      'toggle-lsp': state.searchMode === 'lsp'
+      'toggle-lsp': state.searchMode === 'lsp',
+      'toggle-structural': state.searchMode === 'structural',
+      'toggle-file-names': state.searchMode === 'files',
+      'toggle-symbols': state.searchMode === 'symbols'
     };
     for (const [action, active] of Object.entries(map)) {
       const btn = moreActionsMenu.querySelector('[data-action="' + action + '"]');
@@ -463,9 +540,12 @@ console.log('[Rifler] Webview script starting...');
   vscode.postMessage({ type: 'getWorkspaceInfo' });
   console.log('[Rifler] Sending getProjectExclusions message');
   vscode.postMessage({ type: 'getProjectExclusions' });
+  vscode.postMessage({ type: 'getPinnedResults' });
 
   window.addEventListener('focus', () => {
     vscode.postMessage({ type: 'requestSelectionRefresh' });
+    // Another view may have pinned or unpinned a set
+    vscode.postMessage({ type: 'getPinnedResults' });
   });
   
   // Initialize results count display
@@ -474,13 +554,17 @@ console.log('[Rifler] Webview script starting...');
 
   function isReplaceActionDisabled() {
     const queryValue = queryInput ? queryInput.value.trim() : '';
-    return queryValue.length < 2;
+    // File-name results have no text to replace; symbols are renamed through LSP mode instead,
+    // and hierarchy results are other symbols' call sites and declarations. Pinned sets are read-only.
+    return queryValue.length < 2 || !!state.pinnedView || state.searchMode === 'files' || state.searchMode === 'symbols'
+      || (state.searchMode === 'lsp' && isHierarchySubMode(state.lspSubMode));
   }
 
   function updateReplaceActionState() {
     const shouldDisable = isReplaceActionDisabled();
     if (replaceBtn) replaceBtn.disabled = shouldDisable;
     if (replaceAllBtn) replaceAllBtn.disabled = shouldDisable;
+    if (replacePreviewBtn) replacePreviewBtn.disabled = shouldDisable;
   }
 
   function toggleReplace(forceState) {
@@ -665,10 +749,25 @@ console.log('[Rifler] Webview script starting...');
         state.options.wholeWord = !!entry.options.wholeWord;
         state.options.useRegex = !!entry.options.useRegex;
         state.options.multiline = !!entry.options.multiline;
+        state.options.structural = !!entry.options.structural;
+        state.options.fileNames = !!entry.options.fileNames;
+        state.options.symbols = !!entry.options.symbols;
+        state.options.symbolKinds = Array.isArray(entry.options.symbolKinds) ? entry.options.symbolKinds.slice() : [];
         state.options.fileMask = entry.options.fileMask || '';
         state.options.includeCode = entry.options.includeCode ?? state.contextDefaults.includeCode;
         state.options.includeComments = entry.options.includeComments ?? state.contextDefaults.includeComments;
         state.options.includeStrings = entry.options.includeStrings ?? state.contextDefaults.includeStrings;
+        state.options.codeCategories = Array.isArray(entry.options.codeCategories) ? entry.options.codeCategories.slice() : [];
+        state.options.folders = Array.isArray(entry.options.folders) ? entry.options.folders : undefined;
+        state.options.gitBase = entry.options.gitBase || '';
+        if (gitBaseInput) gitBaseInput.value = state.options.gitBase;
+        renderFoldersMenu();
+        if (state.searchMode !== 'lsp') {
+          state.searchMode = state.options.symbols
+            ? 'symbols'
+            : state.options.fileNames ? 'files' : state.options.structural ? 'structural' : 'text';
+          syncLspModeUI();
+        }
 
         syncSearchOptionToggles();
         if (fileMaskInput) fileMaskInput.value = state.options.fileMask;
@@ -681,6 +780,8 @@ console.log('[Rifler] Webview script starting...');
       applyQueryRows(inferredRows, { skipSearch: true });
       recomputeMultilineOption({ skipSearch: true });
       updateReplaceActionState();
+      // Operators stored with the query show up in the filters again
+      validateRegexPattern();
     }
 
     // Search history dropdown (triggered by magnifying glass)
@@ -751,6 +852,18 @@ console.log('[Rifler] Webview script starting...');
         case 'clear-search':
           if (clearSearchBtn) clearSearchBtn.click();
           break;
+        case 'export-results':
+          exportResults();
+          break;
+        case 'save-search':
+          saveSearch();
+          break;
+        case 'new-session':
+          createSession();
+          break;
+        case 'rename-session':
+          renameSession();
+          break;
         case 'toggle-match-case':
           if (matchCaseToggle) matchCaseToggle.click();
           syncMoreActionsFilterState();
@@ -767,6 +880,18 @@ console.log('[Rifler] Webview script starting...');
           if (useLspToggle) useLspToggle.click();
           syncMoreActionsFilterState();
           break;
+        case 'toggle-structural':
+          if (useStructuralToggle) useStructuralToggle.click();
+          syncMoreActionsFilterState();
+          break;
+        case 'toggle-file-names':
+          if (useFileNamesToggle) useFileNamesToggle.click();
+          syncMoreActionsFilterState();
+          break;
+        case 'toggle-symbols':
+          if (useSymbolsToggle) useSymbolsToggle.click();
+          syncMoreActionsFilterState();
+          break;
       }
     });
 
@@ -851,12 +976,57 @@ console.log('[Rifler] Webview script starting...');
     replaceAllBtn.addEventListener('click', replaceAll);
   }
 
+  if (replacePreviewBtn) {
+    replacePreviewBtn.addEventListener('click', previewReplaceAll);
+  }
+
+  if (replacePreviewApplyBtn) {
+    replacePreviewApplyBtn.addEventListener('click', applyReplacePreview);
+  }
+
+  if (replacePreviewCancelBtn) {
+    replacePreviewCancelBtn.addEventListener('click', cancelReplacePreview);
+  }
+
+  if (searchContinueBtn) {
+    searchContinueBtn.addEventListener('click', continueSearch);
+  }
+
+  if (pinResultsBtn) {
+    pinResultsBtn.addEventListener('click', pinResults);
+  }
+
+  if (pinnedRevalidateBtn) {
+    pinnedRevalidateBtn.addEventListener('click', () => {
+      if (!state.pinnedView) return;
+      pinnedRevalidateBtn.disabled = true;
+      vscode.postMessage({ type: 'revalidatePinnedResults', id: state.pinnedView.id });
+    });
+  }
+
+  if (pinnedUnpinBtn) {
+    pinnedUnpinBtn.addEventListener('click', () => {
+      if (!state.pinnedView) return;
+      vscode.postMessage({ type: 'unpinResults', id: state.pinnedView.id });
+    });
+  }
+
+  if (pinnedResultsSelect) {
+    pinnedResultsSelect.addEventListener('change', () => {
+      if (pinnedResultsSelect.value) {
+        showPinnedSet(pinnedResultsSelect.value);
+      } else {
+        closePinnedView();
+      }
+    });
+  }
+
   // Function to update collapse/expand button text based on current state
   function updateCollapseButtonText() {
     if (!collapseAllBtn || state.results.length === 0) return;
     
     const allPaths = new Set();
-    state.results.forEach(r => allPaths.add(r.relativePath || r.fileName));
+    state.results.forEach(r => allPaths.add(getResultGroupPath(r)));
     
     const allCollapsed = Array.from(allPaths).every(p => state.collapsedFiles.has(p));
     
@@ -1728,13 +1898,24 @@ console.log('[Rifler] Webview script starting...');
       line: result.line,
       character: result.character,
       length: result.length,
-      replaceText: replaceText
+      replaceText: replaceText,
+      query: state.currentQuery,
+      options: state.options,
+      matchRanges: result.matchRanges,
+      matchCount: result.matchCount
     });
 
     const currentUri = result.uri;
     const currentLine = result.line;
     const currentChar = result.character;
-    const delta = replaceText.length - result.length;
+    // Every match on the line is replaced; regex replacements expand capture groups on the
+    // extension side, so their final length is unknown here
+    const replacedRanges = result.matchRanges && result.matchRanges.length > 0
+      ? result.matchRanges
+      : [{ start: result.character, end: result.character + result.length }];
+    const delta = state.options.useRegex
+      ? 0
+      : replacedRanges.reduce((sum, r) => sum + replaceText.length - (r.end - r.start), 0);
 
     state.results.splice(state.activeIndex, 1);
 
@@ -1794,7 +1975,8 @@ console.log('[Rifler] Webview script starting...');
       vscode.postMessage({
         type: 'lspReplaceAll',
         lspMode: state.lspSubMode,
-        replaceText: replaceText
+        replaceText: replaceText,
+        query: queryInput ? queryInput.value.trim() : ''
       });
       return;
     }
@@ -1810,6 +1992,282 @@ console.log('[Rifler] Webview script starting...');
     });
   }
 
+  function exportResults() {
+    vscode.postMessage({
+      type: 'exportResults',
+      results: state.results,
+      query: state.currentQuery,
+      options: state.options
+    });
+  }
+
+  function saveSearch() {
+    vscode.postMessage({
+      type: 'saveSearch',
+      search: {
+        query: queryInput.value,
+        scope: state.currentScope,
+        directoryPath: state.currentScope === 'directory' ? directoryInput.value.trim() : undefined,
+        modulePath: state.currentScope === 'module' ? moduleSelect.value : undefined,
+        options: state.options
+      }
+    });
+  }
+
+  function previewReplaceAll() {
+    if (isEditMode) {
+      exitEditMode(true);
+    }
+
+    if (isReplaceActionDisabled() || state.searchMode === 'lsp') return;
+
+    showPlaceholder('Preparing replace preview...');
+    vscode.postMessage({
+      type: 'previewReplaceAll',
+      query: state.currentQuery,
+      replaceText: replaceInput.value,
+      scope: state.currentScope,
+      options: state.options,
+      directoryPath: state.currentScope === 'directory' ? directoryInput.value.trim() : undefined,
+      modulePath: state.currentScope === 'module' ? moduleSelect.value : undefined
+    });
+  }
+
+  // ========================================================================
+  // Replace Preview (per-file diff with accept/reject per match)
+  // ========================================================================
+
+  function enterReplacePreview(preview) {
+    const accepted = new Set();
+    preview.files.forEach(file => file.edits.forEach(edit => accepted.add(edit.id)));
+    state.replacePreview = {
+      id: preview.id,
+      files: preview.files,
+      totalEdits: preview.totalEdits,
+      accepted,
+      activeUri: preview.files.length > 0 ? preview.files[0].uri : null
+    };
+
+    if (collapseAllBtn) collapseAllBtn.style.display = 'none';
+    if (pinResultsBtn) pinResultsBtn.style.display = 'none';
+    renderRefineBar();
+    if (replacePreviewApplyBtn) replacePreviewApplyBtn.style.display = 'flex';
+    if (replacePreviewCancelBtn) replacePreviewCancelBtn.style.display = 'flex';
+
+    buildReplacePreviewItems();
+    resultsList.scrollTop = 0;
+    hidePlaceholder();
+    refreshReplacePreviewRows();
+
+    const activeFile = getReplacePreviewFile(state.replacePreview.activeUri);
+    if (activeFile) {
+      applyPreviewHeight(previewHeight || getDefaultPreviewHeight(), { updateLastExpanded: false, persist: false, visible: true });
+      if (previewPanelContainer) previewPanelContainer.style.display = 'flex';
+      if (previewPanel) previewPanel.style.display = 'flex';
+      renderReplacePreviewDiff(activeFile);
+    }
+  }
+
+  /**
+   * Reset preview state without re-rendering; callers render the list they switch to.
+   */
+  function clearReplacePreviewState() {
+    state.replacePreview = null;
+    if (replacePreviewApplyBtn) replacePreviewApplyBtn.style.display = 'none';
+    if (replacePreviewCancelBtn) replacePreviewCancelBtn.style.display = 'none';
+    if (previewContent) previewContent.dataset.lastRenderedCacheKey = '';
+  }
+
+  function cancelReplacePreview() {
+    if (!state.replacePreview) return;
+    clearReplacePreviewState();
+    virtualContent.innerHTML = '';
+    handleSearchResults(state.results, { skipAutoLoad: false, activeIndex: state.activeIndex >= 0 ? state.activeIndex : undefined });
+  }
+
+  function applyReplacePreview() {
+    const preview = state.replacePreview;
+    if (!preview || preview.accepted.size === 0) return;
+
+    vscode.postMessage({
+      type: 'applyReplacePreview',
+      previewId: preview.id,
+      acceptedIds: Array.from(preview.accepted)
+    });
+    clearReplacePreviewState();
+    showPlaceholder('Replacing...');
+  }
+
+  function getReplacePreviewFile(uri) {
+    if (!state.replacePreview || !uri) return null;
+    return state.replacePreview.files.find(file => file.uri === uri) || null;
+  }
+
+  function buildReplacePreviewItems() {
+    state.renderItems = [];
+    let cumulativeTop = 0;
+    state.replacePreview.files.forEach(file => {
+      state.renderItems.push({ type: 'previewFile', uri: file.uri, top: cumulativeTop, height: 40 });
+      cumulativeTop += 40;
+      file.edits.forEach(edit => {
+        state.renderItems.push({ type: 'previewEdit', uri: file.uri, edit, top: cumulativeTop, height: 48 });
+        cumulativeTop += 48;
+      });
+    });
+    virtualContent.style.height = cumulativeTop + 'px';
+  }
+
+  function setReplacePreviewAccepted(ids, accepted) {
+    const preview = state.replacePreview;
+    if (!preview) return;
+    ids.forEach(id => {
+      if (accepted) {
+        preview.accepted.add(id);
+      } else {
+        preview.accepted.delete(id);
+      }
+    });
+    refreshReplacePreviewRows();
+    const activeFile = getReplacePreviewFile(preview.activeUri);
+    if (activeFile) renderReplacePreviewDiff(activeFile);
+  }
+
+  /**
+   * Checkbox state lives in state.replacePreview, so visible rows are rebuilt
+   * rather than patched in place.
+   */
+  function refreshReplacePreviewRows() {
+    virtualContent.innerHTML = '';
+    renderResultsVirtualized();
+    updateReplacePreviewSummary();
+  }
+
+  function updateReplacePreviewSummary() {
+    const preview = state.replacePreview;
+    if (!preview) return;
+    const selected = preview.accepted.size;
+    const fileCount = preview.files.length;
+    if (resultsCountText) {
+      resultsCountText.textContent = 'Preview: ' + selected + ' of ' + preview.totalEdits +
+        ' replacement' + (preview.totalEdits !== 1 ? 's' : '') +
+        ' in ' + fileCount + ' file' + (fileCount !== 1 ? 's' : '');
+    }
+    if (replacePreviewApplyBtn) replacePreviewApplyBtn.disabled = selected === 0;
+  }
+
+  function renderDiffLine(kind, edit) {
+    const changed = kind === 'removed' ? edit.original : edit.replacement;
+    return '<div class="diff-line ' + kind + '">' +
+      '<span class="diff-sign">' + (kind === 'removed' ? '-' : '+') + '</span>' +
+      '<span class="diff-text">' + formatDiffText(edit.prefix) +
+        '<span class="diff-change">' + formatDiffText(changed) + '</span>' +
+        formatDiffText(edit.suffix) +
+      '</span>' +
+    '</div>';
+  }
+
+  // Multiline matches are shown on one row with visible line breaks
+  function formatDiffText(text) {
+    return escapeHtml((text || '').replace(/\r?\n/g, '\u23CE'));
+  }
+
+  function renderReplacePreviewRow(item, itemData) {
+    const preview = state.replacePreview;
+    const file = getReplacePreviewFile(itemData.uri);
+    if (!preview || !file) return item;
+
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.className = 'replace-preview-checkbox';
+    checkbox.addEventListener('click', (e) => e.stopPropagation());
+
+    if (itemData.type === 'previewFile') {
+      const acceptedCount = file.edits.filter(edit => preview.accepted.has(edit.id)).length;
+      const displayPath = file.relativePath.startsWith('/') ? file.relativePath.substring(1) : file.relativePath;
+      item.className = 'result-file-header replace-preview-file' + (preview.activeUri === file.uri ? ' active' : '');
+      item.innerHTML =
+        '<div class="file-info" title="' + escapeAttr(displayPath) + '">' +
+          '<div class="file-name-row">' +
+            '<span class="seti-icon ' + getFileIconName(file.fileName) + '"></span>' +
+            '<span class="file-name">' + escapeHtml(file.fileName) + '</span>' +
+          '</div>' +
+          '<div class="file-path">' + escapeHtml(displayPath) + '</div>' +
+        '</div>' +
+        '<span class="match-count">' + acceptedCount + '/' + file.edits.length + '</span>';
+      checkbox.checked = acceptedCount === file.edits.length;
+      checkbox.indeterminate = acceptedCount > 0 && acceptedCount < file.edits.length;
+      checkbox.addEventListener('change', () => {
+        setReplacePreviewAccepted(file.edits.map(edit => edit.id), checkbox.checked);
+      });
+      item.insertBefore(checkbox, item.firstChild);
+    } else {
+      const edit = itemData.edit;
+      item.className = 'replace-preview-edit' + (preview.accepted.has(edit.id) ? '' : ' rejected');
+      item.innerHTML =
+        '<span class="result-line-number">' + (edit.line + 1) + '</span>' +
+        '<div class="replace-preview-diff">' +
+          renderDiffLine('removed', edit) +
+          renderDiffLine('added', edit) +
+        '</div>';
+      checkbox.checked = preview.accepted.has(edit.id);
+      checkbox.addEventListener('change', () => {
+        setReplacePreviewAccepted([edit.id], checkbox.checked);
+      });
+      item.insertBefore(checkbox, item.firstChild);
+    }
+
+    item.addEventListener('click', () => {
+      preview.activeUri = file.uri;
+      refreshReplacePreviewRows();
+      renderReplacePreviewDiff(file, itemData.type === 'previewEdit' ? itemData.edit.id : null);
+    });
+
+    return item;
+  }
+
+  /**
+   * Show the before/after diff of one file in the preview pane, one hunk per match.
+   */
+  function renderReplacePreviewDiff(file, focusEditId) {
+    const preview = state.replacePreview;
+    if (!preview || !previewContent) return;
+
+    if (previewFilename) previewFilename.textContent = file.fileName;
+    if (previewFilepath) previewFilepath.textContent = file.relativePath;
+    if (previewActions) previewActions.style.display = 'none';
+    previewContent.dataset.lastRenderedCacheKey = '';
+    previewContent.style.display = 'block';
+
+    previewContent.innerHTML = file.edits.map(edit => {
+      const isAccepted = preview.accepted.has(edit.id);
+      const lineLabel = edit.endLine > edit.line
+        ? 'Lines ' + (edit.line + 1) + '-' + (edit.endLine + 1)
+        : 'Line ' + (edit.line + 1);
+      return '<div class="replace-preview-hunk' + (isAccepted ? '' : ' rejected') + '" data-edit-id="' + escapeAttr(edit.id) + '">' +
+        '<label class="replace-preview-hunk-header">' +
+          '<input type="checkbox" class="replace-preview-checkbox"' + (isAccepted ? ' checked' : '') + ' />' +
+          '<span>' + lineLabel + '</span>' +
+        '</label>' +
+        renderDiffLine('removed', edit) +
+        renderDiffLine('added', edit) +
+      '</div>';
+    }).join('');
+
+    previewContent.querySelectorAll('.replace-preview-hunk').forEach(hunk => {
+      const checkbox = hunk.querySelector('input');
+      if (!checkbox) return;
+      checkbox.addEventListener('change', () => {
+        setReplacePreviewAccepted([hunk.dataset.editId], checkbox.checked);
+      });
+    });
+
+    if (focusEditId) {
+      const target = Array.from(previewContent.querySelectorAll('.replace-preview-hunk'))
+        .find(hunk => hunk.dataset.editId === focusEditId);
+      if (target) target.scrollIntoView({ block: 'nearest' });
+    }
+  }
+
   let validationDebounceTimeout;
 
   function updateValidationMessage(fieldId, messageElementId, message, type) {
@@ -1865,7 +2323,8 @@ console.log('[Rifler] Webview script starting...');
         type: 'validateRegex',
         pattern: pattern,
         useRegex: useRegex,
-        multiline: state.options.multiline
+        multiline: state.options.multiline,
+        fileMask: state.options.fileMask
       });
     }
   }
@@ -1913,12 +2372,19 @@ console.log('[Rifler] Webview script starting...');
         msgElement.textContent = '';
         msgElement.className = 'validation-message';
       }
+      handleQueryOperatorsMessage({ query: queryInput.value, operators: null });
       
       vscode.postMessage({ type: 'clearState' });
       updateReplaceActionState();
       return;
     }
     
+    // A typed symbol name may match several declarations and ask which one was meant,
+    // so LSP searches wait for Enter instead of running on every keystroke
+    if (state.searchMode === 'lsp') {
+      return;
+    }
+
     clearTimeout(validationDebounceTimeout);
     validationDebounceTimeout = setTimeout(() => {
       validateRegexPattern();
@@ -1935,6 +2401,13 @@ console.log('[Rifler] Webview script starting...');
     }
   });
 
+  queryInput.addEventListener('keydown', (e) => {
+    if (e.key === 'Enter' && !e.shiftKey && !e.ctrlKey && !e.metaKey && state.searchMode === 'lsp') {
+      e.preventDefault();
+      runSearch();
+    }
+  });
+
   if (matchCaseToggle) {
     matchCaseToggle.addEventListener('click', () => {
       state.options.matchCase = !state.options.matchCase;
@@ -1977,6 +2450,37 @@ console.log('[Rifler] Webview script starting...');
     });
   }
 
+  if (useStructuralToggle) {
+    useStructuralToggle.addEventListener('click', () => {
+      toggleSearchVariant('structural');
+    });
+  }
+
+  if (useFileNamesToggle) {
+    useFileNamesToggle.addEventListener('click', () => {
+      toggleSearchVariant('files');
+    });
+  }
+
+  if (useSymbolsToggle) {
+    useSymbolsToggle.addEventListener('click', () => {
+      toggleSearchVariant('symbols');
+    });
+  }
+
+  // Symbol kind buttons: any number can be selected, none means every kind
+  if (symbolKindRow) {
+    symbolKindRow.querySelectorAll('[data-symbol-kind]').forEach(btn => {
+      btn.addEventListener('click', () => {
+        const kind = btn.dataset.symbolKind;
+        const kinds = Array.isArray(state.options.symbolKinds) ? state.options.symbolKinds : [];
+        state.options.symbolKinds = kinds.includes(kind) ? kinds.filter(k => k !== kind) : kinds.concat(kind);
+        syncLspModeUI();
+        runSearch();
+      });
+    });
+  }
+
   // LSP sub-mode buttons
   if (lspModeRow) {
     lspModeRow.querySelectorAll('.lsp-mode-btn').forEach(btn => {
@@ -1985,6 +2489,7 @@ console.log('[Rifler] Webview script starting...');
         state.lspSubMode = newMode;
         lspModeRow.querySelectorAll('.lsp-mode-btn').forEach(b => b.classList.remove('active'));
         btn.classList.add('active');
+        updateReplaceActionState();
         
         // Check if we have cached results for this LSP type and symbol
         const cached = state.lspResultsCache[newMode];
@@ -2034,6 +2539,25 @@ console.log('[Rifler] Webview script starting...');
     });
   }
 
+  codeCategoryButtons.forEach((btn) => {
+    btn.addEventListener('click', () => {
+      const category = btn.dataset.category;
+      const current = Array.isArray(state.options.codeCategories) ? state.options.codeCategories : [];
+      state.options.codeCategories = current.includes(category)
+        ? current.filter((c) => c !== category)
+        : [...current, category];
+      syncSearchOptionToggles();
+      runSearch();
+    });
+  });
+
+  if (contextLinesSelect) {
+    contextLinesSelect.addEventListener('change', () => {
+      state.options.contextLines = parseInt(contextLinesSelect.value, 10) || 0;
+      runSearch();
+    });
+  }
+
   if (fileMaskInput) {
     fileMaskInput.addEventListener('input', () => {
       clearTimeout(state.searchTimeout);
@@ -2045,6 +2569,7 @@ console.log('[Rifler] Webview script starting...');
 
       state.searchTimeout = setTimeout(() => {
         state.options.fileMask = fileMaskInput.value;
+        if (state.queryOperators) validateRegexPattern();
         runSearch();
       }, 300);
     });
@@ -2062,26 +2587,717 @@ console.log('[Rifler] Webview script starting...');
   let lastExpandedHeight = 0;
   const RESIZER_HEIGHT = 14;
 
-  const savedWebviewState = vscode.getState() || {};
+  const savedWebviewState = vscode.getState() || {};
+
+  function getPersistableState() {
+    return {
+      query: queryInput.value,
+      replaceText: replaceInput.value,
+      scope: state.currentScope,
+      directoryPath: directoryInput.value,
+      modulePath: moduleSelect.value,
+      options: state.options,
+      queryRows: state.queryRows,
+      showReplace: replaceRow.classList.contains('visible'),
+      smartExcludesEnabled: state.smartExcludesEnabled,
+      activeIndex: state.activeIndex,
+      searchMode: state.searchMode,
+      lspSubMode: state.lspSubMode
+    };
+  }
+
+  function saveState() {
+    vscode.postMessage({ 
+      type: 'minimize',
+      state: getPersistableState()
+    });
+  }
+
+  function clearSearchState() {
+    queryInput.value = '';
+    state.currentQuery = '';
+    replaceInput.value = '';
+    if (directoryInput) directoryInput.value = '';
+    if (moduleSelect) moduleSelect.value = '';
+    state.results = [];
+    state.activeIndex = -1;
+    state.lastPreview = null;
+    state.fileContent = null;
+    state.lastSearchDuration = 0;
+    state.collapsedFiles.clear();
+    state.expandedFiles.clear();
+    state.lspResultsCache = {}; // Clear LSP cache
+    // Clear cache key so next render will always re-render content
+    if (previewContent) previewContent.dataset.lastRenderedCacheKey = '';
+    applyQueryRows(1, { skipSearch: true });
+    recomputeMultilineOption({ skipSearch: true });
+    applyPreviewHeight(previewHeight || getDefaultPreviewHeight(), { updateLastExpanded: false, persist: false, visible: false });
+    handleSearchResults([], { skipAutoLoad: true });
+    updateReplaceActionState();
+  }
+
+  function restoreSearchState(s) {
+    state.restoredFromState = true;
+    queryInput.value = s.query || '';
+    state.currentQuery = s.query || '';
+    replaceInput.value = s.replaceText || '';
+    state.currentScope = s.scope || 'project';
+    directoryInput.value = s.directoryPath || '';
+    moduleSelect.value = s.modulePath || '';
+    state.options = s.options || { matchCase: false, wholeWord: false, useRegex: false, multiline: false, fileMask: '' };
+    state.options.multiline = !!state.options.multiline;
+    state.queryRows = typeof s.queryRows === 'number' ? s.queryRows : 1;
+
+    applyContextDefaults();
+    
+    syncSearchOptionToggles();
+    fileMaskInput.value = state.options.fileMask || '';
+    applyQueryRows(state.queryRows, { skipSearch: true });
+    recomputeMultilineOption({ skipSearch: true });
+    
+    if (scopeSelect) {
+      scopeSelect.value = state.currentScope;
+    }
+    updateScopeInputs();
+    
+    // Restore smart excludes state
+    if (typeof s.smartExcludesEnabled === 'boolean') {
+      state.smartExcludesEnabled = s.smartExcludesEnabled;
+      const smartExcludeToggle = document.getElementById('smart-exclude-toggle');
+      if (smartExcludeToggle) {
+        smartExcludeToggle.checked = s.smartExcludesEnabled;
+      }
+    }
+    
+    if (s.showReplace === true) {
+      toggleReplace(true);
+    } else {
+      toggleReplace(false);
+    }
+
+    updateReplaceActionState();
+
+    state.options.structural = s.searchMode === 'structural';
+    state.options.fileNames = s.searchMode === 'files';
+    state.options.symbols = s.searchMode === 'symbols';
+    if (s.searchMode === 'structural' || s.searchMode === 'files' || s.searchMode === 'symbols') {
+      state.searchMode = s.searchMode;
+      syncLspModeUI();
+    }
+
+    // Restore LSP mode
+    if (s.searchMode === 'lsp') {
+      state.searchMode = 'lsp';
+      state.lspSubMode = s.lspSubMode || 'references';
+      syncLspModeUI();
+      
+      // Restore LSP cache if present and recent (within 5 minutes)
+      if (s.lspResultsCache) {
+        const now = Date.now();
+        const CACHE_EXPIRY = 5 * 60 * 1000; // 5 minutes
+        const filteredCache = {};
+        
+        Object.keys(s.lspResultsCache).forEach(key => {
+          const cached = s.lspResultsCache[key];
+          if (cached.timestamp && (now - cached.timestamp) < CACHE_EXPIRY) {
+            filteredCache[key] = cached;
+          }
+        });
+        
+        state.lspResultsCache = filteredCache;
+        console.log('[Rifler] Restored LSP cache with', Object.keys(filteredCache).length, 'entries');
+      }
+    }
+    
+    if (s.results && s.results.length > 0) {
+      handleSearchResults(s.results, { skipAutoLoad: true, activeIndex: s.activeIndex, preserveScroll: true });
+    } else if (s.query && s.query.length >= 2) {
+      runSearch();
+    }
+
+    if (s.lastPreview) {
+      state.lastPreview = s.lastPreview;
+      handleFileContent(s.lastPreview);
+    }
+  }
+
+  // ===== Search sessions =====
+  // Sidebar and bottom views show one tab per session; the active session lives in `state`,
+  // the others are kept as snapshots (with results and preview until the view is reloaded).
+  // Search windows have a single session each and leave new sessions to the extension.
+
+  /** Everything needed to bring a session back, for restoreSearchState */
+  function captureSessionSnapshot() {
+    return {
+      ...getPersistableState(),
+      options: { ...state.options },
+      results: state.pinnedView ? state.pinnedView.liveResults : state.results,
+      lastPreview: state.lastPreview,
+      lspResultsCache: state.lspResultsCache
+    };
+  }
+
+  /** A snapshot without results or preview, for the extension to persist */
+  function toPersistedSnapshot(snapshot) {
+    if (!snapshot) return undefined;
+    const persisted = { ...snapshot };
+    delete persisted.results;
+    delete persisted.lastPreview;
+    delete persisted.lspResultsCache;
+    return persisted;
+  }
+
+  function createSessionId() {
+    return 'session-' + Date.now().toString(36) + '-' + (++state.sessionSeq);
+  }
+
+  function nextSessionName() {
+    const taken = new Set(state.sessions.map(s => s.name.toLowerCase()));
+    let n = 1;
+    while (taken.has('search ' + n)) n++;
+    return 'Search ' + n;
+  }
+
+  /** Tell the extension about the current search so it survives reloads */
+  function postSessionState() {
+    if (!state.sessionTabsEnabled) {
+      vscode.postMessage({ type: 'sessionState', state: getPersistableState() });
+      return;
+    }
+    vscode.postMessage({
+      type: 'sessions',
+      activeSessionId: state.activeSessionId,
+      sessions: state.sessions.map(session => ({
+        id: session.id,
+        name: session.name,
+        state: session.id === state.activeSessionId ? getPersistableState() : toPersistedSnapshot(session.snapshot)
+      }))
+    });
+  }
+
+  function handleSessionsMessage(message) {
+    state.sessionTabsEnabled = true;
+    const incoming = Array.isArray(message.sessions) ? message.sessions : [];
+    state.sessions = incoming
+      .filter(s => s && typeof s.id === 'string' && typeof s.name === 'string')
+      .map(s => ({ id: s.id, name: s.name, snapshot: s.state || null }));
+    if (state.sessions.length === 0) {
+      state.sessions = [{ id: createSessionId(), name: nextSessionName(), snapshot: null }];
+    }
+    // The restored view state belongs to the active session
+    const active = state.sessions.find(s => s.id === message.activeSessionId) || state.sessions[0];
+    state.activeSessionId = active.id;
+    active.snapshot = null;
+    renderSessionTabs();
+  }
+
+  function switchSession(sessionId) {
+    if (sessionId === state.activeSessionId) return;
+    const next = state.sessions.find(s => s.id === sessionId);
+    if (!next) return;
+    const current = state.sessions.find(s => s.id === state.activeSessionId);
+    if (current) {
+      current.snapshot = captureSessionSnapshot();
+    }
+    state.activeSessionId = next.id;
+    loadSessionSnapshot(next.snapshot);
+    next.snapshot = null;
+    renderSessionTabs();
+    postSessionState();
+  }
+
+  function loadSessionSnapshot(snapshot) {
+    // Results still on their way belong to the session we are leaving
+    state.lastSentRequestId = 'session-switch';
+    clearSearchState();
+    state.searchMode = 'text';
+    state.lspInfo = null;
+    state.options.structural = false;
+    state.options.fileNames = false;
+    state.options.symbols = false;
+    syncLspModeUI();
+    updateLspStatus();
+    if (snapshot) {
+      restoreSearchState(snapshot);
+    } else {
+      // A new session starts from the default filters
+      state.options = {
+        ...state.options,
+        matchCase: false,
+        wholeWord: false,
+        useRegex: false,
+        multiline: false,
+        fileMask: '',
+        codeCategories: [],
+        symbolKinds: [],
+        includeCode: undefined,
+        includeComments: undefined,
+        includeStrings: undefined
+      };
+      state.currentScope = 'project';
+      if (scopeSelect) scopeSelect.value = 'project';
+      fileMaskInput.value = '';
+      applyContextDefaults();
+      updateScopeInputs();
+      toggleReplace(false);
+    }
+    queryInput.focus();
+  }
+
+  function createSession() {
+    if (!state.sessionTabsEnabled) {
+      vscode.postMessage({ type: 'newSearchSession' });
+      return;
+    }
+    const current = state.sessions.find(s => s.id === state.activeSessionId);
+    if (current) {
+      current.snapshot = captureSessionSnapshot();
+    }
+    const session = { id: createSessionId(), name: nextSessionName(), snapshot: null };
+    state.sessions.push(session);
+    state.activeSessionId = session.id;
+    loadSessionSnapshot(null);
+    session.snapshot = null;
+    renderSessionTabs();
+    postSessionState();
+  }
+
+  function closeSession(sessionId) {
+    const index = state.sessions.findIndex(s => s.id === sessionId);
+    if (index === -1 || state.sessions.length < 2) return;
+    const [closed] = state.sessions.splice(index, 1);
+    if (closed.id === state.activeSessionId) {
+      const next = state.sessions[Math.min(index, state.sessions.length - 1)];
+      state.activeSessionId = next.id;
+      loadSessionSnapshot(next.snapshot);
+      next.snapshot = null;
+    }
+    renderSessionTabs();
+    postSessionState();
+  }
+
+  function renameSession(sessionId) {
+    if (!state.sessionTabsEnabled) {
+      vscode.postMessage({ type: 'renameSession' });
+      return;
+    }
+    const session = state.sessions.find(s => s.id === (sessionId || state.activeSessionId));
+    if (session) {
+      vscode.postMessage({ type: 'renameSession', id: session.id, name: session.name });
+    }
+  }
+
+  function handleSessionRenamed(message) {
+    const session = state.sessions.find(s => s.id === message.id);
+    if (!session || !message.name) return;
+    session.name = message.name;
+    renderSessionTabs();
+    postSessionState();
+  }
+
+  function renderSessionTabs() {
+    if (!sessionTabs) return;
+    // A single session needs no tabs
+    const visible = state.sessionTabsEnabled && state.sessions.length > 1;
+    sessionTabs.style.display = visible ? 'flex' : 'none';
+    sessionTabs.innerHTML = '';
+    if (!visible) return;
+    for (const session of state.sessions) {
+      const tab = document.createElement('div');
+      tab.className = 'session-tab' + (session.id === state.activeSessionId ? ' active' : '');
+      tab.dataset.sessionId = session.id;
+      tab.title = session.name + ' (double-click to rename)';
+      const label = document.createElement('span');
+      label.className = 'session-tab-label';
+      label.textContent = session.name;
+      const close = document.createElement('button');
+      close.type = 'button';
+      close.className = 'session-tab-close';
+      close.title = 'Close Session';
+      close.setAttribute('aria-label', 'Close session ' + session.name);
+      close.innerHTML = '<span class="material-symbols-outlined">close</span>';
+      tab.appendChild(label);
+      tab.appendChild(close);
+      sessionTabs.appendChild(tab);
+    }
+    const add = document.createElement('button');
+    add.type = 'button';
+    add.className = 'session-tab-add';
+    add.title = 'New Search Session';
+    add.setAttribute('aria-label', 'New search session');
+    add.innerHTML = '<span class="material-symbols-outlined">add</span>';
+    sessionTabs.appendChild(add);
+  }
+
+  if (sessionTabs) {
+    sessionTabs.addEventListener('click', (e) => {
+      if (e.target.closest('.session-tab-add')) {
+        createSession();
+        return;
+      }
+      const tab = e.target.closest('.session-tab');
+      if (!tab) return;
+      if (e.target.closest('.session-tab-close')) {
+        closeSession(tab.dataset.sessionId);
+      } else {
+        switchSession(tab.dataset.sessionId);
+      }
+    });
+    sessionTabs.addEventListener('dblclick', (e) => {
+      const tab = e.target.closest('.session-tab');
+      if (tab && !e.target.closest('.session-tab-close')) {
+        renameSession(tab.dataset.sessionId);
+      }
+    });
+  }
+
+  // ===== Pinned result sets =====
+  // A pinned set is a read-only copy of the results with the query that produced them,
+  // stored by the extension. Showing one keeps the live results aside until the view
+  // goes back to them or a new search arrives.
+
+  function pinResults() {
+    if (state.pinnedView || state.replacePreview || state.results.length === 0) return;
+    vscode.postMessage({
+      type: 'pinResults',
+      query: state.currentQuery || queryInput.value,
+      scope: state.currentScope,
+      searchMode: state.searchMode === 'lsp' ? 'lsp:' + state.lspSubMode : state.searchMode,
+      options: state.options,
+      results: state.results
+    });
+  }
+
+  function getPinnedSet(id) {
+    return state.pinnedSets.find(set => set.id === id) || null;
+  }
+
+  function handlePinnedResultsMessage(message) {
+    state.pinnedSets = Array.isArray(message.sets) ? message.sets : [];
+    if (pinnedRevalidateBtn) pinnedRevalidateBtn.disabled = false;
+    if (state.pinnedView) {
+      if (getPinnedSet(state.pinnedView.id)) {
+        // Revalidated or unchanged: redraw it in place
+        showPinnedSet(state.pinnedView.id, { preserveScroll: true });
+      } else {
+        closePinnedView();
+      }
+      return;
+    }
+    renderPinnedControls();
+  }
+
+  function showPinnedSet(id, { preserveScroll = false } = {}) {
+    const set = getPinnedSet(id);
+    if (!set) return;
+    if (!state.pinnedView) {
+      state.pinnedView = { id, liveResults: state.results, liveActiveIndex: state.activeIndex };
+    } else {
+      state.pinnedView.id = id;
+    }
+    virtualContent.innerHTML = '';
+    handleSearchResults(set.results, {
+      skipAutoLoad: false,
+      activeIndex: preserveScroll && state.activeIndex < set.results.length ? state.activeIndex : undefined,
+      preserveScroll,
+      pinned: true
+    });
+    updateReplaceActionState();
+  }
+
+  function closePinnedView() {
+    const view = state.pinnedView;
+    if (!view) {
+      renderPinnedControls();
+      return;
+    }
+    state.pinnedView = null;
+    virtualContent.innerHTML = '';
+    handleSearchResults(view.liveResults, {
+      skipAutoLoad: false,
+      activeIndex: view.liveActiveIndex >= 0 ? view.liveActiveIndex : undefined,
+      pinned: true
+    });
+    updateReplaceActionState();
+  }
+
+  function countStale(results) {
+    return results.reduce((sum, r) => sum + (r.stale ? 1 : 0), 0);
+  }
+
+  function describePinnedSet(set) {
+    const query = set.query.length > 40 ? set.query.slice(0, 40) + '…' : set.query;
+    const stale = countStale(set.results);
+    return '"' + query + '" · ' + set.results.length + (set.truncated ? '+' : '') +
+      (stale > 0 ? ' (' + stale + ' stale)' : '');
+  }
+
+  function updatePinnedSummary() {
+    const set = state.pinnedView ? getPinnedSet(state.pinnedView.id) : null;
+    if (!set || !resultsCountText) return;
+    const count = set.results.length;
+    const files = new Set(set.results.map(r => r.uri)).size;
+    const stale = countStale(set.results);
+    let text = 'Pinned "' + set.query + '": ' + count + (set.truncated ? '+' : '') +
+      ' result' + (count !== 1 ? 's' : '') + ' in ' + files + ' file' + (files !== 1 ? 's' : '');
+    if (stale > 0) {
+      text += ', ' + stale + ' stale';
+    }
+    resultsCountText.textContent = text;
+    resultsCountText.title = set.validatedAt
+      ? 'Checked ' + new Date(set.validatedAt).toLocaleString()
+      : 'Pinned ' + new Date(set.pinnedAt).toLocaleString();
+    resultsCountText.style.opacity = '1';
+  }
+
+  function renderPinnedControls() {
+    const viewing = !!state.pinnedView;
+    if (pinnedResultsSelect) {
+      pinnedResultsSelect.innerHTML = '';
+      const live = document.createElement('option');
+      live.value = '';
+      live.textContent = 'Current results';
+      pinnedResultsSelect.appendChild(live);
+      state.pinnedSets.forEach(set => {
+        const option = document.createElement('option');
+        option.value = set.id;
+        option.textContent = describePinnedSet(set);
+        pinnedResultsSelect.appendChild(option);
+      });
+      pinnedResultsSelect.value = viewing ? state.pinnedView.id : '';
+      pinnedResultsSelect.style.display = state.pinnedSets.length > 0 ? '' : 'none';
+    }
+    if (pinResultsBtn) {
+      pinResultsBtn.style.display = !viewing && !state.replacePreview && state.results.length > 0 ? 'flex' : 'none';
+    }
+    if (pinnedRevalidateBtn) pinnedRevalidateBtn.style.display = viewing ? 'flex' : 'none';
+    if (pinnedUnpinBtn) pinnedUnpinBtn.style.display = viewing ? 'flex' : 'none';
+    if (!viewing && resultsCountText) resultsCountText.title = '';
+  }
+
+  // ===== Refine stack =====
+  // Each step filters the results of the step before it (the first one, the search results)
+  // in the extension, which can check lines around each match. Steps show as breadcrumb
+  // chips; popping one goes back to the results it started from. A new search clears the stack.
+
+  function resetRefineStack() {
+    state.refineBase = null;
+    state.refineSteps = [];
+    state.refineRequest = null;
+    if (refineApplyBtn) refineApplyBtn.disabled = false;
+    showRefineError('');
+  }
+
+  function readRefineStep() {
+    const kind = refineKindSelect ? refineKindSelect.value : 'text';
+    return {
+      kind,
+      pattern: refineInput ? refineInput.value : '',
+      matchCase: !!(refineCaseBtn && refineCaseBtn.classList.contains('active')),
+      exclude: !!(refineExcludeBtn && refineExcludeBtn.classList.contains('active')),
+      window: kind === 'path' || !refineWindowSelect ? 0 : Number(refineWindowSelect.value) || 0
+    };
+  }
+
+  function applyRefineStep() {
+    const step = readRefineStep();
+    if (!step.pattern || state.results.length === 0 || state.pinnedView || state.replacePreview) return;
+    const requestId = 'refine-' + Date.now() + '-' + (++state.searchRequestSeq);
+    state.refineRequest = { id: requestId, step };
+    if (refineApplyBtn) refineApplyBtn.disabled = true;
+    showRefineError('');
+    vscode.postMessage({ type: 'refineResults', requestId, results: state.results, step });
+  }
+
+  function handleRefinedResults(message) {
+    const request = state.refineRequest;
+    if (!request || message.requestId !== request.id || state.pinnedView) return;
+    state.refineRequest = null;
+    if (refineApplyBtn) refineApplyBtn.disabled = false;
+    if (message.error) {
+      showRefineError(message.error);
+      return;
+    }
+    if (state.refineBase === null) {
+      state.refineBase = state.results;
+    }
+    state.refineSteps.push({ step: request.step, results: message.results || [] });
+    if (refineInput) refineInput.value = '';
+    showRefineLevel(state.refineSteps.length);
+  }
+
+  /** Show the results after `level` steps (0 is the search itself) and drop the steps above it */
+  function showRefineLevel(level) {
+    if (state.refineBase === null) return;
+    state.refineSteps = state.refineSteps.slice(0, level);
+    const results = level === 0 ? state.refineBase : state.refineSteps[level - 1].results;
+    if (level === 0) {
+      state.refineBase = null;
+    }
+    state.refineRequest = null;
+    if (refineApplyBtn) refineApplyBtn.disabled = false;
+    virtualContent.innerHTML = '';
+    handleSearchResults(results, { skipAutoLoad: false, refined: true });
+  }
+
+  function describeRefineStep(step) {
+    let label = step.kind === 'path' ? 'path: ' + step.pattern
+      : step.kind === 'regex' ? '/' + step.pattern + '/'
+      : '"' + step.pattern + '"';
+    if (step.exclude) label = 'not ' + label;
+    if (step.matchCase) label += ' Aa';
+    if (step.window > 0) label += ' ±' + step.window;
+    return label;
+  }
+
+  function showRefineError(text) {
+    if (!refineError) return;
+    refineError.textContent = text;
+    refineError.style.display = text ? 'block' : 'none';
+  }
+
+  function countOccurrences(results) {
+    return results.reduce((sum, r) => sum + getResultOccurrenceCount(r), 0);
+  }
+
+  function renderRefineChip(label, results, level, removable) {
+    const chip = document.createElement('span');
+    chip.className = 'refine-chip' + (removable ? '' : ' base') +
+      (level === state.refineSteps.length ? ' current' : '');
+    chip.dataset.level = String(level);
+    chip.title = removable ? 'Go back to these results' : 'Go back to the search results';
+    const text = document.createElement('span');
+    text.className = 'refine-chip-label';
+    text.textContent = label + ' (' + countOccurrences(results) + ')';
+    chip.appendChild(text);
+    if (removable) {
+      const remove = document.createElement('button');
+      remove.type = 'button';
+      remove.className = 'refine-chip-remove';
+      remove.title = 'Remove this step and the ones after it';
+      remove.innerHTML = '<span class="material-symbols-outlined">close</span>';
+      chip.appendChild(remove);
+    }
+    return chip;
+  }
+
+  function renderRefineBar() {
+    const available = !state.pinnedView && !state.replacePreview &&
+      (state.results.length > 0 || state.refineSteps.length > 0);
+    if (refineToggleBtn) {
+      refineToggleBtn.style.display = available ? 'flex' : 'none';
+      refineToggleBtn.classList.toggle('active', state.refineOpen);
+    }
+    if (!refineBar) return;
+    refineBar.style.display = available && (state.refineOpen || state.refineSteps.length > 0) ? 'flex' : 'none';
+    if (refineWindowSelect && refineKindSelect) {
+      refineWindowSelect.disabled = refineKindSelect.value === 'path';
+    }
+    if (!refineChips) return;
+    refineChips.innerHTML = '';
+    if (state.refineSteps.length === 0 || state.refineBase === null) return;
+    refineChips.appendChild(renderRefineChip('All', state.refineBase, 0, false));
+    state.refineSteps.forEach((entry, index) => {
+      const separator = document.createElement('span');
+      separator.className = 'material-symbols-outlined refine-separator';
+      separator.textContent = 'chevron_right';
+      refineChips.appendChild(separator);
+      refineChips.appendChild(renderRefineChip(describeRefineStep(entry.step), entry.results, index + 1, true));
+    });
+  }
+
+  if (refineToggleBtn) {
+    refineToggleBtn.addEventListener('click', () => {
+      state.refineOpen = !state.refineOpen;
+      renderRefineBar();
+      if (state.refineOpen && refineInput) refineInput.focus();
+    });
+  }
+
+  if (refineApplyBtn) {
+    refineApplyBtn.addEventListener('click', applyRefineStep);
+  }
+
+  if (refineInput) {
+    refineInput.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        applyRefineStep();
+      } else if (e.key === 'Escape' && state.refineSteps.length === 0) {
+        e.preventDefault();
+        state.refineOpen = false;
+        renderRefineBar();
+      }
+    });
+  }
+
+  [refineCaseBtn, refineExcludeBtn].forEach(btn => {
+    if (!btn) return;
+    btn.addEventListener('click', () => btn.classList.toggle('active'));
+  });
+
+  if (refineKindSelect) {
+    refineKindSelect.addEventListener('change', renderRefineBar);
+  }
+
+  if (refineChips) {
+    refineChips.addEventListener('click', (e) => {
+      const chip = e.target.closest('.refine-chip');
+      if (!chip) return;
+      const level = Number(chip.dataset.level);
+      // Removing a chip pops it with every step after it; clicking one keeps it
+      showRefineLevel(e.target.closest('.refine-chip-remove') ? level - 1 : level);
+    });
+  }
+
+  // ===== Query operators =====
+  // The extension reads `path:`, `lang:`, `case:`, `word:`, `re:` and `scope:` out of the query
+  // when it validates it. They override the filters panel for that query only, so the
+  // controls show the value in use, marked as coming from the query, without changing state.options.
+
+  function handleQueryOperatorsMessage(message) {
+    // A reply to text the user has since changed is stale
+    if (message.query !== queryInput.value) return;
+    state.queryOperators = message.operators
+      ? { operators: message.operators, fileMask: message.fileMask || '', fileMaskMessage: message.fileMaskMessage || '' }
+      : null;
+    renderQueryOperators();
+  }
 
-  function saveState() {
-    vscode.postMessage({ 
-      type: 'minimize',
-      state: {
-        query: queryInput.value,
-        replaceText: replaceInput.value,
-        scope: state.currentScope,
-        directoryPath: directoryInput.value,
-        modulePath: moduleSelect.value,
-        options: state.options,
-        queryRows: state.queryRows,
-        showReplace: replaceRow.classList.contains('visible'),
-        smartExcludesEnabled: state.smartExcludesEnabled,
-        activeIndex: state.activeIndex,
-        searchMode: state.searchMode,
-        lspSubMode: state.lspSubMode
-      }
+  function renderQueryOperators() {
+    const ops = state.queryOperators ? state.queryOperators.operators : null;
+    [
+      [matchCaseToggle, ops && ops.matchCase, state.options.matchCase],
+      [wholeWordToggle, ops && ops.wholeWord, state.options.wholeWord],
+      [useRegexToggle, ops && ops.useRegex, state.options.useRegex]
+    ].forEach(([btn, override, value]) => {
+      if (!btn) return;
+      const fromQuery = typeof override === 'boolean';
+      btn.classList.toggle('from-query', fromQuery);
+      btn.classList.toggle('active', fromQuery ? override : !!value);
     });
+
+    if (scopeSelect) {
+      const scopeFromQuery = !!(ops && ops.scope);
+      scopeSelect.classList.toggle('from-query', scopeFromQuery);
+      scopeSelect.value = scopeFromQuery ? ops.scope : state.currentScope;
+    }
+
+    const hasMask = !!(ops && (ops.paths.length || ops.excludedPaths.length || ops.languages.length || ops.excludedLanguages.length));
+    const mask = hasMask ? state.queryOperators.fileMask : '';
+    if (fileMaskInput) fileMaskInput.classList.toggle('from-query', hasMask);
+    if (queryOperatorsHint) {
+      queryOperatorsHint.textContent = mask ? 'File mask from query: ' + mask : '';
+      queryOperatorsHint.classList.toggle('visible', !!mask);
+    }
+
+    const maskMessage = document.getElementById('file-mask-validation-message');
+    const maskWarning = hasMask ? state.queryOperators.fileMaskMessage : '';
+    if (maskMessage && (maskWarning || maskMessage.dataset.source === 'query')) {
+      maskMessage.textContent = maskWarning;
+      maskMessage.className = maskWarning ? 'validation-message visible warning' : 'validation-message';
+      maskMessage.dataset.source = maskWarning ? 'query' : '';
+    }
   }
 
   function getContainerHeight() {
@@ -2313,6 +3529,39 @@ console.log('[Rifler] Webview script starting...');
     moduleSelect.addEventListener('change', runSearch);
   }
 
+  if (gitBaseInput) {
+    gitBaseInput.addEventListener('input', () => {
+      clearTimeout(state.searchTimeout);
+      state.searchTimeout = setTimeout(() => {
+        state.options.gitBase = gitBaseInput.value.trim();
+        runSearch();
+      }, 500);
+    });
+  }
+
+  if (foldersSelectBtn && foldersMenu) {
+    foldersSelectBtn.addEventListener('click', (e) => {
+      e.stopPropagation();
+      foldersMenu.classList.toggle('open');
+    });
+    foldersMenu.addEventListener('click', (e) => e.stopPropagation());
+    foldersMenu.addEventListener('change', (e) => {
+      const checkbox = e.target.closest('input[type="checkbox"]');
+      if (!checkbox) return;
+      const selected = new Set(state.options.folders || []);
+      if (checkbox.checked) {
+        selected.add(checkbox.value);
+      } else {
+        selected.delete(checkbox.value);
+      }
+      // Keep workspace order so the selection reads the same as the explorer
+      state.options.folders = state.workspaceFolders.map((f) => f.path).filter((p) => selected.has(p));
+      updateFoldersSelectLabel();
+      runSearch();
+    });
+    document.addEventListener('click', () => foldersMenu.classList.remove('open'));
+  }
+
   document.addEventListener('keydown', (e) => {
     var activeEl = document.activeElement;
     var isInEditor = activeEl === fileEditor || activeEl === localSearchInput || activeEl === localReplaceInput || activeEl === queryInput;
@@ -2335,6 +3584,24 @@ console.log('[Rifler] Webview script starting...');
       return;
     }
 
+    if (e.altKey && !e.shiftKey && e.code === 'KeyT') {
+      e.preventDefault();
+      toggleSearchVariant('structural');
+      return;
+    }
+
+    if (e.altKey && !e.shiftKey && e.code === 'KeyN') {
+      e.preventDefault();
+      toggleSearchVariant('files');
+      return;
+    }
+
+    if (e.altKey && !e.shiftKey && e.code === 'KeyY') {
+      e.preventDefault();
+      toggleSearchVariant('symbols');
+      return;
+    }
+
     if (e.altKey && e.shiftKey && e.code === 'KeyR') {
       e.preventDefault();
       toggleReplace();
@@ -2561,6 +3828,13 @@ console.log('[Rifler] Webview script starting...');
       case 'toggleReplace':
         toggleReplace();
         break;
+      case 'replacePreview':
+        if (message.preview) {
+          enterReplacePreview(message.preview);
+        } else {
+          handleSearchResults(state.results, { skipAutoLoad: true });
+        }
+        break;
       case 'searchResults':
         if (message.telemetry) {
           console.log('[Rifler Webview] Telemetry via searchResults', message.telemetry);
@@ -2597,6 +3871,9 @@ console.log('[Rifler] Webview script starting...');
         }
         handleSearchResultsMessage(message);
         break;
+      case 'searchResultsBatch':
+        handleSearchResultsBatch(message);
+        break;
       case 'modulesList':
         handleModulesList(message.modules);
         break;
@@ -2604,7 +3881,7 @@ console.log('[Rifler] Webview script starting...');
         handleCurrentDirectory(message.directory);
         break;
       case 'workspaceInfo':
-        handleWorkspaceInfo(message.name, message.path);
+        handleWorkspaceInfo(message.name, message.path, message.folders);
         break;
       case 'fileContent':
         handleFileContent(message);
@@ -2638,6 +3915,12 @@ console.log('[Rifler] Webview script starting...');
           updateReplaceActionState();
         }
         break;
+      case 'applySearch':
+        if (message.search && typeof message.search.query === 'string') {
+          applySearchHistoryEntry(message.search);
+          runSearch();
+        }
+        break;
       case 'config':
         if (message.replaceKeybinding) {
           state.replaceKeybinding = message.replaceKeybinding;
@@ -2659,6 +3942,10 @@ console.log('[Rifler] Webview script starting...');
           }
           applyContextDefaults();
         }
+        if (typeof message.contextLines === 'number' && !state.restoredFromState) {
+          state.options.contextLines = message.contextLines;
+          syncSearchOptionToggles();
+        }
         if (typeof message.profileSearch === 'boolean') {
           state.profilingEnabled = message.profileSearch;
         }
@@ -2667,32 +3954,16 @@ console.log('[Rifler] Webview script starting...');
         queryInput.focus();
         break;
       case 'clearState':
-        queryInput.value = '';
-        state.currentQuery = '';
-        replaceInput.value = '';
-        if (directoryInput) directoryInput.value = '';
-        if (moduleSelect) moduleSelect.value = '';
-        state.results = [];
-        state.activeIndex = -1;
-        state.lastPreview = null;
-        state.fileContent = null;
-        state.lastSearchDuration = 0;
-        state.collapsedFiles.clear();
-        state.expandedFiles.clear();
-        state.lspResultsCache = {}; // Clear LSP cache
-        // Clear cache key so next render will always re-render content
-        if (previewContent) previewContent.dataset.lastRenderedCacheKey = '';
-        applyQueryRows(1, { skipSearch: true });
-        recomputeMultilineOption({ skipSearch: true });
-        applyPreviewHeight(previewHeight || getDefaultPreviewHeight(), { updateLastExpanded: false, persist: false, visible: false });
-        handleSearchResults([], { skipAutoLoad: true });
-        updateReplaceActionState();
+        clearSearchState();
         break;
       case 'clearLspCache':
         // Invalidate LSP cache when code changes
         console.log('[Rifler] Clearing LSP cache due to code changes');
         state.lspResultsCache = {};
         break;
+      case 'queryOperators':
+        handleQueryOperatorsMessage(message);
+        break;
       case 'validationResult':
         if (message.field === 'regex') {
           const msgElement = document.getElementById('query-validation-message');
@@ -2708,6 +3979,7 @@ console.log('[Rifler] Webview script starting...');
         } else if (message.field === 'fileMask') {
           const msgElement = document.getElementById('file-mask-validation-message');
           if (msgElement) {
+            msgElement.dataset.source = '';
             if (!message.isValid && message.message) {
               msgElement.textContent = message.message;
               msgElement.className = 'validation-message visible warning';
@@ -2733,81 +4005,7 @@ console.log('[Rifler] Webview script starting...');
         break;
       case 'restoreState':
         if (message.state) {
-          const s = message.state;
-          state.restoredFromState = true;
-          queryInput.value = s.query || '';
-          state.currentQuery = s.query || '';
-          replaceInput.value = s.replaceText || '';
-          state.currentScope = s.scope || 'project';
-          directoryInput.value = s.directoryPath || '';
-          moduleSelect.value = s.modulePath || '';
-          state.options = s.options || { matchCase: false, wholeWord: false, useRegex: false, multiline: false, fileMask: '' };
-          state.options.multiline = !!state.options.multiline;
-          state.queryRows = typeof s.queryRows === 'number' ? s.queryRows : 1;
-
-          applyContextDefaults();
-          
-          syncSearchOptionToggles();
-          fileMaskInput.value = state.options.fileMask || '';
-          applyQueryRows(state.queryRows, { skipSearch: true });
-          recomputeMultilineOption({ skipSearch: true });
-          
-          if (scopeSelect) {
-            scopeSelect.value = state.currentScope;
-          }
-          updateScopeInputs();
-          
-          // Restore smart excludes state
-          if (typeof s.smartExcludesEnabled === 'boolean') {
-            state.smartExcludesEnabled = s.smartExcludesEnabled;
-            const smartExcludeToggle = document.getElementById('smart-exclude-toggle');
-            if (smartExcludeToggle) {
-              smartExcludeToggle.checked = s.smartExcludesEnabled;
-            }
-          }
-          
-          if (s.showReplace === true) {
-            toggleReplace(true);
-          } else {
-            toggleReplace(false);
-          }
-
-          updateReplaceActionState();
-
-          // Restore LSP mode
-          if (s.searchMode === 'lsp') {
-            state.searchMode = 'lsp';
-            state.lspSubMode = s.lspSubMode || 'references';
-            syncLspModeUI();
-            
-            // Restore LSP cache if present and recent (within 5 minutes)
-            if (s.lspResultsCache) {
-              const now = Date.now();
-              const CACHE_EXPIRY = 5 * 60 * 1000; // 5 minutes
-              const filteredCache = {};
-              
-              Object.keys(s.lspResultsCache).forEach(key => {
-                const cached = s.lspResultsCache[key];
-                if (cached.timestamp && (now - cached.timestamp) < CACHE_EXPIRY) {
-                  filteredCache[key] = cached;
-                }
-              });
-              
-              state.lspResultsCache = filteredCache;
-              console.log('[Rifler] Restored LSP cache with', Object.keys(filteredCache).length, 'entries');
-            }
-          }
-          
-          if (s.results && s.results.length > 0) {
-            handleSearchResults(s.results, { skipAutoLoad: true, activeIndex: s.activeIndex, preserveScroll: true });
-          } else if (s.query && s.query.length >= 2) {
-            runSearch();
-          }
-
-          if (s.lastPreview) {
-            state.lastPreview = s.lastPreview;
-            handleFileContent(s.lastPreview);
-          }
+          restoreSearchState(message.state);
         }
         break;
       case 'requestStateForMinimize':
@@ -2816,11 +4014,28 @@ console.log('[Rifler] Webview script starting...');
       case 'symbolAtCursor':
         handleSymbolAtCursor(message);
         break;
+      case 'hierarchyChildren':
+        handleHierarchyChildren(message);
+        break;
+      case 'sessions':
+        handleSessionsMessage(message);
+        break;
+      case 'sessionRenamed':
+        handleSessionRenamed(message);
+        break;
+      case 'pinnedResults':
+        handlePinnedResultsMessage(message);
+        break;
+      case 'refinedResults':
+        handleRefinedResults(message);
+        break;
       case 'setSearchMode':
         if (message.mode === 'lsp' && state.searchMode !== 'lsp') {
           toggleLspMode();
-        } else if (message.mode === 'text' && state.searchMode !== 'text') {
+        } else if (message.mode === 'text' && state.searchMode === 'lsp') {
           toggleLspMode();
+        } else if (message.mode === 'text' && ['structural', 'files', 'symbols'].includes(state.searchMode)) {
+          toggleSearchVariant(state.searchMode);
         }
         break;
       case '__test_searchCompleted':
@@ -3189,7 +4404,7 @@ console.log('[Rifler] Webview script starting...');
       case '__test_getCollapsedResultsStatus':
         // Instead of checking DOM, check the state directly since we use virtual rendering
         const allPaths = new Set();
-        state.results.forEach(r => allPaths.add(r.relativePath || r.fileName));
+        state.results.forEach(r => allPaths.add(getResultGroupPath(r)));
         
         let allResultsCollapsed = true;
         let allResultsExpanded = true;
@@ -3318,6 +4533,8 @@ console.log('[Rifler] Webview script starting...');
     // Hide all scope inputs first
     if (directoryInput) directoryInput.style.display = 'none';
     if (moduleSelect) moduleSelect.style.display = 'none';
+    if (foldersSelect) foldersSelect.style.display = 'none';
+    if (gitBaseInput) gitBaseInput.style.display = 'none';
     
     // Clear directory validation when not in directory mode
     if (state.currentScope !== 'directory') {
@@ -3355,6 +4572,25 @@ console.log('[Rifler] Webview script starting...');
     } else if (state.currentScope === 'module') {
       if (pathLabel) pathLabel.textContent = 'Module:';
       if (moduleSelect) moduleSelect.style.display = 'block';
+    } else if (state.currentScope === 'folders') {
+      if (pathLabel) pathLabel.textContent = 'Folders:';
+      if (foldersSelect) foldersSelect.style.display = 'block';
+      renderFoldersMenu();
+    } else if (state.currentScope === 'openEditors') {
+      if (pathLabel) pathLabel.textContent = 'Open editors:';
+      if (directoryInput) {
+        directoryInput.style.display = 'block';
+        directoryInput.placeholder = 'All open editors, including unsaved changes';
+        directoryInput.value = '';
+        directoryInput.title = '';
+        directoryInput.readOnly = true;
+      }
+    } else if (state.currentScope === 'changedFiles') {
+      if (pathLabel) pathLabel.textContent = 'Changed files:';
+      if (gitBaseInput) {
+        gitBaseInput.style.display = 'block';
+        gitBaseInput.value = state.options.gitBase || '';
+      }
     }
 
     // Sync dropdown if needed
@@ -3392,6 +4628,14 @@ console.log('[Rifler] Webview script starting...');
     resultsPlaceholder.style.display = 'none';
   }
 
+  // Results are grouped by file, except hierarchy results which are grouped by tree node
+  function getResultGroupPath(result) {
+    if (result && result.hierarchy) {
+      return 'hierarchy:' + result.hierarchy.id;
+    }
+    return result.relativePath || result.fileName;
+  }
+
   // Helper function to update results count display
   function getResultOccurrenceCount(result) {
     if (!result) return 0;
@@ -3409,6 +4653,10 @@ console.log('[Rifler] Webview script starting...');
 
   function updateResultsCountDisplay(results) {
     if (!resultsCountText) return;
+    if (state.pinnedView) {
+      updatePinnedSummary();
+      return;
+    }
     
     const query = queryInput ? queryInput.value.trim() : '';
     if (query.length < 2) {
@@ -3426,7 +4674,9 @@ console.log('[Rifler] Webview script starting...');
       const suffix = isCapped ? '+' : '';
       let text = `${totalOccurrences}${suffix} result${totalOccurrences !== 1 ? 's' : ''} in ${uniqueFiles} file${uniqueFiles !== 1 ? 's' : ''}`;
       
-      if (state.lastSearchDuration > 0) {
+      if (state.refineBase !== null) {
+        text += ` (refined from ${countOccurrences(state.refineBase)})`;
+      } else if (state.lastSearchDuration > 0) {
         text += ` (${state.lastSearchDuration.toFixed(2)}s)`;
       }
       
@@ -3489,6 +4739,9 @@ console.log('[Rifler] Webview script starting...');
 
   function toggleLspMode() {
     state.searchMode = state.searchMode === 'lsp' ? 'text' : 'lsp';
+    state.options.structural = false;
+    state.options.fileNames = false;
+    state.options.symbols = false;
     syncLspModeUI();
 
     if (state.searchMode === 'lsp') {
@@ -3520,6 +4773,7 @@ console.log('[Rifler] Webview script starting...');
     if (useLspToggle) useLspToggle.classList.toggle('active', isLsp);
     if (lspModeRow) lspModeRow.style.display = isLsp ? 'flex' : 'none';
     if (renameSymbolBtn) renameSymbolBtn.style.display = isLsp ? 'inline-block' : 'none';
+    if (replacePreviewBtn) replacePreviewBtn.style.display = isLsp ? 'none' : '';
 
     // Sync sub-mode buttons
     if (lspModeRow) {
@@ -3528,16 +4782,59 @@ console.log('[Rifler] Webview script starting...');
       });
     }
 
-    // In LSP mode, regex/whole-word/case toggles are irrelevant — dim them
-    if (matchCaseToggle) matchCaseToggle.style.opacity = isLsp ? '0.4' : '1';
-    if (wholeWordToggle) wholeWordToggle.style.opacity = isLsp ? '0.4' : '1';
-    if (useRegexToggle) useRegexToggle.style.opacity = isLsp ? '0.4' : '1';
+    const isStructural = state.searchMode === 'structural';
+    const isFiles = state.searchMode === 'files';
+    const isSymbols = state.searchMode === 'symbols';
+    if (useStructuralToggle) useStructuralToggle.classList.toggle('active', isStructural);
+    if (useFileNamesToggle) useFileNamesToggle.classList.toggle('active', isFiles);
+    if (useSymbolsToggle) useSymbolsToggle.classList.toggle('active', isSymbols);
+    if (symbolKindRow) {
+      symbolKindRow.style.display = isSymbols ? 'flex' : 'none';
+      const kinds = Array.isArray(state.options.symbolKinds) ? state.options.symbolKinds : [];
+      symbolKindRow.querySelectorAll('[data-symbol-kind]').forEach(btn => {
+        btn.classList.toggle('active', kinds.includes(btn.dataset.symbolKind));
+      });
+    }
+    if (queryInput) {
+      queryInput.placeholder = isStructural
+        ? 'Pattern, e.g. console.log($ARG)'
+        : isFiles
+          ? 'Go to file...'
+          : isSymbols ? 'Go to symbol in workspace...' : isLsp ? 'Symbol name, then Enter...' : 'Search...';
+    }
+
+    // Only text search uses the regex/whole-word/case toggles — dim them in other modes
+    const dimTextToggles = isLsp || isStructural || isFiles || isSymbols;
+    if (matchCaseToggle) matchCaseToggle.style.opacity = dimTextToggles ? '0.4' : '1';
+    if (wholeWordToggle) wholeWordToggle.style.opacity = dimTextToggles ? '0.4' : '1';
+    if (useRegexToggle) useRegexToggle.style.opacity = dimTextToggles ? '0.4' : '1';
+  }
+
+  // Structural, file-name and symbol modes run through the regular search with an option
+  // flag: 'structural' matches JS/TS code patterns such as useEffect($FN, []), 'files'
+  // ranks file paths with a fuzzy match and 'symbols' asks the workspace symbol providers
+  function toggleSearchVariant(mode) {
+    if (state.searchMode === 'lsp') {
+      toggleLspMode();
+    }
+    state.searchMode = state.searchMode === mode ? 'text' : mode;
+    state.options.structural = state.searchMode === 'structural';
+    state.options.fileNames = state.searchMode === 'files';
+    state.options.symbols = state.searchMode === 'symbols';
+    syncLspModeUI();
+    syncMoreActionsFilterState();
+    updateReplaceActionState();
+    runSearch();
   }
 
   function runLspSearch() {
+    // A typed name is resolved through workspace symbols; an empty box searches the symbol at the cursor
+    const query = queryInput ? queryInput.value.trim() : '';
+    state.currentQuery = query;
+
     // Check cache first
     const cached = state.lspResultsCache[state.lspSubMode];
-    const currentSymbol = state.lspInfo?.symbolName;
+    const currentSymbol = query || state.lspInfo?.symbolName;
     
     if (cached && currentSymbol && cached.symbolName === currentSymbol && cached.results) {
       // Use cached results
@@ -3551,7 +4848,125 @@ console.log('[Rifler] Webview script starting...');
     showPlaceholder('Searching usages...');
     clearResultsCountDisplay();
     state.searchStartTime = performance.now();
-    vscode.postMessage({ type: 'lspSearch', lspMode: state.lspSubMode });
+    vscode.postMessage({ type: 'lspSearch', lspMode: state.lspSubMode, query });
+    postSessionState();
+  }
+
+  function isHierarchySubMode(mode) {
+    return mode === 'incomingCalls' || mode === 'outgoingCalls' || mode === 'supertypes' || mode === 'subtypes';
+  }
+
+  function getHierarchyNodeStatus(nodeId) {
+    if (state.hierarchyLoading.has(nodeId)) return 'loading';
+    if (state.hierarchyLeaves.has(nodeId)) return 'leaf';
+    return state.results.some(r => r.hierarchy && r.hierarchy.parentId === nodeId) ? 'expanded' : 'collapsed';
+  }
+
+  // Header of a call/type hierarchy node: the related symbol, indented by its depth, with a
+  // button that loads the level below it
+  function renderHierarchyHeader(item, itemData) {
+    const node = itemData.hierarchy;
+    const status = getHierarchyNodeStatus(node.id);
+    const icons = {
+      incomingCalls: 'call_received',
+      outgoingCalls: 'call_made',
+      supertypes: 'arrow_upward',
+      subtypes: 'arrow_downward'
+    };
+    const arrowIcon = itemData.isCollapsed ? 'chevron_right' : 'expand_more';
+    const displayPath = itemData.displayPath || '';
+    let expandControl = '';
+    if (status === 'collapsed') {
+      expandControl = '<button type="button" class="hierarchy-expand-btn" title="Expand one level deeper">' +
+        '<span class="material-symbols-outlined">subdirectory_arrow_right</span></button>';
+    } else if (status === 'loading') {
+      expandControl = '<span class="hierarchy-expand-status">Loading...</span>';
+    } else if (status === 'leaf') {
+      expandControl = '<span class="hierarchy-expand-status">No more</span>';
+    }
+
+    item.className = 'result-file-header hierarchy-node' + (itemData.isCollapsed ? ' collapsed' : '');
+    item.style.paddingLeft = (12 + (Math.max(1, node.depth) - 1) * 16) + 'px';
+    item.innerHTML =
+      '<span class="material-symbols-outlined arrow-icon">' + arrowIcon + '</span>' +
+      '<div class="file-info" title="' + escapeAttr(displayPath) + '">' +
+        '<div class="file-name-row">' +
+          '<span class="material-symbols-outlined hierarchy-icon">' + (icons[state.lspSubMode] || 'account_tree') + '</span>' +
+          '<span class="file-name" style="cursor: pointer;">' + escapeHtml(node.name) + '</span>' +
+          (node.detail ? '<span class="hierarchy-detail">' + escapeHtml(node.detail) + '</span>' : '') +
+        '</div>' +
+        '<div class="file-path">' + escapeHtml(displayPath) + '</div>' +
+      '</div>' +
+      expandControl +
+      '<span class="match-count">' + itemData.matchCount + '</span>';
+
+    item.addEventListener('click', (e) => {
+      const target = e.target;
+      if (target && target.closest && target.closest('.hierarchy-expand-btn')) {
+        e.stopPropagation();
+        requestHierarchyLevel(node.id);
+        return;
+      }
+      // Clicking the symbol name opens its first location, like a file name
+      if (target && target.classList.contains('file-name')) {
+        e.stopPropagation();
+        const firstIndex = findFirstResultIndexInPath(itemData.path);
+        if (firstIndex !== -1) {
+          setActiveIndex(firstIndex);
+          openResultInEditor(firstIndex);
+        }
+        return;
+      }
+
+      const willExpand = itemData.isCollapsed;
+      toggleCollapseForPath(itemData.path);
+      if (willExpand) {
+        activateFirstMatchForPath(itemData.path);
+      }
+    });
+
+    return item;
+  }
+
+  function requestHierarchyLevel(nodeId) {
+    if (state.hierarchyLoading.has(nodeId)) return;
+    state.hierarchyLoading.add(nodeId);
+    renderResultsVirtualized();
+    vscode.postMessage({ type: 'lspExpandHierarchy', nodeId });
+  }
+
+  /**
+   * Insert the level below a hierarchy node after the node's own subtree, so the list
+   * stays in tree order.
+   */
+  function handleHierarchyChildren(message) {
+    state.hierarchyLoading.delete(message.nodeId);
+    const children = Array.isArray(message.results) ? message.results : [];
+    const first = state.results.findIndex(r => r.hierarchy && r.hierarchy.id === message.nodeId);
+    if (first === -1) return;
+    if (children.length === 0) {
+      state.hierarchyLeaves.add(message.nodeId);
+      renderResultsVirtualized();
+      return;
+    }
+
+    const depth = state.results[first].hierarchy.depth;
+    let insertAt = first + 1;
+    while (insertAt < state.results.length) {
+      const node = state.results[insertAt].hierarchy;
+      if (!node || (node.id !== message.nodeId && node.depth <= depth)) break;
+      insertAt++;
+    }
+    const results = state.results.slice(0, insertAt).concat(children, state.results.slice(insertAt));
+    const activeIndex = state.activeIndex >= insertAt ? state.activeIndex + children.length : state.activeIndex;
+
+    const cached = state.lspResultsCache[state.lspSubMode];
+    if (cached && cached.results === state.results) {
+      cached.results = results;
+    }
+    // Rows are pooled by result index, which shifts after the insert
+    virtualContent.innerHTML = '';
+    handleSearchResults(results, { skipAutoLoad: activeIndex < 0, activeIndex, preserveScroll: true });
   }
 
   function handleSymbolAtCursor(message) {
@@ -3578,7 +4993,7 @@ console.log('[Rifler] Webview script starting...');
       runLspSearch();
     } else {
       if (lspStatus) {
-        lspStatus.textContent = 'No symbol at cursor';
+        lspStatus.textContent = 'No symbol at cursor · type a name, then Enter';
         lspStatus.className = 'lsp-status warning';
       }
     }
@@ -3637,7 +5052,7 @@ console.log('[Rifler] Webview script starting...');
         return;
       }
 
-      if (state.options.useRegex) {
+      if (state.options.useRegex && state.searchMode === 'text' && !QUERY_OPERATOR_PATTERN.test(query)) {
         try {
           new RegExp(query);
         } catch {
@@ -3649,6 +5064,8 @@ console.log('[Rifler] Webview script starting...');
 
       showPlaceholder('Searching...');
       clearResultsCountDisplay();
+      updateSearchStatusBanner(null);
+      state.streamBaseResults = null;
       state.searchStartTime = performance.now();
       const requestId = 's-' + Date.now() + '-' + (++state.searchRequestSeq);
       state.lastSentRequestId = requestId;
@@ -3686,13 +5103,30 @@ console.log('[Rifler] Webview script starting...');
       if (state.profilingEnabled) {
         console.log('Sending search message:', { requestId, queryLength: query.length, scope: state.currentScope, maxResults: state.maxResultsCap });
       }
+      state.lastSearchMessage = message;
       vscode.postMessage(message);
+      postSessionState();
     } catch (error) {
       console.error('Error in runSearch:', error);
     }
   }
 
-  function handleSearchResults(results, options = { skipAutoLoad: false, activeIndex: undefined, preserveScroll: false }) {
+  function handleSearchResults(results, options = { skipAutoLoad: false, activeIndex: undefined, preserveScroll: false, streaming: false }) {
+    if (state.replacePreview) {
+      // New results supersede a pending preview
+      clearReplacePreviewState();
+      virtualContent.innerHTML = '';
+    }
+    if (state.pinnedView && !options.pinned && results !== state.results) {
+      // New live results replace the pinned set on screen; re-renders of it pass state.results
+      state.pinnedView = null;
+      virtualContent.innerHTML = '';
+      updateReplaceActionState();
+    }
+    if ((state.refineBase !== null || state.refineRequest) && !options.refined && !options.pinned && results !== state.results) {
+      // A new search starts the refine stack over
+      resetRefineStack();
+    }
     const hasResults = results.length > 0;
     let resolvedActiveIndex;
 
@@ -3713,7 +5147,7 @@ console.log('[Rifler] Webview script starting...');
       resultsList.scrollTop = previousScrollTop;
     }
 
-    if (state.searchStartTime > 0) {
+    if (state.searchStartTime > 0 && !options.streaming) {
       state.lastSearchDuration = (performance.now() - state.searchStartTime) / 1000;
       state.searchStartTime = 0; // Reset after use
     }
@@ -3723,9 +5157,16 @@ console.log('[Rifler] Webview script starting...');
       const fileMap = new Map();
       const indexByPath = new Map();
       results.forEach((result, index) => {
-        const path = result.relativePath || result.fileName;
+        const path = getResultGroupPath(result);
         if (!fileMap.has(path)) {
-          const group = { path, fileName: path.split(/[\\/]/).pop(), matchIndexes: [], occurrenceCount: 0 };
+          const group = {
+            path,
+            fileName: path.split(/[\\/]/).pop(),
+            hierarchy: result.hierarchy,
+            displayPath: result.relativePath || result.fileName,
+            matchIndexes: [],
+            occurrenceCount: 0
+          };
           fileMap.set(path, group);
           indexByPath.set(path, groups.length);
           groups.push(group);
@@ -3759,6 +5200,8 @@ console.log('[Rifler] Webview script starting...');
         type: 'fileHeader',
         path: group.path,
         fileName: group.fileName,
+        hierarchy: group.hierarchy,
+        displayPath: group.displayPath,
         matchCount: group.occurrenceCount,
         isCollapsed: isCollapsed,
         top: cumulativeTop,
@@ -3769,16 +5212,18 @@ console.log('[Rifler] Webview script starting...');
       if (!isCollapsed) {
         // For files with more than 5 results, use a scrollable group container
         if (group.matchIndexes.length > 5) {
+          const groupHeight = getMatchesGroupHeight(group.matchIndexes, results);
           state.renderItems.push({
             type: 'matchesGroup',
             path: group.path,
             matchIndexes: group.matchIndexes,
             top: cumulativeTop,
-            height: 150
+            height: groupHeight
           });
-          cumulativeTop += 150;
+          cumulativeTop += groupHeight;
         } else {
           group.matchIndexes.forEach((originalIndex, matchIdx) => {
+            const rowHeight = getMatchRowHeight(results[originalIndex]);
             state.renderItems.push({
               type: 'match',
               originalIndex,
@@ -3787,15 +5232,16 @@ console.log('[Rifler] Webview script starting...');
               groupSize: group.matchIndexes.length,
               groupPath: group.path,
               top: cumulativeTop,
-              height: 28
+              height: rowHeight
             });
-            cumulativeTop += 28;
+            cumulativeTop += rowHeight;
           });
         }
       }
     });
 
-    if (results.length > 0) {
+    // The end marker waits for the final results of a streaming search
+    if (results.length > 0 && !options.streaming) {
       state.renderItems.push({ 
         type: 'endOfResults',
         top: cumulativeTop,
@@ -3814,6 +5260,8 @@ console.log('[Rifler] Webview script starting...');
       console.log('[Rifler] renderItems populated:', state.renderItems.length, 'items');
     }
     updateResultsCountDisplay(results);
+    renderPinnedControls();
+    renderRefineBar();
     if (collapseAllBtn) {
       collapseAllBtn.style.display = results.length > 0 ? 'flex' : 'none';
       if (results.length > 0) {
@@ -3821,7 +5269,7 @@ console.log('[Rifler] Webview script starting...');
       }
     }
 
-    if (state.testMode) {
+    if (state.testMode && !options.streaming) {
       vscode.postMessage({ type: '__test_searchCompleted', results: results });
     }
 
@@ -3837,6 +5285,12 @@ console.log('[Rifler] Webview script starting...');
 
     hidePlaceholder();
 
+    if (options.streaming) {
+      // Leave the preview alone while rows are still arriving
+      renderResultsVirtualized();
+      return;
+    }
+
     const shouldAutoLoadPreview = hasResults && !options.skipAutoLoad && results.length <= 1200;
 
     // Auto-load first result only for manageable result sets
@@ -3862,6 +5316,64 @@ console.log('[Rifler] Webview script starting...');
     }
   }
 
+  /**
+   * Resume the last search from where ripgrep stopped. Results found so far stay
+   * in the list and new rows stream in below them.
+   */
+  function continueSearch() {
+    const status = state.searchStatus;
+    if (!status || !status.canContinue || !state.lastSearchMessage || state.searchMode === 'lsp') {
+      return;
+    }
+
+    const requestId = 's-' + Date.now() + '-' + (++state.searchRequestSeq);
+    state.lastSentRequestId = requestId;
+    state.inFlightSearches.add(requestId);
+    state.searchStartTime = performance.now();
+    state.streamBaseResults = state.results.slice();
+
+    const message = { ...state.lastSearchMessage, requestId, continueFrom: status.requestId };
+    state.lastSearchMessage = message;
+    updateSearchStatusBanner(null);
+    if (searchStatusBanner && searchStatusText) {
+      searchStatusText.textContent = 'Continuing search...';
+      if (searchContinueBtn) searchContinueBtn.style.display = 'none';
+      searchStatusBanner.style.display = 'flex';
+    }
+    vscode.postMessage(message);
+  }
+
+  function updateSearchStatusBanner(message) {
+    const incomplete = !!message && (message.timedOut || message.cancelled || message.resultCapHit);
+    state.searchStatus = incomplete
+      ? {
+        requestId: message.requestId,
+        timedOut: !!message.timedOut,
+        cancelled: !!message.cancelled,
+        resultCapHit: !!message.resultCapHit,
+        canContinue: !!message.canContinue && !!message.requestId
+      }
+      : null;
+
+    if (!searchStatusBanner) return;
+    if (!state.searchStatus) {
+      searchStatusBanner.style.display = 'none';
+      return;
+    }
+
+    let text;
+    if (state.searchStatus.timedOut) {
+      text = 'Search timed out. Results are incomplete.';
+    } else if (state.searchStatus.resultCapHit) {
+      text = 'Stopped at ' + state.maxResultsCap + ' results. Results are incomplete.';
+    } else {
+      text = 'Search was cancelled. Results are incomplete.';
+    }
+    if (searchStatusText) searchStatusText.textContent = text;
+    if (searchContinueBtn) searchContinueBtn.style.display = state.searchStatus.canContinue ? 'flex' : 'none';
+    searchStatusBanner.style.display = 'flex';
+  }
+
   function handleSearchResultsMessage(message) {
     const requestId = typeof message.requestId === 'string' ? message.requestId : null;
     if (requestId) {
@@ -3881,6 +5393,10 @@ console.log('[Rifler] Webview script starting...');
 
     state.lastHandledRequestId = requestId;
     state.pendingSearchResultsMessage = message;
+    message.streamed = (!!requestId && state.streamingRequestId === requestId) || !!state.streamBaseResults;
+    state.streamingRequestId = null;
+    state.streamedResults = [];
+    state.streamBaseResults = null;
 
     if (state.resultsProcessScheduled) {
       return;
@@ -3896,7 +5412,18 @@ console.log('[Rifler] Webview script starting...');
       }
 
       const startedAt = performance.now();
-      handleSearchResults(pending.results || [], { skipAutoLoad: false, activeIndex: pending.activeIndex });
+      const results = pending.results || [];
+      let activeIndex = pending.activeIndex;
+      if (pending.streamed && activeIndex === undefined && state.activeIndex < results.length) {
+        // Keep the row the user picked while results were streaming
+        activeIndex = state.activeIndex;
+      }
+      handleSearchResults(results, { skipAutoLoad: false, activeIndex, preserveScroll: !!pending.streamed });
+      updateSearchStatusBanner(pending);
+      if (pending.queryError) {
+        // The query was not searched: one of its operators cannot be used
+        showPlaceholder(pending.queryError);
+      }
       const renderMs = performance.now() - startedAt;
 
       const profile = pending.profile;
@@ -3915,6 +5442,49 @@ console.log('[Rifler] Webview script starting...');
     });
   }
 
+  function handleSearchResultsBatch(message) {
+    const requestId = typeof message.requestId === 'string' ? message.requestId : null;
+    if (!requestId || requestId !== state.lastSentRequestId || state.lastHandledRequestId === requestId) {
+      return;
+    }
+    if (state.searchMode === 'lsp' || !Array.isArray(message.results)) {
+      return;
+    }
+
+    if (state.streamingRequestId !== requestId) {
+      state.streamingRequestId = requestId;
+      if (state.streamBaseResults) {
+        // A continued search appends to the results it already has
+        state.streamedResults = state.streamBaseResults.slice();
+      } else {
+        state.streamedResults = [];
+        // First rows of a new search: drop the previous selection and scroll position
+        state.activeIndex = -1;
+        resultsList.scrollTop = 0;
+      }
+    }
+    state.streamedResults.push(...message.results);
+
+    if (state.streamRenderScheduled) {
+      return;
+    }
+
+    state.streamRenderScheduled = true;
+    requestAnimationFrame(() => {
+      state.streamRenderScheduled = false;
+      // The final results may have arrived in the meantime
+      if (state.streamingRequestId !== requestId) {
+        return;
+      }
+      handleSearchResults(state.streamedResults.slice(), {
+        skipAutoLoad: true,
+        activeIndex: state.activeIndex,
+        preserveScroll: true,
+        streaming: true
+      });
+    });
+  }
+
   // ========================================================================
   // Incremental expand/collapse — patch renderItems in-place
   // ========================================================================
@@ -3927,7 +5497,7 @@ console.log('[Rifler] Webview script starting...');
     const matchIndexes = [];
     let occurrenceCount = 0;
     state.results.forEach((r, idx) => {
-      const p = r.relativePath || r.fileName;
+      const p = getResultGroupPath(r);
       if (p === filePath) {
         matchIndexes.push(idx);
         occurrenceCount += getResultOccurrenceCount(r);
@@ -3943,7 +5513,7 @@ console.log('[Rifler] Webview script starting...');
         matchIndexes,
         matchCount: occurrenceCount,
         top: 0,
-        height: 150
+        height: getMatchesGroupHeight(matchIndexes, state.results)
       });
     } else {
       matchIndexes.forEach((originalIndex, matchIdx) => {
@@ -3955,7 +5525,7 @@ console.log('[Rifler] Webview script starting...');
           groupSize: matchIndexes.length,
           groupPath: filePath,
           top: 0,
-          height: 28
+          height: getMatchRowHeight(state.results[originalIndex])
         });
       });
     }
@@ -4030,7 +5600,7 @@ console.log('[Rifler] Webview script starting...');
     if (state.results.length === 0) return;
 
     const allPaths = new Set();
-    state.results.forEach(r => allPaths.add(r.relativePath || r.fileName));
+    state.results.forEach(r => allPaths.add(getResultGroupPath(r)));
 
     const allCurrentlyCollapsed = Array.from(allPaths).every(p => {
       if (state.collapsedFiles.has(p)) return true;
@@ -4135,7 +5705,12 @@ console.log('[Rifler] Webview script starting...');
    * Generate a stable key for a render item used for DOM recycling.
    */
   function makeRenderItemKey(itemData) {
-    if (itemData.type === 'fileHeader') return 'fh:' + itemData.path;
+    if (itemData.type === 'fileHeader') {
+      // Hierarchy headers change when their node is loading or found to be a leaf
+      return 'fh:' + itemData.path + (itemData.hierarchy ? ':' + getHierarchyNodeStatus(itemData.hierarchy.id) : '');
+    }
+    if (itemData.type === 'previewFile') return 'pf:' + itemData.uri;
+    if (itemData.type === 'previewEdit') return 'pe:' + itemData.edit.id;
     if (itemData.type === 'matchesGroup') return 'mg:' + itemData.path;
     if (itemData.type === 'match') return 'm:' + itemData.originalIndex;
     if (itemData.type === 'endOfResults') return 'eor';
@@ -4244,6 +5819,14 @@ console.log('[Rifler] Webview script starting...');
       item.style.height = itemData.height + 'px';
     }
 
+    if (itemData.type === 'previewFile' || itemData.type === 'previewEdit') {
+      return renderReplacePreviewRow(item, itemData);
+    }
+
+    if (itemData.type === 'fileHeader' && itemData.hierarchy) {
+      return renderHierarchyHeader(item, itemData);
+    }
+
     if (itemData.type === 'fileHeader') {
       item.className = 'result-file-header' + (itemData.isCollapsed ? ' collapsed' : '');
       const arrowIcon = itemData.isCollapsed ? 'chevron_right' : 'expand_more';
@@ -4270,8 +5853,7 @@ console.log('[Rifler] Webview script starting...');
           const firstIndex = Array.isArray(itemData.matchIndexes) && itemData.matchIndexes.length > 0
             ? itemData.matchIndexes[0]
             : state.results.findIndex((r) => {
-              const path = r.relativePath || r.fileName;
-              return path === itemData.path;
+              return getResultGroupPath(r) === itemData.path;
             });
           if (firstIndex !== -1) {
             setActiveIndex(firstIndex);
@@ -4309,9 +5891,23 @@ console.log('[Rifler] Webview script starting...');
       groupContainer.style.borderLeft = '2px solid rgba(255,255,255,0.1)';
       groupContainer.style.position = 'relative';
 
-      const MATCH_HEIGHT = 28;
       const matchIndexes = itemData.matchIndexes || [];
-      const totalGroupHeight = matchIndexes.length * MATCH_HEIGHT;
+      // Rows with context lines are taller, so keep each row's offset
+      const rowTops = [];
+      let totalGroupHeight = 0;
+      matchIndexes.forEach((matchIndex) => {
+        rowTops.push(totalGroupHeight);
+        totalGroupHeight += getMatchRowHeight(state.results[matchIndex]);
+      });
+      const findRowAt = (offset) => {
+        let lo = 0;
+        let hi = rowTops.length - 1;
+        while (lo < hi) {
+          const mid = (lo + hi + 1) >> 1;
+          if (rowTops[mid] <= offset) lo = mid; else hi = mid - 1;
+        }
+        return lo;
+      };
 
       // Spacer element to maintain scrollable height
       const spacer = document.createElement('div');
@@ -4325,9 +5921,9 @@ console.log('[Rifler] Webview script starting...');
 
       function renderGroupVisible() {
         const scrollTop = groupContainer.scrollTop;
-        const containerHeight = groupContainer.clientHeight || 150;
-        const firstIdx = Math.max(0, Math.floor(scrollTop / MATCH_HEIGHT) - GROUP_OVERSCAN);
-        const lastIdx = Math.min(matchIndexes.length - 1, Math.ceil((scrollTop + containerHeight) / MATCH_HEIGHT) + GROUP_OVERSCAN);
+        const containerHeight = groupContainer.clientHeight || itemData.height || MATCHES_GROUP_HEIGHT;
+        const firstIdx = Math.max(0, findRowAt(scrollTop) - GROUP_OVERSCAN);
+        const lastIdx = Math.min(matchIndexes.length - 1, findRowAt(scrollTop + containerHeight) + GROUP_OVERSCAN);
 
         // Build set of indices that should be visible
         const wantedIndices = new Set();
@@ -4366,24 +5962,13 @@ console.log('[Rifler] Webview script starting...');
           matchEl.dataset.localIndex = String(idx);
           matchEl.title = match.relativePath || match.fileName;
           matchEl.style.position = 'absolute';
-          matchEl.style.height = MATCH_HEIGHT + 'px';
-          matchEl.style.top = (idx * MATCH_HEIGHT) + 'px';
+          matchEl.style.height = getMatchRowHeight(match) + 'px';
+          matchEl.style.top = rowTops[idx] + 'px';
           matchEl.style.left = '0';
           matchEl.style.right = '0';
           matchEl.style.width = '100%';
-          
-          const language = getLanguageFromFilename(match.fileName);
-          const previewHtml = highlightMatchSafe(
-            match.preview,
-            match.previewMatchRanges || [match.previewMatchRange],
-            language
-          );
-
-          matchEl.innerHTML = 
-            '<div class="result-meta">' +
-              '<span class="result-line-number">' + (match.line + 1) + '</span>' +
-            '</div>' +
-            '<div class="result-preview hljs">' + previewHtml + '</div>';
+
+          fillMatchRow(matchEl, match);
 
           matchEl.addEventListener('click', () => {
             // Single click selects/loads preview (no show/hide toggle)
@@ -4469,18 +6054,7 @@ console.log('[Rifler] Webview script starting...');
     item.dataset.index = String(itemData.originalIndex);
     item.title = rowResult.relativePath || rowResult.fileName;
 
-    const language = getLanguageFromFilename(rowResult.fileName);
-    const previewHtml = highlightMatchSafe(
-      rowResult.preview,
-      rowResult.previewMatchRanges || [rowResult.previewMatchRange],
-      language
-    );
-
-    item.innerHTML = 
-      '<div class="result-meta">' +
-        '<span class="result-line-number">' + (rowResult.line + 1) + '</span>' +
-      '</div>' +
-      '<div class="result-preview hljs">' + previewHtml + '</div>';
+    fillMatchRow(item, rowResult);
 
     item.addEventListener('click', () => {
       // Single click selects/loads preview (no show/hide toggle)
@@ -4507,6 +6081,81 @@ console.log('[Rifler] Webview script starting...');
     return item;
   }
 
+  function getContextLineCount(result) {
+    if (!result) return 0;
+    return (result.contextBefore ? result.contextBefore.length : 0) + (result.contextAfter ? result.contextAfter.length : 0);
+  }
+
+  function getMatchRowHeight(result) {
+    return MATCH_ROW_HEIGHT + getContextLineCount(result) * CONTEXT_LINE_HEIGHT;
+  }
+
+  /** Scrollable groups grow so that rows with context lines still fit a few at a time */
+  function getMatchesGroupHeight(matchIndexes, results) {
+    let tallest = MATCH_ROW_HEIGHT;
+    for (const index of matchIndexes) {
+      tallest = Math.max(tallest, getMatchRowHeight(results[index]));
+    }
+    return Math.max(MATCHES_GROUP_HEIGHT, Math.min(tallest * 2, MATCHES_GROUP_HEIGHT * 3));
+  }
+
+  function renderContextLines(lines, firstLineNumber) {
+    return lines.map((text, i) =>
+      '<div class="result-context-line">' +
+        '<div class="result-meta"><span class="result-line-number">' + (firstLineNumber + i) + '</span></div>' +
+        '<div class="result-preview">' + escapeHtml(text) + '</div>' +
+      '</div>'
+    ).join('');
+  }
+
+  /** "References + text" tag: found by the language server, or only by the text search */
+  function renderResultOrigin(result) {
+    if (result.origin === 'semantic') {
+      return '<span class="result-origin" title="Reference reported by the language server">lsp</span>';
+    }
+    if (result.origin === 'textual') {
+      return '<span class="result-origin textual" title="Text match only; the language server did not report it">text</span>';
+    }
+    return '';
+  }
+
+  function renderResultStale(result) {
+    return result.stale
+      ? '<span class="result-stale" title="This line no longer matches; the file changed after pinning">stale</span>'
+      : '';
+  }
+
+  /** Match line (and its dimmed context lines, when the search collected them) */
+  function fillMatchRow(el, result) {
+    const language = getLanguageFromFilename(result.fileName);
+    const previewHtml = highlightMatchSafe(
+      result.preview,
+      result.previewMatchRanges || [result.previewMatchRange],
+      language
+    );
+    const matchHtml =
+      '<div class="result-meta">' +
+        '<span class="result-line-number">' + (result.line + 1) + '</span>' +
+      '</div>' +
+      '<div class="result-preview hljs">' + previewHtml + '</div>' +
+      renderResultOrigin(result) +
+      renderResultStale(result);
+    el.classList.toggle('stale', !!result.stale);
+
+    if (getContextLineCount(result) === 0) {
+      el.innerHTML = matchHtml;
+      return;
+    }
+
+    const before = result.contextBefore || [];
+    const after = result.contextAfter || [];
+    el.classList.add('with-context');
+    el.innerHTML =
+      renderContextLines(before, result.line + 1 - before.length) +
+      '<div class="result-match-line">' + matchHtml + '</div>' +
+      renderContextLines(after, result.line + 2);
+  }
+
   function getFileIconName(fileName) {
     const ext = fileName.split('.').pop()?.toLowerCase();
     // Official VS Code Seti UI icon mappings
@@ -4768,13 +6417,52 @@ console.log('[Rifler] Webview script starting...');
     }
   }
 
-  function handleWorkspaceInfo(name, path) {
+  function handleWorkspaceInfo(name, path, folders) {
     state.workspaceName = name;
     state.workspacePath = path;
+    state.workspaceFolders = Array.isArray(folders) ? folders : [];
+    // Picking folders only makes sense with more than one of them
+    if (foldersScopeOption) {
+      foldersScopeOption.hidden = state.workspaceFolders.length < 2 && state.currentScope !== 'folders';
+    }
     // Update scope inputs in case we're in project mode
     updateScopeInputs();
   }
 
+  function renderFoldersMenu() {
+    if (!foldersMenu) return;
+    const selected = new Set(state.options.folders || []);
+    foldersMenu.innerHTML = '';
+    state.workspaceFolders.forEach((folder) => {
+      const label = document.createElement('label');
+      label.className = 'folders-menu-item';
+      label.title = folder.path;
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkbox.value = folder.path;
+      checkbox.checked = selected.has(folder.path);
+      const name = document.createElement('span');
+      name.textContent = folder.name;
+      label.appendChild(checkbox);
+      label.appendChild(name);
+      foldersMenu.appendChild(label);
+    });
+    updateFoldersSelectLabel();
+  }
+
+  function updateFoldersSelectLabel() {
+    if (!foldersSelectBtn) return;
+    const selected = state.workspaceFolders.filter((f) => (state.options.folders || []).includes(f.path));
+    if (selected.length === 0) {
+      foldersSelectBtn.textContent = 'Select folders...';
+    } else if (selected.length === 1) {
+      foldersSelectBtn.textContent = selected[0].name;
+    } else {
+      foldersSelectBtn.textContent = selected[0].name + ' +' + (selected.length - 1);
+    }
+    foldersSelectBtn.title = selected.map((f) => f.name).join(', ') || 'Workspace folders to search';
+  }
+
   function handleFileContent(message) {
     if (!message) return;
     
@@ -5215,8 +6903,11 @@ console.log('[Rifler] Webview script starting...');
   }
 
   function loadFileContent(result) {
-    // Use queryInput.value as fallback if state.currentQuery is empty
-    const query = state.currentQuery || (queryInput ? queryInput.value : '');
+    // Use queryInput.value as fallback if state.currentQuery is empty; file-name and symbol
+    // queries are fuzzy, so the preview shows the file without highlights
+    const query = state.searchMode === 'files' || state.searchMode === 'symbols'
+      ? ''
+      : (state.currentQuery || (queryInput ? queryInput.value : ''));
     
     // Ensure multiline option is set correctly based on query content
     const queryHasNewlines = query.includes('\n');
@@ -5368,7 +7059,7 @@ console.log('[Rifler] Webview script starting...');
   }
 
   function activateFirstMatchForPath(path) {
-    const idx = state.results.findIndex(r => (r.relativePath || r.fileName) === path);
+    const idx = state.results.findIndex(r => getResultGroupPath(r) === path);
     if (idx >= 0) {
       setActiveIndex(idx);
     }
@@ -5442,7 +7133,7 @@ console.log('[Rifler] Webview script starting...');
    * Find first result index for a given file path
    */
   function findFirstResultIndexInPath(path) {
-    return state.results.findIndex(r => (r.relativePath || r.fileName) === path);
+    return state.results.findIndex(r => getResultGroupPath(r) === path);
   }
 
   /**
@@ -5451,7 +7142,7 @@ console.log('[Rifler] Webview script starting...');
   function findLastResultIndexInPath(path) {
     for (let i = state.results.length - 1; i >= 0; i--) {
       const r = state.results[i];
-      if ((r.relativePath || r.fileName) === path) return i;
+      if (getResultGroupPath(r) === path) return i;
     }
     return -1;
   }
@@ -5484,6 +7175,7 @@ console.log('[Rifler] Webview script starting...');
    * - No wrap-around
    */
   function moveSelection(delta) {
+    if (state.replacePreview) return;
     const navigableItems = getNavigableItems();
     if (!navigableItems.length) return;
 